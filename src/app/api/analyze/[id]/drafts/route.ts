@@ -0,0 +1,71 @@
+/**
+ * Analysis Drafts API Route
+ *
+ * 指定した分析から派生した下書き（OptimizedContent）の一覧
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../../lib/auth';
+import { getAnalysis } from '../../../../../services/analysisRepository';
+import { listDraftsForAnalysis } from '../../../../../services/draftRepository';
+import type { AnalysisResponse, OptimizedContent } from '../../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: 分析から派生した下書き一覧（新しい順）
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    const analysis = await getAnalysis(userId, params.id);
+    if (!analysis) {
+      return errorResponse('Analysis not found', 404);
+    }
+
+    const drafts = await listDraftsForAnalysis(userId, params.id);
+
+    const response: AnalysisResponse<OptimizedContent[]> = {
+      success: true,
+      data: drafts,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Analysis drafts error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Analysis Detail API Route
+ *
+ * 保存済みバズ分析の取得・削除エンドポイント
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { deleteAnalysis, getAnalysis } from '../../../../services/analysisRepository';
+import type { AnalysisResponse, BuzzAnalysis } from '../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  console.error('Analysis detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * GET: 分析結果を1件取得
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const analysis = await getAnalysis(userId, params.id);
+
+    if (!analysis) {
+      return errorResponse('Analysis not found', 404);
+    }
+
+    const response: AnalysisResponse<BuzzAnalysis> = {
+      success: true,
+      data: analysis,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: 分析結果を削除
+ *
+ * この分析から作られた最適化コンテンツは残り、参照のみ外れる（onDelete: SetNull）。
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const deleted = await deleteAnalysis(userId, params.id);
+
+    if (!deleted) {
+      return errorResponse('Analysis not found', 404);
+    }
+
+    const response: AnalysisResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Batch Analysis Results API Route
+ *
+ * バッチ分析ジョブの結果を CSV / JSON ファイルとして書き出すエンドポイント
+ * - 失敗した行も理由とともに含める
+ * - 処理中のジョブは、その時点までの結果を書き出す（未処理の行は pending）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../../../lib/auth';
+import { getAnalysisBatchResults } from '../../../../../../services/analysisBatchRepository';
+import {
+  exportBatchResults,
+  type BatchResultFormat,
+} from '../../../../../../services/batchAnalysis';
+import type { AnalysisResponse } from '../../../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: 結果を書き出す
+ *
+ * Query Parameters:
+ * - format: "csv" | "json" (optional, default: "csv")
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  try {
+    const userId = await requireUserId();
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return errorResponse('format must be "csv" or "json"', 400);
+    }
+
+    const items = await getAnalysisBatchResults(userId, params.id);
+    if (!items) {
+      return errorResponse('Batch not found', 404);
+    }
+
+    const file = exportBatchResults(params.id, items, format as BatchResultFormat);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Batch results error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
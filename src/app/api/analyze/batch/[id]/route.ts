@@ -0,0 +1,136 @@
+/**
+ * Batch Analysis Detail API Route
+ *
+ * バッチ分析ジョブの進捗の取得・中断したジョブの再開エンドポイント
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../../lib/auth';
+import { ApiKeyError } from '../../../../../services/apiKeyRepository';
+import {
+  getAnalysisBatch,
+  type AnalysisBatchProgress,
+} from '../../../../../services/analysisBatchRepository';
+import { startBatchAnalysis } from '../../../../../services/batchAnalysis';
+import { UsageLimitError, usageLimitResponseInit } from '../../../../../services/usageRepository';
+import type { AnalysisResponse } from '../../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(
+  message: string,
+  statusCode: number,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode, headers }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof ApiKeyError) {
+    return errorResponse(error.message, 400);
+  }
+
+  if (error instanceof UsageLimitError) {
+    const { status, headers } = usageLimitResponseInit(error);
+    return errorResponse(error.message, status, headers);
+  }
+
+  console.error('Batch analysis detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * GET: ジョブの進捗（行ごとの状態・失敗理由を含む）
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const batch = await getAnalysisBatch(userId, params.id);
+
+    if (!batch) {
+      return errorResponse('Batch not found', 404);
+    }
+
+    const response: AnalysisResponse<AnalysisBatchProgress> = {
+      success: true,
+      data: batch,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST: 未処理の行の分析を再開
+ *
+ * サーバーの再起動や利用上限で止まったジョブを続きから処理する。
+ * 処理中のまま一定時間が過ぎた行も未処理に戻して再度分析する。
+ * このプロセスで既に実行中の場合は 409 を返す。
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const batch = await getAnalysisBatch(userId, params.id);
+
+    if (!batch) {
+      return errorResponse('Batch not found', 404);
+    }
+
+    if (batch.status === 'completed') {
+      return errorResponse('Batch is already completed', 409);
+    }
+
+    const started = await startBatchAnalysis(userId, batch.id);
+    if (!started) {
+      return errorResponse('Batch is already running', 409);
+    }
+
+    const response: AnalysisResponse<AnalysisBatchProgress> = {
+      success: true,
+      data: (await getAnalysisBatch(userId, batch.id)) ?? batch,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Batch Analysis API Route
+ *
+ * 競合の投稿をまとめて分析するジョブの登録エンドポイント
+ * - CSV: Content-Type: text/csv（本文にCSVをそのまま送信）
+ * - JSON: 行の配列、または { rows: [...] }
+ *
+ * 列: url, content, platform, impressions（content が空の行は url から本文を取り込む）
+ * 登録後すぐに 202 を返し、分析はバックグラウンドで進む。
+ * 進捗は GET /api/analyze/batch/[id]、結果は GET /api/analyze/batch/[id]/results で取得する。
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { ApiKeyError } from '../../../../services/apiKeyRepository';
+import {
+  createAnalysisBatch,
+  getAnalysisBatch,
+  type AnalysisBatchProgress,
+} from '../../../../services/analysisBatchRepository';
+import {
+  MAX_BATCH_ROWS,
+  normalizeBatchRows,
+  startBatchAnalysis,
+} from '../../../../services/batchAnalysis';
+import { parseCsv } from '../../../../services/metricsIngestion';
+import { UsageLimitError, usageLimitResponseInit } from '../../../../services/usageRepository';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(
+  message: string,
+  statusCode: number,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode, headers }
+  );
+}
+
+/**
+ * POST: バッチ分析ジョブを登録して開始
+ *
+ * 形式が不正な行は分析せずに failed として登録し、結果に理由を含める。
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    const contentType = request.headers.get('content-type') || '';
+    const source = contentType.includes('text/csv') ? 'csv' : 'json';
+
+    let records: unknown[];
+    if (source === 'csv') {
+      records = parseCsv(await request.text());
+    } else {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON in request body', 400);
+      }
+
+      const items = Array.isArray(body) ? body : (body as { rows?: unknown })?.rows;
+      if (!Array.isArray(items)) {
+        return errorResponse('Request body must be an array of rows or { rows: [...] }', 400);
+      }
+      records = items;
+    }
+
+    if (records.length === 0) {
+      return errorResponse('No rows to analyze', 400);
+    }
+
+    if (records.length > MAX_BATCH_ROWS) {
+      return errorResponse(`Too many rows (maximum ${MAX_BATCH_ROWS})`, 400);
+    }
+
+    const rows = normalizeBatchRows(records);
+    const batch = await createAnalysisBatch(userId, source, rows);
+
+    // 全行が不正な場合は分析するものがない
+    if (batch.pending > 0) {
+      await startBatchAnalysis(userId, batch.id);
+    }
+
+    const response: AnalysisResponse<AnalysisBatchProgress> = {
+      success: true,
+      data: (await getAnalysisBatch(userId, batch.id)) ?? batch,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    if (error instanceof ApiKeyError) {
+      return errorResponse(error.message, 400);
+    }
+
+    if (error instanceof UsageLimitError) {
+      const { status, headers } = usageLimitResponseInit(error);
+      return errorResponse(error.message, status, headers);
+    }
+
+    console.error('Batch analysis error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
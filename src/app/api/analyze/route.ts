@@ -4,25 +4,60 @@
  * バズ投稿を分析してノウハウを抽出するエンドポイント
  * - Claude claude-sonnet-4-20250514を使用
  * - 台本抽出、バズ要因分析
+ * - 分析結果をログインユーザーの履歴として保存し、フックをフックライブラリに登録
+ * - 投稿URLだけを渡した場合は本文・投稿者・反応数をURLから取り込む
+ * - Accept: text/event-stream の場合は生成中のテキストを SSE で逐次返す
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   ClaudeClient,
   ClaudeAPIError,
-  getApiKeyFromEnv,
 } from '../../../lib/claude';
-import type { Platform, AnalysisResponse, BuzzAnalysis } from '../../../types/index';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import {
+  EVENT_STREAM_HEADERS,
+  createEventStream,
+  toStreamError,
+  wantsEventStream,
+} from '../../../lib/sse';
+import { ApiKeyError, resolveClaudeApiKey } from '../../../services/apiKeyRepository';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+  usageLimitResponseInit,
+} from '../../../services/usageRepository';
+import { listAnalyses, saveAnalysis } from '../../../services/analysisRepository';
+import { collectHook } from '../../../services/hookLibraryRepository';
+import {
+  UrlIngestionError,
+  UrlIngestor,
+  applyPostMetrics,
+  parsePostUrl,
+  type IngestedPost,
+} from '../../../services/urlIngestion';
+import type {
+  Platform,
+  AnalysisResponse,
+  BuzzAnalysis,
+  PaginatedResult,
+} from '../../../types/index';
 
 /**
  * 分析リクエストボディ
  */
 interface AnalyzeRequestBody {
   url?: string;
-  content: string;
-  platform: Platform;
+  content?: string;
+  platform?: Platform;
 }
 
+/**
+ * 投稿URLの取り込み
+ */
+const urlIngestor = new UrlIngestor();
+
 /**
  * バリデーションエラーを返す
  */
@@ -51,16 +86,93 @@ function serverError(message: string, statusCode: number = 500): NextResponse {
   );
 }
 
+/**
+ * 認証エラーを返す
+ */
+function unauthorizedError(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: 401 }
+  );
+}
+
+/**
+ * 利用上限エラーを返す（予算超過は 402、呼び出し回数の超過は Retry-After 付きの 429）
+ */
+function usageLimitError(error: UsageLimitError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    usageLimitResponseInit(error)
+  );
+}
+
+/**
+ * URL取り込みエラーを返す
+ */
+function ingestionError(error: UrlIngestionError): NextResponse {
+  const statusCode =
+    error.code === 'unsupported_url'
+      ? 400
+      : error.code === 'not_found'
+        ? 404
+        : error.code === 'no_content'
+          ? 422
+          : 502;
+
+  return serverError(error.message, statusCode);
+}
+
+/**
+ * 取り込んだ投稿の投稿者・反応数を分析結果に反映
+ */
+function withIngestedPost(analysis: BuzzAnalysis, post: IngestedPost | null): BuzzAnalysis {
+  if (!post) return analysis;
+
+  return {
+    ...applyPostMetrics(analysis, post.metrics),
+    ...(post.author && { author: post.author }),
+  };
+}
+
+/**
+ * 日付クエリパラメータをパース
+ */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * POST: バズ投稿分析
  *
  * Claude claude-sonnet-4-20250514を使用して、バズ投稿の構造を分析し、
  * 台本抽出とバズ要因を特定します。
+ * 分析結果はログインユーザーの BuzzAnalysis として保存されます。
+ *
+ * Threads / Instagram / X の投稿URLを渡すと、公開ページから本文・投稿者・
+ * 表示されている反応数を取り込みます（content を省略した場合は取り込み必須）。
+ * platform を省略した場合はURLから判定します。
+ *
+ * Accept: text/event-stream を指定すると SSE で返します。
+ * - delta: { text } 生成中のテキスト
+ * - result: 保存した結果（最後のイベント）
+ * - error: { error, status } JSONが不正な場合など（最後のイベント）
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
 
   try {
+    const userId = await requireUserId();
+
     // リクエストボディのパース
     let body: AnalyzeRequestBody;
     try {
@@ -69,52 +181,106 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return validationError('Invalid JSON in request body');
     }
 
-    const { url, content, platform } = body;
+    const { url, content } = body;
 
-    // バリデーション: コンテンツ
-    if (!content || typeof content !== 'string') {
-      return validationError('Content is required and must be a string');
+    // バリデーション: URL・コンテンツ
+    if (url !== undefined && typeof url !== 'string') {
+      return validationError('url must be a string');
     }
 
-    if (content.trim().length === 0) {
-      return validationError('Content cannot be empty');
+    if (content !== undefined && typeof content !== 'string') {
+      return validationError('Content must be a string');
     }
 
-    if (content.length > 10000) {
-      return validationError('Content exceeds maximum length of 10000 characters');
+    const postUrl = url ? parsePostUrl(url) : null;
+    const hasContent = !!content && content.trim().length > 0;
+
+    if (!hasContent && !postUrl) {
+      return validationError(
+        url
+          ? 'url must be a Threads, Instagram or X (Twitter) post URL when content is omitted'
+          : 'Content is required and must be a string'
+      );
     }
 
-    // バリデーション: プラットフォーム
+    // バリデーション: プラットフォーム（省略時はURLから判定）
     const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    const platform = body.platform || postUrl?.platform;
     if (!platform || !validPlatforms.includes(platform)) {
       return validationError(
         'Valid platform is required (threads, instagram, twitter)'
       );
     }
 
-    // APIキー取得
-    const apiKey = getApiKeyFromEnv();
-    if (!apiKey) {
-      return serverError(
-        'Claude API key is not configured. Please set ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable.',
-        500
-      );
+    if (postUrl && postUrl.platform !== platform) {
+      return validationError(`url is a ${postUrl.platform} post but platform is ${platform}`);
     }
 
+    // 投稿URLの取り込み（本文があれば投稿者・反応数の補完のみで、失敗しても続行）
+    let ingested: IngestedPost | null = null;
+    if (postUrl) {
+      try {
+        ingested = await urlIngestor.ingest(postUrl.url);
+      } catch (error) {
+        if (!hasContent) throw error;
+        console.warn('URL ingestion skipped:', error);
+      }
+    }
+
+    const transcript = hasContent ? content! : (ingested?.text ?? '');
+
+    // バリデーション: コンテンツ
+    if (transcript.length > 10000) {
+      return validationError('Content exceeds maximum length of 10000 characters');
+    }
+
+    const originalUrl = postUrl?.url ?? (url || 'manual-input');
+
+    // APIキー取得（ユーザーのキー、ポリシーで許可されていればサーバーのキー）
+    const { apiKey, source } = await resolveClaudeApiKey(userId);
+
+    // 月間予算・呼び出し回数の上限チェック
+    await assertWithinUsageLimits(userId, source);
+
     // Claude APIクライアント初期化と分析実行
-    const client = new ClaudeClient({ apiKey });
-    const analysis = await client.analyzeBuzzContent(
-      url || 'manual-input',
-      content,
-      platform
-    );
+    const client = new ClaudeClient({
+      apiKey,
+      reserveUsage: createUsageReserver(userId, source),
+    });
+
+    // ストリーミング: delta を逐次送り、保存した分析結果を result として送る
+    if (wantsEventStream(request)) {
+      const stream = createEventStream<BuzzAnalysis>(async (send, signal) => {
+        try {
+          const streamed = await client.analyzeBuzzContent(originalUrl, transcript, platform, {
+            onText: (text) => send({ event: 'delta', data: { text } }),
+            onRetry: () => send({ event: 'reset', data: {} }),
+            signal,
+          });
+          const saved = await saveAnalysis(userId, withIngestedPost(streamed, ingested));
+          await collectHook(userId, saved);
+          send({ event: 'result', data: saved });
+        } catch (error) {
+          console.error('Analysis stream error:', error);
+          send({ event: 'error', data: toStreamError(error) });
+        }
+      });
+
+      return new NextResponse(stream, { status: 200, headers: EVENT_STREAM_HEADERS });
+    }
+
+    const analysis = await client.analyzeBuzzContent(originalUrl, transcript, platform);
+
+    // 分析結果を保存（IDは保存したレコードのものになる）
+    const savedAnalysis = await saveAnalysis(userId, withIngestedPost(analysis, ingested));
+    await collectHook(userId, savedAnalysis);
 
     const processingTime = Date.now() - startTime;
 
     // 成功レスポンス
     const response: AnalysisResponse<BuzzAnalysis> = {
       success: true,
-      data: analysis,
+      data: savedAnalysis,
       processingTime,
     };
 
@@ -123,6 +289,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const processingTime = Date.now() - startTime;
     console.error('Analysis error:', error);
 
+    if (error instanceof AuthenticationError) {
+      return unauthorizedError(error.message);
+    }
+
+    if (error instanceof ApiKeyError) {
+      return serverError(error.message, 400);
+    }
+
+    if (error instanceof UsageLimitError) {
+      return usageLimitError(error);
+    }
+
+    if (error instanceof UrlIngestionError) {
+      return ingestionError(error);
+    }
+
     // ClaudeAPIErrorの処理
     if (error instanceof ClaudeAPIError) {
       const statusCode =
@@ -168,36 +350,68 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 }
 
 /**
- * GET: API情報
+ * GET: 分析履歴の一覧
+ *
+ * Query Parameters:
+ * - platform: Platform (optional) - プラットフォームで絞り込み
+ * - from: ISO date (optional) - この日時以降の分析
+ * - to: ISO date (optional) - この日時以前の分析
+ * - page: number (optional, default: 1)
+ * - limit: number (optional, default: 20, max: 100)
  */
-export async function GET(): Promise<NextResponse> {
-  return NextResponse.json(
-    {
-      message: 'Content Analyze API',
-      version: '2.0',
-      model: 'claude-sonnet-4-20250514',
-      usage: {
-        method: 'POST',
-        body: {
-          url: 'string (optional) - Original post URL',
-          content: 'string (required) - Post content to analyze',
-          platform: '"threads" | "instagram" | "twitter" (required)',
-        },
-        response: {
-          success: 'boolean',
-          data: 'BuzzAnalysis object on success',
-          error: 'string on failure',
-          processingTime: 'number (milliseconds)',
-        },
-      },
-      features: [
-        'Transcript extraction',
-        'Buzz factor analysis',
-        'Content structure analysis',
-        'Emotional trigger detection',
-        'Rate limiting support',
-      ],
-    },
-    { status: 200 }
-  );
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const platform = searchParams.get('platform');
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (platform && !validPlatforms.includes(platform as Platform)) {
+      return validationError(
+        'Invalid platform. Valid values: threads, instagram, twitter'
+      );
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return validationError('from and to must be valid ISO dates');
+    }
+
+    const pageParam = searchParams.get('page');
+    const limitParam = searchParams.get('limit');
+    const page = pageParam ? parseInt(pageParam, 10) : undefined;
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if ((page !== undefined && isNaN(page)) || (limit !== undefined && isNaN(limit))) {
+      return validationError('page and limit must be numbers');
+    }
+
+    const result = await listAnalyses(userId, {
+      platform: (platform as Platform) || undefined,
+      from,
+      to,
+      page,
+      limit,
+    });
+
+    const response: AnalysisResponse<PaginatedResult<BuzzAnalysis>> = {
+      success: true,
+      data: result,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Analysis history error:', error);
+
+    if (error instanceof AuthenticationError) {
+      return unauthorizedError(error.message);
+    }
+
+    return serverError(
+      error instanceof Error ? error.message : 'An unexpected error occurred'
+    );
+  }
 }
@@ -0,0 +1,78 @@
+/**
+ * Draft Export API Route
+ *
+ * 保存済み下書きを Markdown / JSON ファイルとして書き出すエンドポイント
+ * - Instagram のカルーセルのスライド構成・リールの台本をデザイナーに渡す用途
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../../lib/auth';
+import { exportDraft, isDraftExportFormat } from '../../../../../lib/draftExport';
+import { getDraft } from '../../../../../services/draftRepository';
+import type { AnalysisResponse } from '../../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: 下書きを書き出す
+ *
+ * Query Parameters:
+ * - format: "markdown" | "json" (optional, default: "markdown")
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  try {
+    const userId = await requireUserId();
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'markdown';
+    if (!isDraftExportFormat(format)) {
+      return errorResponse('format must be "markdown" or "json"', 400);
+    }
+
+    const draft = await getDraft(userId, params.id);
+    if (!draft) {
+      return errorResponse('Draft not found', 404);
+    }
+
+    const file = exportDraft(draft, format);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Draft export error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
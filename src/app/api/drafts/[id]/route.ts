@@ -0,0 +1,206 @@
+/**
+ * Draft Detail API Route
+ *
+ * 保存済み下書きの取得・編集・削除エンドポイント
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { MAX_THREAD_SEGMENTS, MIN_THREAD_SEGMENTS } from '../../../../lib/threadSegments';
+import {
+  deleteDraft,
+  getDraft,
+  updateDraft,
+  type DraftUpdate,
+} from '../../../../services/draftRepository';
+import type { AnalysisResponse, OptimizedContent } from '../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  console.error('Draft detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 編集リクエストのバリデーション
+ */
+function parseDraftUpdate(body: unknown): DraftUpdate | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { content, segments, hashtags } = body as Record<string, unknown>;
+  const update: DraftUpdate = {};
+
+  if (content !== undefined && segments !== undefined) {
+    return 'Provide either content or segments, not both';
+  }
+
+  if (content !== undefined) {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return 'content must be a non-empty string';
+    }
+    update.content = content;
+  }
+
+  if (segments !== undefined) {
+    if (
+      !Array.isArray(segments) ||
+      segments.length < MIN_THREAD_SEGMENTS ||
+      segments.length > MAX_THREAD_SEGMENTS ||
+      segments.some((segment) => typeof segment !== 'string' || segment.trim().length === 0)
+    ) {
+      return `segments must be an array of ${MIN_THREAD_SEGMENTS}-${MAX_THREAD_SEGMENTS} non-empty strings`;
+    }
+    update.segments = segments.map((segment: string) => segment.trim());
+  }
+
+  if (hashtags !== undefined) {
+    if (!Array.isArray(hashtags) || hashtags.some((tag) => typeof tag !== 'string')) {
+      return 'hashtags must be an array of strings';
+    }
+    update.hashtags = hashtags.map((tag: string) => tag.replace(/^#/, '').trim()).filter(Boolean);
+  }
+
+  if (
+    update.content === undefined &&
+    update.segments === undefined &&
+    update.hashtags === undefined
+  ) {
+    return 'Nothing to update: provide content (or segments) and/or hashtags';
+  }
+
+  return update;
+}
+
+/**
+ * GET: 下書きを1件取得
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const draft = await getDraft(userId, params.id);
+
+    if (!draft) {
+      return errorResponse('Draft not found', 404);
+    }
+
+    const response: AnalysisResponse<OptimizedContent> = {
+      success: true,
+      data: draft,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PATCH: 下書きの本文・ハッシュタグを編集
+ *
+ * スレッド形式の下書きは segments（番号付けを含む各投稿）で編集する。
+ * content を指定すると単一の投稿に戻る。
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const update = parseDraftUpdate(body);
+    if (typeof update === 'string') {
+      return errorResponse(update, 400);
+    }
+
+    const draft = await updateDraft(userId, params.id, update);
+    if (!draft) {
+      return errorResponse('Draft not found', 404);
+    }
+
+    const response: AnalysisResponse<OptimizedContent> = {
+      success: true,
+      data: draft,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: 下書きを削除
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const deleted = await deleteDraft(userId, params.id);
+
+    if (!deleted) {
+      return errorResponse('Draft not found', 404);
+    }
+
+    const response: AnalysisResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Drafts API Route
+ *
+ * 保存済みの最適化コンテンツ（下書き）ライブラリ
+ * - ユーザーごとの下書き一覧
+ * - 元の分析からの派生関係（analysisId）での絞り込み
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import { listDrafts } from '../../../services/draftRepository';
+import type {
+  AnalysisResponse,
+  OptimizedContent,
+  PaginatedResult,
+  Platform,
+  PostMode,
+} from '../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: 下書き一覧
+ *
+ * Query Parameters:
+ * - platform: Platform (optional) - 投稿先プラットフォームで絞り込み
+ * - mode: PostMode (optional) - 投稿モードで絞り込み
+ * - analysisId: string (optional) - この分析から派生した下書きのみ
+ * - page: number (optional, default: 1)
+ * - limit: number (optional, default: 20, max: 100)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const platform = searchParams.get('platform');
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (platform && !validPlatforms.includes(platform as Platform)) {
+      return errorResponse(
+        'Invalid platform. Valid values: threads, instagram, twitter',
+        400
+      );
+    }
+
+    const mode = searchParams.get('mode');
+    if (mode && mode !== 'impression' && mode !== 'expression') {
+      return errorResponse('Invalid mode. Valid values: impression, expression', 400);
+    }
+
+    const pageParam = searchParams.get('page');
+    const limitParam = searchParams.get('limit');
+    const page = pageParam ? parseInt(pageParam, 10) : undefined;
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if ((page !== undefined && isNaN(page)) || (limit !== undefined && isNaN(limit))) {
+      return errorResponse('page and limit must be numbers', 400);
+    }
+
+    const result = await listDrafts(userId, {
+      platform: (platform as Platform) || undefined,
+      mode: (mode as PostMode) || undefined,
+      analysisId: searchParams.get('analysisId') || undefined,
+      page,
+      limit,
+    });
+
+    const response: AnalysisResponse<PaginatedResult<OptimizedContent>> = {
+      success: true,
+      data: result,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Draft list error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
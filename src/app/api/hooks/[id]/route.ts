@@ -0,0 +1,179 @@
+/**
+ * Hook Detail API Route
+ *
+ * フックライブラリのフックの取得・タグ付け・削除エンドポイント
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import {
+  MAX_HOOK_TAGS,
+  MAX_HOOK_TAG_LENGTH,
+  normalizeHookTags,
+  type HookLibraryEntry,
+} from '../../../../lib/hookLibrary';
+import {
+  deleteHook,
+  getHook,
+  updateHookTags,
+} from '../../../../services/hookLibraryRepository';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  console.error('Hook detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * タグ編集リクエストのバリデーション
+ */
+function parseTags(body: unknown): string[] | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { tags } = body as Record<string, unknown>;
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+    return 'tags must be an array of strings';
+  }
+
+  const normalized = normalizeHookTags(tags);
+  if (normalized.length > MAX_HOOK_TAGS) {
+    return `A hook can have at most ${MAX_HOOK_TAGS} tags`;
+  }
+  if (normalized.some((tag) => tag.length > MAX_HOOK_TAG_LENGTH)) {
+    return `Each tag must be at most ${MAX_HOOK_TAG_LENGTH} characters`;
+  }
+
+  return normalized;
+}
+
+/**
+ * GET: フックを1件取得
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const hook = await getHook(userId, params.id);
+
+    if (!hook) {
+      return errorResponse('Hook not found', 404);
+    }
+
+    const response: AnalysisResponse<HookLibraryEntry> = {
+      success: true,
+      data: hook,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PATCH: タグを置き換える（{ "tags": ["副業", "数字"] }）
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const tags = parseTags(body);
+    if (typeof tags === 'string') {
+      return errorResponse(tags, 400);
+    }
+
+    const hook = await updateHookTags(userId, params.id, tags);
+    if (!hook) {
+      return errorResponse('Hook not found', 404);
+    }
+
+    const response: AnalysisResponse<HookLibraryEntry> = {
+      success: true,
+      data: hook,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: フックを削除
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const deleted = await deleteHook(userId, params.id);
+
+    if (!deleted) {
+      return errorResponse('Hook not found', 404);
+    }
+
+    const response: AnalysisResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Hook Library API Route
+ *
+ * 分析したバズ投稿から集めたフックの検索エンドポイント
+ * - フックは /api/analyze・バッチ分析で分析を保存するたびに登録される（類似のフックはまとめる）
+ * - キーワード・タグ・プラットフォームで絞り込み、エンゲージメントなどで並べ替える
+ * - 選んだフックは /api/optimize の hookId で最適化の冒頭に使える
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import { HOOK_SORTS, type HookLibraryEntry, type HookSort } from '../../../lib/hookLibrary';
+import { listHooks } from '../../../services/hookLibraryRepository';
+import type { AnalysisResponse, PaginatedResult, Platform } from '../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: フックを検索
+ *
+ * Query Parameters:
+ * - q: フック・タグ・感情トリガーに含まれる文字列 (optional)
+ * - platform: "threads" | "instagram" | "twitter" (optional)
+ * - tag: タグ (optional)
+ * - sort: "engagement" | "impressions" | "usage" | "recent" (optional, default: "engagement")
+ * - page / limit (optional)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const platform = searchParams.get('platform');
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (platform && !validPlatforms.includes(platform as Platform)) {
+      return errorResponse('Invalid platform. Valid values: threads, instagram, twitter', 400);
+    }
+
+    const sort = searchParams.get('sort');
+    if (sort && !HOOK_SORTS.includes(sort as HookSort)) {
+      return errorResponse(`Invalid sort. Valid values: ${HOOK_SORTS.join(', ')}`, 400);
+    }
+
+    const pageParam = searchParams.get('page');
+    const limitParam = searchParams.get('limit');
+    const page = pageParam ? parseInt(pageParam, 10) : undefined;
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if ((page !== undefined && isNaN(page)) || (limit !== undefined && isNaN(limit))) {
+      return errorResponse('page and limit must be numbers', 400);
+    }
+
+    const result = await listHooks(userId, {
+      q: searchParams.get('q') || undefined,
+      platform: (platform as Platform) || undefined,
+      tag: searchParams.get('tag')?.replace(/^#/, '').trim() || undefined,
+      sort: (sort as HookSort) || undefined,
+      page,
+      limit,
+    });
+
+    const response: AnalysisResponse<PaginatedResult<HookLibraryEntry>> = {
+      success: true,
+      data: result,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Hook library error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
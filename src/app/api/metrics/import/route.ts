@@ -0,0 +1,119 @@
+/**
+ * Metrics Import API Route
+ *
+ * 各SNSのアナリティクスからエクスポートした実績データのインポート
+ * - CSV: Content-Type: text/csv（本文にCSVをそのまま送信）
+ * - JSON: レコードの配列、または { records: [...] }
+ *
+ * 取り込んだ実績は /api/score のスコア計算に使用される。
+ * インポート後のスコアはその日のスナップショットとして保存される（/api/score/history）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import {
+  MAX_IMPORT_ROWS,
+  normalizeRecords,
+  parseCsv,
+  type ImportRowError,
+} from '../../../../services/metricsIngestion';
+import { saveEvents } from '../../../../services/metricsRepository';
+import { recordImportedScore } from '../../../../services/scoreHistoryRepository';
+import type { AnalysisResponse, Platform } from '../../../../types/index';
+
+/**
+ * インポート結果
+ */
+interface MetricsImportResult {
+  platform: Platform;
+  rows: number;
+  imported: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * POST: 実績データをインポート
+ *
+ * Query Parameters:
+ * - platform: Platform (required) - エクスポート元のプラットフォーム
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    const platform = request.nextUrl.searchParams.get('platform') as Platform | null;
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (!platform || !validPlatforms.includes(platform)) {
+      return errorResponse('Valid platform is required (threads, instagram, twitter)', 400);
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    const source = contentType.includes('text/csv') ? 'csv' : 'json';
+
+    let records: Record<string, unknown>[];
+    if (source === 'csv') {
+      records = parseCsv(await request.text());
+    } else {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON in request body', 400);
+      }
+
+      const items = Array.isArray(body) ? body : (body as { records?: unknown })?.records;
+      if (!Array.isArray(items)) {
+        return errorResponse('Request body must be an array of records or { records: [...] }', 400);
+      }
+      records = items;
+    }
+
+    if (records.length === 0) {
+      return errorResponse('No records to import', 400);
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      return errorResponse(`Too many rows (maximum ${MAX_IMPORT_ROWS})`, 400);
+    }
+
+    const { events, errors } = normalizeRecords(platform, records);
+    const imported = await saveEvents(userId, events, source);
+    if (imported > 0) {
+      await recordImportedScore(userId, platform);
+    }
+
+    const response: AnalysisResponse<MetricsImportResult> = {
+      success: true,
+      data: { platform, rows: records.length, imported, errors },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Metrics import error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
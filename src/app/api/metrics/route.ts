@@ -0,0 +1,72 @@
+/**
+ * Metrics API Route
+ *
+ * インポート済みの実績から集計した週次の行動データ（UserBehaviorData）を返す
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import { buildBehaviorData, type BehaviorMetrics } from '../../../services/metricsRepository';
+import type { AnalysisResponse, Platform } from '../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * GET: 週次の行動データ
+ *
+ * Query Parameters:
+ * - platform: Platform (required)
+ * - weekEnd: ISO date string (optional, default: 現在) - 集計期間の終端
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const platform = searchParams.get('platform') as Platform | null;
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (!platform || !validPlatforms.includes(platform)) {
+      return errorResponse('Valid platform is required (threads, instagram, twitter)', 400);
+    }
+
+    const weekEndParam = searchParams.get('weekEnd');
+    const weekEnd = weekEndParam ? new Date(weekEndParam) : new Date();
+    if (isNaN(weekEnd.getTime())) {
+      return errorResponse('weekEnd must be a valid date', 400);
+    }
+
+    const metrics = await buildBehaviorData(userId, platform, weekEnd);
+
+    const response: AnalysisResponse<BehaviorMetrics> = {
+      success: true,
+      data: metrics,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Metrics fetch error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
@@ -4,17 +4,45 @@
  * ガッチャンコ機能: バズノウハウ x プラットフォーム最適化
  * - Claude claude-sonnet-4-20250514を使用
  * - プラットフォーム別の言い回し最適化
+ * - ユーザーのプラットフォームルールの上書き（/api/settings/platform-rules）を適用
+ * - ブランドボイス（/api/settings/brand-voice）があれば合わせて生成し、voice match を採点
+ * - format: "thread" の場合はスレッド形式（複数の投稿）で生成（X / Threads のみ）
+ * - format: "carousel" / "reels" の場合はスライド構成・リールの台本とキャプションを生成（Instagram のみ）
+ * - hookId を指定するとフックライブラリ（/api/hooks）のフックを冒頭に置く
+ * - 最適化結果をログインユーザーの下書きとして保存
+ * - Accept: text/event-stream の場合は生成中のテキストを SSE で逐次返す
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   ClaudeClient,
   ClaudeAPIError,
-  getApiKeyFromEnv,
+  type StreamOptions,
 } from '../../../lib/claude';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import { THREAD_PLATFORMS, supportsThread } from '../../../lib/threadSegments';
+import { isInstagramVisualFormat, supportsVisualPlan } from '../../../lib/visualPlan';
+import {
+  EVENT_STREAM_HEADERS,
+  createEventStream,
+  toStreamError,
+  wantsEventStream,
+} from '../../../lib/sse';
+import { ApiKeyError, resolveClaudeApiKey } from '../../../services/apiKeyRepository';
+import { getBrandVoice } from '../../../services/brandVoiceRepository';
+import { getHook, recordHookUsage } from '../../../services/hookLibraryRepository';
+import { getRuleOverrides } from '../../../services/platformRuleRepository';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+  usageLimitResponseInit,
+} from '../../../services/usageRepository';
+import { saveDraft } from '../../../services/draftRepository';
 import type {
   Platform,
   BuzzAnalysis,
+  ContentFormat,
   PostMode,
   OptimizedContent,
   AnalysisResponse,
@@ -27,6 +55,9 @@ interface OptimizeRequestBody {
   analysis: BuzzAnalysis;
   targetPlatform: Platform;
   mode?: PostMode;
+  format?: ContentFormat;
+  numbering?: boolean;
+  hookId?: string;
 }
 
 /**
@@ -57,6 +88,34 @@ function serverError(message: string, statusCode: number = 500): NextResponse {
   );
 }
 
+/**
+ * 認証エラーを返す
+ */
+function unauthorizedError(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: 401 }
+  );
+}
+
+/**
+ * 利用上限エラーを返す（予算超過は 402、呼び出し回数の超過は Retry-After 付きの 429）
+ */
+function usageLimitError(error: UsageLimitError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    usageLimitResponseInit(error)
+  );
+}
+
 /**
  * BuzzAnalysisのバリデーション
  */
@@ -98,11 +157,19 @@ function validateAnalysis(analysis: unknown): analysis is BuzzAnalysis {
  *
  * バズ分析結果をターゲットプラットフォーム向けに最適化します。
  * Claude claude-sonnet-4-20250514を使用して、プラットフォーム固有の言い回しに変換。
+ * 結果は元の分析に紐づく OptimizedContent として保存されます。
+ *
+ * Accept: text/event-stream を指定すると SSE で返します。
+ * - delta: { text } 生成中のテキスト
+ * - result: 保存した結果（最後のイベント）
+ * - error: { error, status } JSONが不正な場合など（最後のイベント）
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
 
   try {
+    const userId = await requireUserId();
+
     // リクエストボディのパース
     let body: OptimizeRequestBody;
     try {
@@ -111,7 +178,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return validationError('Invalid JSON in request body');
     }
 
-    const { analysis, targetPlatform, mode } = body;
+    const { analysis, targetPlatform, mode, format, numbering, hookId } = body;
 
     // バリデーション: 分析データ
     if (!validateAnalysis(analysis)) {
@@ -128,33 +195,108 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // バリデーション: 出力形式
+    const validFormats: ContentFormat[] = ['single', 'thread', 'carousel', 'reels'];
+    if (format !== undefined && !validFormats.includes(format)) {
+      return validationError('format must be "single", "thread", "carousel" or "reels"');
+    }
+
+    if (format === 'thread' && !supportsThread(targetPlatform)) {
+      return validationError(
+        `Thread format is only available for ${THREAD_PLATFORMS.join(', ')}`
+      );
+    }
+
+    if (isInstagramVisualFormat(format) && !supportsVisualPlan(targetPlatform)) {
+      return validationError(`${format} format is only available for instagram`);
+    }
+
+    if (numbering !== undefined && typeof numbering !== 'boolean') {
+      return validationError('numbering must be a boolean');
+    }
+
+    if (hookId !== undefined && (typeof hookId !== 'string' || hookId.length === 0)) {
+      return validationError('hookId must be a non-empty string');
+    }
+
+    // 冒頭に置くフック（フックライブラリから選んだもの）
+    const openingHook = hookId ? await getHook(userId, hookId) : null;
+    if (hookId && !openingHook) {
+      return serverError('Hook not found', 404);
+    }
+
     // モードのデフォルト値設定
     const validMode: PostMode =
       mode === 'expression' ? 'expression' : 'impression';
 
-    // APIキー取得
-    const apiKey = getApiKeyFromEnv();
-    if (!apiKey) {
-      return serverError(
-        'Claude API key is not configured. Please set ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable.',
-        500
-      );
-    }
+    // APIキー取得（ユーザーのキー、ポリシーで許可されていればサーバーのキー）
+    const { apiKey, source } = await resolveClaudeApiKey(userId);
+
+    // 月間予算・呼び出し回数の上限チェック
+    await assertWithinUsageLimits(userId, source);
 
     // Claude APIクライアント初期化と最適化実行
-    const client = new ClaudeClient({ apiKey });
-    const optimizedContent = await client.optimizeForPlatform(
-      analysis,
-      targetPlatform,
-      validMode
-    );
+    const [ruleOverrides, voiceProfile] = await Promise.all([
+      getRuleOverrides(userId),
+      getBrandVoice(userId),
+    ]);
+    const client = new ClaudeClient({
+      apiKey,
+      reserveUsage: createUsageReserver(userId, source),
+      ruleOverrides,
+      voiceProfile: voiceProfile ?? undefined,
+      openingHook: openingHook?.text,
+    });
+
+    // 下書きとして保存し、使ったフックの利用回数を記録
+    const save = async (content: OptimizedContent) => {
+      const draft = await saveDraft(userId, content);
+      if (openingHook) {
+        await recordHookUsage(userId, openingHook.id);
+      }
+      return draft;
+    };
+
+    const optimize = (stream?: StreamOptions) => {
+      if (format === 'thread') {
+        return client.optimizeThread(analysis, targetPlatform, validMode, { numbering }, stream);
+      }
+      if (isInstagramVisualFormat(format)) {
+        return client.optimizeVisualPlan(analysis, targetPlatform, format, validMode, stream);
+      }
+      return client.optimizeForPlatform(analysis, targetPlatform, validMode, stream);
+    };
+
+    // ストリーミング: delta を逐次送り、保存した下書きを result として送る
+    if (wantsEventStream(request)) {
+      const stream = createEventStream<OptimizedContent>(async (send, signal) => {
+        try {
+          const streamed = await optimize({
+            onText: (text) => send({ event: 'delta', data: { text } }),
+            onRetry: () => send({ event: 'reset', data: {} }),
+            signal,
+          });
+          send({ event: 'result', data: await save(streamed) });
+        } catch (error) {
+          console.error('Optimization stream error:', error);
+          send({ event: 'error', data: toStreamError(error) });
+        }
+      });
+
+      return new NextResponse(stream, { status: 200, headers: EVENT_STREAM_HEADERS });
+    }
+
+    const optimizedContent = await optimize();
+
+    // 下書きとして保存（IDは保存したレコードのものになる）
+    const savedDraft = await save(optimizedContent);
 
     const processingTime = Date.now() - startTime;
 
     // 成功レスポンス
     const response: AnalysisResponse<OptimizedContent> = {
       success: true,
-      data: optimizedContent,
+      data: savedDraft,
       processingTime,
     };
 
@@ -163,6 +305,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const processingTime = Date.now() - startTime;
     console.error('Optimization error:', error);
 
+    if (error instanceof AuthenticationError) {
+      return unauthorizedError(error.message);
+    }
+
+    if (error instanceof ApiKeyError) {
+      return serverError(error.message, 400);
+    }
+
+    if (error instanceof UsageLimitError) {
+      return usageLimitError(error);
+    }
+
     // ClaudeAPIErrorの処理
     if (error instanceof ClaudeAPIError) {
       const statusCode =
@@ -224,6 +378,11 @@ export async function GET(): Promise<NextResponse> {
           analysis: 'BuzzAnalysis object (required) - Result from /api/analyze',
           targetPlatform: '"threads" | "instagram" | "twitter" (required)',
           mode: '"impression" | "expression" (optional, default: "impression")',
+          format:
+            '"single" | "thread" | "carousel" | "reels" (optional, default: "single") - thread is available for twitter and threads, carousel and reels for instagram',
+          numbering: 'boolean (optional, default: true) - append "1/5" to each thread post',
+          hookId:
+            'string (optional) - hook library entry (see /api/hooks) to use as the opening of the content',
         },
         response: {
           success: 'boolean',
@@ -231,6 +390,8 @@ export async function GET(): Promise<NextResponse> {
           error: 'string on failure',
           processingTime: 'number (milliseconds)',
         },
+        streaming:
+          'Send "Accept: text/event-stream" to receive delta events followed by a result or error event',
       },
       modes: {
         impression:
@@ -242,7 +403,13 @@ export async function GET(): Promise<NextResponse> {
         'Platform-specific optimization',
         'Hashtag generation',
         'Best post time calculation',
+        'Per-user platform rule overrides (see /api/settings/platform-rules)',
+        'Brand voice matching with voiceMatchScore (see /api/settings/brand-voice)',
+        'Opening hooks from the hook library (see /api/hooks)',
+        'Multi-part thread output (segments) for X and Threads',
+        'Instagram carousel outlines and Reels scripts (visualPlan), exportable via /api/drafts/{id}/export',
         'Impression prediction',
+        'Draft persistence (see /api/drafts)',
         'Rate limiting support',
       ],
     },
@@ -0,0 +1,186 @@
+/**
+ * Prompt Evaluation Route
+ *
+ * プロンプトテンプレートの2つのバージョンを保存済みのバズ分析で A/B 比較する
+ * - analysis: 保存済み分析の本文を両方のバージョンで再分析
+ * - optimization: 保存済み分析を両方のバージョンで最適化
+ * - 生成ごとに Claude API を呼び出すため、利用量と月間予算の対象になる
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClaudeClient } from '../../../../lib/claude';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { ApiKeyError, resolveClaudeApiKey } from '../../../../services/apiKeyRepository';
+import { getBrandVoice } from '../../../../services/brandVoiceRepository';
+import { getRuleOverrides } from '../../../../services/platformRuleRepository';
+import {
+  MAX_EVALUATION_SAMPLES,
+  PromptEvaluationError,
+  evaluatePromptVersions,
+  isEvaluableTemplate,
+  type PromptEvaluationReport,
+  type PromptEvaluationRequest,
+} from '../../../../services/promptEvaluation';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+  usageLimitResponseInit,
+} from '../../../../services/usageRepository';
+import type { AnalysisResponse, Platform, PostMode } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(
+  message: string,
+  statusCode: number,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode, headers }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof ApiKeyError) {
+    return errorResponse(error.message, 400);
+  }
+
+  if (error instanceof UsageLimitError) {
+    const { status, headers } = usageLimitResponseInit(error);
+    return errorResponse(error.message, status, headers);
+  }
+
+  if (error instanceof PromptEvaluationError) {
+    return errorResponse(error.message, error.code === 'no_samples' ? 404 : 400);
+  }
+
+  console.error('Prompt evaluation error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * リクエストボディを検証
+ */
+function parseEvaluationRequest(body: unknown): PromptEvaluationRequest | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const b = body as Record<string, unknown>;
+
+  if (!isEvaluableTemplate(b.templateId)) {
+    return 'templateId must be "analysis" or "optimization"';
+  }
+
+  for (const key of ['baselineVersion', 'candidateVersion'] as const) {
+    if (!Number.isInteger(b[key]) || (b[key] as number) < 1) {
+      return `${key} must be a positive integer`;
+    }
+  }
+
+  if (b.baselineVersion === b.candidateVersion) {
+    return 'baselineVersion and candidateVersion must be different';
+  }
+
+  if (
+    b.analysisIds !== undefined &&
+    (!Array.isArray(b.analysisIds) ||
+      b.analysisIds.length === 0 ||
+      b.analysisIds.length > MAX_EVALUATION_SAMPLES ||
+      !b.analysisIds.every((id) => typeof id === 'string'))
+  ) {
+    return `analysisIds must be an array of 1-${MAX_EVALUATION_SAMPLES} analysis IDs`;
+  }
+
+  if (
+    b.limit !== undefined &&
+    (!Number.isInteger(b.limit) || (b.limit as number) < 1 || (b.limit as number) > MAX_EVALUATION_SAMPLES)
+  ) {
+    return `limit must be between 1 and ${MAX_EVALUATION_SAMPLES}`;
+  }
+
+  if (
+    b.targetPlatform !== undefined &&
+    !['threads', 'instagram', 'twitter'].includes(b.targetPlatform as string)
+  ) {
+    return 'targetPlatform must be one of threads, instagram, twitter';
+  }
+
+  if (b.mode !== undefined && b.mode !== 'impression' && b.mode !== 'expression') {
+    return 'mode must be "impression" or "expression"';
+  }
+
+  return {
+    templateId: b.templateId,
+    baselineVersion: b.baselineVersion as number,
+    candidateVersion: b.candidateVersion as number,
+    analysisIds: b.analysisIds as string[] | undefined,
+    limit: b.limit as number | undefined,
+    targetPlatform: b.targetPlatform as Platform | undefined,
+    mode: b.mode as PostMode | undefined,
+  };
+}
+
+/**
+ * POST: 2つのバージョンを比較
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const evaluationRequest = parseEvaluationRequest(body);
+    if (typeof evaluationRequest === 'string') {
+      return errorResponse(evaluationRequest, 400);
+    }
+
+    const { apiKey, source } = await resolveClaudeApiKey(userId);
+    await assertWithinUsageLimits(userId, source);
+    // 評価は複数回呼び出すため、利用上限は ClaudeClient が呼び出しごとに確認する
+    const reserveUsage = createUsageReserver(userId, source);
+    const ruleOverrides = await getRuleOverrides(userId);
+    const voiceProfile = (await getBrandVoice(userId)) ?? undefined;
+
+    const report = await evaluatePromptVersions(
+      userId,
+      evaluationRequest,
+      (promptVersions) =>
+        new ClaudeClient({ apiKey, reserveUsage, promptVersions, ruleOverrides, voiceProfile })
+    );
+
+    const response: AnalysisResponse<PromptEvaluationReport> = {
+      success: true,
+      data: report,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Prompts Route
+ *
+ * 登録済みのプロンプトテンプレートの一覧
+ * - テンプレートごとのバージョンと、通常使うバージョン（active）
+ * - バージョンの比較は /api/prompts/evaluate
+ */
+
+import { NextResponse } from 'next/server';
+import { ACTIVE_PROMPT_VERSIONS, PROMPT_TEMPLATES } from '../../../lib/promptTemplates';
+import type { AnalysisResponse } from '../../../types/index';
+
+/**
+ * 一覧に返すテンプレートの情報
+ */
+interface PromptTemplateSummary {
+  id: string;
+  version: number;
+  ref: string;
+  description: string;
+  variables: readonly string[];
+  active: boolean;
+}
+
+/**
+ * GET: テンプレートの一覧
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  const templates: PromptTemplateSummary[] = PROMPT_TEMPLATES.map((template) => ({
+    id: template.id,
+    version: template.version,
+    ref: `${template.id}@${template.version}`,
+    description: template.description,
+    variables: template.variables,
+    active: ACTIVE_PROMPT_VERSIONS[template.id] === template.version,
+  }));
+
+  const response: AnalysisResponse<PromptTemplateSummary[]> = {
+    success: true,
+    data: templates,
+    processingTime: Date.now() - startTime,
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
@@ -0,0 +1,191 @@
+/**
+ * Schedule Detail API Route
+ *
+ * 投稿スケジュールの取得・編集（日時変更・キャンセル）・削除
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import {
+  deleteSchedule,
+  getSchedule,
+  updateSchedule,
+  ScheduleError,
+  type ScheduleUpdateInput,
+} from '../../../../services/scheduleRepository';
+import type { AnalysisResponse, PostSchedule } from '../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof ScheduleError) {
+    return errorResponse(error.message, error.code === 'not_editable' ? 409 : 404);
+  }
+
+  console.error('Schedule detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 編集リクエストのバリデーション
+ */
+function parseScheduleUpdate(body: unknown): ScheduleUpdateInput | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { scheduledAt, mode, status } = body as Record<string, unknown>;
+  const update: ScheduleUpdateInput = {};
+
+  if (scheduledAt !== undefined) {
+    const date = typeof scheduledAt === 'string' ? new Date(scheduledAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      return 'scheduledAt must be a valid ISO date';
+    }
+    if (date.getTime() <= Date.now()) {
+      return 'scheduledAt must be in the future';
+    }
+    update.scheduledAt = date;
+  }
+
+  if (mode !== undefined) {
+    if (mode !== 'impression' && mode !== 'expression') {
+      return 'Invalid mode. Valid values: impression, expression';
+    }
+    update.mode = mode;
+  }
+
+  if (status !== undefined) {
+    if (status !== 'cancelled') {
+      return 'status can only be set to "cancelled"';
+    }
+    update.status = status;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return 'Nothing to update: provide scheduledAt, mode and/or status';
+  }
+
+  return update;
+}
+
+/**
+ * GET: スケジュールを1件取得
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const schedule = await getSchedule(userId, params.id);
+
+    if (!schedule) {
+      return errorResponse('Schedule not found', 404);
+    }
+
+    const response: AnalysisResponse<PostSchedule> = {
+      success: true,
+      data: schedule,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PATCH: スケジュールを編集（pending のもののみ）
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const update = parseScheduleUpdate(body);
+    if (typeof update === 'string') {
+      return errorResponse(update, 400);
+    }
+
+    const schedule = await updateSchedule(userId, params.id, update);
+
+    const response: AnalysisResponse<PostSchedule> = {
+      success: true,
+      data: schedule,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: スケジュールを削除
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    await deleteSchedule(userId, params.id);
+
+    const response: AnalysisResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Schedule Dispatch API Route
+ *
+ * 期限が来た投稿スケジュールを1バッチ処理するエンドポイント
+ * Vercel Cron などの外部スケジューラーから定期的に呼び出す
+ *
+ * 認証: Authorization: Bearer <CRON_SECRET>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PostDispatcher, type DispatchSummary } from '../../../../services/postScheduler';
+import { createPublisher } from '../../../../services/publishers';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * POST: 期限が来たスケジュールを投稿
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return errorResponse('CRON_SECRET is not configured', 500);
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return errorResponse('Invalid dispatch credentials', 401);
+  }
+
+  const publisher = createPublisher();
+  if (!publisher) {
+    return errorResponse(
+      'No publisher is configured. Set POST_PUBLISHER environment variable.',
+      503
+    );
+  }
+
+  try {
+    const dispatcher = new PostDispatcher(publisher);
+    const summary = await dispatcher.dispatchDue();
+
+    const response: AnalysisResponse<DispatchSummary> = {
+      success: true,
+      data: summary,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Schedule dispatch error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Schedules API Route
+ *
+ * 投稿スケジュールの一覧・作成エンドポイント
+ * 期限が来たスケジュールは /api/schedules/dispatch（またはワーカー）が投稿する
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import {
+  createSchedule,
+  listSchedules,
+  ScheduleError,
+} from '../../../services/scheduleRepository';
+import type {
+  AnalysisResponse,
+  PaginatedResult,
+  PostMode,
+  PostSchedule,
+  ScheduleStatus,
+} from '../../../types/index';
+
+/**
+ * スケジュール作成リクエストボディ
+ */
+interface CreateScheduleRequestBody {
+  contentId: string;
+  scheduledAt: string;
+  mode?: PostMode;
+}
+
+const VALID_STATUSES: ScheduleStatus[] = ['pending', 'posted', 'failed', 'cancelled'];
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof ScheduleError) {
+    return errorResponse(error.message, error.code === 'not_editable' ? 409 : 404);
+  }
+
+  console.error('Schedule error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 日付クエリパラメータをパース
+ */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET: スケジュール一覧
+ *
+ * Query Parameters:
+ * - status: ScheduleStatus (optional)
+ * - from: ISO date (optional) - この日時以降の投稿予定
+ * - to: ISO date (optional) - この日時以前の投稿予定
+ * - page: number (optional, default: 1)
+ * - limit: number (optional, default: 20, max: 100)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const status = searchParams.get('status');
+    if (status && !VALID_STATUSES.includes(status as ScheduleStatus)) {
+      return errorResponse(
+        `Invalid status. Valid values: ${VALID_STATUSES.join(', ')}`,
+        400
+      );
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return errorResponse('from and to must be valid ISO dates', 400);
+    }
+
+    const pageParam = searchParams.get('page');
+    const limitParam = searchParams.get('limit');
+    const page = pageParam ? parseInt(pageParam, 10) : undefined;
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if ((page !== undefined && isNaN(page)) || (limit !== undefined && isNaN(limit))) {
+      return errorResponse('page and limit must be numbers', 400);
+    }
+
+    const result = await listSchedules(userId, {
+      status: (status as ScheduleStatus) || undefined,
+      from,
+      to,
+      page,
+      limit,
+    });
+
+    const response: AnalysisResponse<PaginatedResult<PostSchedule>> = {
+      success: true,
+      data: result,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST: スケジュールを作成
+ *
+ * Body:
+ * - contentId: string (required) - 保存済み下書き（OptimizedContent）のID
+ * - scheduledAt: ISO date (required) - 投稿予定日時（未来の日時）
+ * - mode: PostMode (optional, default: 下書きのモード)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: CreateScheduleRequestBody;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const { contentId, scheduledAt, mode } = body;
+
+    if (!contentId || typeof contentId !== 'string') {
+      return errorResponse('contentId is required', 400);
+    }
+
+    const scheduledDate = typeof scheduledAt === 'string' ? new Date(scheduledAt) : null;
+    if (!scheduledDate || isNaN(scheduledDate.getTime())) {
+      return errorResponse('scheduledAt must be a valid ISO date', 400);
+    }
+
+    if (scheduledDate.getTime() <= Date.now()) {
+      return errorResponse('scheduledAt must be in the future', 400);
+    }
+
+    if (mode !== undefined && mode !== 'impression' && mode !== 'expression') {
+      return errorResponse('Invalid mode. Valid values: impression, expression', 400);
+    }
+
+    const schedule = await createSchedule(userId, {
+      contentId,
+      scheduledAt: scheduledDate,
+      mode,
+    });
+
+    const response: AnalysisResponse<PostSchedule> = {
+      success: true,
+      data: schedule,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
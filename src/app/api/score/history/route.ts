@@ -0,0 +1,157 @@
+/**
+ * Score History API Route
+ *
+ * 保存済みの PlatformScore スナップショットからスコア推移を返す
+ * - 期間: 7 / 30 / 90 日、または from / to で任意指定
+ * - 日次 / 週次の集約
+ * - 連続低下の検出（detectConsecutiveDecline）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { detectConsecutiveDecline } from '../../../../lib/notifications';
+import {
+  MAX_HISTORY_DAYS,
+  getScoreHistory,
+  type HistoryGranularity,
+  type ScoreHistoryPoint,
+} from '../../../../services/scoreHistoryRepository';
+import type { AnalysisResponse, Platform } from '../../../../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * プリセットの期間（日数）
+ */
+const RANGE_PRESETS = [7, 30, 90];
+
+/**
+ * 連続低下とみなす回数
+ */
+const DECLINE_PERIODS = 3;
+
+/**
+ * スコア履歴レスポンス
+ */
+interface ScoreHistoryResponseData {
+  platform: Platform;
+  from: Date;
+  to: Date;
+  granularity: HistoryGranularity;
+  entries: ScoreHistoryPoint[];
+  decline: {
+    detected: boolean;
+    consecutivePeriods: number;
+  };
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 日付クエリパラメータをパース
+ */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET: スコア推移
+ *
+ * Query Parameters:
+ * - platform: Platform (required)
+ * - range: 7 | 30 | 90 (optional, default: 30) - 直近の日数
+ * - from / to: ISO date string (optional) - 任意期間（指定時は range より優先）
+ * - granularity: daily | weekly (optional, default: daily)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const platform = searchParams.get('platform') as Platform | null;
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (!platform || !validPlatforms.includes(platform)) {
+      return errorResponse('Valid platform is required (threads, instagram, twitter)', 400);
+    }
+
+    const granularity = (searchParams.get('granularity') || 'daily') as HistoryGranularity;
+    if (granularity !== 'daily' && granularity !== 'weekly') {
+      return errorResponse('Invalid granularity. Valid values: daily, weekly', 400);
+    }
+
+    const fromParam = parseDateParam(searchParams.get('from'));
+    const toParam = parseDateParam(searchParams.get('to'));
+    if (fromParam === null || toParam === null) {
+      return errorResponse('from and to must be valid dates', 400);
+    }
+
+    const to = toParam ?? new Date();
+    let from: Date;
+    if (fromParam) {
+      from = fromParam;
+    } else {
+      const range = parseInt(searchParams.get('range') || '30', 10);
+      if (!RANGE_PRESETS.includes(range)) {
+        return errorResponse(`Invalid range. Valid values: ${RANGE_PRESETS.join(', ')}`, 400);
+      }
+      from = new Date(to.getTime() - range * DAY_MS);
+    }
+
+    if (from >= to) {
+      return errorResponse('from must be earlier than to', 400);
+    }
+
+    if (to.getTime() - from.getTime() > MAX_HISTORY_DAYS * DAY_MS) {
+      return errorResponse(`Range cannot exceed ${MAX_HISTORY_DAYS} days`, 400);
+    }
+
+    const entries = await getScoreHistory(userId, platform, { from, to, granularity });
+
+    const response: AnalysisResponse<ScoreHistoryResponseData> = {
+      success: true,
+      data: {
+        platform,
+        from,
+        to,
+        granularity,
+        entries,
+        decline: {
+          detected: detectConsecutiveDecline(
+            entries.map((entry) => entry.overallScore),
+            DECLINE_PERIODS
+          ),
+          consecutivePeriods: DECLINE_PERIODS,
+        },
+      },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Score history error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
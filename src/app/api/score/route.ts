@@ -5,17 +5,32 @@
  * - プラットフォーム好感度スコア計算
  * - AI分析によるレコメンデーション生成
  * - Claude claude-sonnet-4-20250514を使用
+ * - 行動データは /api/metrics/import で取り込んだ実績から集計
+ * - インポート済みの実績だけで計算した結果は1日1件のスナップショットとして保存
+ *   （履歴は /api/score/history。behaviorData を指定した試算と GET は保存しない）
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   ClaudeClient,
   ClaudeAPIError,
-  getApiKeyFromEnv,
 } from '../../../lib/claude';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import {
+  ApiKeyError,
+  resolveClaudeApiKey,
+  type ResolvedApiKey,
+} from '../../../services/apiKeyRepository';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+  usageLimitResponseInit,
+} from '../../../services/usageRepository';
+import { buildBehaviorData, type MetricsPeriod } from '../../../services/metricsRepository';
+import { saveScoreSnapshot } from '../../../services/scoreHistoryRepository';
 import {
   calculatePlatformScore,
-  generateSampleBehaviorData,
   getScoreRank,
   type UserBehaviorData,
   type ScoreCalculationResult,
@@ -43,6 +58,9 @@ interface ScoreResponseData {
     label: string;
   };
   recommendations: ScoreRecommendation[];
+  metrics: MetricsPeriod & {
+    eventCount: number; // 集計に使った今週の実績件数（0 の場合は未インポート）
+  };
   aiInsights?: {
     aiInsight: string;
     strengths: string[];
@@ -133,10 +151,40 @@ function validateBehaviorData(data: unknown): data is Partial<UserBehaviorData>
 }
 
 /**
- * 部分的なbehaviorDataを完全なものにマージ
+ * 認証エラーを返す
  */
-function mergeBehaviorData(partial: Partial<UserBehaviorData>): UserBehaviorData {
-  const defaults = generateSampleBehaviorData();
+function unauthorizedError(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: 401 }
+  );
+}
+
+/**
+ * 利用上限エラーを返す（予算超過は 402、呼び出し回数の超過は Retry-After 付きの 429）
+ */
+function usageLimitError(error: UsageLimitError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    usageLimitResponseInit(error)
+  );
+}
+
+/**
+ * 部分的なbehaviorDataを実績からの集計値にマージ
+ */
+function mergeBehaviorData(
+  partial: Partial<UserBehaviorData>,
+  defaults: UserBehaviorData
+): UserBehaviorData {
   return {
     likesGiven: partial.likesGiven ?? defaults.likesGiven,
     commentsGiven: partial.commentsGiven ?? defaults.commentsGiven,
@@ -159,14 +207,18 @@ function mergeBehaviorData(partial: Partial<UserBehaviorData>): UserBehaviorData
 /**
  * POST: 好感度スコア計算
  *
- * ユーザーの行動データからプラットフォーム好感度スコアを計算し、
+ * インポート済みの実績から集計した行動データでプラットフォーム好感度スコアを計算し、
  * 改善レコメンデーションを生成します。
+ * behaviorData を指定した項目は集計値より優先されます。
+ * その場合は試算として扱い、履歴には保存しません。
  * オプションでClaude AIによる詳細分析も提供。
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
 
   try {
+    const userId = await requireUserId();
+
     // リクエストボディのパース
     let body: ScoreRequestBody;
     try {
@@ -185,48 +237,66 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // 行動データの準備
-    let fullBehaviorData: UserBehaviorData;
-    if (behaviorData) {
-      if (!validateBehaviorData(behaviorData)) {
-        return validationError(
-          'Invalid behavior data: numeric fields must be non-negative numbers, postTimings must be array of hours (0-23)'
-        );
-      }
-      fullBehaviorData = mergeBehaviorData(behaviorData);
-    } else {
-      // サンプルデータを使用
-      fullBehaviorData = generateSampleBehaviorData();
+    if (behaviorData && !validateBehaviorData(behaviorData)) {
+      return validationError(
+        'Invalid behavior data: numeric fields must be non-negative numbers, postTimings must be array of hours (0-23)'
+      );
     }
 
+    // 行動データの準備（インポート済みの実績を集計）
+    const metrics = await buildBehaviorData(userId, platform);
+    const fullBehaviorData = behaviorData
+      ? mergeBehaviorData(behaviorData, metrics.data)
+      : metrics.data;
+
     // スコア計算
     const scoreResult: ScoreCalculationResult = calculatePlatformScore(
       platform,
       fullBehaviorData
     );
 
+    // インポート済みの実績だけで計算した場合はその日のスナップショットとして保存
+    // （呼び出し側が指定した behaviorData による試算は履歴に残さない）
+    const score = behaviorData
+      ? scoreResult.score
+      : await saveScoreSnapshot(userId, scoreResult.score, fullBehaviorData);
+
     // ランク取得
-    const rank = getScoreRank(scoreResult.score.overallScore);
+    const rank = getScoreRank(score.overallScore);
 
     // レスポンスデータの構築
     const responseData: ScoreResponseData = {
-      score: scoreResult.score,
+      score,
       rank,
       recommendations: scoreResult.recommendations,
+      metrics: {
+        weekStart: metrics.weekStart,
+        weekEnd: metrics.weekEnd,
+        eventCount: metrics.eventCount,
+      },
     };
 
     // AI分析が要求された場合
     if (includeAiAnalysis) {
-      const apiKey = getApiKeyFromEnv();
-      if (!apiKey) {
-        return serverError(
-          'Claude API key is not configured. Please set ANTHROPIC_API_KEY or CLAUDE_API_KEY environment variable.',
-          500
-        );
+      let resolved: ResolvedApiKey;
+      try {
+        resolved = await resolveClaudeApiKey(userId);
+        await assertWithinUsageLimits(userId, resolved.source);
+      } catch (keyError) {
+        if (keyError instanceof ApiKeyError) {
+          return serverError(keyError.message, 400);
+        }
+        if (keyError instanceof UsageLimitError) {
+          return usageLimitError(keyError);
+        }
+        throw keyError;
       }
 
       try {
-        const client = new ClaudeClient({ apiKey });
+        const client = new ClaudeClient({
+          apiKey: resolved.apiKey,
+          reserveUsage: createUsageReserver(userId, resolved.source),
+        });
         const aiInsights = await client.analyzeScore(platform, {
           likesGiven: fullBehaviorData.likesGiven,
           commentsGiven: fullBehaviorData.commentsGiven,
@@ -255,6 +325,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json(response, { status: 200 });
   } catch (error) {
     const processingTime = Date.now() - startTime;
+    if (error instanceof AuthenticationError) {
+      return unauthorizedError(error.message);
+    }
+
     console.error('Score calculation error:', error);
 
     // ClaudeAPIErrorの処理
@@ -301,25 +375,42 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 }
 
 /**
- * GET: API情報とサンプルスコア
+ * GET: API情報と現在のスコア
+ *
+ * 現在のスコアは計算して返すだけで、スナップショットは保存しない。
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const { searchParams } = new URL(request.url);
   const platform = searchParams.get('platform') as Platform | null;
 
-  // プラットフォームが指定された場合はサンプルスコアを返す
+  // プラットフォームが指定された場合はインポート済みの実績からスコアを返す
   if (platform && ['threads', 'instagram', 'twitter'].includes(platform)) {
-    const sampleData = generateSampleBehaviorData();
-    const scoreResult = calculatePlatformScore(platform, sampleData);
-    const rank = getScoreRank(scoreResult.score.overallScore);
+    let userId: string;
+    try {
+      userId = await requireUserId();
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return unauthorizedError(error.message);
+      }
+      throw error;
+    }
+
+    const metrics = await buildBehaviorData(userId, platform);
+    const scoreResult = calculatePlatformScore(platform, metrics.data);
+    const { score } = scoreResult;
+    const rank = getScoreRank(score.overallScore);
 
     return NextResponse.json(
       {
-        message: 'Sample score for ' + platform,
-        score: scoreResult.score,
+        message: 'Current score for ' + platform,
+        score,
         rank,
         recommendations: scoreResult.recommendations.slice(0, 3),
-        note: 'This is a sample score. POST with actual behavior data for accurate results.',
+        metrics: {
+          weekStart: metrics.weekStart,
+          weekEnd: metrics.weekEnd,
+          eventCount: metrics.eventCount,
+        },
       },
       { status: 200 }
     );
@@ -337,7 +428,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         method: 'POST',
         body: {
           platform: '"threads" | "instagram" | "twitter" (required)',
-          behaviorData: 'UserBehaviorData object (optional, uses sample data if not provided)',
+          behaviorData:
+            'Partial UserBehaviorData (optional, overrides values aggregated from imported metrics)',
           includeAiAnalysis: 'boolean (optional, default: false)',
         },
         response: {
@@ -346,6 +438,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             score: 'PlatformScore object',
             rank: '{ rank, color, label }',
             recommendations: 'ScoreRecommendation[]',
+            metrics: '{ weekStart, weekEnd, eventCount } - aggregation period',
             aiInsights: 'AI analysis (if requested)',
           },
           error: 'string on failure',
@@ -389,7 +482,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         'AI-powered insights (optional)',
         'Platform-specific optimization',
       ],
-      sampleEndpoint: 'GET /api/score?platform=threads',
+      currentScoreEndpoint: 'GET /api/score?platform=threads',
+      metricsImportEndpoint: 'POST /api/metrics/import?platform=threads',
+      historyEndpoint: 'GET /api/score/history?platform=threads&range=30&granularity=daily',
     },
     { status: 200 }
   );
@@ -0,0 +1,139 @@
+/**
+ * Search API Route
+ *
+ * 保存した分析と下書きを横断して検索するエンドポイント
+ * - 分析は本文（transcript）とキーポイント、下書きは最適化後の本文が対象
+ * - match=keyword: 日本語向けのトークン化による全文検索（BM25）
+ * - match=semantic: ローカルの埋め込みによる類似検索（外部サービスは使わない）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import {
+  MAX_SEARCH_LIMIT,
+  SEARCH_MATCHES,
+  SEARCH_RESULT_TYPES,
+  searchContent,
+  type ContentSearchResult,
+  type SearchMatch,
+  type SearchResultType,
+} from '../../../services/contentSearch';
+import type { AnalysisResponse, Platform, PostMode } from '../../../types/index';
+
+// 検索クエリの最大文字数
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 日付クエリパラメータをパース
+ */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET: 分析・下書きを検索
+ *
+ * Query Parameters:
+ * - q: 検索語 (required)
+ * - match: "keyword" | "semantic" (optional, default: "keyword")
+ * - type: "analysis" | "draft" (optional, 省略時は両方)
+ * - platform: "threads" | "instagram" | "twitter" (optional)
+ * - mode: "impression" | "expression" (optional, 指定した場合は下書きのみ)
+ * - from / to: ISO date (optional)
+ * - limit: 件数 (optional, default: 20, max: 50)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const searchParams = request.nextUrl.searchParams;
+
+    const q = searchParams.get('q')?.trim();
+    if (!q) {
+      return errorResponse('q is required', 400);
+    }
+    if (q.length > MAX_QUERY_LENGTH) {
+      return errorResponse(`q must be ${MAX_QUERY_LENGTH} characters or less`, 400);
+    }
+
+    const match = searchParams.get('match');
+    if (match && !SEARCH_MATCHES.includes(match as SearchMatch)) {
+      return errorResponse(`Invalid match. Valid values: ${SEARCH_MATCHES.join(', ')}`, 400);
+    }
+
+    const type = searchParams.get('type');
+    if (type && !SEARCH_RESULT_TYPES.includes(type as SearchResultType)) {
+      return errorResponse(`Invalid type. Valid values: ${SEARCH_RESULT_TYPES.join(', ')}`, 400);
+    }
+
+    const platform = searchParams.get('platform');
+    const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+    if (platform && !validPlatforms.includes(platform as Platform)) {
+      return errorResponse('Invalid platform. Valid values: threads, instagram, twitter', 400);
+    }
+
+    const mode = searchParams.get('mode');
+    const validModes: PostMode[] = ['impression', 'expression'];
+    if (mode && !validModes.includes(mode as PostMode)) {
+      return errorResponse('Invalid mode. Valid values: impression, expression', 400);
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return errorResponse('from and to must be valid ISO dates', 400);
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT)) {
+      return errorResponse(`limit must be between 1 and ${MAX_SEARCH_LIMIT}`, 400);
+    }
+
+    const result = await searchContent(userId, {
+      q,
+      match: (match as SearchMatch) || undefined,
+      types: type ? [type as SearchResultType] : undefined,
+      platform: (platform as Platform) || undefined,
+      mode: (mode as PostMode) || undefined,
+      from,
+      to,
+      limit,
+    });
+
+    const response: AnalysisResponse<ContentSearchResult> = {
+      success: true,
+      data: result,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Search error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
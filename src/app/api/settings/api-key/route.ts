@@ -0,0 +1,127 @@
+/**
+ * API Key Settings Route
+ *
+ * ユーザー自身の Claude APIキーの登録・ローテーション・削除エンドポイント
+ * - キーは暗号化して保存し、レスポンスには末尾4文字のみ含める
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { EncryptionError } from '../../../../lib/encryption';
+import {
+  ApiKeyError,
+  deleteUserApiKey,
+  getApiKeyStatus,
+  setUserApiKey,
+  type ApiKeyStatus,
+} from '../../../../services/apiKeyRepository';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof ApiKeyError) {
+    return errorResponse(error.message, 400);
+  }
+
+  if (error instanceof EncryptionError) {
+    console.error('API key encryption error:', error);
+    return errorResponse('API key storage is not configured on this server', 500);
+  }
+
+  console.error('API key settings error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 成功レスポンスを返す
+ */
+function statusResponse(status: ApiKeyStatus, startTime: number): NextResponse {
+  const response: AnalysisResponse<ApiKeyStatus> = {
+    success: true,
+    data: status,
+    processingTime: Date.now() - startTime,
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+/**
+ * GET: APIキーの登録状況
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    return statusResponse(await getApiKeyStatus(userId), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PUT: APIキーを登録・ローテーション
+ *
+ * Request Body:
+ * - apiKey: string (required) - Claude APIキー（sk-ant-...）
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const apiKey = (body as Record<string, unknown> | null)?.apiKey;
+    if (typeof apiKey !== 'string' || apiKey.trim().length === 0) {
+      return errorResponse('apiKey is required', 400);
+    }
+
+    return statusResponse(await setUserApiKey(userId, apiKey), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: APIキーを削除
+ */
+export async function DELETE(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    return statusResponse(await deleteUserApiKey(userId), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Brand Voice Settings Route
+ *
+ * ユーザーの過去の投稿からブランドボイスを抽出・保存するエンドポイント
+ * - 保存したブランドボイスは /api/optimize の最適化プロンプトに反映され、voice match を採点する
+ * - 投稿本文は保存せず、抽出したプロファイルのみ保存する
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import type { BrandVoiceProfile } from '../../../../lib/brandVoice';
+import {
+  BrandVoiceError,
+  deleteBrandVoice,
+  getBrandVoice,
+  saveBrandVoice,
+} from '../../../../services/brandVoiceRepository';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof BrandVoiceError) {
+    return errorResponse(error.message, error.code === 'not_found' ? 404 : 400);
+  }
+
+  console.error('Brand voice settings error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 成功レスポンスを返す
+ */
+function profileResponse(profile: BrandVoiceProfile | null, startTime: number): NextResponse {
+  const response: AnalysisResponse<BrandVoiceProfile | null> = {
+    success: true,
+    data: profile,
+    processingTime: Date.now() - startTime,
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+/**
+ * GET: ブランドボイス（未登録の場合は data: null）
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    return profileResponse(await getBrandVoice(userId), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PUT: 投稿からブランドボイスを抽出して保存
+ *
+ * Request Body:
+ * - posts: string[] (3-200件) - 自分の過去の投稿。省略時は bannedWords のみ更新
+ * - bannedWords: string[] (optional) - 使わない語。省略時は保存済みのものを引き継ぐ
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    if (!body || typeof body !== 'object') {
+      return errorResponse('Request body must be an object', 400);
+    }
+
+    const { posts, bannedWords } = body as Record<string, unknown>;
+    return profileResponse(
+      await saveBrandVoice(userId, {
+        posts: posts as string[] | undefined,
+        bannedWords: bannedWords as string[] | undefined,
+      }),
+      startTime
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: ブランドボイスを削除
+ */
+export async function DELETE(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    await deleteBrandVoice(userId);
+    return profileResponse(null, startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Platform Rules Settings Route
+ *
+ * ユーザーごとのプラットフォームルール（文字数・ハッシュタグ数・トーンなど）の上書きエンドポイント
+ * - 上書きは /api/optimize の最適化に適用される
+ * - DELETE でデフォルトに戻す
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import {
+  PlatformRuleError,
+  getPlatformRuleSettings,
+  resetPlatformRuleOverride,
+  setPlatformRuleOverride,
+  type PlatformRuleSettings,
+} from '../../../../services/platformRuleRepository';
+import type { AnalysisResponse, Platform } from '../../../../types/index';
+
+const validPlatforms: Platform[] = ['threads', 'instagram', 'twitter'];
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof PlatformRuleError) {
+    return errorResponse(error.message, 400);
+  }
+
+  console.error('Platform rules settings error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 成功レスポンスを返す
+ */
+function settingsResponse<T extends PlatformRuleSettings | PlatformRuleSettings[]>(
+  settings: T,
+  startTime: number
+): NextResponse {
+  const response: AnalysisResponse<T> = {
+    success: true,
+    data: settings,
+    processingTime: Date.now() - startTime,
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+/**
+ * GET: 全プラットフォームのルール（上書き適用後・デフォルト・上書きしている項目）
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    return settingsResponse(await getPlatformRuleSettings(userId), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PUT: プラットフォームのルールを上書き
+ *
+ * Request Body:
+ * - platform: "threads" | "instagram" | "twitter" (required)
+ * - rules: object (required) - maxLength, hashtagCount, tone, formatting, bestPractices
+ *   （省略・null の項目はデフォルトを使う）
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const { platform, rules } = (body ?? {}) as Record<string, unknown>;
+    if (!validPlatforms.includes(platform as Platform)) {
+      return errorResponse('Valid platform is required (threads, instagram, twitter)', 400);
+    }
+
+    return settingsResponse(
+      await setPlatformRuleOverride(userId, platform as Platform, rules),
+      startTime
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: プラットフォームのルールをデフォルトに戻す
+ *
+ * Query Parameters:
+ * - platform: "threads" | "instagram" | "twitter" (required)
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    const platform = request.nextUrl.searchParams.get('platform');
+    if (!validPlatforms.includes(platform as Platform)) {
+      return errorResponse('Valid platform is required (threads, instagram, twitter)', 400);
+    }
+
+    return settingsResponse(
+      await resetPlatformRuleOverride(userId, platform as Platform),
+      startTime
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
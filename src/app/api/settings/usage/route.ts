@@ -0,0 +1,125 @@
+/**
+ * Usage Settings Route
+ *
+ * Claude API の今月の利用状況と月間予算の設定エンドポイント
+ * - 利用量は機能（analyze / optimize / score / trends）ごとに集計
+ * - 予算に達すると AI を使う API は 402 を返す
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import {
+  getMonthlyUsage,
+  setMonthlyBudget,
+  type MonthlyUsage,
+  type UsageBudget,
+} from '../../../../services/usageRepository';
+import type { AnalysisResponse } from '../../../../types/index';
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  console.error('Usage settings error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 成功レスポンスを返す
+ */
+function usageResponse(usage: MonthlyUsage, startTime: number): NextResponse {
+  const response: AnalysisResponse<MonthlyUsage> = {
+    success: true,
+    data: usage,
+    processingTime: Date.now() - startTime,
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+/**
+ * 予算の値を検証（正の数、または null で上限なし）
+ */
+function isValidBudgetValue(value: unknown, integer: boolean): value is number | null | undefined {
+  if (value === undefined || value === null) return true;
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value > 0 &&
+    (!integer || Number.isInteger(value))
+  );
+}
+
+/**
+ * GET: 今月の利用状況
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    return usageResponse(await getMonthlyUsage(userId), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * PUT: 月間予算を設定
+ *
+ * Request Body:
+ * - tokens: number | null (optional) - 月間のトークン数の上限（null で上限なし）
+ * - costUsd: number | null (optional) - 月間の推定コストの上限（USD、null で上限なし）
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    if (!body || typeof body !== 'object') {
+      return errorResponse('Request body must be an object', 400);
+    }
+
+    const { tokens, costUsd } = body as Record<string, unknown>;
+    if (!isValidBudgetValue(tokens, true)) {
+      return errorResponse('tokens must be a positive integer or null', 400);
+    }
+    if (!isValidBudgetValue(costUsd, false)) {
+      return errorResponse('costUsd must be a positive number or null', 400);
+    }
+
+    const budget: Partial<UsageBudget> = { tokens, costUsd };
+    return usageResponse(await setMonthlyBudget(userId, budget), startTime);
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Strategy Preset Detail API Route
+ *
+ * 戦略プリセットの編集・有効化・削除エンドポイント
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../../lib/auth';
+import { StrategyValidationError, parseStrategy } from '../../../../../services/strategyManager';
+import {
+  StrategyPresetError,
+  deleteStrategyPreset,
+  updateStrategyPreset,
+  type StrategyPresetInput,
+} from '../../../../../services/strategyRepository';
+import type { AnalysisResponse, StrategyPreset } from '../../../../../types/index';
+
+/**
+ * ルートパラメータ
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * プリセット名の最大文字数
+ */
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof StrategyValidationError) {
+    return errorResponse(error.message, 400);
+  }
+
+  if (error instanceof StrategyPresetError) {
+    const statusCode =
+      error.code === 'not_found' ? 404 : error.code === 'invalid_schedule' ? 400 : 409;
+    return errorResponse(error.message, statusCode);
+  }
+
+  console.error('Strategy preset detail error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 編集リクエストのバリデーション
+ *
+ * activeFrom / activeUntil に null を指定すると期間指定を解除する
+ */
+function parsePresetUpdate(body: unknown): (StrategyPresetInput & { isActive?: true }) | string {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { name, strategy, activeFrom, activeUntil, isActive } = body as Record<string, unknown>;
+  const update: StrategyPresetInput & { isActive?: true } = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'name must be a non-empty string';
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return `name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+    update.name = name.trim();
+  }
+
+  if (strategy !== undefined) {
+    update.strategy = parseStrategy(strategy);
+  }
+
+  for (const [field, value] of [
+    ['activeFrom', activeFrom],
+    ['activeUntil', activeUntil],
+  ] as const) {
+    if (value === undefined) continue;
+    if (value === null) {
+      update[field] = null;
+      continue;
+    }
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      return `${field} must be an ISO date string or null`;
+    }
+    update[field] = date;
+  }
+
+  if (isActive !== undefined) {
+    if (isActive !== true) {
+      return 'isActive can only be set to true (activate another strategy instead)';
+    }
+    update.isActive = true;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return 'Nothing to update: provide name, strategy, activeFrom/activeUntil and/or isActive';
+  }
+
+  return update;
+}
+
+/**
+ * PATCH: プリセットを編集
+ *
+ * isActive: true を指定すると基本の戦略に切り替える
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const update = parsePresetUpdate(body);
+    if (typeof update === 'string') {
+      return errorResponse(update, 400);
+    }
+
+    const { isActive, ...input } = update;
+    const preset = await updateStrategyPreset(userId, params.id, input, { activate: isActive });
+
+    const response: AnalysisResponse<StrategyPreset> = {
+      success: true,
+      data: preset,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE: プリセットを削除
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    await deleteStrategyPreset(userId, params.id);
+
+    const response: AnalysisResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Strategy Presets API Route
+ *
+ * 名前付きの戦略プリセットの一覧・作成エンドポイント
+ * - 例:「ローンチ週」(70/30) や「通常」(90/10) を保存しておき切り替える
+ * - activeFrom / activeUntil を指定したプリセットはその期間だけ基本の戦略より優先される
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../../lib/auth';
+import { StrategyValidationError, parseStrategy } from '../../../../services/strategyManager';
+import {
+  StrategyPresetError,
+  createStrategyPreset,
+  listStrategyPresets,
+} from '../../../../services/strategyRepository';
+import type { AnalysisResponse, StrategyPreset } from '../../../../types/index';
+
+/**
+ * プリセット名の最大文字数
+ */
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 例外をエラーレスポンスに変換
+ */
+function handleError(error: unknown): NextResponse {
+  if (error instanceof AuthenticationError) {
+    return errorResponse(error.message, 401);
+  }
+
+  if (error instanceof StrategyValidationError) {
+    return errorResponse(error.message, 400);
+  }
+
+  if (error instanceof StrategyPresetError) {
+    return errorResponse(error.message, error.code === 'invalid_schedule' ? 400 : 409);
+  }
+
+  console.error('Strategy presets error:', error);
+  return errorResponse(
+    error instanceof Error ? error.message : 'An unexpected error occurred',
+    500
+  );
+}
+
+/**
+ * 日時パラメータをパース（省略時は null）
+ */
+function parseDateField(value: unknown, field: string): Date | null | string {
+  if (value === undefined || value === null) return null;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : `${field} must be an ISO date string or null`;
+}
+
+/**
+ * GET: プリセット一覧
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const presets = await listStrategyPresets(userId);
+
+    const response: AnalysisResponse<StrategyPreset[]> = {
+      success: true,
+      data: presets,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST: プリセットを作成
+ *
+ * Request Body:
+ * - name: string (required)
+ * - strategy: EngagementStrategy (required, エクスポートと同じ形式)
+ * - activeFrom / activeUntil: ISO date string (optional) - 有効期間（activeUntil は含まない）
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    if (!body || typeof body !== 'object') {
+      return errorResponse('Request body must be an object', 400);
+    }
+
+    const { name, strategy, activeFrom, activeUntil } = body as Record<string, unknown>;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return errorResponse('name is required', 400);
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return errorResponse(`name must be at most ${MAX_NAME_LENGTH} characters`, 400);
+    }
+
+    const from = parseDateField(activeFrom, 'activeFrom');
+    const until = parseDateField(activeUntil, 'activeUntil');
+    if (typeof from === 'string') return errorResponse(from, 400);
+    if (typeof until === 'string') return errorResponse(until, 400);
+
+    const preset = await createStrategyPreset(userId, {
+      name: name.trim(),
+      strategy: parseStrategy(strategy),
+      activeFrom: from,
+      activeUntil: until,
+    });
+
+    const response: AnalysisResponse<StrategyPreset> = {
+      success: true,
+      data: preset,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Strategy API Route
+ *
+ * エンゲージメント戦略の取得・保存エンドポイント
+ * - 端末間で戦略を同期するため、ユーザーごとの有効な戦略をサーバーに保存
+ * - updatedAt による楽観的ロックで同時編集を検出（409 Conflict）
+ * - GET は今後の期間指定の戦略（プリセット）も返す（管理は /api/strategy/presets）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, requireUserId } from '../../../lib/auth';
+import {
+  DEFAULT_STRATEGY,
+  StrategyValidationError,
+  parseStrategy,
+} from '../../../services/strategyManager';
+import {
+  StrategyConflictError,
+  getActiveStrategy,
+  getScheduledStrategies,
+  saveActiveStrategy,
+  type StoredStrategy,
+} from '../../../services/strategyRepository';
+import type {
+  AnalysisResponse,
+  EngagementStrategy,
+  ScheduledStrategy,
+} from '../../../types/index';
+
+/**
+ * 戦略レスポンス
+ */
+interface StrategyResponseData {
+  strategy: EngagementStrategy;
+  updatedAt: Date | null; // サーバーに未保存の場合は null（デフォルト戦略を返す）
+}
+
+/**
+ * 取得レスポンス
+ */
+interface StrategyWithSchedulesData extends StrategyResponseData {
+  schedules: ScheduledStrategy[]; // 現在以降に有効な期間指定の戦略
+}
+
+/**
+ * エラーレスポンスを返す
+ */
+function errorResponse(message: string, statusCode: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      processingTime: 0,
+    } as AnalysisResponse<never>,
+    { status: statusCode }
+  );
+}
+
+/**
+ * 保存済みの戦略をレスポンスデータに変換
+ */
+function toResponseData(stored: StoredStrategy | null): StrategyResponseData {
+  return stored ?? { strategy: DEFAULT_STRATEGY, updatedAt: null };
+}
+
+/**
+ * GET: 有効な戦略と期間指定の戦略を取得
+ */
+export async function GET(): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+    const [stored, schedules] = await Promise.all([
+      getActiveStrategy(userId),
+      getScheduledStrategies(userId),
+    ]);
+
+    const response: AnalysisResponse<StrategyWithSchedulesData> = {
+      success: true,
+      data: { ...toResponseData(stored), schedules },
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    console.error('Strategy fetch error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
+
+/**
+ * PUT: 戦略を保存
+ *
+ * Request Body:
+ * - strategy: EngagementStrategy（エクスポートと同じ形式）
+ * - updatedAt: string | null - 最後に取得した updatedAt（未保存の場合は null）
+ *
+ * サーバー側が updatedAt 以降に更新されていた場合は 409 を返し、
+ * data に最新の戦略を含める。
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+
+  try {
+    const userId = await requireUserId();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    if (!body || typeof body !== 'object') {
+      return errorResponse('Request body must be an object', 400);
+    }
+
+    const { strategy: input, updatedAt } = body as Record<string, unknown>;
+
+    let strategy: EngagementStrategy;
+    try {
+      strategy = parseStrategy(input);
+    } catch (error) {
+      if (error instanceof StrategyValidationError) {
+        return errorResponse(error.message, 400);
+      }
+      throw error;
+    }
+
+    if (updatedAt !== null && typeof updatedAt !== 'string') {
+      return errorResponse('updatedAt must be an ISO date string or null', 400);
+    }
+
+    const baseUpdatedAt = updatedAt === null ? null : new Date(updatedAt);
+    if (baseUpdatedAt && isNaN(baseUpdatedAt.getTime())) {
+      return errorResponse('updatedAt must be an ISO date string or null', 400);
+    }
+
+    const saved = await saveActiveStrategy(userId, strategy, baseUpdatedAt);
+
+    const response: AnalysisResponse<StrategyResponseData> = {
+      success: true,
+      data: saved,
+      processingTime: Date.now() - startTime,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return errorResponse(error.message, 401);
+    }
+
+    if (error instanceof StrategyConflictError) {
+      const response: AnalysisResponse<StrategyResponseData> = {
+        success: false,
+        error: error.message,
+        data: toResponseData(error.current),
+        processingTime: Date.now() - startTime,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    console.error('Strategy save error:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
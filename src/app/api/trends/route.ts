@@ -3,6 +3,7 @@
  *
  * トレンド検出・分析エンドポイント
  * コメント戦略に活用するためのトレンド情報を提供
+ * ログイン中で保存済み分析が十分にあれば、バズパターンはユーザーのデータから抽出する
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,9 +11,56 @@ import {
   TrendDetector,
   TrendDetectionRequest,
   TrendCategory,
+  type BuzzPattern,
 } from '../../../services/trendDetector';
+import { getCurrentUser } from '../../../lib/auth';
+import { ApiKeyError, resolveClaudeApiKey } from '../../../services/apiKeyRepository';
+import { mineUserPatterns } from '../../../services/patternMining';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+} from '../../../services/usageRepository';
 import type { Platform } from '../../../types/index';
 
+/**
+ * トレンド検出に使う TrendDetector を作成
+ *
+ * Claude を使うのはログイン中のみ（ユーザーのキーを優先し、利用上限を確認して記録する）。
+ * 未ログイン・使えるキーがない・利用上限に達している場合は APIキーなし（サンプルデータを返す）
+ */
+async function createTrendDetector(userId: string | null): Promise<TrendDetector> {
+  if (!userId) return new TrendDetector();
+
+  try {
+    const { apiKey, source } = await resolveClaudeApiKey(userId);
+    await assertWithinUsageLimits(userId, source);
+    return new TrendDetector(apiKey, createUsageReserver(userId, source));
+  } catch (error) {
+    if (error instanceof ApiKeyError || error instanceof UsageLimitError) {
+      return new TrendDetector();
+    }
+    throw error;
+  }
+}
+
+/**
+ * ユーザーの保存済み分析からバズパターンを抽出（未ログイン・失敗時は空でテンプレートを使う）
+ */
+async function loadMinedPatterns(
+  userId: string | null,
+  platform: Platform
+): Promise<BuzzPattern[]> {
+  if (!userId) return [];
+
+  try {
+    return await mineUserPatterns(userId, platform);
+  } catch (error) {
+    console.error('Pattern mining failed, falling back to templates:', error);
+    return [];
+  }
+}
+
 /**
  * バリデーション: プラットフォーム
  */
@@ -92,11 +140,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // API keyの取得
-    const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
-
-    // TrendDetectorのインスタンス化
-    const detector = new TrendDetector(apiKey);
+    // TrendDetectorのインスタンス化（未ログインではサンプルデータ）
+    const userId = (await getCurrentUser())?.id ?? null;
+    const detector = await createTrendDetector(userId);
 
     // コメント戦略アクションの処理
     if (action === 'comment-strategies') {
@@ -124,6 +170,7 @@ export async function GET(request: NextRequest) {
       limit,
       includeHashtags,
       includeBuzzPatterns,
+      minedPatterns: includeBuzzPatterns ? await loadMinedPatterns(userId, platform) : [],
     };
 
     const result = await detector.detectTrends(detectionRequest);
@@ -191,11 +238,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // API keyの取得
-    const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
-
-    // TrendDetectorのインスタンス化
-    const detector = new TrendDetector(apiKey);
+    // TrendDetectorのインスタンス化（未ログインではサンプルデータ）
+    const userId = (await getCurrentUser())?.id ?? null;
+    const detector = await createTrendDetector(userId);
 
     // トレンド検出リクエストの作成
     const detectionRequest: TrendDetectionRequest = {
@@ -204,6 +249,8 @@ export async function POST(request: NextRequest) {
       limit,
       includeHashtags: body.includeHashtags !== false,
       includeBuzzPatterns: body.includeBuzzPatterns !== false,
+      minedPatterns:
+        body.includeBuzzPatterns !== false ? await loadMinedPatterns(userId, body.platform) : [],
     };
 
     const result = await detector.detectTrends(detectionRequest);
@@ -296,7 +343,9 @@ export async function OPTIONS() {
       trends: 'TrendingTopic[]',
       recommendedHashtags: 'HashtagAnalysis[]',
       buzzPatterns: 'BuzzPattern[]',
+      buzzPatternSource: "'mined' | 'template'",
       optimalTimings: 'OptimalPostTiming[]',
+      source: "'llm' | 'sample'",
       analyzedAt: 'Date',
     },
   });
@@ -11,34 +11,135 @@
  * - ガッチャンコして載せるだけ
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import ContentAnalyzer from '../../components/ContentAnalyzer';
-import OptimizedOutput from '../../components/OptimizedOutput';
-import type { Platform, BuzzAnalysis, OptimizedContent, PostMode } from '../../types/index';
+import ContentSearch from '../../components/ContentSearch';
+import OptimizedOutput, { type OptimizeFormatOptions } from '../../components/OptimizedOutput';
+import { readEventStream } from '../../lib/sse';
+import type {
+  Platform,
+  BuzzAnalysis,
+  OptimizedContent,
+  PostMode,
+  AnalysisResponse,
+  PaginatedResult,
+} from '../../types/index';
+
+const HISTORY_LIMIT = 10;
 
 export default function ContentPage() {
   const [currentAnalysis, setCurrentAnalysis] = useState<BuzzAnalysis | null>(null);
   const [analysisHistory, setAnalysisHistory] = useState<BuzzAnalysis[]>([]);
+  const [savedDrafts, setSavedDrafts] = useState<OptimizedContent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
+  // 保存済みの分析履歴を読み込む
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/analyze?limit=${HISTORY_LIMIT}`);
+        if (!response.ok) return;
+
+        const result: AnalysisResponse<PaginatedResult<BuzzAnalysis>> =
+          await response.json();
+        if (!cancelled && result.success && result.data) {
+          setAnalysisHistory(result.data.items);
+        }
+      } catch (err) {
+        console.error('Failed to load analysis history:', err);
+      }
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 選択中の分析から作られた保存済み下書きを読み込む
+  useEffect(() => {
+    if (!currentAnalysis) {
+      setSavedDrafts([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadDrafts = async () => {
+      try {
+        const response = await fetch(`/api/analyze/${currentAnalysis.id}/drafts`);
+        if (!response.ok) return;
+
+        const result: AnalysisResponse<OptimizedContent[]> = await response.json();
+        if (!cancelled && result.success && result.data) {
+          setSavedDrafts(result.data);
+        }
+      } catch (err) {
+        console.error('Failed to load drafts:', err);
+      }
+    };
+
+    loadDrafts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentAnalysis]);
+
   const handleAnalysisComplete = useCallback((analysis: BuzzAnalysis) => {
     setCurrentAnalysis(analysis);
-    setAnalysisHistory((prev) => [analysis, ...prev.slice(0, 9)]); // Keep last 10
+    setAnalysisHistory((prev) => [
+      analysis,
+      ...prev.filter((item) => item.id !== analysis.id).slice(0, HISTORY_LIMIT - 1),
+    ]);
+  }, []);
+
+  // 検索結果から選んだ分析を開く
+  const handleSelectSearchResult = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/analyze/${id}`);
+      if (!response.ok) return;
+
+      const result: AnalysisResponse<BuzzAnalysis> = await response.json();
+      if (result.success && result.data) {
+        setCurrentAnalysis(result.data);
+      }
+    } catch (err) {
+      console.error('Failed to load analysis:', err);
+    }
+  }, []);
+
+  const handleDeleteAnalysis = useCallback(async (id: string) => {
+    const response = await fetch(`/api/analyze/${id}`, { method: 'DELETE' });
+    if (!response.ok) return;
+
+    setAnalysisHistory((prev) => prev.filter((item) => item.id !== id));
+    setCurrentAnalysis((prev) => (prev?.id === id ? null : prev));
   }, []);
 
   const handleOptimize = useCallback(
     async (
       analysis: BuzzAnalysis,
       platform: Platform,
-      mode: PostMode
+      mode: PostMode,
+      onDelta?: (text: string) => void,
+      onReset?: () => void,
+      options: OptimizeFormatOptions = {}
     ): Promise<OptimizedContent> => {
       const response = await fetch('/api/optimize', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
         body: JSON.stringify({
           analysis,
           targetPlatform: platform,
           mode,
+          ...options,
         }),
       });
 
@@ -47,7 +148,9 @@ export default function ContentPage() {
         throw new Error(errorData.error || 'Optimization failed');
       }
 
-      return response.json();
+      const draft = await readEventStream<OptimizedContent>(response, onDelta, onReset);
+      setSavedDrafts((prev) => [draft, ...prev]);
+      return draft;
     },
     []
   );
@@ -114,6 +217,9 @@ export default function ContentPage() {
         </div>
       </div>
 
+      {/* Search */}
+      <ContentSearch onSelectAnalysis={handleSelectSearchResult} />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left: Analysis Input */}
@@ -123,7 +229,11 @@ export default function ContentPage() {
         />
 
         {/* Right: Optimization Output */}
-        <OptimizedOutput analysis={currentAnalysis} onOptimize={handleOptimize} />
+        <OptimizedOutput
+          analysis={currentAnalysis}
+          onOptimize={handleOptimize}
+          savedDrafts={savedDrafts}
+        />
       </div>
 
       {/* Analysis Details (when available) */}
@@ -296,31 +406,44 @@ export default function ContentPage() {
       )}
 
       {/* Analysis History */}
-      {analysisHistory.length > 1 && (
+      {analysisHistory.some((analysis) => analysis.id !== currentAnalysis?.id) && (
         <div className="glass rounded-2xl p-6 space-y-4">
           <h3 className="text-lg font-semibold text-white">
             最近の分析履歴
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {analysisHistory.slice(1).map((analysis) => (
-              <button
-                key={analysis.id}
-                onClick={() => setCurrentAnalysis(analysis)}
-                className="p-4 bg-white/5 rounded-xl text-left hover:bg-white/10 transition group"
-              >
-                <div className="flex items-center gap-2 mb-2">
-                  <span className="px-2 py-0.5 text-xs rounded bg-white/10 text-white/60">
-                    {analysis.platform}
-                  </span>
-                  <span className="text-xs text-white/40">
-                    {new Date(analysis.analyzedAt).toLocaleDateString('ja-JP')}
-                  </span>
-                </div>
-                <div className="text-sm text-white/80 line-clamp-2 group-hover:text-white transition">
-                  {analysis.transcript.substring(0, 80)}...
+            {analysisHistory
+              .filter((analysis) => analysis.id !== currentAnalysis?.id)
+              .map((analysis) => (
+                <div
+                  key={analysis.id}
+                  className="relative p-4 bg-white/5 rounded-xl hover:bg-white/10 transition group"
+                >
+                  <button
+                    onClick={() => setCurrentAnalysis(analysis)}
+                    className="w-full text-left"
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="px-2 py-0.5 text-xs rounded bg-white/10 text-white/60">
+                        {analysis.platform}
+                      </span>
+                      <span className="text-xs text-white/40">
+                        {new Date(analysis.analyzedAt).toLocaleDateString('ja-JP')}
+                      </span>
+                    </div>
+                    <div className="text-sm text-white/80 line-clamp-2 group-hover:text-white transition">
+                      {analysis.transcript.substring(0, 80)}...
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteAnalysis(analysis.id)}
+                    className="absolute top-3 right-3 text-xs text-white/30 hover:text-red-300 transition"
+                    aria-label="分析を削除"
+                  >
+                    削除
+                  </button>
                 </div>
-              </button>
-            ))}
+              ))}
           </div>
         </div>
       )}
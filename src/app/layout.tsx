@@ -31,6 +31,7 @@ export default function RootLayout({
                     <a href="/content" className="text-white/70 hover:text-white transition">Content</a>
                     <a href="/strategy" className="text-white/70 hover:text-white transition">Strategy</a>
                     <a href="/score" className="text-white/70 hover:text-white transition">Score</a>
+                    <a href="/settings" className="text-white/70 hover:text-white transition">Settings</a>
                     <AuthButton showName />
                   </div>
                 </div>
@@ -8,7 +8,7 @@
  * 「主宰者（プラットフォーム）にとっていい人」度合いを可視化
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   LineChart,
   Line,
@@ -19,17 +19,17 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { Platform } from '../../types/index';
+import { Platform, PlatformScore, AnalysisResponse } from '../../types/index';
 import {
-  calculatePlatformScore,
-  generateSampleBehaviorData,
   getScoreRank,
-  ScoreCalculationResult,
   ScoreHistoryEntry,
+  ScoreRecommendation,
 } from '../../services/scoreCalculator';
 import ScoreGauge, { MiniScoreGauge, ScoreBar } from '../../components/ScoreGauge';
 import ScoreRadar from '../../components/ScoreRadar';
 import ActionRecommend from '../../components/ActionRecommend';
+import { AlertBanner } from '../../components/AlertBanner';
+import { createDeclineAlert } from '../../lib/notifications';
 
 /**
  * プラットフォーム選択タブ
@@ -103,6 +103,82 @@ function ChartTooltip({ active, payload, label }: CustomTooltipProps) {
   return null;
 }
 
+/**
+ * スコア推移の表示期間と集約単位
+ */
+type HistoryRange = 7 | 30 | 90;
+type HistoryGranularity = 'daily' | 'weekly';
+
+const HISTORY_RANGES: HistoryRange[] = [7, 30, 90];
+
+/**
+ * 連続低下とみなす回数
+ */
+const DECLINE_PERIODS = 3;
+
+/**
+ * /api/score/history のレスポンス
+ */
+interface ScoreHistoryResult {
+  entries: ScoreHistoryEntry[];
+  decline: {
+    detected: boolean;
+    consecutivePeriods: number;
+  };
+}
+
+/**
+ * スコア推移の期間・集約単位の切り替え
+ */
+interface HistoryControlsProps {
+  range: HistoryRange;
+  granularity: HistoryGranularity;
+  onRangeChange: (range: HistoryRange) => void;
+  onGranularityChange: (granularity: HistoryGranularity) => void;
+}
+
+function HistoryControls({
+  range,
+  granularity,
+  onRangeChange,
+  onGranularityChange,
+}: HistoryControlsProps) {
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-sm transition-all ${
+      active ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <div className="flex gap-1 p-1 bg-white/5 rounded-lg">
+        {HISTORY_RANGES.map((days) => (
+          <button
+            key={days}
+            onClick={() => onRangeChange(days)}
+            className={buttonClass(range === days)}
+          >
+            {days}日
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1 p-1 bg-white/5 rounded-lg">
+        <button
+          onClick={() => onGranularityChange('daily')}
+          className={buttonClass(granularity === 'daily')}
+        >
+          日次
+        </button>
+        <button
+          onClick={() => onGranularityChange('weekly')}
+          className={buttonClass(granularity === 'weekly')}
+        >
+          週次
+        </button>
+      </div>
+    </div>
+  );
+}
+
 /**
  * スコア推移グラフ
  */
@@ -111,6 +187,14 @@ interface ScoreHistoryChartProps {
 }
 
 function ScoreHistoryChart({ history }: ScoreHistoryChartProps) {
+  if (history.length === 0) {
+    return (
+      <div className="w-full h-[300px] flex items-center justify-center">
+        <p className="text-white/50 text-sm">まだスコア履歴がありません</p>
+      </div>
+    );
+  }
+
   const chartData = history.map((entry) => ({
     date: new Date(entry.date).toLocaleDateString('ja-JP', {
       month: 'short',
@@ -234,28 +318,172 @@ function ScoreDetailCard({ label, score, description, icon, color }: ScoreDetail
   );
 }
 
+/**
+ * /api/score のレスポンス
+ */
+interface ScoreResult {
+  score: PlatformScore;
+  recommendations: ScoreRecommendation[];
+  metrics: {
+    weekStart: string;
+    weekEnd: string;
+    eventCount: number;
+  };
+}
+
+/**
+ * 実績データのインポート結果
+ */
+interface MetricsImportResult {
+  rows: number;
+  imported: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+/**
+ * 実績データのインポートパネル
+ */
+interface MetricsImportPanelProps {
+  platform: Platform;
+  onImported: () => void;
+}
+
+function MetricsImportPanel({ platform, onImported }: MetricsImportPanelProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/metrics/import?platform=${platform}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.name.toLowerCase().endsWith('.csv')
+            ? 'text/csv'
+            : 'application/json',
+        },
+        body: await file.text(),
+      });
+      const result: AnalysisResponse<MetricsImportResult> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'インポートに失敗しました');
+      }
+
+      const { imported, errors } = result.data;
+      setMessage(
+        `${imported}件の実績を取り込みました` +
+          (errors.length > 0 ? `（${errors.length}行はスキップ）` : '')
+      );
+      onImported();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'インポートに失敗しました');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+      <label className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg cursor-pointer transition-all">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={isImporting}
+        />
+        {isImporting ? 'インポート中...' : 'アナリティクスをインポート (CSV / JSON)'}
+      </label>
+      {message && <p className="text-white/60 text-sm">{message}</p>}
+    </div>
+  );
+}
+
 /**
  * メインのスコアダッシュボードページ
  */
 export default function ScorePage() {
   const [selectedPlatform, setSelectedPlatform] = useState<Platform>('threads');
-  const [scoreResult, setScoreResult] = useState<ScoreCalculationResult | null>(null);
+  const [scoreResult, setScoreResult] = useState<ScoreResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>(30);
+  const [historyGranularity, setHistoryGranularity] = useState<HistoryGranularity>('daily');
+  const [history, setHistory] = useState<ScoreHistoryEntry[]>([]);
+  const [showDeclineAlert, setShowDeclineAlert] = useState(true);
 
-  // サンプルデータでスコアを計算
-  useEffect(() => {
+  // インポート済みの実績からスコアを取得
+  const loadScore = useCallback(async (platform: Platform) => {
     setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/score', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform }),
+      });
+      const result: AnalysisResponse<ScoreResult> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'スコアの取得に失敗しました');
+      }
 
-    // シミュレーション: データ取得とスコア計算
-    const timer = setTimeout(() => {
-      const behaviorData = generateSampleBehaviorData();
-      const result = calculatePlatformScore(selectedPlatform, behaviorData);
-      setScoreResult(result);
+      setScoreResult(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'スコアの取得に失敗しました');
+    } finally {
       setIsLoading(false);
-    }, 500);
+    }
+  }, []);
 
-    return () => clearTimeout(timer);
-  }, [selectedPlatform]);
+  useEffect(() => {
+    loadScore(selectedPlatform);
+  }, [selectedPlatform, loadScore]);
+
+  // 保存済みスナップショットからスコア推移を取得（スコア再計算後も再取得）
+  useEffect(() => {
+    if (!scoreResult) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      platform: selectedPlatform,
+      range: String(historyRange),
+      granularity: historyGranularity,
+    });
+
+    fetch(`/api/score/history?${params}`)
+      .then((response) => response.json())
+      .then((result: AnalysisResponse<ScoreHistoryResult>) => {
+        if (cancelled) return;
+        setHistory(result.success && result.data ? result.data.entries : []);
+        setShowDeclineAlert(true);
+      })
+      .catch(() => {
+        if (!cancelled) setHistory([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scoreResult, selectedPlatform, historyRange, historyGranularity]);
+
+  // スコア推移の連続低下アラート
+  const declineAlert = useMemo(
+    () =>
+      createDeclineAlert(
+        history.map((entry) => entry.overallScore),
+        DECLINE_PERIODS
+      ),
+    [history]
+  );
 
   // スコアランク情報
   const rankInfo = useMemo(() => {
@@ -263,6 +491,22 @@ export default function ScorePage() {
     return getScoreRank(scoreResult.score.overallScore);
   }, [scoreResult]);
 
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <p className="text-red-400 mb-4">{error}</p>
+          <button
+            onClick={() => loadScore(selectedPlatform)}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all"
+          >
+            再読み込み
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading || !scoreResult) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -274,7 +518,7 @@ export default function ScorePage() {
     );
   }
 
-  const { score, recommendations, history } = scoreResult;
+  const { score, recommendations, metrics } = scoreResult;
 
   return (
     <div className="space-y-8">
@@ -295,6 +539,24 @@ export default function ScorePage() {
         />
       </div>
 
+      {/* スコア低下アラート */}
+      {declineAlert && showDeclineAlert && (
+        <AlertBanner alert={declineAlert} onDismiss={() => setShowDeclineAlert(false)} />
+      )}
+
+      {/* 実績データ */}
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-4 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <p className="text-white/70 text-sm">
+          {metrics.eventCount > 0
+            ? `${new Date(metrics.weekStart).toLocaleDateString('ja-JP')} 〜 ${new Date(metrics.weekEnd).toLocaleDateString('ja-JP')} の実績 ${metrics.eventCount}件から計算`
+            : '直近1週間の実績データがありません。各SNSのアナリティクスをインポートしてください。'}
+        </p>
+        <MetricsImportPanel
+          platform={selectedPlatform}
+          onImported={() => loadScore(selectedPlatform)}
+        />
+      </div>
+
       {/* メインスコアエリア */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* 総合スコア */}
@@ -374,9 +636,17 @@ export default function ScorePage() {
 
       {/* スコア推移グラフ */}
       <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-6">
-        <h2 className="text-lg font-semibold text-white mb-4">
-          スコア推移
-        </h2>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-white">
+            スコア推移
+          </h2>
+          <HistoryControls
+            range={historyRange}
+            granularity={historyGranularity}
+            onRangeChange={setHistoryRange}
+            onGranularityChange={setHistoryGranularity}
+          />
+        </div>
         <ScoreHistoryChart history={history} />
       </div>
 
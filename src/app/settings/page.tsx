@@ -0,0 +1,32 @@
+'use client';
+
+/**
+ * Settings Page
+ *
+ * アカウントごとの設定を管理するページ
+ * - プラットフォーム別の最適化ルールの上書き
+ * - 過去の投稿から抽出するブランドボイス
+ */
+
+import React from 'react';
+import { BrandVoiceEditor } from '../../components/BrandVoiceEditor';
+import { PlatformRulesEditor } from '../../components/PlatformRulesEditor';
+
+export default function SettingsPage() {
+  return (
+    <div className="space-y-8">
+      {/* ページヘッダー */}
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-2">
+          設定
+        </h1>
+        <p className="text-white/60">
+          アカウントに合わせて最適化のルールを調整しましょう。
+        </p>
+      </div>
+
+      <PlatformRulesEditor />
+      <BrandVoiceEditor />
+    </div>
+  );
+}
@@ -7,21 +7,76 @@
  * 核心戦略: 「他人が聞きたいことを9割、自分が言いたいことを1割」
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ModeRatioSlider } from '../../components/ModeRatioSlider';
 import { WeeklyScheduler } from '../../components/WeeklyScheduler';
-import { useStrategy, useStrategySummary, useCurrentMode } from '../../hooks/useStrategy';
+import {
+  useStrategy,
+  useStrategySummary,
+  useCurrentMode,
+  type StrategySyncStatus,
+} from '../../hooks/useStrategy';
 import { MODE_DESCRIPTIONS } from '../../services/strategyManager';
+import type { AnalysisResponse, EngagementStrategy, StrategyPreset } from '../../types/index';
+
+/**
+ * 同期状態の表示
+ */
+const SYNC_STATUS_LABELS: Record<StrategySyncStatus, string> = {
+  idle: '',
+  syncing: '同期中...',
+  synced: 'すべての端末と同期済み',
+  conflict: '他の端末で更新されていたため、最新の設定を読み込みました',
+  offline: 'ログインすると端末間で設定を同期できます',
+  error: '同期に失敗しました',
+};
 
 export default function StrategyPage() {
-  const [activeTab, setActiveTab] = useState<'ratio' | 'schedule' | 'comment'>('ratio');
+  const [activeTab, setActiveTab] = useState<'ratio' | 'schedule' | 'comment' | 'presets'>('ratio');
   const strategy = useStrategy((state) => state.strategy);
   const updateCommentStrategy = useStrategy((state) => state.updateCommentStrategy);
   const resetToDefault = useStrategy((state) => state.resetToDefault);
   const commentAdvice = useStrategy((state) => state.commentAdvice);
+  const syncStatus = useStrategy((state) => state.syncStatus);
+  const hydrateFromServer = useStrategy((state) => state.hydrateFromServer);
+  const pushToServer = useStrategy((state) => state.pushToServer);
+  const exportStrategy = useStrategy((state) => state.exportStrategy);
+  const importStrategy = useStrategy((state) => state.importStrategy);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const summary = useStrategySummary();
   const currentMode = useCurrentMode();
 
+  // サーバーに保存された戦略を読み込む
+  useEffect(() => {
+    hydrateFromServer();
+  }, [hydrateFromServer]);
+
+  // 戦略をJSONファイルとしてダウンロード
+  const handleExport = () => {
+    const blob = new Blob([exportStrategy()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'engagement-strategy.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // JSONファイルから戦略を読み込む
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      importStrategy(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '無効な戦略データです');
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* ページヘッダー */}
@@ -151,6 +206,16 @@ export default function StrategyPage() {
         >
           コメント戦略
         </button>
+        <button
+          onClick={() => setActiveTab('presets')}
+          className={`px-4 py-2 rounded-lg transition-all ${
+            activeTab === 'presets'
+              ? 'bg-white/10 text-white'
+              : 'text-white/50 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          プリセット
+        </button>
       </div>
 
       {/* タブコンテンツ */}
@@ -170,17 +235,49 @@ export default function StrategyPage() {
             updateCommentStrategy={updateCommentStrategy}
           />
         )}
+
+        {activeTab === 'presets' && (
+          <StrategyPresetsSection strategy={strategy} onChanged={hydrateFromServer} />
+        )}
       </div>
 
       {/* アクションボタン */}
-      <div className="flex justify-between items-center pt-4 border-t border-white/10">
-        <button
-          onClick={resetToDefault}
-          className="px-4 py-2 text-sm text-white/60 hover:text-white transition-colors"
-        >
-          デフォルトに戻す
-        </button>
+      <div className="flex flex-wrap justify-between items-center gap-4 pt-4 border-t border-white/10">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={resetToDefault}
+            className="px-4 py-2 text-sm text-white/60 hover:text-white transition-colors"
+          >
+            デフォルトに戻す
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 text-sm text-white/60 hover:text-white transition-colors"
+          >
+            エクスポート
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 text-sm text-white/60 hover:text-white transition-colors"
+          >
+            インポート
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+        {(importError || SYNC_STATUS_LABELS[syncStatus]) && (
+          <p className={`text-xs ${importError || syncStatus === 'error' ? 'text-red-400' : 'text-white/50'}`}>
+            {importError || SYNC_STATUS_LABELS[syncStatus]}
+          </p>
+        )}
         <button
+          onClick={() => pushToServer()}
+          disabled={syncStatus === 'syncing'}
           className="px-6 py-2 bg-gradient-to-r from-emerald-500 to-emerald-600
             text-white font-medium rounded-lg hover:from-emerald-600 hover:to-emerald-700
             transition-all shadow-lg shadow-emerald-500/25"
@@ -344,3 +441,205 @@ function CommentStrategySection({
     </div>
   );
 }
+
+/**
+ * 戦略プリセットセクション
+ */
+interface StrategyPresetsSectionProps {
+  strategy: EngagementStrategy;
+  onChanged: () => void;
+}
+
+/**
+ * 日時を表示用の日付に変換
+ */
+function toDateLabel(value: Date | string): string {
+  return new Date(value).toLocaleDateString('ja-JP');
+}
+
+function StrategyPresetsSection({ strategy, onChanged }: StrategyPresetsSectionProps) {
+  const [presets, setPresets] = useState<StrategyPreset[]>([]);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPresets = async () => {
+    try {
+      const response = await fetch('/api/strategy/presets');
+      const result: AnalysisResponse<StrategyPreset[]> = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'プリセットの取得に失敗しました');
+      }
+      setPresets(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'プリセットの取得に失敗しました');
+    }
+  };
+
+  useEffect(() => {
+    loadPresets();
+  }, []);
+
+  // プリセットAPIを呼び出し、一覧とストアを更新
+  const request = async (url: string, init: RequestInit) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const result: AnalysisResponse<unknown> = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'プリセットの保存に失敗しました');
+      }
+      await loadPresets();
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'プリセットの保存に失敗しました');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 現在の設定をプリセットとして保存（終了日はその日の終わりまで有効）
+  const handleCreate = async () => {
+    if ((startDate && !endDate) || (!startDate && endDate)) {
+      setError('期間は開始日と終了日の両方を指定してください');
+      return;
+    }
+
+    const activeUntil = endDate ? new Date(`${endDate}T00:00:00`) : null;
+    activeUntil?.setDate(activeUntil.getDate() + 1);
+
+    const created = await request('/api/strategy/presets', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        strategy,
+        activeFrom: startDate ? new Date(`${startDate}T00:00:00`).toISOString() : null,
+        activeUntil: activeUntil ? activeUntil.toISOString() : null,
+      }),
+    });
+
+    if (created) {
+      setName('');
+      setStartDate('');
+      setEndDate('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">戦略プリセット</h3>
+        <p className="text-sm text-white/60">
+          「ローンチ週」「通常」などの設定を保存して切り替えられます。期間を指定したプリセットは、その期間だけ優先されます。
+        </p>
+      </div>
+
+      {/* 一覧 */}
+      <div className="space-y-2">
+        {presets.length === 0 && (
+          <p className="text-sm text-white/40">保存されたプリセットはありません</p>
+        )}
+        {presets.map((preset) => (
+          <div
+            key={preset.id}
+            className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-slate-800/50 border border-white/10"
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium">{preset.name}</span>
+                {preset.isActive && (
+                  <span className="px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-400 text-xs">
+                    基本
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-white/50 mt-1">
+                {Math.round(preset.strategy.impressionRatio * 100)}:
+                {Math.round(preset.strategy.expressionRatio * 100)}
+                {preset.activeFrom && preset.activeUntil && (
+                  <>
+                    {' / '}
+                    {toDateLabel(preset.activeFrom)} 〜{' '}
+                    {toDateLabel(new Date(new Date(preset.activeUntil).getTime() - 1))}
+                  </>
+                )}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {!preset.isActive && (
+                <button
+                  onClick={() =>
+                    request(`/api/strategy/presets/${preset.id}`, {
+                      method: 'PATCH',
+                      body: JSON.stringify({ isActive: true }),
+                    })
+                  }
+                  disabled={isSaving}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-white/10 text-white hover:bg-white/20 transition-all"
+                >
+                  基本にする
+                </button>
+              )}
+              {!preset.isActive && (
+                <button
+                  onClick={() =>
+                    request(`/api/strategy/presets/${preset.id}`, { method: 'DELETE' })
+                  }
+                  disabled={isSaving}
+                  className="px-3 py-1.5 text-sm rounded-lg text-red-400 hover:bg-red-500/10 transition-all"
+                >
+                  削除
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 作成フォーム */}
+      <div className="p-4 rounded-xl bg-slate-800/30 border border-white/5 space-y-3">
+        <p className="text-sm text-white/70">現在の設定をプリセットとして保存</p>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="プリセット名（例: ローンチ週）"
+            className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-slate-800 border border-white/10 text-sm text-white focus:outline-none focus:border-white/30"
+          />
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-slate-800 border border-white/10 text-sm text-white"
+          />
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-slate-800 border border-white/10 text-sm text-white"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={isSaving || name.trim().length === 0}
+            className="px-4 py-2 text-sm rounded-lg bg-emerald-500/80 text-white hover:bg-emerald-500 disabled:opacity-50 transition-all"
+          >
+            保存
+          </button>
+        </div>
+        <p className="text-xs text-white/40">期間（任意）: 終了日の終わりまで有効</p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+/**
+ * BrandVoiceEditor Component
+ *
+ * 自分の過去の投稿からブランドボイスを抽出・確認する設定フォーム
+ * 投稿は「---」だけの行で区切って貼り付ける
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { BrandVoiceProfile } from '../lib/brandVoice';
+import type { AnalysisResponse } from '../types/index';
+
+const POST_SEPARATOR = /^\s*---\s*$/m;
+
+function toPosts(value: string): string[] {
+  return value
+    .split(POST_SEPARATOR)
+    .map((post) => post.trim())
+    .filter((post) => post.length > 0);
+}
+
+function toWords(value: string): string[] {
+  return value
+    .split(/[,、\n]/)
+    .map((word) => word.trim())
+    .filter((word) => word.length > 0);
+}
+
+export function BrandVoiceEditor() {
+  const [profile, setProfile] = useState<BrandVoiceProfile | null>(null);
+  const [postsText, setPostsText] = useState('');
+  const [bannedWordsText, setBannedWordsText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  // 保存済みのブランドボイスを読み込む
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/settings/brand-voice');
+        const result: AnalysisResponse<BrandVoiceProfile | null> = await response.json();
+        if (!cancelled && result.success) {
+          setProfile(result.data ?? null);
+          setBannedWordsText(result.data?.bannedWords.join(', ') ?? '');
+        }
+      } catch (err) {
+        console.error('Failed to load brand voice:', err);
+      }
+    };
+
+    loadProfile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const submit = async (method: 'PUT' | 'DELETE', body?: object) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/settings/brand-voice', {
+        method,
+        ...(body && {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      });
+      const result: AnalysisResponse<BrandVoiceProfile | null> = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update brand voice');
+      }
+
+      setProfile(result.data ?? null);
+      if (!result.data) {
+        setBannedWordsText('');
+      }
+      return true;
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'ブランドボイスの更新に失敗しました',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExtract = async () => {
+    const saved = await submit('PUT', {
+      posts: toPosts(postsText),
+      bannedWords: toWords(bannedWordsText),
+    });
+    if (saved) {
+      setPostsText('');
+      setMessage({ type: 'success', text: 'ブランドボイスを抽出しました' });
+    }
+  };
+
+  const handleSaveBannedWords = async () => {
+    if (await submit('PUT', { bannedWords: toWords(bannedWordsText) })) {
+      setMessage({ type: 'success', text: '禁止ワードを保存しました' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (await submit('DELETE')) {
+      setMessage({ type: 'success', text: 'ブランドボイスを削除しました' });
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-purple-400';
+
+  return (
+    <div className="bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+      <h2 className="text-xl font-bold text-white mb-2">ブランドボイス</h2>
+      <p className="text-white/60 text-sm mb-6">
+        自分の過去の投稿から語彙・文の長さ・絵文字の使い方・決まり文句を抽出し、最適化に反映します。
+        投稿本文は保存されません。
+      </p>
+
+      {/* Current Profile */}
+      {profile && (
+        <div className="mb-6 p-4 rounded-xl bg-black/20 border border-white/10 text-sm space-y-2">
+          <p className="text-white/50">{profile.sampleCount}件の投稿から抽出</p>
+          <p className="text-white/80">
+            1文あたり平均 {profile.averageSentenceLength} 文字 / 1投稿あたり絵文字{' '}
+            {profile.emojiPerPost} 個 {profile.topEmojis.join(' ')}
+          </p>
+          {profile.vocabulary.length > 0 && (
+            <p className="text-white/80">よく使う語彙: {profile.vocabulary.join(', ')}</p>
+          )}
+          {profile.signaturePhrases.length > 0 && (
+            <p className="text-white/80">
+              決まり文句: {profile.signaturePhrases.map((phrase) => `「${phrase}」`).join(' ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <label className="block">
+          <span className="block text-sm text-white/70 mb-1">
+            過去の投稿（3件以上、「---」だけの行で区切る）
+          </span>
+          <textarea
+            rows={8}
+            value={postsText}
+            onChange={(e) => setPostsText(e.target.value)}
+            placeholder={'1つ目の投稿\n---\n2つ目の投稿\n---\n3つ目の投稿'}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-sm text-white/70 mb-1">禁止ワード（カンマ区切り）</span>
+          <input
+            type="text"
+            value={bannedWordsText}
+            onChange={(e) => setBannedWordsText(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+
+        {message && (
+          <p className={message.type === 'error' ? 'text-red-400 text-sm' : 'text-green-400 text-sm'}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleExtract}
+            disabled={isSaving || toPosts(postsText).length === 0}
+            className="px-6 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-50"
+          >
+            {profile ? '投稿から再抽出' : '投稿から抽出'}
+          </button>
+          {profile && (
+            <>
+              <button
+                onClick={handleSaveBannedWords}
+                disabled={isSaving}
+                className="px-6 py-2 rounded-lg bg-white/10 text-white/70 hover:bg-white/20 disabled:opacity-50"
+              >
+                禁止ワードを保存
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="px-6 py-2 rounded-lg bg-white/10 text-red-300 hover:bg-white/20 disabled:opacity-50"
+              >
+                削除
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BrandVoiceEditor;
@@ -4,9 +4,12 @@
  * ContentAnalyzer Component
  *
  * バズ投稿のURL入力と分析結果を表示するコンポーネント
+ * - Threads / Instagram / X の投稿URLだけでも分析できる（本文はサーバーが取り込む）
  */
 
 import { useState, useCallback } from 'react';
+import { readEventStream } from '../lib/sse';
+import { parsePostUrl } from '../services/urlIngestion';
 import type { Platform, BuzzAnalysis } from '../types/index';
 
 interface ContentAnalyzerProps {
@@ -37,6 +40,7 @@ export default function ContentAnalyzer({
   });
   const [error, setError] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
 
   const handleInputChange = useCallback(
     (field: keyof AnalysisFormData, value: string | Platform) => {
@@ -46,21 +50,39 @@ export default function ContentAnalyzer({
     []
   );
 
+  // 投稿URLならプラットフォームを合わせる
+  const handleUrlChange = useCallback((value: string) => {
+    const postUrl = parsePostUrl(value);
+    setFormData((prev) => ({
+      ...prev,
+      url: value,
+      ...(postUrl && { platform: postUrl.platform }),
+    }));
+    setError(null);
+  }, []);
+
+  const postUrl = parsePostUrl(formData.url);
+  const canAnalyze = formData.content.trim().length > 0 || postUrl !== null;
+
   const handleAnalyze = async () => {
-    if (!formData.content.trim()) {
-      setError('バズ投稿の内容を入力してください');
+    if (!canAnalyze) {
+      setError('バズ投稿の内容、または投稿URLを入力してください');
       return;
     }
 
     setAnalyzing(true);
     setError(null);
+    setStreamingText('');
 
     try {
       const response = await fetch('/api/analyze', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+        },
         body: JSON.stringify({
-          url: formData.url || 'manual-input',
+          url: formData.url.trim() || undefined,
           content: formData.content,
           platform: formData.platform,
         }),
@@ -71,12 +93,19 @@ export default function ContentAnalyzer({
         throw new Error(errorData.error || 'Analysis failed');
       }
 
-      const analysis: BuzzAnalysis = await response.json();
+      // 生成中のテキストを表示しながら、最後に検証済みの分析結果を受け取る
+      // （修正のため生成し直す場合はそれまでの表示を消す）
+      const analysis = await readEventStream<BuzzAnalysis>(
+        response,
+        (text) => setStreamingText((prev) => prev + text),
+        () => setStreamingText('')
+      );
       onAnalysisComplete(analysis);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setAnalyzing(false);
+      setStreamingText('');
     }
   };
 
@@ -100,16 +129,21 @@ export default function ContentAnalyzer({
       {/* URL Input */}
       <div className="space-y-2">
         <label className="block text-sm font-medium text-white/80">
-          投稿URL（オプション）
+          投稿URL
         </label>
         <input
           type="url"
           value={formData.url}
-          onChange={(e) => handleInputChange('url', e.target.value)}
+          onChange={(e) => handleUrlChange(e.target.value)}
           placeholder="https://threads.net/..."
           className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 transition"
           disabled={isProcessing}
         />
+        <p className="text-xs text-white/40">
+          {postUrl
+            ? '内容が空の場合は投稿ページから本文を取り込みます。いいね数などの反応数も取り込みます'
+            : 'Threads / Instagram / X の投稿URLを入力すると本文を自動で取り込めます'}
+        </p>
       </div>
 
       {/* Platform Selection */}
@@ -139,7 +173,8 @@ export default function ContentAnalyzer({
       {/* Content Input */}
       <div className="space-y-2">
         <label className="block text-sm font-medium text-white/80">
-          バズ投稿の内容 <span className="text-red-400">*</span>
+          バズ投稿の内容
+          {!postUrl && <span className="text-red-400"> *</span>}
         </label>
         <textarea
           value={formData.content}
@@ -159,6 +194,16 @@ export default function ContentAnalyzer({
         </p>
       </div>
 
+      {/* Streaming Preview */}
+      {analyzing && streamingText && (
+        <div className="space-y-2">
+          <p className="text-xs text-white/40">AIの出力（生成中）</p>
+          <pre className="max-h-48 overflow-y-auto p-4 bg-black/30 border border-white/10 rounded-xl text-xs text-white/70 whitespace-pre-wrap break-all">
+            {streamingText}
+          </pre>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200">
@@ -169,9 +214,9 @@ export default function ContentAnalyzer({
       {/* Analyze Button */}
       <button
         onClick={handleAnalyze}
-        disabled={isProcessing || !formData.content.trim()}
+        disabled={isProcessing || !canAnalyze}
         className={`w-full py-4 rounded-xl font-semibold text-lg transition flex items-center justify-center gap-2 ${
-          isProcessing || !formData.content.trim()
+          isProcessing || !canAnalyze
             ? 'bg-white/10 text-white/40 cursor-not-allowed'
             : 'bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:from-purple-600 hover:to-pink-600 glow-purple'
         }`}
@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * ContentSearch Component
+ *
+ * 保存した分析と下書きを横断して検索する。
+ * 結果を選ぶと、その分析（下書きの場合は元の分析）を開く
+ */
+
+import { useState } from 'react';
+import type {
+  ContentSearchHit,
+  ContentSearchResult,
+  SearchMatch,
+  SearchResultType,
+} from '../services/contentSearch';
+import type { AnalysisResponse, Platform, PostMode } from '../types/index';
+
+const RESULT_LIMIT = 20;
+
+const MATCH_LABELS: Record<SearchMatch, string> = {
+  keyword: 'キーワード',
+  semantic: '似た投稿',
+};
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  analysis: '分析',
+  draft: '下書き',
+};
+
+const FIELD_LABELS: Record<ContentSearchHit['field'], string> = {
+  transcript: '本文',
+  keyPoints: 'キーポイント',
+  content: '下書き',
+};
+
+// 期間（日数、0 は全期間）
+const PERIOD_OPTIONS = [
+  { days: 0, label: '全期間' },
+  { days: 7, label: '7日以内' },
+  { days: 30, label: '30日以内' },
+  { days: 90, label: '90日以内' },
+];
+
+const selectClassName =
+  'px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white focus:outline-none';
+
+interface ContentSearchProps {
+  onSelectAnalysis: (analysisId: string) => void;
+}
+
+export default function ContentSearch({ onSelectAnalysis }: ContentSearchProps) {
+  const [query, setQuery] = useState('');
+  const [match, setMatch] = useState<SearchMatch>('keyword');
+  const [type, setType] = useState<SearchResultType | ''>('');
+  const [platform, setPlatform] = useState<Platform | ''>('');
+  const [mode, setMode] = useState<PostMode | ''>('');
+  const [periodDays, setPeriodDays] = useState(0);
+  const [result, setResult] = useState<ContentSearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        q: query.trim(),
+        match,
+        limit: String(RESULT_LIMIT),
+      });
+      if (type) params.set('type', type);
+      if (platform) params.set('platform', platform);
+      if (mode) params.set('mode', mode);
+      if (periodDays > 0) {
+        params.set('from', new Date(Date.now() - periodDays * 86400000).toISOString());
+      }
+
+      const response = await fetch(`/api/search?${params.toString()}`);
+      const data: AnalysisResponse<ContentSearchResult> = await response.json();
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Search failed');
+      }
+
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '検索に失敗しました');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white">分析・下書きを検索</h3>
+
+      <form onSubmit={handleSearch} className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="例: 副業 月5万円"
+            className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white placeholder-white/40 focus:outline-none focus:border-purple-400"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !query.trim()}
+            className="px-4 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-sm font-medium text-white disabled:opacity-50 transition"
+          >
+            {isSearching ? '検索中...' : '検索'}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <div className="flex rounded-lg border border-white/20 overflow-hidden">
+            {(Object.keys(MATCH_LABELS) as SearchMatch[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMatch(option)}
+                className={`px-3 py-2 text-sm transition ${
+                  match === option
+                    ? 'bg-purple-500/40 text-white'
+                    : 'bg-white/5 text-white/60 hover:text-white'
+                }`}
+              >
+                {MATCH_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as SearchResultType | '')}
+            className={selectClassName}
+          >
+            <option value="" className="bg-gray-900">分析と下書き</option>
+            <option value="analysis" className="bg-gray-900">分析のみ</option>
+            <option value="draft" className="bg-gray-900">下書きのみ</option>
+          </select>
+          <select
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value as Platform | '')}
+            className={selectClassName}
+          >
+            <option value="" className="bg-gray-900">全プラットフォーム</option>
+            <option value="threads" className="bg-gray-900">Threads</option>
+            <option value="instagram" className="bg-gray-900">Instagram</option>
+            <option value="twitter" className="bg-gray-900">X</option>
+          </select>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as PostMode | '')}
+            className={selectClassName}
+          >
+            <option value="" className="bg-gray-900">全モード</option>
+            <option value="impression" className="bg-gray-900">インプレッション重視</option>
+            <option value="expression" className="bg-gray-900">自己表現重視</option>
+          </select>
+          <select
+            value={periodDays}
+            onChange={(e) => setPeriodDays(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {PERIOD_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days} className="bg-gray-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {mode && (
+          <p className="text-xs text-white/40">モードを指定すると下書きのみを検索します</p>
+        )}
+      </form>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-white/50">
+            {result.total}件
+            {result.total > result.hits.length && `（上位${result.hits.length}件を表示）`}
+          </p>
+          {result.hits.map((hit) => {
+            const analysisId = hit.type === 'analysis' ? hit.id : hit.analysisId;
+            return (
+              <button
+                key={`${hit.type}-${hit.id}`}
+                onClick={() => analysisId && onSelectAnalysis(analysisId)}
+                disabled={!analysisId}
+                className="w-full text-left p-3 rounded-xl bg-white/5 hover:bg-white/10 disabled:hover:bg-white/5 transition"
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-1 text-xs text-white/40">
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">
+                    {TYPE_LABELS[hit.type]}
+                  </span>
+                  <span>{hit.platform}</span>
+                  {hit.mode && <span>{hit.mode}</span>}
+                  <span>{FIELD_LABELS[hit.field]}</span>
+                  <span>{new Date(hit.createdAt).toLocaleDateString('ja-JP')}</span>
+                </div>
+                <div className="text-sm text-white/80">{hit.snippet}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * HookLibraryPicker Component
+ *
+ * フックライブラリ（分析したバズ投稿から集めたフック）を検索し、
+ * 最適化の冒頭に使うフックを選ぶ。選んだフックにはタグを付けられる
+ */
+
+import { useEffect, useState } from 'react';
+import { HOOK_SORTS, type HookLibraryEntry, type HookSort } from '../lib/hookLibrary';
+import type { AnalysisResponse, PaginatedResult } from '../types/index';
+
+const PAGE_SIZE = 8;
+const SEARCH_DELAY_MS = 300;
+
+const SORT_LABELS: Record<HookSort, string> = {
+  engagement: 'エンゲージメント順',
+  impressions: 'インプレッション順',
+  usage: 'よく使う順',
+  recent: '新しい順',
+};
+
+function toTags(value: string): string[] {
+  return value
+    .split(/[,、\s]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+interface HookLibraryPickerProps {
+  selectedHook: HookLibraryEntry | null;
+  onSelect: (hook: HookLibraryEntry | null) => void;
+  disabled?: boolean;
+}
+
+export default function HookLibraryPicker({
+  selectedHook,
+  onSelect,
+  disabled = false,
+}: HookLibraryPickerProps) {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<HookSort>('engagement');
+  const [hooks, setHooks] = useState<HookLibraryEntry[]>([]);
+  const [tagsText, setTagsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // 入力が止まってから検索する
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+        if (query.trim()) params.set('q', query.trim());
+
+        const response = await fetch(`/api/hooks?${params.toString()}`);
+        if (!response.ok) return;
+
+        const result: AnalysisResponse<PaginatedResult<HookLibraryEntry>> = await response.json();
+        if (!cancelled && result.success && result.data) {
+          setHooks(result.data.items);
+        }
+      } catch (err) {
+        console.error('Failed to load hook library:', err);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, sort]);
+
+  useEffect(() => {
+    setTagsText(selectedHook?.tags.join(', ') ?? '');
+  }, [selectedHook]);
+
+  const handleSaveTags = async () => {
+    if (!selectedHook) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/hooks/${selectedHook.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: toTags(tagsText) }),
+      });
+      const result: AnalysisResponse<HookLibraryEntry> = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to update tags');
+      }
+
+      const updated = result.data;
+      setHooks((prev) => prev.map((hook) => (hook.id === updated.id ? updated : hook)));
+      onSelect(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'タグの保存に失敗しました');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="フック・タグ・感情トリガーで検索"
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white placeholder-white/40 focus:outline-none focus:border-cyan-400"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as HookSort)}
+          disabled={disabled}
+          className="px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white focus:outline-none"
+        >
+          {HOOK_SORTS.map((option) => (
+            <option key={option} value={option} className="bg-gray-900">
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {hooks.length === 0 ? (
+        <p className="text-xs text-white/40">
+          フックはバズ投稿を分析するたびにライブラリに追加されます
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-56 overflow-y-auto">
+          {hooks.map((hook) => (
+            <button
+              key={hook.id}
+              onClick={() => onSelect(selectedHook?.id === hook.id ? null : hook)}
+              disabled={disabled}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition ${
+                selectedHook?.id === hook.id
+                  ? 'bg-cyan-500/30 border-cyan-500 text-white'
+                  : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              <div className="line-clamp-2">{hook.text}</div>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-white/40">
+                <span>{hook.platform}</span>
+                <span>{hook.engagement}%</span>
+                <span>{hook.impressions.toLocaleString()} imp</span>
+                {hook.sourceCount > 1 && <span>{hook.sourceCount}件の投稿</span>}
+                {hook.emotionalTriggers.slice(0, 2).map((trigger) => (
+                  <span key={trigger} className="text-pink-300/70">
+                    {trigger}
+                  </span>
+                ))}
+                {hook.tags.map((tag) => (
+                  <span key={tag} className="text-cyan-300/80">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedHook && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            placeholder="タグ（カンマ区切り）"
+            disabled={disabled}
+            className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white placeholder-white/40 focus:outline-none focus:border-cyan-400"
+          />
+          <button
+            onClick={handleSaveTags}
+            disabled={disabled}
+            className="px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-sm text-white/80 hover:bg-white/20 transition"
+          >
+            タグを保存
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -5,18 +5,66 @@
  *
  * 最適化されたコンテンツの表示とコピー機能
  * プラットフォーム別プレビュー対応
+ * 保存済みの下書きは再生成せずに開き直せる
+ * 文字数・ハッシュタグなどのルール違反をプレビュー内に表示
+ * X / Threads ではスレッド形式（複数の投稿）で生成でき、投稿ごとにプレビューする
+ * Instagram ではカルーセルのスライド構成・リールの台本を生成し、Markdown / JSON で書き出せる
+ * フックライブラリから選んだフックを冒頭に使える
  */
 
-import { useState, useCallback } from 'react';
-import type { Platform, BuzzAnalysis, OptimizedContent, PostMode } from '../types/index';
+import { useState, useCallback, useMemo } from 'react';
+import HookLibraryPicker from './HookLibraryPicker';
+import { checkCompliance, checkThreadCompliance } from '../lib/compliance';
+import type { HookLibraryEntry } from '../lib/hookLibrary';
+import { PLATFORM_RULES } from '../lib/platformRules';
+import { supportsThread } from '../lib/threadSegments';
+import { VISUAL_FORMAT_LABELS, formatTimecode, supportsVisualPlan } from '../lib/visualPlan';
+import type {
+  Platform,
+  BuzzAnalysis,
+  ContentFormat,
+  OptimizedContent,
+  PostMode,
+} from '../types/index';
+
+/**
+ * 出力形式・冒頭のフックの指定（/api/optimize の format・numbering・hookId）
+ */
+export interface OptimizeFormatOptions {
+  format?: ContentFormat;
+  numbering?: boolean;
+  hookId?: string;
+}
 
 interface OptimizedOutputProps {
   analysis: BuzzAnalysis | null;
+  /** onDelta には生成中のテキストの差分が届き、onReset は書き直しの前にそれまでの差分を破棄させる */
   onOptimize: (
     analysis: BuzzAnalysis,
     platform: Platform,
-    mode: PostMode
+    mode: PostMode,
+    onDelta?: (text: string) => void,
+    onReset?: () => void,
+    options?: OptimizeFormatOptions
   ) => Promise<OptimizedContent>;
+  /** 現在の分析から作られた保存済み下書き（新しい順） */
+  savedDrafts?: OptimizedContent[];
+}
+
+const FORMAT_CONFIG: Record<ContentFormat, { label: string; description: string }> = {
+  single: { label: '1投稿', description: '1つの投稿にまとめる' },
+  thread: { label: 'スレッド', description: '複数の投稿に分けてつなげる' },
+  carousel: { label: 'カルーセル', description: 'スライド構成とキャプション' },
+  reels: { label: 'リール', description: '秒単位の台本とキャプション' },
+};
+
+/**
+ * プラットフォームで選べる投稿形式
+ */
+function formatsFor(platform: Platform): ContentFormat[] {
+  if (supportsThread(platform)) return ['single', 'thread'];
+  if (supportsVisualPlan(platform)) return ['single', 'carousel', 'reels'];
+  return ['single'];
 }
 
 const PLATFORM_CONFIG: Record<
@@ -46,30 +94,74 @@ const PLATFORM_CONFIG: Record<
 export default function OptimizedOutput({
   analysis,
   onOptimize,
+  savedDrafts = [],
 }: OptimizedOutputProps) {
   const [selectedPlatform, setSelectedPlatform] = useState<Platform>('threads');
   const [mode, setMode] = useState<PostMode>('impression');
+  const [format, setFormat] = useState<ContentFormat>('single');
+  const [numbering, setNumbering] = useState(true);
+  const [openingHook, setOpeningHook] = useState<HookLibraryEntry | null>(null);
   const [optimizedContent, setOptimizedContent] = useState<OptimizedContent | null>(null);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // 生成時の検証結果（保存済みの下書きはデフォルトのルールで検証し直す）
+  const compliance = useMemo(() => {
+    if (!optimizedContent) return null;
+    if (optimizedContent.compliance) return optimizedContent.compliance;
+
+    const { segments, hashtags, targetPlatform } = optimizedContent;
+    const rules = PLATFORM_RULES[targetPlatform];
+    return segments
+      ? checkThreadCompliance({ segments, hashtags }, targetPlatform, rules)
+      : checkCompliance(optimizedContent, targetPlatform, rules);
+  }, [optimizedContent]);
+
+  // スレッドは X / Threads、カルーセル・リールは Instagram のみ
+  const availableFormats = formatsFor(selectedPlatform);
+  const effectiveFormat: ContentFormat = availableFormats.includes(format) ? format : 'single';
+
   const handleOptimize = async () => {
     if (!analysis) return;
 
     setIsOptimizing(true);
     setError(null);
+    setStreamingText('');
 
     try {
-      const result = await onOptimize(analysis, selectedPlatform, mode);
+      const formatOptions: OptimizeFormatOptions =
+        effectiveFormat === 'thread'
+          ? { format: 'thread', numbering }
+          : effectiveFormat === 'single'
+            ? {}
+            : { format: effectiveFormat };
+      const result = await onOptimize(
+        analysis,
+        selectedPlatform,
+        mode,
+        (text) => setStreamingText((prev) => prev + text),
+        () => setStreamingText(''),
+        openingHook ? { ...formatOptions, hookId: openingHook.id } : formatOptions
+      );
       setOptimizedContent(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Optimization failed');
     } finally {
       setIsOptimizing(false);
+      setStreamingText('');
     }
   };
 
+  const handleOpenDraft = useCallback((draft: OptimizedContent) => {
+    setOptimizedContent(draft);
+    setSelectedPlatform(draft.targetPlatform);
+    setMode(draft.mode);
+    setFormat(draft.segments ? 'thread' : (draft.visualPlan?.format ?? 'single'));
+    setError(null);
+  }, []);
+
   const handleCopy = useCallback(async () => {
     if (!optimizedContent) return;
 
@@ -235,6 +327,97 @@ export default function OptimizedOutput({
         </div>
       </div>
 
+      {/* Format Selection */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-white/80">
+          投稿形式
+        </label>
+        <div className="flex gap-3">
+          {availableFormats.map((option) => (
+            <button
+              key={option}
+              onClick={() => setFormat(option)}
+              disabled={isOptimizing}
+              className={`flex-1 py-3 px-4 rounded-xl border transition ${
+                effectiveFormat === option
+                  ? 'bg-cyan-500/30 border-cyan-500 text-white'
+                  : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              <div className="text-left">
+                <div className="font-medium">{FORMAT_CONFIG[option].label}</div>
+                <div className="text-xs opacity-70">{FORMAT_CONFIG[option].description}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+        {effectiveFormat === 'thread' && (
+          <label className="flex items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={numbering}
+              onChange={(e) => setNumbering(e.target.checked)}
+              disabled={isOptimizing}
+            />
+            各投稿に番号（1/5）を付ける
+          </label>
+        )}
+      </div>
+
+      {/* Opening Hook */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-white/80">
+          冒頭のフック（任意）
+        </label>
+        <p className="text-xs text-white/50">
+          {openingHook
+            ? `「${openingHook.text}」で始めます`
+            : '選ばない場合は分析したフックをもとに生成します'}
+        </p>
+        <HookLibraryPicker
+          selectedHook={openingHook}
+          onSelect={setOpeningHook}
+          disabled={isOptimizing}
+        />
+      </div>
+
+      {/* Saved Drafts */}
+      {savedDrafts.length > 0 && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-white/80">
+            保存済みの下書き
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {savedDrafts.map((draft) => (
+              <button
+                key={draft.id}
+                onClick={() => handleOpenDraft(draft)}
+                disabled={isOptimizing}
+                className={`px-3 py-2 rounded-xl border text-xs transition flex items-center gap-2 ${
+                  optimizedContent?.id === draft.id
+                    ? 'bg-blue-500/30 border-blue-500 text-white'
+                    : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10 hover:text-white'
+                }`}
+              >
+                <span className={`font-mono ${PLATFORM_CONFIG[draft.targetPlatform].color}`}>
+                  {PLATFORM_CONFIG[draft.targetPlatform].icon}
+                </span>
+                <span>{draft.mode === 'impression' ? 'Imp' : 'Exp'}</span>
+                {draft.segments && (
+                  <span className="text-cyan-300">{draft.segments.length}件</span>
+                )}
+                {draft.visualPlan && (
+                  <span className="text-cyan-300">
+                    {VISUAL_FORMAT_LABELS[draft.visualPlan.format]}
+                  </span>
+                )}
+                <span className="text-white/40">{formatDate(draft.createdAt)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-xl text-red-200">
@@ -285,6 +468,16 @@ export default function OptimizedOutput({
         )}
       </button>
 
+      {/* Streaming Preview */}
+      {isOptimizing && streamingText && (
+        <div className="space-y-2">
+          <p className="text-xs text-white/40">AIの出力（生成中）</p>
+          <pre className="max-h-48 overflow-y-auto p-4 bg-black/30 border border-white/10 rounded-xl text-xs text-white/70 whitespace-pre-wrap break-all">
+            {streamingText}
+          </pre>
+        </div>
+      )}
+
       {/* Optimized Content Output */}
       {optimizedContent && (
         <div className="space-y-4 pt-4 border-t border-white/10">
@@ -292,11 +485,29 @@ export default function OptimizedOutput({
             <h3 className="text-lg font-semibold text-white">
               最適化されたコンテンツ
             </h3>
-            <div className="flex items-center gap-2 text-xs text-white/50">
-              <span>推定インプレッション:</span>
-              <span className="text-green-400 font-medium">
-                {optimizedContent.expectedImpressions.toLocaleString()}
-              </span>
+            <div className="flex items-center gap-4 text-xs text-white/50">
+              {optimizedContent.voiceMatchScore !== undefined && (
+                <div className="flex items-center gap-2">
+                  <span>ブランドボイス一致度:</span>
+                  <span
+                    className={`font-medium ${
+                      optimizedContent.voiceMatchScore >= 70
+                        ? 'text-green-400'
+                        : optimizedContent.voiceMatchScore >= 40
+                          ? 'text-yellow-400'
+                          : 'text-red-400'
+                    }`}
+                  >
+                    {optimizedContent.voiceMatchScore}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <span>推定インプレッション:</span>
+                <span className="text-green-400 font-medium">
+                  {optimizedContent.expectedImpressions.toLocaleString()}
+                </span>
+              </div>
             </div>
           </div>
 
@@ -323,10 +534,96 @@ export default function OptimizedOutput({
               </div>
             </div>
 
+            {/* Carousel / Reels Plan */}
+            {optimizedContent.visualPlan?.format === 'carousel' && (
+              <ol className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {optimizedContent.visualPlan.slides.map((slide, index) => (
+                  <li key={index} className="p-3 rounded-lg bg-black/30 space-y-1">
+                    <div className="text-xs text-white/50">スライド {index + 1}</div>
+                    <div className="text-sm font-semibold text-white">{slide.title}</div>
+                    <div className="text-sm text-white/80 whitespace-pre-wrap">{slide.body}</div>
+                    <div className="text-xs text-pink-200/80">🎨 {slide.visual}</div>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {optimizedContent.visualPlan?.format === 'reels' && (
+              <ol className="mb-4 space-y-2">
+                {optimizedContent.visualPlan.beats.map((beat, index) => (
+                  <li key={index} className="p-3 rounded-lg bg-black/30 flex gap-3">
+                    <div className="text-xs font-mono text-white/60 whitespace-nowrap">
+                      {formatTimecode(beat.start)}-{formatTimecode(beat.end)}
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-sm font-semibold text-white">{beat.onScreenText}</div>
+                      <div className="text-sm text-white/80">{beat.narration}</div>
+                      <div className="text-xs text-pink-200/80">🎬 {beat.visual}</div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+
             {/* Content */}
-            <div className="text-white whitespace-pre-wrap text-sm leading-relaxed">
-              {optimizedContent.content}
-            </div>
+            {optimizedContent.segments ? (
+              <ol className="space-y-3">
+                {optimizedContent.segments.map((segment, index) => {
+                  const count = compliance?.segmentCharacterCounts?.[index];
+                  return (
+                    <li key={index} className="p-3 rounded-lg bg-white/10">
+                      <div className="text-white whitespace-pre-wrap text-sm leading-relaxed">
+                        {segment}
+                      </div>
+                      {compliance && count !== undefined && (
+                        <div
+                          className={`mt-1 text-right text-xs ${
+                            count > compliance.maxLength ? 'text-red-300' : 'text-white/50'
+                          }`}
+                        >
+                          {count} / {compliance.maxLength} 文字
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            ) : (
+              <div className="text-white whitespace-pre-wrap text-sm leading-relaxed">
+                {optimizedContent.content}
+              </div>
+            )}
+
+            {/* Length against the platform limit */}
+            {compliance && !optimizedContent.segments && (
+              <div
+                className={`mt-2 text-right text-xs ${
+                  compliance.characterCount > compliance.maxLength
+                    ? 'text-red-300'
+                    : 'text-white/50'
+                }`}
+              >
+                {compliance.characterCount} / {compliance.maxLength} 文字
+              </div>
+            )}
+
+            {/* Rule Violations */}
+            {compliance && compliance.violations.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {compliance.violations.map((violation, index) => (
+                  <li
+                    key={`${violation.code}-${index}`}
+                    className={`text-xs px-3 py-1.5 rounded-lg ${
+                      violation.severity === 'error'
+                        ? 'bg-red-500/20 text-red-200'
+                        : 'bg-yellow-500/20 text-yellow-100'
+                    }`}
+                  >
+                    {violation.severity === 'error' ? '⚠ ' : ''}
+                    {violation.message}
+                  </li>
+                ))}
+              </ul>
+            )}
 
             {/* Hashtags */}
             {optimizedContent.hashtags.length > 0 && (
@@ -414,6 +711,23 @@ export default function OptimizedOutput({
             </button>
           </div>
 
+          {/* Export */}
+          <div className="flex items-center justify-end gap-3 text-xs text-white/60">
+            <span>書き出し:</span>
+            <a
+              href={`/api/drafts/${optimizedContent.id}/export?format=markdown`}
+              className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white"
+            >
+              Markdown
+            </a>
+            <a
+              href={`/api/drafts/${optimizedContent.id}/export?format=json`}
+              className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white"
+            >
+              JSON
+            </a>
+          </div>
+
           {/* Best Post Time */}
           <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-center gap-3">
             <div className="w-8 h-8 rounded-full bg-yellow-500/30 flex items-center justify-center flex-shrink-0">
@@ -0,0 +1,315 @@
+'use client';
+
+/**
+ * PlatformRulesEditor Component
+ *
+ * プラットフォーム別の最適化ルールをユーザーごとに上書きする編集フォーム
+ * デフォルトと同じ値の項目は上書きせず、デフォルトに追従させる
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { PlatformRules } from '../lib/platformRules';
+import type { PlatformRuleSettings } from '../services/platformRuleRepository';
+import type { AnalysisResponse, Platform } from '../types/index';
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  threads: 'Threads',
+  instagram: 'Instagram',
+  twitter: 'X (Twitter)',
+};
+
+const FIELD_LABELS: Record<keyof PlatformRules, string> = {
+  maxLength: '最大文字数',
+  hashtagCount: 'ハッシュタグ数',
+  tone: 'トーン',
+  formatting: 'フォーマット',
+  bestPractices: 'ベストプラクティス',
+};
+
+/**
+ * フォームの入力値（配列は1行1項目）
+ */
+interface RuleForm {
+  maxLength: string;
+  hashtagCount: string;
+  tone: string;
+  formatting: string;
+  bestPractices: string;
+}
+
+function toForm(rules: PlatformRules): RuleForm {
+  return {
+    maxLength: String(rules.maxLength),
+    hashtagCount: String(rules.hashtagCount),
+    tone: rules.tone,
+    formatting: rules.formatting.join('\n'),
+    bestPractices: rules.bestPractices.join('\n'),
+  };
+}
+
+function toLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * デフォルトと異なる項目だけを上書きとして送る
+ */
+function toOverride(form: RuleForm, defaults: PlatformRules): Partial<PlatformRules> {
+  const formatting = toLines(form.formatting);
+  const bestPractices = toLines(form.bestPractices);
+
+  return {
+    ...(Number(form.maxLength) !== defaults.maxLength && { maxLength: Number(form.maxLength) }),
+    ...(Number(form.hashtagCount) !== defaults.hashtagCount && {
+      hashtagCount: Number(form.hashtagCount),
+    }),
+    ...(form.tone.trim() !== defaults.tone && { tone: form.tone.trim() }),
+    ...(formatting.join('\n') !== defaults.formatting.join('\n') && { formatting }),
+    ...(bestPractices.join('\n') !== defaults.bestPractices.join('\n') && { bestPractices }),
+  };
+}
+
+export function PlatformRulesEditor() {
+  const [settings, setSettings] = useState<PlatformRuleSettings[]>([]);
+  const [selectedPlatform, setSelectedPlatform] = useState<Platform>('threads');
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const current = settings.find((item) => item.platform === selectedPlatform);
+
+  // 保存済みのルールを読み込む
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/platform-rules');
+        const result: AnalysisResponse<PlatformRuleSettings[]> = await response.json();
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to load platform rules');
+        }
+        if (!cancelled) {
+          setSettings(result.data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setMessage({
+            type: 'error',
+            text: err instanceof Error ? err.message : 'ルールの読み込みに失敗しました',
+          });
+        }
+      }
+    };
+
+    loadSettings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // プラットフォームを切り替えたらフォームを読み直す
+  useEffect(() => {
+    setForm(current ? toForm(current.rules) : null);
+  }, [current]);
+
+  const applyResult = useCallback(async (response: Response, successText: string) => {
+    const result: AnalysisResponse<PlatformRuleSettings> = await response.json();
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to update platform rules');
+    }
+
+    const updated = result.data;
+    setSettings((prev) =>
+      prev.map((item) => (item.platform === updated.platform ? updated : item))
+    );
+    setMessage({ type: 'success', text: successText });
+  }, []);
+
+  const handleSave = async () => {
+    if (!current || !form) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/settings/platform-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          platform: selectedPlatform,
+          rules: toOverride(form, current.defaults),
+        }),
+      });
+      await applyResult(response, 'ルールを保存しました');
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'ルールの保存に失敗しました',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(
+        `/api/settings/platform-rules?platform=${selectedPlatform}`,
+        { method: 'DELETE' }
+      );
+      await applyResult(response, 'デフォルトに戻しました');
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'ルールのリセットに失敗しました',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateField = (field: keyof RuleForm, value: string) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const renderLabel = (field: keyof PlatformRules) => (
+    <span className="flex items-center gap-2 text-sm text-white/70 mb-1">
+      {FIELD_LABELS[field]}
+      {current?.overridden.includes(field) && (
+        <span className="px-2 py-0.5 rounded bg-purple-500/30 text-purple-200 text-xs">
+          カスタム
+        </span>
+      )}
+    </span>
+  );
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-purple-400';
+
+  return (
+    <div className="bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 p-6">
+      <h2 className="text-xl font-bold text-white mb-2">プラットフォームルール</h2>
+      <p className="text-white/60 text-sm mb-6">
+        最適化（ガッチャンコ）で使うルールをアカウントに合わせて変更できます。
+      </p>
+
+      {/* Platform Tabs */}
+      <div className="flex gap-2 mb-6">
+        {(Object.keys(PLATFORM_LABELS) as Platform[]).map((platform) => (
+          <button
+            key={platform}
+            onClick={() => {
+              setSelectedPlatform(platform);
+              setMessage(null);
+            }}
+            className={`px-4 py-2 rounded-lg text-sm transition ${
+              selectedPlatform === platform
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            {PLATFORM_LABELS[platform]}
+          </button>
+        ))}
+      </div>
+
+      {form && current ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              {renderLabel('maxLength')}
+              <input
+                type="number"
+                min={1}
+                max={current.defaults.maxLength}
+                value={form.maxLength}
+                onChange={(e) => updateField('maxLength', e.target.value)}
+                className={inputClass}
+              />
+              <span className="text-xs text-white/40">
+                上限: {current.defaults.maxLength} 文字
+              </span>
+            </label>
+            <label className="block">
+              {renderLabel('hashtagCount')}
+              <input
+                type="number"
+                min={0}
+                value={form.hashtagCount}
+                onChange={(e) => updateField('hashtagCount', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            {renderLabel('tone')}
+            <input
+              type="text"
+              value={form.tone}
+              onChange={(e) => updateField('tone', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block">
+            {renderLabel('formatting')}
+            <textarea
+              rows={3}
+              value={form.formatting}
+              onChange={(e) => updateField('formatting', e.target.value)}
+              className={inputClass}
+            />
+            <span className="text-xs text-white/40">1行に1項目</span>
+          </label>
+
+          <label className="block">
+            {renderLabel('bestPractices')}
+            <textarea
+              rows={4}
+              value={form.bestPractices}
+              onChange={(e) => updateField('bestPractices', e.target.value)}
+              className={inputClass}
+            />
+            <span className="text-xs text-white/40">1行に1項目</span>
+          </label>
+
+          {message && (
+            <p className={message.type === 'error' ? 'text-red-400 text-sm' : 'text-green-400 text-sm'}>
+              {message.text}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-white font-medium disabled:opacity-50"
+            >
+              保存
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={isSaving || current.overridden.length === 0}
+              className="px-6 py-2 rounded-lg bg-white/10 text-white/70 hover:bg-white/20 disabled:opacity-50"
+            >
+              デフォルトに戻す
+            </button>
+          </div>
+        </div>
+      ) : (
+        message && <p className="text-red-400 text-sm">{message.text}</p>
+      )}
+    </div>
+  );
+}
+
+export default PlatformRulesEditor;
@@ -479,8 +479,15 @@ export default function TrendingTopics({
 
       case 'patterns':
         return (
-          <div className="grid gap-4 md:grid-cols-2">
-            {trendData.buzzPatterns.map(renderPatternCard)}
+          <div className="space-y-3">
+            <p className="text-xs text-white/50">
+              {trendData.buzzPatternSource === 'mined'
+                ? 'あなたの保存済み分析（反応数が実測のもの）から抽出したパターンです（成功率は反応数が中央値を超えた割合）'
+                : 'テンプレートのパターンです。このプラットフォームで反応数が実測の分析がたまると、あなたのデータから抽出します'}
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              {trendData.buzzPatterns.map(renderPatternCard)}
+            </div>
           </div>
         );
 
@@ -530,11 +537,18 @@ export default function TrendingTopics({
           </div>
         </div>
 
-        {lastUpdated && (
-          <div className="text-xs text-white/40">
-            更新: {lastUpdated.toLocaleTimeString('ja-JP')}
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {trendData?.source === 'sample' && (
+            <span className="px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-300 text-xs">
+              サンプルデータ
+            </span>
+          )}
+          {lastUpdated && (
+            <div className="text-xs text-white/40">
+              更新: {lastUpdated.toLocaleTimeString('ja-JP')}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Platform Selection */}
@@ -135,6 +135,29 @@ export function WeeklyScheduler({
         })}
       </div>
 
+      {/* 期間指定の戦略が有効な日（直近7日間） */}
+      {weeklySchedule.some((item) => item.strategyName) && (
+        <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/30 mb-6">
+          <p className="text-sm text-white/80 mb-2">期間指定の戦略が有効な日</p>
+          <div className="flex flex-wrap gap-2">
+            {weeklySchedule
+              .filter((item) => item.strategyName)
+              .map((item) => (
+                <span
+                  key={item.date.toISOString()}
+                  className={`px-3 py-1 rounded-full text-xs ${
+                    item.isExpressionDay
+                      ? 'bg-purple-500/20 text-purple-300'
+                      : 'bg-emerald-500/20 text-emerald-300'
+                  }`}
+                >
+                  {item.date.getMonth() + 1}/{item.date.getDate()}({item.dayLabel}) {item.strategyName}
+                </span>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* 推奨設定 */}
       <div className="p-4 rounded-xl bg-slate-800/50 border border-white/10 mb-6">
         <div className="flex items-start gap-3">
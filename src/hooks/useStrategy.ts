@@ -2,15 +2,19 @@
  * useStrategy Hook
  *
  * Zustandを使用したエンゲージメント戦略の状態管理
+ * - localStorage に保存しつつ /api/strategy と同期（端末間で共有）
+ * - 同時編集の競合時はサーバー側の戦略を採用
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import {
+  AnalysisResponse,
   EngagementStrategy,
   CommentStrategy,
   PostMode,
   Platform,
+  ScheduledStrategy,
 } from '../types/index';
 import {
   DEFAULT_STRATEGY,
@@ -22,15 +26,45 @@ import {
   OptimalPostTime,
 } from '../services/strategyManager';
 
+/**
+ * サーバー同期の状態
+ * - offline: 未ログインなどでサーバーに保存できない（localStorage のみ）
+ * - conflict: 他の端末の変更と競合し、サーバー側の戦略を採用した
+ */
+export type StrategySyncStatus = 'idle' | 'syncing' | 'synced' | 'conflict' | 'offline' | 'error';
+
+/**
+ * /api/strategy のレスポンス
+ */
+interface StrategyResponseData {
+  strategy: EngagementStrategy;
+  updatedAt: string | null;
+  schedules?: Array<Omit<ScheduledStrategy, 'activeFrom' | 'activeUntil'> & {
+    activeFrom: string;
+    activeUntil: string;
+  }>;
+}
+
+/**
+ * 変更をサーバーに送信するまでの待ち時間（連続操作をまとめる）
+ */
+const PUSH_DEBOUNCE_MS = 1000;
+
 /**
  * 戦略ストアの状態型
  */
 interface StrategyState {
   // 状態
   strategy: EngagementStrategy;
+  scheduledStrategies: ScheduledStrategy[]; // 期間指定の戦略（プリセット）
   isLoading: boolean;
   lastUpdated: Date | null;
 
+  // サーバー同期
+  syncStatus: StrategySyncStatus;
+  serverUpdatedAt: string | null; // 最後に同期したサーバー側の updatedAt
+  hasPendingChanges: boolean; // サーバー未反映の変更があるか
+
   // 計算された値
   weeklySchedule: WeeklyScheduleItem[];
   ratioHealth: RatioHealthCheck;
@@ -45,6 +79,38 @@ interface StrategyState {
   getRecommendedMode: (date?: Date) => PostMode;
   getOptimalPostTimes: (platform: Platform) => OptimalPostTime[];
   refreshSchedule: () => void;
+  setScheduledStrategies: (schedules: ScheduledStrategy[]) => void;
+  hydrateFromServer: () => Promise<void>;
+  pushToServer: () => Promise<void>;
+  exportStrategy: () => string;
+  importStrategy: (json: string) => void;
+}
+
+/**
+ * APIレスポンスの期間指定の戦略を変換（日時は文字列で届く）
+ */
+function toScheduledStrategies(
+  schedules: NonNullable<StrategyResponseData['schedules']>
+): ScheduledStrategy[] {
+  return schedules.map((scheduled) => ({
+    ...scheduled,
+    activeFrom: new Date(scheduled.activeFrom),
+    activeUntil: new Date(scheduled.activeUntil),
+  }));
+}
+
+/**
+ * 戦略から計算される値を取得
+ */
+function deriveStrategyState(strategy: EngagementStrategy, schedules: ScheduledStrategy[]) {
+  const manager = new StrategyManager(strategy, schedules);
+
+  return {
+    strategy: manager.getStrategy(),
+    weeklySchedule: manager.generateWeeklySchedule(),
+    ratioHealth: manager.isRatioHealthy(),
+    commentAdvice: manager.getCommentAdvice(),
+  };
 }
 
 /**
@@ -55,12 +121,43 @@ export const useStrategy = create<StrategyState>()(
     (set, get) => {
       // 初期のStrategyManagerインスタンス
       const manager = new StrategyManager(DEFAULT_STRATEGY);
+      let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+      // 変更をサーバーへ送信する（連続した変更はまとめて送信）
+      const schedulePush = () => {
+        set({ hasPendingChanges: true });
+        if (pushTimer) clearTimeout(pushTimer);
+        pushTimer = setTimeout(() => {
+          pushTimer = null;
+          get().pushToServer();
+        }, PUSH_DEBOUNCE_MS);
+      };
+
+      // サーバー側の戦略を採用
+      const applyServerStrategy = (data: StrategyResponseData, syncStatus: StrategySyncStatus) => {
+        const scheduledStrategies = data.schedules
+          ? toScheduledStrategies(data.schedules)
+          : get().scheduledStrategies;
+
+        set({
+          ...deriveStrategyState(data.strategy, scheduledStrategies),
+          scheduledStrategies,
+          serverUpdatedAt: data.updatedAt,
+          hasPendingChanges: false,
+          syncStatus,
+          lastUpdated: new Date(),
+        });
+      };
 
       return {
         // 初期状態
         strategy: DEFAULT_STRATEGY,
+        scheduledStrategies: [],
         isLoading: false,
         lastUpdated: null,
+        syncStatus: 'idle',
+        serverUpdatedAt: null,
+        hasPendingChanges: false,
         weeklySchedule: manager.generateWeeklySchedule(),
         ratioHealth: manager.isRatioHealthy(),
         commentAdvice: manager.getCommentAdvice(),
@@ -81,6 +178,7 @@ export const useStrategy = create<StrategyState>()(
             ratioHealth: newManager.isRatioHealthy(),
             lastUpdated: new Date(),
           });
+          schedulePush();
         },
 
         // 自己表現の曜日を設定
@@ -91,13 +189,14 @@ export const useStrategy = create<StrategyState>()(
             weeklyExpressionDays: validDays,
           };
 
-          const newManager = new StrategyManager(newStrategy);
+          const newManager = new StrategyManager(newStrategy, get().scheduledStrategies);
 
           set({
             strategy: newStrategy,
             weeklySchedule: newManager.generateWeeklySchedule(),
             lastUpdated: new Date(),
           });
+          schedulePush();
         },
 
         // 自己表現の曜日をトグル
@@ -127,11 +226,12 @@ export const useStrategy = create<StrategyState>()(
             commentAdvice: newManager.getCommentAdvice(),
             lastUpdated: new Date(),
           });
+          schedulePush();
         },
 
         // デフォルトにリセット
         resetToDefault: () => {
-          const newManager = new StrategyManager(DEFAULT_STRATEGY);
+          const newManager = new StrategyManager(DEFAULT_STRATEGY, get().scheduledStrategies);
 
           set({
             strategy: DEFAULT_STRATEGY,
@@ -140,11 +240,12 @@ export const useStrategy = create<StrategyState>()(
             commentAdvice: newManager.getCommentAdvice(),
             lastUpdated: new Date(),
           });
+          schedulePush();
         },
 
         // 推奨モードを取得
         getRecommendedMode: (date?: Date) => {
-          const manager = new StrategyManager(get().strategy);
+          const manager = new StrategyManager(get().strategy, get().scheduledStrategies);
           return manager.getRecommendedMode(date);
         },
 
@@ -156,11 +257,114 @@ export const useStrategy = create<StrategyState>()(
 
         // スケジュールをリフレッシュ
         refreshSchedule: () => {
-          const manager = new StrategyManager(get().strategy);
+          const manager = new StrategyManager(get().strategy, get().scheduledStrategies);
           set({
             weeklySchedule: manager.generateWeeklySchedule(),
           });
         },
+
+        // 期間指定の戦略を設定（プリセットの変更後など）
+        setScheduledStrategies: (schedules: ScheduledStrategy[]) => {
+          set({ scheduledStrategies: schedules });
+          get().refreshSchedule();
+        },
+
+        // サーバーから戦略を読み込む
+        // 未送信の変更があり、その間サーバー側が更新されていなければ送信する
+        hydrateFromServer: async () => {
+          set({ isLoading: true, syncStatus: 'syncing' });
+
+          try {
+            const response = await fetch('/api/strategy');
+            if (response.status === 401) {
+              set({ syncStatus: 'offline' });
+              return;
+            }
+
+            const result: AnalysisResponse<StrategyResponseData> = await response.json();
+            if (!result.success || !result.data) {
+              throw new Error(result.error || 'Failed to load strategy');
+            }
+
+            const { hasPendingChanges, serverUpdatedAt } = get();
+            if (hasPendingChanges && result.data.updatedAt === serverUpdatedAt) {
+              get().setScheduledStrategies(toScheduledStrategies(result.data.schedules ?? []));
+              await get().pushToServer();
+              return;
+            }
+
+            applyServerStrategy(result.data, 'synced');
+          } catch (error) {
+            console.error('Strategy sync error:', error);
+            set({ syncStatus: 'error' });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        // 現在の戦略をサーバーに保存
+        pushToServer: async () => {
+          if (pushTimer) {
+            clearTimeout(pushTimer);
+            pushTimer = null;
+          }
+
+          const { strategy, serverUpdatedAt } = get();
+          set({ syncStatus: 'syncing' });
+
+          try {
+            const response = await fetch('/api/strategy', {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ strategy, updatedAt: serverUpdatedAt }),
+            });
+            if (response.status === 401) {
+              set({ syncStatus: 'offline' });
+              return;
+            }
+
+            const result: AnalysisResponse<StrategyResponseData> = await response.json();
+
+            // 他の端末で更新されていた場合はサーバー側を採用
+            if (response.status === 409 && result.data) {
+              applyServerStrategy(result.data, 'conflict');
+              return;
+            }
+
+            if (!result.success || !result.data) {
+              throw new Error(result.error || 'Failed to save strategy');
+            }
+
+            // 送信中に新しい変更があった場合は、その変更を残したまま次回送信する
+            const changedWhileSaving = get().strategy !== strategy;
+            set({
+              serverUpdatedAt: result.data.updatedAt,
+              hasPendingChanges: changedWhileSaving,
+              syncStatus: 'synced',
+            });
+            if (changedWhileSaving) schedulePush();
+          } catch (error) {
+            console.error('Strategy sync error:', error);
+            set({ syncStatus: 'error' });
+          }
+        },
+
+        // 戦略をJSONとしてエクスポート
+        exportStrategy: () => {
+          return new StrategyManager(get().strategy).exportStrategy();
+        },
+
+        // JSONから戦略をインポート（不正な場合は例外）
+        importStrategy: (json: string) => {
+          const manager = new StrategyManager();
+          manager.importStrategy(json);
+
+          set({
+            ...deriveStrategyState(manager.getStrategy(), get().scheduledStrategies),
+            lastUpdated: new Date(),
+          });
+          schedulePush();
+        },
       };
     },
     {
@@ -169,6 +373,8 @@ export const useStrategy = create<StrategyState>()(
       partialize: (state) => ({
         strategy: state.strategy,
         lastUpdated: state.lastUpdated,
+        serverUpdatedAt: state.serverUpdatedAt,
+        hasPendingChanges: state.hasPendingChanges,
       }),
     }
   )
@@ -0,0 +1,89 @@
+/**
+ * Auth Options Tests
+ *
+ * Tests for creating the database user on sign in and exposing its ID on the session
+ */
+
+import type { Session, User } from 'next-auth';
+import type { JWT } from 'next-auth/jwt';
+import { authOptions } from '../authOptions';
+import { prisma } from '../prisma';
+
+// Mock Prisma client
+jest.mock('../prisma', () => ({
+  prisma: {
+    user: { upsert: jest.fn() },
+  },
+}));
+
+const mockedUsers = prisma.user as unknown as Record<string, jest.Mock>;
+
+type JwtCallback = (params: { token: JWT; user?: User }) => Promise<JWT>;
+type SessionCallback = (params: { session: Session; token: JWT }) => Promise<Session>;
+type SignInCallback = (params: { user: User }) => Promise<boolean>;
+
+const callbacks = authOptions.callbacks as unknown as {
+  jwt: JwtCallback;
+  session: SessionCallback;
+  signIn: SignInCallback;
+};
+
+describe('authOptions callbacks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should upsert the user on sign in and put the database ID on the session', async () => {
+    mockedUsers.upsert.mockResolvedValue({ id: 'db-user-1' });
+    const oauthUser = { id: 'github-12345', email: 'taro@example.com', name: 'Taro' };
+
+    const token = await callbacks.jwt({ token: { email: oauthUser.email }, user: oauthUser });
+    const session = await callbacks.session({
+      session: { user: { email: oauthUser.email }, expires: '2026-12-31T00:00:00Z' },
+      token,
+    });
+
+    expect(mockedUsers.upsert).toHaveBeenCalledWith({
+      where: { email: 'taro@example.com' },
+      create: { email: 'taro@example.com', name: 'Taro' },
+      update: { name: 'Taro' },
+      select: { id: true },
+    });
+    expect(token.id).toBe('db-user-1');
+    expect((session.user as { id?: string }).id).toBe('db-user-1');
+  });
+
+  it('should not touch the database when refreshing an existing token', async () => {
+    const token = await callbacks.jwt({ token: { id: 'db-user-1', idSource: 'database' } });
+
+    expect(mockedUsers.upsert).not.toHaveBeenCalled();
+    expect(token.id).toBe('db-user-1');
+  });
+
+  it('should replace the OAuth ID of an older token with the database ID', async () => {
+    mockedUsers.upsert.mockResolvedValue({ id: 'db-user-1' });
+
+    const token = await callbacks.jwt({
+      token: { id: 'github-12345', sub: 'github-12345', email: 'taro@example.com', name: 'Taro' },
+    });
+
+    expect(mockedUsers.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { email: 'taro@example.com' } })
+    );
+    expect(token).toMatchObject({ id: 'db-user-1', idSource: 'database' });
+  });
+
+  it('should reject an older token that has no email to resolve the user', async () => {
+    await expect(callbacks.jwt({ token: { id: 'github-12345' } })).rejects.toThrow(
+      'no database user ID'
+    );
+    expect(mockedUsers.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should deny sign in without an email address', async () => {
+    expect(await callbacks.signIn({ user: { id: 'github-12345', email: null } })).toBe(false);
+    expect(await callbacks.signIn({ user: { id: 'github-12345', email: 'a@example.com' } })).toBe(
+      true
+    );
+  });
+});
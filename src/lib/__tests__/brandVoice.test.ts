@@ -0,0 +1,101 @@
+/**
+ * Brand Voice Tests
+ *
+ * Tests for extracting a brand voice from past posts, scoring voice match and using it in optimization
+ */
+
+import { describeBrandVoice, extractBrandVoice, scoreVoiceMatch } from '../brandVoice';
+import { ClaudeClient } from '../claude';
+import { FixtureProvider } from '../fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const posts = [
+  '朝活を始めて3ヶ月。毎朝5時に起きて読書しています☀️\n今日も一歩ずつ。',
+  '副業の収入が本業を超えました✨ 朝活のおかげです。\n今日も一歩ずつ。',
+  '朝活で大事なのは前日の準備。夜のうちに服を決めておく☀️\n今日も一歩ずつ。',
+];
+
+describe('extractBrandVoice', () => {
+  it('should extract vocabulary, emoji habits and signature phrases', () => {
+    const profile = extractBrandVoice(posts, ['副業']);
+
+    expect(profile.sampleCount).toBe(3);
+    expect(profile.vocabulary[0]).toBe('朝活');
+    expect(profile.vocabulary).not.toContain('副業');
+    expect(profile.topEmojis).toEqual(['☀', '✨']);
+    expect(profile.emojiPerPost).toBe(1);
+    expect(profile.signaturePhrases).toEqual(['今日も一歩ずつ']);
+    expect(profile.bannedWords).toEqual(['副業']);
+    expect(profile.averageSentenceLength).toBeGreaterThan(5);
+  });
+
+  it('should describe the voice for the optimization prompt', () => {
+    const description = describeBrandVoice(extractBrandVoice(posts, ['副業']));
+
+    expect(description).toContain('よく使う語彙: 朝活');
+    expect(description).toContain('「今日も一歩ずつ」');
+    expect(description).toContain('禁止ワード（絶対に使わない）: 副業');
+  });
+
+  it('should describe a voice without emojis', () => {
+    const profile = extractBrandVoice(['データで検証しました。', '結論から書きます。', '数字で語ります。']);
+
+    expect(describeBrandVoice(profile)).toContain('絵文字: 使わない');
+  });
+});
+
+describe('scoreVoiceMatch', () => {
+  const profile = extractBrandVoice(posts, ['副業']);
+
+  it('should score content in the same voice higher than generic content', () => {
+    const matching = scoreVoiceMatch('朝活を続けると読書の時間が増えます☀️\n今日も一歩ずつ。', profile);
+    const generic = scoreVoiceMatch(
+      'この記事ではマーケティング戦略の重要なポイントについて詳しく丁寧に解説していきますのでぜひ最後までお読みください',
+      profile
+    );
+
+    expect(matching).toBeGreaterThan(generic);
+    expect(matching).toBeGreaterThanOrEqual(0);
+    expect(matching).toBeLessThanOrEqual(100);
+  });
+
+  it('should deduct points for banned words', () => {
+    const clean = scoreVoiceMatch('朝活で読書しています☀️', profile);
+    const banned = scoreVoiceMatch('朝活で副業しています☀️', profile);
+
+    expect(clean - banned).toBeGreaterThanOrEqual(25);
+  });
+});
+
+describe('ClaudeClient with a brand voice', () => {
+  it('should put the voice in the optimization prompt and score the result', async () => {
+    const provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    const complete = jest.spyOn(provider, 'complete');
+    const voiceProfile = extractBrandVoice(posts);
+    const client = new ClaudeClient({ apiKey: '', provider, voiceProfile });
+
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(complete.mock.calls[1][0].messages[0].content).toContain(describeBrandVoice(voiceProfile));
+    expect(optimized.voiceMatchScore).toBe(scoreVoiceMatch(optimized.content, voiceProfile));
+  });
+
+  it('should not score content when no voice is registered', async () => {
+    const provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    const complete = jest.spyOn(provider, 'complete');
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(optimized.voiceMatchScore).toBeUndefined();
+    expect(complete.mock.calls[1][0].messages[0].content).toContain('指定なし');
+  });
+});
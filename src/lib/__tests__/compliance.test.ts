@@ -0,0 +1,204 @@
+/**
+ * Compliance Tests
+ *
+ * Tests for counting characters per platform, detecting rule violations and the tighten-and-retry flow
+ */
+
+import { ClaudeClient } from '../claude';
+import {
+  buildTightenPrompt,
+  checkCompliance,
+  checkThreadCompliance,
+  countPlatformCharacters,
+  findHashtagsInContent,
+} from '../compliance';
+import { extractBrandVoice } from '../brandVoice';
+import type { LlmProvider, LlmRequest } from '../llmProvider';
+import { PLATFORM_RULES } from '../platformRules';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const analysis: BuzzAnalysis = {
+  id: 'analysis-1',
+  platform: 'threads',
+  originalUrl: 'manual-input',
+  impressions: 48000,
+  engagement: 6.2,
+  transcript: '台本',
+  keyPoints: ['共感'],
+  structure: {
+    hook: '冒頭',
+    mainPoints: ['ポイント'],
+    cta: '保存してね',
+    emotionalTriggers: ['驚き'],
+  },
+  analyzedAt: new Date(),
+};
+
+/**
+ * 呼び出しごとに順番に応答を返すプロバイダー
+ */
+function sequenceProvider(responses: object[]): LlmProvider & { complete: jest.Mock } {
+  let calls = 0;
+  const complete = jest.fn(async (request: LlmRequest) => {
+    const response = responses[Math.min(calls++, responses.length - 1)];
+    return {
+      text: JSON.stringify(response),
+      model: request.model,
+      usage: { inputTokens: 1, outputTokens: 1 },
+    };
+  });
+  return { name: 'sequence', complete };
+}
+
+describe('countPlatformCharacters', () => {
+  it('should weight full-width characters, emoji and URLs on X', () => {
+    expect(countPlatformCharacters('hello', 'twitter')).toBe(5);
+    expect(countPlatformCharacters('朝活', 'twitter')).toBe(4);
+    expect(countPlatformCharacters('👍🏽', 'twitter')).toBe(2);
+    expect(countPlatformCharacters('詳細 https://example.com/a/very/long/path?query=1', 'twitter')).toBe(
+      4 + 1 + 23
+    );
+  });
+
+  it('should count visible characters on Threads and Instagram', () => {
+    expect(countPlatformCharacters('朝活👨‍👩‍👧', 'threads')).toBe(3);
+    expect(countPlatformCharacters('朝活', 'instagram')).toBe(2);
+  });
+});
+
+describe('checkCompliance', () => {
+  it('should pass content that follows the rules', () => {
+    const report = checkCompliance(
+      { content: '朝活で人生が変わった', hashtags: ['朝活'] },
+      'twitter',
+      PLATFORM_RULES.twitter
+    );
+
+    expect(report).toEqual({ compliant: true, characterCount: 20, maxLength: 280, violations: [] });
+  });
+
+  it('should flag content over the weighted X limit', () => {
+    const report = checkCompliance(
+      { content: 'あ'.repeat(141), hashtags: [] },
+      'twitter',
+      PLATFORM_RULES.twitter
+    );
+
+    expect(report.compliant).toBe(false);
+    expect(report.characterCount).toBe(282);
+    expect(report.violations.map((violation) => violation.code)).toEqual(['too_long']);
+  });
+
+  it('should flag hashtags in the content, too many hashtags and banned phrases', () => {
+    const report = checkCompliance(
+      { content: '朝活のすすめ #朝活 ＃早起き 詳しくは https://example.com/#top', hashtags: ['a', 'b', 'c'] },
+      'twitter',
+      PLATFORM_RULES.twitter,
+      ['すすめ']
+    );
+
+    expect(report.violations.map((violation) => violation.code)).toEqual([
+      'too_many_hashtags',
+      'hashtag_in_content',
+      'banned_phrase',
+    ]);
+    expect(findHashtagsInContent('朝活 #朝活 ＃早起き https://example.com/#top')).toEqual([
+      '朝活',
+      '早起き',
+    ]);
+  });
+
+  it('should warn when hashtags would be dropped when posting', () => {
+    const report = checkCompliance(
+      { content: 'あ'.repeat(138), hashtags: ['朝活'] },
+      'twitter',
+      PLATFORM_RULES.twitter
+    );
+
+    expect(report.compliant).toBe(true);
+    expect(report.violations).toEqual([
+      expect.objectContaining({ code: 'hashtags_do_not_fit', severity: 'warning' }),
+    ]);
+  });
+});
+
+describe('checkThreadCompliance', () => {
+  it('should check each post against the limit and report per-post counts', () => {
+    const report = checkThreadCompliance(
+      { segments: ['朝活のすすめ\n1/2', `${'あ'.repeat(141)}\n2/2`], hashtags: ['朝活'] },
+      'twitter',
+      PLATFORM_RULES.twitter
+    );
+
+    expect(report.compliant).toBe(false);
+    expect(report.segmentCharacterCounts).toEqual([16, 286]);
+    expect(report.characterCount).toBe(286);
+    expect(report.violations).toEqual([
+      expect.objectContaining({ code: 'too_long', message: expect.stringContaining('2件目の投稿') }),
+    ]);
+    expect(buildTightenPrompt(report, 'twitter')).toContain('各投稿は280文字以内');
+  });
+
+  it('should flag hashtags in any post and check hashtags fit on the last post', () => {
+    const report = checkThreadCompliance(
+      { segments: ['朝活 #朝活', 'あ'.repeat(138)], hashtags: ['習慣'] },
+      'twitter',
+      PLATFORM_RULES.twitter
+    );
+
+    expect(report.violations.map((violation) => violation.code)).toEqual([
+      'hashtag_in_content',
+      'hashtags_do_not_fit',
+    ]);
+  });
+});
+
+describe('ClaudeClient compliance retry', () => {
+  const tooLong = { content: 'あ'.repeat(150), hashtags: ['朝活', '習慣', '副業'], expectedImpressions: 100 };
+  const tightened = { content: '朝活で人生が変わった', hashtags: ['朝活'], expectedImpressions: 100 };
+
+  it('should ask once to tighten content that breaks the rules', async () => {
+    const provider = sequenceProvider([tooLong, tightened]);
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const result = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    const retry = provider.complete.mock.calls[1][0] as LlmRequest;
+    expect(retry.messages).toHaveLength(3);
+    expect(retry.messages[2].content).toContain('上限の280文字を20文字超えています');
+    expect(result.content).toBe(tightened.content);
+    expect(result.compliance).toMatchObject({ compliant: true, characterCount: 20 });
+  });
+
+  it('should not retry compliant content and should trim extra hashtags', async () => {
+    const provider = sequenceProvider([{ ...tightened, hashtags: ['朝活', '習慣', '副業'] }]);
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const result = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+    expect(result.hashtags).toEqual(['朝活', '習慣']);
+    expect(result.compliance?.compliant).toBe(true);
+  });
+
+  it('should keep the violations when the retry does not fix them', async () => {
+    const voiceProfile = { ...extractBrandVoice(['a', 'b', 'c']), bannedWords: ['人生'] };
+    const provider = sequenceProvider([tightened]);
+    const client = new ClaudeClient({ apiKey: '', provider, voiceProfile });
+
+    const result = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    expect(result.compliance?.compliant).toBe(false);
+    expect(result.compliance?.violations.map((violation) => violation.code)).toEqual([
+      'banned_phrase',
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Draft Export Tests
+ *
+ * Tests for exporting drafts, carousel outlines and Reels scripts as Markdown / JSON
+ */
+
+import { draftToMarkdown, exportDraft, isDraftExportFormat } from '../draftExport';
+import type { OptimizedContent } from '../../types/index';
+
+const base: OptimizedContent = {
+  id: 'draft-1',
+  originalAnalysisId: 'analysis-1',
+  targetPlatform: 'instagram',
+  content: 'スワイプして全部見てください',
+  hashtags: ['副業', '朝活'],
+  bestPostTime: new Date('2026-02-01T12:00:00Z'),
+  expectedImpressions: 45000,
+  mode: 'impression',
+  createdAt: new Date('2026-02-01T09:00:00Z'),
+};
+
+const carousel: OptimizedContent = {
+  ...base,
+  visualPlan: {
+    format: 'carousel',
+    slides: [
+      { title: '貯金ゼロから1年', body: 'たった1つの習慣', visual: '朝日のデスク写真' },
+      { title: '明日の朝から', body: '保存しておこう', visual: '保存ボタンを指す矢印' },
+    ],
+  },
+};
+
+describe('draftExport', () => {
+  it('should export a carousel outline slide by slide with the caption and hashtags', () => {
+    const markdown = draftToMarkdown(carousel);
+
+    expect(markdown).toContain('## カルーセル');
+    expect(markdown).toContain(
+      '### スライド 1: 貯金ゼロから1年\n\nたった1つの習慣\n\n- ビジュアル: 朝日のデスク写真'
+    );
+    expect(markdown).toContain('### スライド 2: 明日の朝から');
+    expect(markdown).toContain('## キャプション\n\nスワイプして全部見てください');
+    expect(markdown).toContain('#副業 #朝活');
+  });
+
+  it('should export a Reels script with timecodes', () => {
+    const markdown = draftToMarkdown({
+      ...base,
+      visualPlan: {
+        format: 'reels',
+        durationSeconds: 30,
+        beats: [
+          { start: 0, end: 3, onScreenText: '貯金ゼロ', narration: '1年前…', visual: '顔のアップ' },
+        ],
+      },
+    });
+
+    expect(markdown).toContain('全体の長さ: 0:30');
+    expect(markdown).toContain(
+      '### 0:00 - 0:03\n\n- 画面テキスト: 貯金ゼロ\n- ナレーション: 1年前…'
+    );
+  });
+
+  it('should export thread posts in order', () => {
+    const markdown = draftToMarkdown({
+      ...base,
+      targetPlatform: 'twitter',
+      content: '冒頭\n1/2\n\nCTA\n2/2',
+      segments: ['冒頭\n1/2', 'CTA\n2/2'],
+    });
+
+    expect(markdown).toContain('## スレッド\n\n### 1\n\n冒頭\n1/2\n\n### 2\n\nCTA\n2/2');
+    expect(markdown).not.toContain('## 本文');
+  });
+
+  it('should export JSON without generation-only fields', () => {
+    const compliance = { compliant: true, characterCount: 14, maxLength: 2200, violations: [] };
+    const file = exportDraft({ ...carousel, compliance }, 'json');
+
+    expect(file.filename).toBe('draft-draft-1.json');
+    expect(file.contentType).toContain('application/json');
+    const parsed = JSON.parse(file.body);
+    expect(parsed.visualPlan).toEqual(carousel.visualPlan);
+    expect(parsed.compliance).toBeUndefined();
+    expect(exportDraft(carousel, 'markdown').filename).toBe('draft-draft-1.md');
+    expect(isDraftExportFormat('csv')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Hook Library Tests
+ *
+ * Tests for hook similarity, de-duplication and using a library hook as the opening of optimized content
+ */
+
+import {
+  applyOpeningHook,
+  findSimilarHook,
+  hookSimilarity,
+  normalizeHookTags,
+} from '../hookLibrary';
+import { ClaudeClient } from '../claude';
+import { FixtureProvider } from '../fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+describe('hookSimilarity', () => {
+  it('should ignore width, case, spaces and punctuation', () => {
+    expect(hookSimilarity('１年前、貯金0円だった。', '1年前 貯金0円だった')).toBe(1);
+    expect(hookSimilarity('Stop doing THIS!', 'stop doing this')).toBe(1);
+  });
+
+  it('should score unrelated hooks low', () => {
+    expect(hookSimilarity('1年前、貯金0円だった', '朝型と夜型、どっち派？')).toBeLessThan(0.2);
+    expect(hookSimilarity('', '朝型と夜型')).toBe(0);
+  });
+});
+
+describe('findSimilarHook', () => {
+  const hooks = [
+    { id: 'hook-1', text: '1年前、貯金0円だった私が' },
+    { id: 'hook-2', text: '朝型と夜型、どっち派？' },
+  ];
+
+  it('should find a near-duplicate hook', () => {
+    expect(findSimilarHook('1年前、貯金0円だった私が…', hooks)?.id).toBe('hook-1');
+  });
+
+  it('should return null when no hook is similar enough', () => {
+    expect(findSimilarHook('3年前、貯金100万円だった', hooks)).toBeNull();
+  });
+});
+
+describe('normalizeHookTags', () => {
+  it('should strip # and drop empty or duplicate tags', () => {
+    expect(normalizeHookTags(['#副業', ' 副業 ', '', '数字'])).toEqual(['副業', '数字']);
+  });
+});
+
+describe('applyOpeningHook', () => {
+  const hook = '1年前、貯金0円だった';
+
+  it('should keep content that already opens with the hook', () => {
+    const content = '1年前、貯金0円だった。\n今は…';
+
+    expect(applyOpeningHook(content, hook)).toBe(content);
+  });
+
+  it('should replace a paraphrased first line', () => {
+    expect(applyOpeningHook('1年前の私は貯金0円だった\n今は…', hook)).toBe(
+      '1年前、貯金0円だった\n今は…'
+    );
+  });
+
+  it('should add the hook as the first line otherwise', () => {
+    expect(applyOpeningHook('朝活のすすめ\n今は…', hook)).toBe(
+      '1年前、貯金0円だった\n朝活のすすめ\n今は…'
+    );
+  });
+});
+
+describe('ClaudeClient with an opening hook', () => {
+  it('should pass the hook to the prompt and open the content with it', async () => {
+    const provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    const complete = jest.spyOn(provider, 'complete');
+    const openingHook = '朝型と夜型、どっち派？';
+    const client = new ClaudeClient({ apiKey: '', provider, openingHook });
+
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await client.optimizeForPlatform(analysis, 'threads');
+
+    expect(complete.mock.calls[1][0].messages[0].content).toContain(`フック: ${openingHook}`);
+    expect(optimized.content.startsWith(openingHook)).toBe(true);
+    expect(optimized.originalAnalysisId).toBe(analysis.id);
+  });
+});
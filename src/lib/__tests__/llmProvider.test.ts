@@ -0,0 +1,245 @@
+/**
+ * LLM Provider Tests
+ *
+ * Tests for the provider layer and running analyze/optimize/score/trends offline with fixtures
+ */
+
+import { ClaudeClient, type TokenUsage } from '../claude';
+import { FixtureProvider, RecordingProvider, type LlmFixture } from '../fixtureProvider';
+import { AnthropicProvider, createLlmProvider, type LlmRequest } from '../llmProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+import { ContentOptimizer } from '../../services/contentOptimizer';
+import { TrendDetector } from '../../services/trendDetector';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Anthropic SDK
+const mockCreate = jest.fn();
+const mockStream = jest.fn();
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    messages: {
+      create: (...args: unknown[]) => mockCreate(...args),
+      stream: (...args: unknown[]) => mockStream(...args),
+    },
+  })),
+}));
+
+const fixtureProvider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+
+const analysis: BuzzAnalysis = {
+  id: 'analysis-1',
+  platform: 'threads',
+  originalUrl: 'manual-input',
+  impressions: 48000,
+  engagement: 6.2,
+  transcript: '台本',
+  keyPoints: ['共感'],
+  structure: {
+    hook: '冒頭',
+    mainPoints: ['ポイント'],
+    cta: '保存してね',
+    emotionalTriggers: ['驚き'],
+  },
+  analyzedAt: new Date(),
+};
+
+function request(overrides: Partial<LlmRequest> = {}): LlmRequest {
+  return {
+    operation: 'analyze',
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 4000,
+    messages: [{ role: 'user', content: 'prompt' }],
+    ...overrides,
+  };
+}
+
+describe('FixtureProvider', () => {
+  const fixtures: LlmFixture[] = [
+    { operation: 'optimize', match: 'twitter用に', response: 'twitter answer' },
+    { operation: 'optimize', response: { content: 'default answer' } },
+  ];
+  const provider = new FixtureProvider(fixtures);
+
+  it('should prefer the fixture whose match appears in the prompt', async () => {
+    const twitter = await provider.complete(
+      request({ operation: 'optimize', messages: [{ role: 'user', content: 'twitter用に変換' }] })
+    );
+    const other = await provider.complete(request({ operation: 'optimize' }));
+
+    expect(twitter.text).toBe('twitter answer');
+    expect(JSON.parse(other.text)).toEqual({ content: 'default answer' });
+    expect(twitter.model).toBe('fixture');
+  });
+
+  it('should return the same response and usage for the same request', async () => {
+    const first = await provider.complete(request({ operation: 'optimize' }));
+    const second = await provider.complete(request({ operation: 'optimize' }));
+
+    expect(second).toEqual(first);
+    expect(first.usage.outputTokens).toBe(Math.ceil(first.text.length / 4));
+  });
+
+  it('should stream the response in chunks that add up to the full text', async () => {
+    const deltas: string[] = [];
+
+    const response = await provider.complete(
+      request({ operation: 'optimize', onText: (delta) => deltas.push(delta) })
+    );
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(response.text);
+  });
+
+  it('should throw when no fixture is recorded for the operation', async () => {
+    await expect(provider.complete(request({ operation: 'score' }))).rejects.toThrow(
+      'No LLM fixture is recorded for operation "score"'
+    );
+  });
+
+  it('should record responses from another provider as fixtures', async () => {
+    const recorder = new RecordingProvider(provider);
+
+    await recorder.complete(
+      request({ operation: 'optimize', messages: [{ role: 'user', content: 'twitter用に変換' }] })
+    );
+
+    expect(recorder.recorded).toEqual([
+      { operation: 'optimize', match: 'twitter用に変換', response: 'twitter answer' },
+    ]);
+  });
+});
+
+describe('AnthropicProvider', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockStream.mockReset();
+  });
+
+  it('should map the Messages API response and usage', async () => {
+    mockCreate.mockResolvedValue({
+      model: 'claude-sonnet-4-20250514',
+      content: [{ type: 'text', text: 'hello' }],
+      usage: { input_tokens: 12, output_tokens: 3 },
+    });
+
+    const response = await new AnthropicProvider('test-key').complete(request());
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 4000,
+      messages: [{ role: 'user', content: 'prompt' }],
+    });
+    expect(response).toEqual({
+      text: 'hello',
+      model: 'claude-sonnet-4-20250514',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+  });
+
+  it('should stream text deltas when onText is given', async () => {
+    const handlers: Record<string, (delta: string) => void> = {};
+    mockStream.mockReturnValue({
+      on: (event: string, handler: (delta: string) => void) => {
+        handlers[event] = handler;
+      },
+      finalMessage: async () => {
+        handlers.text('hel');
+        handlers.text('lo');
+        return { content: [{ type: 'text', text: 'hello' }], usage: { input_tokens: 1, output_tokens: 1 } };
+      },
+    });
+    const onText = jest.fn();
+
+    const response = await new AnthropicProvider('test-key').complete(request({ onText }));
+
+    expect(onText.mock.calls).toEqual([['hel'], ['lo']]);
+    expect(response.text).toBe('hello');
+  });
+});
+
+describe('createLlmProvider', () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it('should require an API key for the Anthropic provider', () => {
+    expect(() => createLlmProvider()).toThrow('API key is required');
+    expect(createLlmProvider('test-key').name).toBe('anthropic');
+  });
+
+  it('should use fixtures without an API key when LLM_PROVIDER=fixture', () => {
+    process.env.LLM_PROVIDER = 'fixture';
+
+    expect(createLlmProvider().name).toBe('fixture');
+    expect(new ClaudeClient({ apiKey: '' })).toBeInstanceOf(ClaudeClient);
+  });
+});
+
+describe('offline with the default fixtures', () => {
+  it('should analyze, optimize and score through ClaudeClient', async () => {
+    const usages: TokenUsage[] = [];
+    const client = new ClaudeClient({
+      apiKey: '',
+      provider: fixtureProvider,
+      onUsage: (usage) => {
+        usages.push(usage);
+      },
+    });
+
+    const result = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await client.optimizeForPlatform(result, 'instagram', 'impression');
+    const score = await client.analyzeScore('threads', {
+      likesGiven: 40,
+      commentsGiven: 12,
+      sharesGiven: 3,
+      postsThisWeek: 3,
+      trendingHashtagsUsed: 1,
+      followersGained: 8,
+    });
+
+    expect(result.structure.hook).toBe('1年前は貯金ゼロだった');
+    expect(optimized.content).toContain('📌');
+    expect(score.priorityAction).toBe('毎日同じ時間帯に1投稿する習慣を作る');
+    expect(usages.map((usage) => [usage.operation, usage.model])).toEqual([
+      ['analyze', 'fixture'],
+      ['optimize', 'fixture'],
+      ['score', 'fixture'],
+    ]);
+  });
+
+  it('should generate a thread for X without a retry', async () => {
+    const client = new ClaudeClient({ apiKey: '', provider: fixtureProvider });
+
+    const thread = await client.optimizeThread(analysis, 'twitter');
+
+    expect(thread.segments).toHaveLength(3);
+    expect(thread.segments?.[2].endsWith('3/3')).toBe(true);
+    expect(thread.compliance?.compliant).toBe(true);
+  });
+
+  it('should analyze and optimize through ContentOptimizer', async () => {
+    const optimizer = new ContentOptimizer(undefined, fixtureProvider);
+
+    const result = await optimizer.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await optimizer.optimizeForPlatform(analysis, 'twitter');
+
+    expect(result.keyPoints).toHaveLength(3);
+    expect(optimized.hashtags).toEqual(['副業', '朝活']);
+  });
+
+  it('should mark trends generated by the provider as llm and the fallback as sample', async () => {
+    const detector = new TrendDetector(undefined, undefined, fixtureProvider);
+
+    const generated = await detector.detectTrends({ platform: 'threads', limit: 3 });
+    const sample = await new TrendDetector().detectTrends({ platform: 'threads', limit: 3 });
+
+    expect(generated.source).toBe('llm');
+    expect(generated.trends.map((trend) => trend.name)).toEqual([
+      '朝活ルーティン',
+      '生成AIの仕事活用',
+      '新NISAの始め方',
+    ]);
+    expect(sample.source).toBe('sample');
+  });
+});
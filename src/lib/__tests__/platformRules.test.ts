@@ -0,0 +1,94 @@
+/**
+ * Platform Rules Tests
+ *
+ * Tests for the single source of platform rules shared by the content pipeline
+ */
+
+import {
+  BEST_POST_TIMES,
+  PLATFORM_RULES,
+  calculateBestPostTime,
+  getPlatformRules,
+} from '../platformRules';
+import { ClaudeClient } from '../claude';
+import { FixtureProvider } from '../fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+import { ContentOptimizer } from '../../services/contentOptimizer';
+import type { Platform } from '../../types/index';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const platforms: Platform[] = ['threads', 'instagram', 'twitter'];
+
+describe('calculateBestPostTime', () => {
+  it('should pick the next best time later today', () => {
+    const now = new Date(2026, 2, 10, 10, 30);
+
+    expect(calculateBestPostTime('instagram', now)).toEqual(new Date(2026, 2, 10, 11, 0));
+    expect(calculateBestPostTime('twitter', now)).toEqual(new Date(2026, 2, 10, 12, 30));
+  });
+
+  it('should roll over to the first best time tomorrow', () => {
+    const now = new Date(2026, 2, 10, 21, 0);
+
+    expect(calculateBestPostTime('threads', now)).toEqual(new Date(2026, 2, 11, 7, 0));
+  });
+
+  it('should list best times in order for every platform', () => {
+    for (const platform of platforms) {
+      const minutes = BEST_POST_TIMES[platform].map((time) => time.hour * 60 + time.minute);
+      expect(minutes).toEqual([...minutes].sort((a, b) => a - b));
+    }
+  });
+});
+
+describe('shared rules', () => {
+  it('should give ClaudeClient and ContentOptimizer the same rules', () => {
+    const client = new ClaudeClient({ apiKey: 'test-key' });
+    const optimizer = new ContentOptimizer();
+
+    for (const platform of platforms) {
+      expect(client.getPlatformRules(platform)).toBe(PLATFORM_RULES[platform]);
+      expect(optimizer.getPlatformRules(platform)).toBe(getPlatformRules(platform));
+    }
+  });
+
+  it('should apply the shared hashtag limit and post times in the pipeline', async () => {
+    const optimizer = new ContentOptimizer(undefined, new FixtureProvider(DEFAULT_LLM_FIXTURES));
+    const analysis = await optimizer.analyzeBuzzContent('manual-input', '本文', 'threads');
+
+    const optimized = await optimizer.optimizeForPlatform(analysis, 'instagram');
+    const bestHours = BEST_POST_TIMES.instagram.map((time) => time.hour);
+
+    expect(optimized.hashtags.length).toBeLessThanOrEqual(PLATFORM_RULES.instagram.hashtagCount);
+    expect(bestHours).toContain(optimized.bestPostTime.getHours());
+  });
+
+  it('should apply user overrides in getPlatformRules and optimizeForPlatform', async () => {
+    const ruleOverrides = {
+      twitter: { hashtagCount: 1, bestPractices: ['データで裏付ける'] },
+    };
+    const client = new ClaudeClient({
+      apiKey: '',
+      provider: new FixtureProvider(DEFAULT_LLM_FIXTURES),
+      ruleOverrides,
+    });
+    const optimizer = new ContentOptimizer(undefined, undefined, undefined, ruleOverrides);
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+
+    const optimized = await client.optimizeForPlatform(analysis, 'twitter');
+
+    expect(client.getPlatformRules('twitter')).toEqual({
+      ...PLATFORM_RULES.twitter,
+      hashtagCount: 1,
+      bestPractices: ['データで裏付ける'],
+    });
+    expect(optimizer.getPlatformRules('twitter')).toEqual(client.getPlatformRules('twitter'));
+    expect(client.getPlatformRules('threads')).toBe(PLATFORM_RULES.threads);
+    expect(optimized.hashtags).toEqual(['副業']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Prompt Templates Tests
+ *
+ * Tests for the versioned prompt template registry
+ */
+
+import {
+  ACTIVE_PROMPT_VERSIONS,
+  PROMPT_TEMPLATES,
+  PromptTemplateError,
+  getPromptTemplate,
+  renderPrompt,
+} from '../promptTemplates';
+import { ClaudeClient } from '../claude';
+import { FixtureProvider } from '../fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+
+describe('PROMPT_TEMPLATES', () => {
+  it('should declare exactly the variables each template uses', () => {
+    for (const template of PROMPT_TEMPLATES) {
+      const used = new Set(
+        Array.from(template.template.matchAll(/\{\{(\w+)\}\}/g), (match) => match[1])
+      );
+
+      expect([...used].sort()).toEqual([...template.variables].sort());
+    }
+  });
+
+  it('should register each version once and every active version', () => {
+    const refs = PROMPT_TEMPLATES.map((template) => `${template.id}@${template.version}`);
+
+    expect(new Set(refs).size).toBe(refs.length);
+    for (const [id, version] of Object.entries(ACTIVE_PROMPT_VERSIONS)) {
+      expect(refs).toContain(`${id}@${version}`);
+    }
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should fill in variables and report the template version', () => {
+    const prompt = renderPrompt('analysis', {
+      url: 'https://threads.net/@user/post/1',
+      content: '本文',
+      platform: 'threads',
+    });
+
+    expect(prompt.ref).toBe('analysis@1');
+    expect(prompt.text).toContain('【投稿URL】\nhttps://threads.net/@user/post/1');
+    expect(prompt.text).not.toContain('{{');
+  });
+
+  it('should reject missing variables and unknown versions', () => {
+    expect(() => renderPrompt('analysis', { url: 'x' })).toThrow(
+      'Prompt template analysis@1 is missing variables: content, platform'
+    );
+
+    const error = (() => {
+      try {
+        getPromptTemplate('optimization', 99);
+      } catch (e) {
+        return e as PromptTemplateError;
+      }
+    })();
+    expect(error).toBeInstanceOf(PromptTemplateError);
+    expect(error?.code).toBe('unknown_version');
+  });
+});
+
+describe('ClaudeClient prompt versions', () => {
+  it('should record the template version that produced the result', async () => {
+    const provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    const complete = jest.spyOn(provider, 'complete');
+    const client = new ClaudeClient({ apiKey: '', provider, promptVersions: { analysis: 2 } });
+
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+    const optimized = await client.optimizeForPlatform(analysis, 'threads');
+
+    expect(analysis.promptVersion).toBe('analysis@2');
+    expect(optimized.promptVersion).toBe('optimization@2');
+    expect(complete.mock.calls[0][0].messages[0].content).toContain(
+      'どの表現がどう効いているか'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Server-Sent Events Tests
+ *
+ * Tests for streaming AI output as delta/reset/result/error events
+ */
+
+import {
+  createEventStream,
+  formatEvent,
+  readEventStream,
+  toStreamError,
+  wantsEventStream,
+} from '../sse';
+
+/**
+ * 文字列のチャンクから SSE レスポンスを作成
+ */
+function responseFromChunks(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe('SSE', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should detect clients that accept an event stream', () => {
+    const request = new Request('http://localhost/api/analyze', {
+      headers: { Accept: 'text/event-stream' },
+    });
+
+    expect(wantsEventStream(request)).toBe(true);
+    expect(wantsEventStream(new Request('http://localhost/api/analyze'))).toBe(false);
+  });
+
+  it('should deliver deltas and then the result', async () => {
+    const stream = createEventStream<{ id: string }>(async (send) => {
+      send({ event: 'delta', data: { text: '{"tran' } });
+      send({ event: 'delta', data: { text: 'script"' } });
+      send({ event: 'result', data: { id: 'analysis-1' } });
+    });
+    const deltas: string[] = [];
+
+    const result = await readEventStream(new Response(stream), (text) => deltas.push(text));
+
+    expect(deltas).toEqual(['{"tran', 'script"']);
+    expect(result).toEqual({ id: 'analysis-1' });
+  });
+
+  it('should keep streaming after a reset so the retry replaces the preview', async () => {
+    const stream = createEventStream<{ id: string }>(async (send) => {
+      send({ event: 'delta', data: { text: '{"broken' } });
+      send({ event: 'reset', data: {} });
+      send({ event: 'delta', data: { text: '{"fixed"}' } });
+      send({ event: 'result', data: { id: 'analysis-1' } });
+    });
+    let preview = '';
+
+    const result = await readEventStream(
+      new Response(stream),
+      (text) => (preview += text),
+      () => (preview = '')
+    );
+
+    expect(preview).toBe('{"fixed"}');
+    expect(result).toEqual({ id: 'analysis-1' });
+  });
+
+  it('should use the status code carried by the error', () => {
+    const limited = Object.assign(new Error('Too many AI requests'), { statusCode: 429 });
+
+    expect(toStreamError(limited)).toEqual({ error: 'Too many AI requests', status: 429 });
+    expect(toStreamError(new Error('boom'))).toEqual({ error: 'boom', status: 500 });
+    expect(toStreamError('boom')).toEqual({
+      error: 'An unexpected error occurred',
+      status: 500,
+    });
+  });
+
+  it('should end with an error event when the handler throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const stream = createEventStream(async () => {
+      throw new Error('Invalid JSON in response');
+    });
+
+    await expect(readEventStream(new Response(stream))).rejects.toThrow(
+      'Invalid JSON in response'
+    );
+  });
+
+  it('should not hang when the handler finishes without a result', async () => {
+    const stream = createEventStream(async (send) => {
+      send({ event: 'delta', data: { text: 'partial' } });
+    });
+
+    await expect(readEventStream(new Response(stream))).rejects.toThrow(
+      'Stream ended without a result'
+    );
+  });
+
+  it('should parse events split across chunks', async () => {
+    const encoded =
+      formatEvent({ event: 'delta', data: { text: 'こんにちは' } }) +
+      formatEvent({ event: 'result', data: { ok: true } });
+    const response = responseFromChunks([
+      encoded.slice(0, 10),
+      encoded.slice(10, 41),
+      encoded.slice(41),
+    ]);
+    const deltas: string[] = [];
+
+    await expect(readEventStream(response, (text) => deltas.push(text))).resolves.toEqual({
+      ok: true,
+    });
+    expect(deltas).toEqual(['こんにちは']);
+  });
+
+  it('should reject a stream that closes before a result', async () => {
+    const response = responseFromChunks([formatEvent({ event: 'delta', data: { text: 'a' } })]);
+
+    await expect(readEventStream(response)).rejects.toThrow(
+      'Stream ended before a result was received'
+    );
+  });
+});
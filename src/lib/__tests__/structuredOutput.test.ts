@@ -0,0 +1,197 @@
+/**
+ * Structured Output Tests
+ *
+ * Tests for schema validation of Claude responses and the single repair round-trip
+ */
+
+import {
+  StructuredOutputError,
+  extractJson,
+  generateStructured,
+  parseStructuredOutput,
+  validateSchema,
+  type Schema,
+  type StructuredMessage,
+} from '../structuredOutput';
+import { ANALYSIS_SCHEMA, ClaudeAPIError, ClaudeClient } from '../claude';
+import type { LlmRequest } from '../llmProvider';
+
+// Mock Anthropic SDK
+const mockCreate = jest.fn();
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    messages: { create: (...args: unknown[]) => mockCreate(...args) },
+  })),
+}));
+
+const postSchema: Schema = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', minLength: 1 },
+    hashtags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    score: { type: 'number', min: 0, max: 100 },
+    tone: { type: 'string', enum: ['casual', 'formal'] },
+  },
+  optional: ['tone'],
+};
+
+const validAnalysis = {
+  transcript: '台本',
+  keyPoints: ['共感'],
+  structure: {
+    hook: '冒頭',
+    mainPoints: ['ポイント'],
+    cta: '保存してね',
+    emotionalTriggers: ['驚き'],
+  },
+  estimatedImpressions: 12000,
+  estimatedEngagement: 4.5,
+};
+
+/**
+ * Messages API のテキスト応答
+ */
+function textResponse(text: string) {
+  return {
+    content: [{ type: 'text', text }],
+    usage: { input_tokens: 100, output_tokens: 50 },
+  };
+}
+
+describe('validateSchema', () => {
+  it('should accept a value that matches the schema', () => {
+    expect(validateSchema(postSchema, { content: 'hi', hashtags: ['a'], score: 10 })).toEqual([]);
+  });
+
+  it('should report every invalid field with its path', () => {
+    const errors = validateSchema(postSchema, {
+      content: '',
+      hashtags: ['a', 1, 'c'],
+      score: 150,
+      tone: 'loud',
+    });
+
+    expect(errors).toEqual([
+      'content: must be at least 1 characters',
+      'hashtags: must have at most 2 items',
+      'hashtags[1]: must be a string',
+      'score: must be at most 100',
+      'tone: must be one of casual, formal',
+    ]);
+  });
+
+  it('should report missing required fields', () => {
+    expect(validateSchema(ANALYSIS_SCHEMA, { ...validAnalysis, structure: { hook: 'x' } })).toEqual([
+      'structure.mainPoints: is required',
+      'structure.cta: is required',
+      'structure.emotionalTriggers: is required',
+    ]);
+  });
+});
+
+describe('extractJson', () => {
+  it('should ignore chatter and code fences around the JSON', () => {
+    const text = 'はい、分析結果です。\n```json\n{"a": {"b": "}"}}\n```\n以上です。{"other": 1}';
+
+    expect(extractJson(text, 'object')).toBe('{"a": {"b": "}"}}');
+  });
+
+  it('should return null for a truncated answer', () => {
+    expect(extractJson('{"content": "途中で', 'object')).toBeNull();
+    expect(parseStructuredOutput('{"content": "途中で', postSchema)).toEqual({
+      success: false,
+      errors: ['response JSON is incomplete (it may have been cut off)'],
+    });
+  });
+});
+
+describe('generateStructured', () => {
+  it('should send the validation errors back once and accept the repaired answer', async () => {
+    const send = jest
+      .fn<Promise<string>, [StructuredMessage[]]>()
+      .mockResolvedValueOnce('{"content": "hi", "hashtags": "a", "score": 10}')
+      .mockResolvedValueOnce('{"content": "hi", "hashtags": ["a"], "score": 10}');
+
+    const result = await generateStructured(send, 'prompt', postSchema);
+
+    expect(result).toEqual({ content: 'hi', hashtags: ['a'], score: 10 });
+    const repairMessages = send.mock.calls[1][0];
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[1]).toEqual({
+      role: 'assistant',
+      content: '{"content": "hi", "hashtags": "a", "score": 10}',
+    });
+    expect(repairMessages[2].content).toContain('- hashtags: must be an array');
+  });
+
+  it('should give up after one repair attempt', async () => {
+    const send = jest.fn().mockResolvedValue('not json at all');
+
+    const error = await generateStructured<never>(send, 'prompt', postSchema).catch(
+      (e: StructuredOutputError) => e
+    );
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.errors).toEqual(['response does not contain a JSON object']);
+  });
+});
+
+describe('ClaudeClient structured output', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  it('should repair a wrongly shaped analysis', async () => {
+    mockCreate
+      .mockResolvedValueOnce(textResponse(JSON.stringify({ ...validAnalysis, keyPoints: 'x' })))
+      .mockResolvedValueOnce(textResponse(JSON.stringify(validAnalysis)));
+    const client = new ClaudeClient({ apiKey: 'test-key' });
+
+    const analysis = await client.analyzeBuzzContent('manual-input', '本文', 'threads');
+
+    expect(analysis.keyPoints).toEqual(['共感']);
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(mockCreate.mock.calls[1][0].messages[2].content).toContain(
+      'keyPoints: must be an array'
+    );
+  });
+
+  it('should tell the stream to discard the first attempt before repairing', async () => {
+    const responses = [
+      JSON.stringify({ ...validAnalysis, keyPoints: 'x' }),
+      JSON.stringify(validAnalysis),
+    ];
+    const provider = {
+      name: 'sequence',
+      complete: jest.fn(async (request: LlmRequest) => {
+        const text = responses.shift()!;
+        request.onText?.(text);
+        return { text, model: request.model, usage: { inputTokens: 1, outputTokens: 1 } };
+      }),
+    };
+    const events: string[] = [];
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    await client.analyzeBuzzContent('manual-input', '本文', 'threads', {
+      onText: () => events.push('delta'),
+      onRetry: () => events.push('reset'),
+    });
+
+    expect(events).toEqual(['delta', 'reset', 'delta']);
+  });
+
+  it('should fail with a parse_error listing the field errors', async () => {
+    mockCreate.mockResolvedValue(textResponse(JSON.stringify({ ...validAnalysis, transcript: 1 })));
+    const client = new ClaudeClient({ apiKey: 'test-key' });
+
+    const error = await client
+      .analyzeBuzzContent('manual-input', '本文', 'threads')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaudeAPIError);
+    expect(error.type).toBe('parse_error');
+    expect(error.message).toContain('transcript: must be a string');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Text Search Tests
+ *
+ * Tests for Japanese-aware tokenization, keyword ranking, local similarity ranking and snippets
+ */
+
+import {
+  buildSnippet,
+  containsQueryTerms,
+  embedText,
+  rankByKeyword,
+  rankBySimilarity,
+  tokenize,
+} from '../textSearch';
+
+describe('tokenize', () => {
+  it('should split Japanese text by script and into character bigrams', () => {
+    expect(tokenize('副業で月5万円')).toEqual(['副業', '月', '5', '万円']);
+    expect(tokenize('インスタの投稿')).toEqual(['イン', 'ンス', 'スタ', '投稿']);
+  });
+
+  it('should normalize width and case and keep latin words whole', () => {
+    expect(tokenize('ＳＮＳ Marketing、100日')).toEqual(['sns', 'marketing', '100', '日']);
+  });
+});
+
+describe('rankByKeyword', () => {
+  const documents = [
+    '朝活で人生が変わった話',
+    '副業で月5万円稼ぐまでにやったこと',
+    '副業を始める前に知っておきたい3つのこと。副業は準備が9割',
+  ];
+
+  it('should rank documents containing the query terms', () => {
+    const ranked = rankByKeyword('副業', documents);
+
+    expect(ranked.map((document) => document.index)).toEqual([2, 1]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it('should require most of the query terms to match', () => {
+    expect(rankByKeyword('副業 月5万円', documents).map((document) => document.index)).toEqual([
+      1,
+    ]);
+    expect(rankByKeyword('筋トレ', documents)).toEqual([]);
+    expect(rankByKeyword('  ', documents)).toEqual([]);
+  });
+});
+
+describe('rankBySimilarity', () => {
+  it('should find posts with overlapping wording without an exact match', () => {
+    const documents = ['毎朝5時に起きて朝活を続けた結果', '副業で月5万円稼ぐ方法'];
+    const ranked = rankBySimilarity('朝活を続けるコツ', documents);
+
+    expect(ranked[0].index).toBe(0);
+    expect(ranked.every((document) => document.index !== 1)).toBe(true);
+  });
+
+  it('should return unit vectors', () => {
+    const norm = Math.sqrt(embedText('朝活').reduce((sum, value) => sum + value * value, 0));
+
+    expect(norm).toBeCloseTo(1);
+    expect(embedText('').every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should cut the text around the first match', () => {
+    const text = `${'あ'.repeat(100)}副業の話${'い'.repeat(100)}`;
+    const snippet = buildSnippet(text, '副業', 20);
+
+    expect(snippet).toContain('副業');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+
+  it('should start from the beginning when nothing matches', () => {
+    expect(buildSnippet('朝活の話', '副業', 20)).toBe('朝活の話');
+    expect(containsQueryTerms('朝活の話', '副業')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Thread Segments Tests
+ *
+ * Tests for numbering thread posts and generating multi-part content with ClaudeClient
+ */
+
+import { ClaudeClient, ClaudeAPIError } from '../claude';
+import type { LlmProvider, LlmRequest } from '../llmProvider';
+import { joinSegments, numberSegments, numberingLength, supportsThread } from '../threadSegments';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const analysis: BuzzAnalysis = {
+  id: 'analysis-1',
+  platform: 'threads',
+  originalUrl: 'manual-input',
+  impressions: 48000,
+  engagement: 6.2,
+  transcript: '台本',
+  keyPoints: ['共感'],
+  structure: {
+    hook: '冒頭',
+    mainPoints: ['ポイント'],
+    cta: '保存してね',
+    emotionalTriggers: ['驚き'],
+  },
+  analyzedAt: new Date(),
+};
+
+/**
+ * 呼び出しごとに順番に応答を返すプロバイダー
+ */
+function sequenceProvider(responses: object[]): LlmProvider & { complete: jest.Mock } {
+  let calls = 0;
+  const complete = jest.fn(async (request: LlmRequest) => {
+    const response = responses[Math.min(calls++, responses.length - 1)];
+    return {
+      text: JSON.stringify(response),
+      model: request.model,
+      usage: { inputTokens: 1, outputTokens: 1 },
+    };
+  });
+  return { name: 'sequence', complete };
+}
+
+describe('threadSegments', () => {
+  it('should number each post at the end', () => {
+    expect(numberSegments([' 冒頭 ', '本文', '保存してね'])).toEqual([
+      '冒頭\n1/3',
+      '本文\n2/3',
+      '保存してね\n3/3',
+    ]);
+    expect(numberSegments(['1件だけ'])).toEqual(['1件だけ']);
+    expect(numberingLength(10)).toBe('\n10/10'.length);
+  });
+
+  it('should join posts into the full text and only support X and Threads', () => {
+    expect(joinSegments(['冒頭', '保存してね'])).toBe('冒頭\n\n保存してね');
+    expect(supportsThread('twitter')).toBe(true);
+    expect(supportsThread('threads')).toBe(true);
+    expect(supportsThread('instagram')).toBe(false);
+  });
+});
+
+describe('ClaudeClient.optimizeThread', () => {
+  const thread = {
+    segments: ['冒頭のフック', '本文', '保存してね'],
+    hashtags: ['朝活', '習慣', '副業'],
+    expectedImpressions: 1200,
+  };
+
+  it('should return numbered segments with the hook first and the CTA last', async () => {
+    const provider = sequenceProvider([thread]);
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const result = await client.optimizeThread(analysis, 'twitter');
+
+    const prompt = (provider.complete.mock.calls[0][0] as LlmRequest).messages[0].content;
+    expect(prompt).toContain('1投稿の最大文字数: 274文字');
+    expect(prompt).toContain('投稿は2〜10件');
+    expect(result.segments).toEqual(['冒頭のフック\n1/3', '本文\n2/3', '保存してね\n3/3']);
+    expect(result.content).toBe('冒頭のフック\n1/3\n\n本文\n2/3\n\n保存してね\n3/3');
+    expect(result.hashtags).toEqual(['朝活', '習慣']);
+    expect(result.promptVersion).toBe('thread-optimization@1');
+    expect(result.compliance).toMatchObject({
+      compliant: true,
+      segmentCharacterCounts: [16, 8, 14],
+    });
+  });
+
+  it('should leave numbering out when disabled', async () => {
+    const client = new ClaudeClient({ apiKey: '', provider: sequenceProvider([thread]) });
+
+    const result = await client.optimizeThread(analysis, 'threads', 'impression', {
+      numbering: false,
+    });
+
+    expect(result.segments).toEqual(thread.segments);
+  });
+
+  it('should ask once to tighten posts over the limit', async () => {
+    const tooLong = { ...thread, segments: ['冒頭', 'あ'.repeat(140)] };
+    const provider = sequenceProvider([tooLong, thread]);
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const result = await client.optimizeThread(analysis, 'twitter');
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    const retry = provider.complete.mock.calls[1][0] as LlmRequest;
+    expect(retry.messages[1].content).toBe(JSON.stringify({ ...tooLong, hashtags: ['朝活', '習慣'] }));
+    expect(retry.messages[2].content).toContain('2件目の投稿');
+    expect(result.segments).toHaveLength(3);
+    expect(result.compliance?.compliant).toBe(true);
+  });
+
+  it('should reject platforms without thread support', async () => {
+    const provider = sequenceProvider([thread]);
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    await expect(client.optimizeThread(analysis, 'instagram')).rejects.toThrow(ClaudeAPIError);
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Visual Plan Tests
+ *
+ * Tests for Instagram carousel outlines and Reels scripts generated by ClaudeClient
+ */
+
+import { ClaudeClient, ClaudeAPIError } from '../claude';
+import { FixtureProvider } from '../fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../llmFixtures';
+import type { LlmRequest } from '../llmProvider';
+import { formatTimecode, normalizeReelsBeats, parseVisualPlan } from '../visualPlan';
+import type { BuzzAnalysis, ReelsBeat } from '../../types/index';
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const analysis: BuzzAnalysis = {
+  id: 'analysis-1',
+  platform: 'threads',
+  originalUrl: 'manual-input',
+  impressions: 48000,
+  engagement: 6.2,
+  transcript: '台本',
+  keyPoints: ['共感'],
+  structure: {
+    hook: '1年前は貯金ゼロだった',
+    mainPoints: ['毎朝30分だけ副業に使う'],
+    cta: '保存してね',
+    emotionalTriggers: ['驚き'],
+  },
+  analyzedAt: new Date(),
+};
+
+function beat(start: number, end: number): ReelsBeat {
+  return { start, end, onScreenText: '', narration: '', visual: 'カット' };
+}
+
+describe('visualPlan', () => {
+  it('should sort Reels beats and keep them within the video length', () => {
+    expect(normalizeReelsBeats([beat(10, 40), beat(0, 3), beat(3, 2)], 30)).toEqual([
+      beat(0, 3),
+      beat(3, 3),
+      beat(10, 30),
+    ]);
+  });
+
+  it('should format timecodes and reject malformed stored plans', () => {
+    expect(formatTimecode(5)).toBe('0:05');
+    expect(formatTimecode(75.5)).toBe('1:15');
+    expect(parseVisualPlan({ format: 'carousel', slides: [] })).toEqual({
+      format: 'carousel',
+      slides: [],
+    });
+    expect(parseVisualPlan({ format: 'reels', beats: [] })).toBeUndefined();
+    expect(parseVisualPlan(null)).toBeUndefined();
+  });
+});
+
+describe('ClaudeClient.optimizeVisualPlan', () => {
+  it('should build a carousel outline with the hook first and the CTA last', async () => {
+    const provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    const complete = jest.spyOn(provider, 'complete');
+    const client = new ClaudeClient({ apiKey: '', provider });
+
+    const result = await client.optimizeVisualPlan(analysis, 'instagram', 'carousel');
+
+    const prompt = (complete.mock.calls[0][0] as LlmRequest).messages[0].content;
+    expect(prompt).toContain('フック: 1年前は貯金ゼロだった');
+    expect(prompt).toContain('スライドは3〜10枚');
+    expect(result.promptVersion).toBe('carousel-outline@1');
+    expect(result.visualPlan?.format).toBe('carousel');
+    if (result.visualPlan?.format === 'carousel') {
+      expect(result.visualPlan.slides).toHaveLength(5);
+      expect(result.visualPlan.slides[4].body).toContain('保存');
+    }
+    expect(result.content).toContain('スワイプ');
+    expect(result.compliance?.compliant).toBe(true);
+  });
+
+  it('should build a Reels script with timed beats', async () => {
+    const client = new ClaudeClient({
+      apiKey: '',
+      provider: new FixtureProvider(DEFAULT_LLM_FIXTURES),
+    });
+
+    const result = await client.optimizeVisualPlan(analysis, 'instagram', 'reels');
+
+    expect(result.promptVersion).toBe('reels-script@1');
+    expect(result.visualPlan).toMatchObject({ format: 'reels', durationSeconds: 30 });
+    if (result.visualPlan?.format === 'reels') {
+      expect(result.visualPlan.beats.map((b) => [b.start, b.end])).toEqual([
+        [0, 3],
+        [3, 12],
+        [12, 22],
+        [22, 30],
+      ]);
+    }
+  });
+
+  it('should reject platforms other than Instagram', async () => {
+    const client = new ClaudeClient({
+      apiKey: '',
+      provider: new FixtureProvider(DEFAULT_LLM_FIXTURES),
+    });
+
+    await expect(client.optimizeVisualPlan(analysis, 'twitter', 'carousel')).rejects.toThrow(
+      ClaudeAPIError
+    );
+  });
+});
@@ -36,6 +36,16 @@ export interface AuthCheckResult {
   user: AuthUser | null;
 }
 
+/**
+ * Error thrown when an authenticated session is required but missing
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string = 'Authentication required') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
 /**
  * Get the server-side session
  *
@@ -91,7 +101,7 @@ export async function checkAuth(): Promise<AuthCheckResult> {
  * Use this as a guard in protected routes.
  *
  * @returns Promise resolving to the authenticated session
- * @throws Error if user is not authenticated
+ * @throws AuthenticationError if user is not authenticated
  *
  * @example
  * ```typescript
@@ -108,12 +118,37 @@ export async function requireAuth(): Promise<AuthSession> {
   const session = await getServerSession();
 
   if (!session) {
-    throw new Error('Authentication required');
+    throw new AuthenticationError();
   }
 
   return session;
 }
 
+/**
+ * Require authentication and return the signed-in user's ID
+ *
+ * Use this in API routes that read or write user-owned records.
+ *
+ * @returns Promise resolving to the authenticated user's ID
+ * @throws AuthenticationError if user is not authenticated or the session has no ID
+ *
+ * @example
+ * ```typescript
+ * const userId = await requireUserId();
+ * const analyses = await prisma.buzzAnalysis.findMany({ where: { userId } });
+ * ```
+ */
+export async function requireUserId(): Promise<string> {
+  const session = await requireAuth();
+  const userId = session.user?.id;
+
+  if (!userId) {
+    throw new AuthenticationError('Authenticated session has no user ID');
+  }
+
+  return userId;
+}
+
 /**
  * Get the current user from the session
  *
@@ -11,6 +11,38 @@ import type { NextAuthOptions, Session, User } from 'next-auth';
 import GitHubProvider from 'next-auth/providers/github';
 import GoogleProvider from 'next-auth/providers/google';
 import type { JWT } from 'next-auth/jwt';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Create or update the app's User row for a signed-in OAuth user
+ *
+ * Sessions use the JWT strategy without a database adapter, so this is the only
+ * place a `users` row is created. Records are matched by email, which lets the
+ * same person sign in with GitHub or Google.
+ *
+ * @returns The database user ID to use as `session.user.id`
+ */
+export async function upsertSignedInUser(user: User): Promise<string> {
+  if (!user.email) {
+    throw new Error('Signed-in user has no email address');
+  }
+
+  const record = await prisma.user.upsert({
+    where: { email: user.email },
+    create: { email: user.email, name: user.name ?? null },
+    update: user.name ? { name: user.name } : {},
+    select: { id: true },
+  });
+
+  return record.id;
+}
+
+/**
+ * Value of `token.idSource` once `token.id` holds the database user ID
+ *
+ * Tokens issued before users were stored carry the OAuth provider's ID instead.
+ */
+const DATABASE_ID_SOURCE = 'database';
 
 /**
  * NextAuth configuration options
@@ -67,13 +99,30 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     /**
      * JWT callback - called whenever a JWT is created or updated
+     *
+     * On sign in, the OAuth provider's user ID is replaced with the database
+     * user ID so that user-owned records satisfy their `userId` foreign keys.
+     * Older tokens that still carry the OAuth ID are resolved by their email;
+     * without one the token is rejected, which makes NextAuth clear the session.
+     *
      * @param token - The JWT token
      * @param user - The user object (only available on sign in)
      * @returns Modified JWT token
      */
     async jwt({ token, user }: { token: JWT; user?: User }): Promise<JWT> {
       if (user) {
-        token.id = user.id;
+        token.id = await upsertSignedInUser(user);
+        token.idSource = DATABASE_ID_SOURCE;
+      } else if (token.idSource !== DATABASE_ID_SOURCE) {
+        if (!token.email) {
+          throw new Error('Session token has no database user ID');
+        }
+        token.id = await upsertSignedInUser({
+          id: token.sub ?? '',
+          email: token.email,
+          name: token.name,
+        });
+        token.idSource = DATABASE_ID_SOURCE;
       }
       return token;
     },
@@ -94,11 +143,14 @@ export const authOptions: NextAuthOptions = {
 
     /**
      * Sign in callback - controls whether a user is allowed to sign in
+     *
+     * Users are stored by email, so accounts without a (public) email are denied.
+     *
+     * @param user - The user object from the OAuth provider
      * @returns True to allow sign in, false to deny
      */
-    async signIn(): Promise<boolean> {
-      // Add custom sign-in validation logic here if needed
-      return true;
+    async signIn({ user }: { user: User }): Promise<boolean> {
+      return Boolean(user.email);
     },
 
     /**
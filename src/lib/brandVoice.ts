@@ -0,0 +1,212 @@
+/**
+ * Brand Voice
+ *
+ * ユーザーの過去の投稿からブランドボイス（語彙・文の長さ・絵文字の使い方・決まり文句）を抽出し、
+ * 最適化プロンプトへの指示と、生成したコンテンツとの一致度（voice match）を計算する
+ * - 抽出・採点は決定的なルールベース（Claude API は使わない）
+ * - 語彙は漢字・カタカナ・英単語の2文字以上の連続を語として数える
+ */
+
+/**
+ * ブランドボイスのプロファイル
+ */
+export interface BrandVoiceProfile {
+  sampleCount: number; // 抽出に使った投稿数
+  averageSentenceLength: number; // 1文あたりの平均文字数
+  emojiPerPost: number; // 1投稿あたりの平均絵文字数
+  topEmojis: string[];
+  vocabulary: string[]; // よく使う語（頻度順）
+  signaturePhrases: string[]; // 複数の投稿で繰り返し使う言い回し
+  bannedWords: string[]; // 使わない語（ユーザーが指定）
+  updatedAt?: Date;
+}
+
+/**
+ * プロファイルに残す件数
+ */
+const MAX_TOP_EMOJIS = 5;
+const MAX_VOCABULARY = 20;
+const MAX_SIGNATURE_PHRASES = 5;
+
+/**
+ * 決まり文句として扱う文の文字数
+ */
+const MIN_PHRASE_LENGTH = 4;
+const MAX_PHRASE_LENGTH = 40;
+
+/**
+ * voice match の配点（合計1）と禁止ワード1語あたりの減点
+ */
+const MATCH_WEIGHTS = { sentenceLength: 0.35, emoji: 0.25, vocabulary: 0.4 };
+const BANNED_WORD_PENALTY = 25;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const WORD_PATTERN = /\p{Script=Han}{2,}|[\p{Script=Katakana}ー]{2,}|[A-Za-z][A-Za-z0-9']+/gu;
+const SENTENCE_DELIMITER = /(?:[。．！？!?\n]|\p{Extended_Pictographic}\uFE0F?)+/u; // 絵文字も文末として扱う
+
+/**
+ * 文字数（絵文字・空白を除く）
+ */
+function textLength(text: string): number {
+  return Array.from(text.replace(EMOJI_PATTERN, '').replace(/\s/g, '')).length;
+}
+
+/**
+ * 文に分割（ハッシュタグを除いて空になった文は除外）
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_DELIMITER)
+    .map((sentence) => sentence.replace(/#\S+/g, '').trim())
+    .filter((sentence) => textLength(sentence) > 0);
+}
+
+function extractEmojis(text: string): string[] {
+  return text.match(EMOJI_PATTERN) ?? [];
+}
+
+function extractWords(text: string): string[] {
+  return (text.replace(/https?:\/\/\S+/g, '').match(WORD_PATTERN) ?? []).map((word) =>
+    word.toLowerCase()
+  );
+}
+
+/**
+ * 出現回数の多い順に並べる（同数は先に出たものを優先）
+ */
+function rankByCount(counts: Map<string, number>, minCount: number, limit: number): string[] {
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * 1文あたりの平均文字数
+ */
+function averageSentenceLength(texts: string[]): number {
+  const sentences = texts.flatMap(splitSentences);
+  if (sentences.length === 0) return 0;
+
+  const total = sentences.reduce((sum, sentence) => sum + textLength(sentence), 0);
+  return Math.round((total / sentences.length) * 10) / 10;
+}
+
+/**
+ * 投稿からブランドボイスを抽出
+ *
+ * @param posts - ユーザー自身の投稿本文
+ * @param bannedWords - 使わない語（語彙・決まり文句からも除外する）
+ */
+export function extractBrandVoice(posts: string[], bannedWords: string[] = []): BrandVoiceProfile {
+  const banned = bannedWords.map((word) => word.trim()).filter((word) => word.length > 0);
+  const isBanned = (text: string) =>
+    banned.some((word) => text.toLowerCase().includes(word.toLowerCase()));
+
+  const emojiCounts = new Map<string, number>();
+  const wordCounts = new Map<string, number>();
+  const phrasePosts = new Map<string, number>(); // 文ごとの出現投稿数
+  let emojiTotal = 0;
+
+  for (const post of posts) {
+    const emojis = extractEmojis(post);
+    emojiTotal += emojis.length;
+    emojis.forEach((emoji) => increment(emojiCounts, emoji));
+
+    extractWords(post)
+      .filter((word) => !isBanned(word))
+      .forEach((word) => increment(wordCounts, word));
+
+    new Set(splitSentences(post)).forEach((sentence) => {
+      const length = textLength(sentence);
+      if (length >= MIN_PHRASE_LENGTH && length <= MAX_PHRASE_LENGTH && !isBanned(sentence)) {
+        increment(phrasePosts, sentence);
+      }
+    });
+  }
+
+  return {
+    sampleCount: posts.length,
+    averageSentenceLength: averageSentenceLength(posts),
+    emojiPerPost: posts.length > 0 ? Math.round((emojiTotal / posts.length) * 10) / 10 : 0,
+    topEmojis: rankByCount(emojiCounts, 1, MAX_TOP_EMOJIS),
+    vocabulary: rankByCount(wordCounts, 2, MAX_VOCABULARY),
+    signaturePhrases: rankByCount(phrasePosts, 2, MAX_SIGNATURE_PHRASES),
+    bannedWords: banned,
+  };
+}
+
+/**
+ * 最適化プロンプトに埋め込むブランドボイスの指示
+ */
+export function describeBrandVoice(profile: BrandVoiceProfile): string {
+  const lines = [`- 文の長さ: 1文あたり平均${Math.round(profile.averageSentenceLength)}文字前後`];
+
+  lines.push(
+    profile.emojiPerPost > 0
+      ? `- 絵文字: 1投稿あたり${profile.emojiPerPost}個程度${
+          profile.topEmojis.length > 0 ? `（よく使う: ${profile.topEmojis.join(' ')}）` : ''
+        }`
+      : '- 絵文字: 使わない'
+  );
+
+  if (profile.vocabulary.length > 0) {
+    lines.push(`- よく使う語彙: ${profile.vocabulary.join(', ')}`);
+  }
+  if (profile.signaturePhrases.length > 0) {
+    const phrases = profile.signaturePhrases.map((phrase) => `「${phrase}」`);
+    lines.push(`- 決まり文句: ${phrases.join(' ')}`);
+  }
+  if (profile.bannedWords.length > 0) {
+    lines.push(`- 禁止ワード（絶対に使わない）: ${profile.bannedWords.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 2つの値の近さ（0-1）
+ */
+function closeness(actual: number, expected: number): number {
+  if (actual === expected) return 1;
+  return 1 - Math.min(1, Math.abs(actual - expected) / Math.max(actual, expected, 1));
+}
+
+/**
+ * コンテンツとブランドボイスの一致度（0-100）
+ *
+ * 文の長さ・絵文字の数・よく使う語彙の使用で採点し、禁止ワード1語ごとに減点する
+ */
+export function scoreVoiceMatch(content: string, profile: BrandVoiceProfile): number {
+  const sentenceScore = closeness(
+    averageSentenceLength([content]),
+    profile.averageSentenceLength
+  );
+  const emojiScore = closeness(extractEmojis(content).length, profile.emojiPerPost);
+
+  const words = new Set(extractWords(content));
+  const expectedHits = Math.min(3, profile.vocabulary.length);
+  const vocabularyScore =
+    expectedHits === 0
+      ? 1
+      : Math.min(1, profile.vocabulary.filter((word) => words.has(word)).length / expectedHits);
+
+  const lowered = content.toLowerCase();
+  const bannedCount = profile.bannedWords.filter((word) =>
+    lowered.includes(word.toLowerCase())
+  ).length;
+
+  const score =
+    100 *
+      (MATCH_WEIGHTS.sentenceLength * sentenceScore +
+        MATCH_WEIGHTS.emoji * emojiScore +
+        MATCH_WEIGHTS.vocabulary * vocabularyScore) -
+    BANNED_WORD_PENALTY * bannedCount;
+
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
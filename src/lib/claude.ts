@@ -7,15 +7,120 @@
  * - プロンプト生成
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import {
+  LlmResponseFormatError,
+  createLlmProvider,
+  isFixtureProviderEnabled,
+  type LlmProvider,
+} from './llmProvider';
+import {
+  calculateBestPostTime,
+  getPlatformRules,
+  type PlatformRuleOverrides,
+  type PlatformRules,
+} from './platformRules';
+import { describeBrandVoice, scoreVoiceMatch, type BrandVoiceProfile } from './brandVoice';
+import { buildTightenPrompt, checkCompliance, checkThreadCompliance } from './compliance';
+import { applyOpeningHook } from './hookLibrary';
+import {
+  MAX_THREAD_SEGMENTS,
+  MIN_THREAD_SEGMENTS,
+  joinSegments,
+  numberSegments,
+  numberingLength,
+  supportsThread,
+} from './threadSegments';
+import {
+  MAX_CAROUSEL_SLIDES,
+  MAX_REELS_BEATS,
+  MAX_REELS_SECONDS,
+  MIN_CAROUSEL_SLIDES,
+  MIN_REELS_BEATS,
+  normalizeReelsBeats,
+  supportsVisualPlan,
+} from './visualPlan';
+import {
+  optimizationPromptVariables,
+  renderPrompt,
+  threadPromptVariables,
+  visualPlanPromptVariables,
+  type PromptVersions,
+  type RenderedPrompt,
+} from './promptTemplates';
+import {
+  StructuredOutputError,
+  generateStructured,
+  type Schema,
+  type StructuredMessage,
+} from './structuredOutput';
 import type {
+  ComplianceReport,
   Platform,
   BuzzAnalysis,
+  CarouselSlide,
   ContentStructure,
+  InstagramVisualFormat,
+  InstagramVisualPlan,
   OptimizedContent,
   PostMode,
+  ReelsBeat,
 } from '../types/index.js';
 
+/**
+ * Claude APIを呼び出す機能（利用記録の分類）
+ */
+export type ClaudeOperation = 'analyze' | 'optimize' | 'score' | 'trends';
+
+/**
+ * 1回のAPI呼び出しのトークン使用量
+ */
+export interface TokenUsage {
+  operation: ClaudeOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * トークン使用量の記録先
+ */
+export type UsageRecorder = (usage: TokenUsage) => Promise<void> | void;
+
+/**
+ * 予約する呼び出しの内容（予約時の使用量の見積もりに使う）
+ */
+export interface UsageRequest {
+  operation: ClaudeOperation;
+  model: string;
+  maxTokens: number;
+}
+
+/**
+ * 予約した利用枠を確定する関数（呼び出しに失敗した場合は null を渡す）
+ */
+export type UsageSettler = (usage: TokenUsage | null) => Promise<void>;
+
+/**
+ * 呼び出しの前に利用枠を予約する関数（上限に達している場合は UsageLimitError を投げる）
+ */
+export type UsageReserver = (request: UsageRequest) => Promise<UsageSettler>;
+
+/**
+ * ストリーミングで生成する場合のオプション
+ */
+export interface StreamOptions {
+  onText: (delta: string) => void; // 受信したテキストの差分
+  onRetry?: () => void; // 修正・書き直しのため生成し直す（それまでの差分は破棄する）
+  signal?: AbortSignal; // クライアントが切断した場合に生成を中止
+}
+
+/**
+ * スレッド形式で最適化する場合のオプション
+ */
+export interface ThreadOptions {
+  numbering?: boolean; // 各投稿の末尾に "1/5" を付ける（デフォルト: true）
+}
+
 /**
  * Claude API設定
  */
@@ -24,6 +129,13 @@ export interface ClaudeConfig {
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  onUsage?: UsageRecorder; // API呼び出しごとに使用量を通知
+  reserveUsage?: UsageReserver; // API呼び出しごとに利用上限を確認して枠を予約
+  provider?: LlmProvider; // 省略時は設定（LLM_PROVIDER）に応じて作成
+  promptVersions?: PromptVersions; // 省略したテンプレートは ACTIVE_PROMPT_VERSIONS
+  ruleOverrides?: PlatformRuleOverrides; // ユーザーごとのプラットフォームルールの上書き
+  voiceProfile?: BrandVoiceProfile; // 最適化で合わせるユーザーのブランドボイス
+  openingHook?: string; // 最適化結果の冒頭に置くフック（フックライブラリから選んだもの）
 }
 
 /**
@@ -60,169 +172,300 @@ export class ClaudeAPIError extends Error {
 }
 
 /**
- * プラットフォーム別最適化ルール
+ * 分析レスポンスのJSON
  */
-interface PlatformRules {
-  maxLength: number;
-  hashtagCount: number;
-  tone: string;
-  formatting: string[];
-  bestPractices: string[];
+interface AnalysisData {
+  transcript: string;
+  keyPoints: string[];
+  structure: ContentStructure;
+  estimatedImpressions: number;
+  estimatedEngagement: number;
 }
 
 /**
- * プラットフォームルール定義
+ * 最適化レスポンスのJSON
  */
-const PLATFORM_RULES: Record<Platform, PlatformRules> = {
-  threads: {
-    maxLength: 500,
-    hashtagCount: 3,
-    tone: '会話的でカジュアル、親しみやすい',
-    formatting: ['短い段落', '絵文字適度に使用', '質問で終わる'],
-    bestPractices: [
-      '最初の1行で興味を引く',
-      '読者に語りかける口調',
-      '共感を誘う表現',
-      'シンプルな言葉選び',
-    ],
-  },
-  instagram: {
-    maxLength: 2200,
-    hashtagCount: 15,
-    tone: 'ビジュアル重視、感情的なストーリーテリング',
-    formatting: ['改行を多用', '絵文字をセクション分けに使用', 'CTAを明確に'],
-    bestPractices: [
-      'フック(最初の125文字)が重要',
-      'ストーリー形式で展開',
-      'ハッシュタグは最後にまとめる',
-      '保存したくなる価値を提供',
-    ],
+interface OptimizationData {
+  content: string;
+  hashtags: string[];
+  expectedImpressions: number;
+}
+
+/**
+ * スレッド形式の最適化レスポンスのJSON
+ */
+interface ThreadOptimizationData {
+  segments: string[];
+  hashtags: string[];
+  expectedImpressions: number;
+}
+
+/**
+ * カルーセル・リールの最適化レスポンスのJSON
+ */
+interface VisualPlanData {
+  caption: string;
+  hashtags: string[];
+  expectedImpressions: number;
+  slides?: CarouselSlide[];
+  durationSeconds?: number;
+  beats?: ReelsBeat[];
+}
+
+/**
+ * スコア分析レスポンスのJSON
+ */
+interface ScoreAnalysisData {
+  aiInsight: string;
+  strengths: string[];
+  improvements: string[];
+  priorityAction: string;
+  estimatedGrowthPotential: number;
+}
+
+/**
+ * 文字列の配列のスキーマ
+ */
+const STRING_ARRAY_SCHEMA: Schema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+/**
+ * 分析レスポンスのスキーマ
+ */
+export const ANALYSIS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    transcript: { type: 'string', minLength: 1 },
+    keyPoints: { ...STRING_ARRAY_SCHEMA, minItems: 1 },
+    structure: {
+      type: 'object',
+      properties: {
+        hook: { type: 'string', minLength: 1 },
+        mainPoints: { ...STRING_ARRAY_SCHEMA, minItems: 1 },
+        cta: { type: 'string' },
+        emotionalTriggers: STRING_ARRAY_SCHEMA,
+      },
+    },
+    estimatedImpressions: { type: 'number', min: 0 },
+    estimatedEngagement: { type: 'number', min: 0, max: 100 },
   },
-  twitter: {
-    maxLength: 280,
-    hashtagCount: 2,
-    tone: 'シャープで簡潔、インパクト重視',
-    formatting: ['1文1ツイート感覚', '数字を効果的に使用', 'スレッド形式も検討'],
-    bestPractices: [
-      '最初の数語で勝負',
-      '反論を呼ぶ主張',
-      'リツイートしたくなる価値',
-      '議論を促す問いかけ',
-    ],
+};
+
+/**
+ * 最適化レスポンスのスキーマ
+ */
+export const OPTIMIZATION_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', minLength: 1 },
+    hashtags: STRING_ARRAY_SCHEMA,
+    expectedImpressions: { type: 'number', min: 0 },
   },
 };
 
 /**
- * レート制限管理
+ * スレッド形式の最適化レスポンスのスキーマ
  */
-class RateLimiter {
-  private requestTimes: number[] = [];
-  private readonly windowMs: number;
-  private readonly maxRequests: number;
-
-  constructor(windowMs: number = 60000, maxRequests: number = 50) {
-    this.windowMs = windowMs;
-    this.maxRequests = maxRequests;
-  }
+export const THREAD_OPTIMIZATION_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    segments: {
+      ...STRING_ARRAY_SCHEMA,
+      minItems: MIN_THREAD_SEGMENTS,
+      maxItems: MAX_THREAD_SEGMENTS,
+    },
+    hashtags: STRING_ARRAY_SCHEMA,
+    expectedImpressions: { type: 'number', min: 0 },
+  },
+};
 
-  /**
-   * リクエスト可能かチェック
-   */
-  canRequest(): boolean {
-    this.cleanup();
-    return this.requestTimes.length < this.maxRequests;
-  }
+/**
+ * カルーセルの最適化レスポンスのスキーマ
+ */
+export const CAROUSEL_OUTLINE_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    slides: {
+      type: 'array',
+      minItems: MIN_CAROUSEL_SLIDES,
+      maxItems: MAX_CAROUSEL_SLIDES,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          body: { type: 'string' },
+          visual: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+    caption: { type: 'string', minLength: 1 },
+    hashtags: STRING_ARRAY_SCHEMA,
+    expectedImpressions: { type: 'number', min: 0 },
+  },
+};
 
-  /**
-   * リクエストを記録
-   */
-  recordRequest(): void {
-    this.requestTimes.push(Date.now());
-  }
+/**
+ * リールの最適化レスポンスのスキーマ
+ */
+export const REELS_SCRIPT_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    durationSeconds: { type: 'number', min: 1, max: MAX_REELS_SECONDS },
+    beats: {
+      type: 'array',
+      minItems: MIN_REELS_BEATS,
+      maxItems: MAX_REELS_BEATS,
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'number', min: 0 },
+          end: { type: 'number', min: 0 },
+          onScreenText: { type: 'string' },
+          narration: { type: 'string' },
+          visual: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+    caption: { type: 'string', minLength: 1 },
+    hashtags: STRING_ARRAY_SCHEMA,
+    expectedImpressions: { type: 'number', min: 0 },
+  },
+};
 
-  /**
-   * 次にリクエスト可能になるまでの時間（ミリ秒）
-   */
-  getWaitTime(): number {
-    if (this.canRequest()) return 0;
-    this.cleanup();
-    if (this.requestTimes.length === 0) return 0;
-    const oldestRequest = this.requestTimes[0];
-    return Math.max(0, oldestRequest + this.windowMs - Date.now());
-  }
+/**
+ * スコア分析レスポンスのスキーマ
+ */
+export const SCORE_ANALYSIS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    aiInsight: { type: 'string', minLength: 1 },
+    strengths: STRING_ARRAY_SCHEMA,
+    improvements: STRING_ARRAY_SCHEMA,
+    priorityAction: { type: 'string', minLength: 1 },
+    estimatedGrowthPotential: { type: 'number', min: 0, max: 100 },
+  },
+};
 
-  /**
-   * 古いリクエスト記録を削除
-   */
-  private cleanup(): void {
-    const cutoff = Date.now() - this.windowMs;
-    this.requestTimes = this.requestTimes.filter((time) => time > cutoff);
-  }
+/**
+ * 検証結果のうち error の違反の数
+ */
+function countErrors(report: ComplianceReport): number {
+  return report.violations.filter((violation) => violation.severity === 'error').length;
 }
 
 /**
  * Claude APIクライアント
  */
 export class ClaudeClient {
-  private client: Anthropic;
+  private readonly provider: LlmProvider;
   private readonly model: string;
   private readonly maxTokens: number;
   private readonly temperature: number;
-  private readonly rateLimiter: RateLimiter;
+  private readonly onUsage?: UsageRecorder;
+  private readonly reserveUsage?: UsageReserver;
+  private readonly startedStreams = new WeakSet<StreamOptions>();
+  private readonly promptVersions: PromptVersions;
+  private readonly ruleOverrides?: PlatformRuleOverrides;
+  private readonly voiceProfile?: BrandVoiceProfile;
+  private readonly openingHook?: string;
 
   constructor(config: ClaudeConfig) {
-    if (!config.apiKey) {
+    if (!config.provider && !config.apiKey && !isFixtureProviderEnabled()) {
       throw new ClaudeAPIError(
         'API key is required',
         'auth_error'
       );
     }
 
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.provider = config.provider ?? createLlmProvider(config.apiKey);
     this.model = config.model || 'claude-sonnet-4-20250514';
     this.maxTokens = config.maxTokens || 4000;
     this.temperature = config.temperature || 0.7;
-    this.rateLimiter = new RateLimiter();
+    this.onUsage = config.onUsage;
+    this.reserveUsage = config.reserveUsage;
+    this.promptVersions = config.promptVersions ?? {};
+    this.ruleOverrides = config.ruleOverrides;
+    this.voiceProfile = config.voiceProfile;
+    this.openingHook = config.openingHook;
   }
 
   /**
-   * Claude APIにメッセージを送信
+   * 使用量を記録先に通知（記録の失敗で本来の処理は失敗させない）
    */
-  private async sendMessage(prompt: string): Promise<string> {
-    // レート制限チェック
-    if (!this.rateLimiter.canRequest()) {
-      const waitTime = this.rateLimiter.getWaitTime();
-      throw new ClaudeAPIError(
-        `Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`,
-        'rate_limit',
-        429,
-        waitTime
-      );
+  private async reportUsage(usage: TokenUsage): Promise<void> {
+    if (!this.onUsage) return;
+
+    try {
+      await this.onUsage(usage);
+    } catch (error) {
+      console.error('Failed to record Claude usage:', error);
     }
+  }
 
+  /**
+   * 予約した利用枠を確定（記録の失敗で本来の処理は失敗させない）
+   */
+  private async settleUsage(settle: UsageSettler, usage: TokenUsage | null): Promise<void> {
     try {
-      this.rateLimiter.recordRequest();
+      await settle(usage);
+    } catch (error) {
+      console.error('Failed to record Claude usage:', error);
+    }
+  }
+
+  /**
+   * Claude APIにメッセージを送信
+   *
+   * stream を指定した場合は生成中のテキストを逐次通知する
+   */
+  private async sendMessage(
+    messages: StructuredMessage[],
+    operation: ClaudeOperation,
+    stream?: StreamOptions
+  ): Promise<string> {
+    // 利用上限の確認と枠の予約（同時に来た呼び出しも予約の数で上限を超えない）
+    const settle = await this.reserveUsage?.({
+      operation,
+      model: this.model,
+      maxTokens: this.maxTokens,
+    });
+
+    // 同じストリームでの2回目以降の生成（修正・書き直し）は、表示中の差分を破棄させる
+    if (stream) {
+      if (this.startedStreams.has(stream)) stream.onRetry?.();
+      this.startedStreams.add(stream);
+    }
 
-      const response = await this.client.messages.create({
+    try {
+      const response = await this.provider.complete({
+        operation,
         model: this.model,
-        max_tokens: this.maxTokens,
-        messages: [{ role: 'user', content: prompt }],
+        maxTokens: this.maxTokens,
+        messages,
+        onText: stream?.onText,
+        signal: stream?.signal,
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new ClaudeAPIError(
-          'Unexpected response format',
-          'parse_error'
-        );
-      }
+      const usage: TokenUsage = {
+        operation,
+        model: response.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+      };
+      if (settle) await this.settleUsage(settle, usage);
+      await this.reportUsage(usage);
 
-      return content.text;
+      return response.text;
     } catch (error) {
+      if (settle) await this.settleUsage(settle, null);
+
       if (error instanceof ClaudeAPIError) {
         throw error;
       }
 
+      if (error instanceof LlmResponseFormatError) {
+        throw new ClaudeAPIError(error.message, 'parse_error');
+      }
+
       // Anthropic SDKエラーを処理
       if (error instanceof Error) {
         const errorMessage = error.message.toLowerCase();
@@ -266,24 +509,27 @@ export class ClaudeClient {
   }
 
   /**
-   * JSONレスポンスを抽出・パース
+   * スキーマで検証した構造化レスポンスを取得
+   *
+   * 応答がスキーマに合わない場合は検証エラーを伝えて1回だけ修正を依頼する
    */
-  private parseJsonResponse<T>(text: string): T {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new ClaudeAPIError(
-        'Failed to parse JSON response',
-        'parse_error'
-      );
-    }
-
+  private async requestStructured<T>(
+    prompt: string | StructuredMessage[],
+    operation: ClaudeOperation,
+    schema: Schema,
+    stream?: StreamOptions
+  ): Promise<T> {
     try {
-      return JSON.parse(jsonMatch[0]) as T;
-    } catch {
-      throw new ClaudeAPIError(
-        'Invalid JSON in response',
-        'parse_error'
+      return await generateStructured<T>(
+        (messages) => this.sendMessage(messages, operation, stream),
+        prompt,
+        schema
       );
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        throw new ClaudeAPIError(error.message, 'parse_error');
+      }
+      throw error;
     }
   }
 
@@ -294,6 +540,22 @@ export class ClaudeClient {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
 
+  /**
+   * 冒頭に置くフックが指定されていれば、プロンプトに渡すコンテンツ構造のフックを置き換える
+   */
+  private withOpeningHook(analysis: BuzzAnalysis): BuzzAnalysis {
+    if (!this.openingHook) return analysis;
+
+    return { ...analysis, structure: { ...analysis.structure, hook: this.openingHook } };
+  }
+
+  /**
+   * 生成した本文（スレッドは1件目の投稿）の冒頭を指定のフックにする
+   */
+  private openWithHook(content: string): string {
+    return this.openingHook ? applyOpeningHook(content, this.openingHook) : content;
+  }
+
   /**
    * バズ投稿分析プロンプトを生成
    */
@@ -301,37 +563,12 @@ export class ClaudeClient {
     url: string,
     content: string,
     platform: Platform
-  ): string {
-    return `
-あなたはSNSバズコンテンツの専門アナリストです。
-
-以下のバズ投稿を分析し、なぜバズったのかを構造的に解析してください。
-
-【投稿URL】
-${url}
-
-【投稿内容】
-${content}
-
-【プラットフォーム】
-${platform}
-
-以下のJSON形式で回答してください:
-{
-  "transcript": "投稿の本質的なメッセージ・ノウハウを台本形式で抽出（そのまま使える形式で）",
-  "keyPoints": ["バズった要因1", "バズった要因2", "バズった要因3"],
-  "structure": {
-    "hook": "冒頭のフック（最初に読者を引き込んだ部分）",
-    "mainPoints": ["主要ポイント1", "主要ポイント2", "主要ポイント3"],
-    "cta": "Call to Action（行動を促す部分）",
-    "emotionalTriggers": ["感情トリガー1", "感情トリガー2"]
-  },
-  "estimatedImpressions": 推定インプレッション数（数値のみ）,
-  "estimatedEngagement": 推定エンゲージメント率（0-100の数値）
-}
-
-JSONのみを返してください。説明は不要です。
-`;
+  ): RenderedPrompt {
+    return renderPrompt(
+      'analysis',
+      { url, content, platform },
+      this.promptVersions.analysis
+    );
   }
 
   /**
@@ -341,54 +578,18 @@ JSONのみを返してください。説明は不要です。
     analysis: BuzzAnalysis,
     targetPlatform: Platform,
     mode: PostMode
-  ): string {
-    const rules = PLATFORM_RULES[targetPlatform];
-    const modeGuidance =
-      mode === 'impression'
-        ? 'インプレッション最大化を優先。多くの人に届く普遍的な表現を使用。'
-        : '自己表現を優先。個性的な視点と独自の言葉選びを重視。';
-
-    return `
-あなたはSNSコンテンツ最適化のプロです。
-
-【ガッチャンコ作業】
-以下のバズったノウハウを、${targetPlatform}用に言い回しを変換してください。
-
-【元のバズコンテンツの台本】
-${analysis.transcript}
-
-【バズった要因】
-${analysis.keyPoints.join('\n')}
-
-【コンテンツ構造】
-- フック: ${analysis.structure.hook}
-- 主要ポイント: ${analysis.structure.mainPoints.join(', ')}
-- CTA: ${analysis.structure.cta}
-- 感情トリガー: ${analysis.structure.emotionalTriggers.join(', ')}
-
-【${targetPlatform}の最適化ルール】
-- 最大文字数: ${rules.maxLength}文字
-- トーン: ${rules.tone}
-- フォーマット: ${rules.formatting.join(', ')}
-- ベストプラクティス: ${rules.bestPractices.join(', ')}
-
-【モード】
-${modeGuidance}
-
-以下のJSON形式で最適化されたコンテンツを返してください:
-{
-  "content": "最適化されたコンテンツ本文（${rules.maxLength}文字以内）",
-  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
-  "expectedImpressions": 期待されるインプレッション数（数値のみ）
-}
-
-重要:
-- 元のバズ要因を保ちながら、${targetPlatform}に最適な表現に変換
-- ${targetPlatform}ユーザーが好む言い回しを使用
-- そのまま投稿できる完成形で出力
-
-JSONのみを返してください。
-`;
+  ): RenderedPrompt {
+    return renderPrompt(
+      'optimization',
+      optimizationPromptVariables(
+        this.withOpeningHook(analysis),
+        targetPlatform,
+        mode,
+        this.getPlatformRules(targetPlatform),
+        this.voiceProfile && describeBrandVoice(this.voiceProfile)
+      ),
+      this.promptVersions.optimization
+    );
   }
 
   /**
@@ -404,34 +605,12 @@ JSONのみを返してください。
       trendingHashtagsUsed: number;
       followersGained: number;
     }
-  ): string {
-    return `
-あなたはSNSマーケティングの専門家です。
-
-以下のユーザー行動データを分析し、プラットフォームからの評価を予測してください。
-
-【プラットフォーム】
-${platform}
-
-【ユーザー行動データ】
-- 他者へのいいね数: ${behaviorData.likesGiven}
-- 他者へのコメント数: ${behaviorData.commentsGiven}
-- シェア/リポスト数: ${behaviorData.sharesGiven}
-- 今週の投稿数: ${behaviorData.postsThisWeek}
-- トレンドタグ使用数: ${behaviorData.trendingHashtagsUsed}
-- 獲得フォロワー数: ${behaviorData.followersGained}
-
-以下のJSON形式で回答してください:
-{
-  "aiInsight": "AIによる総合的な分析コメント（100-200文字）",
-  "strengths": ["強み1", "強み2", "強み3"],
-  "improvements": ["改善点1", "改善点2"],
-  "priorityAction": "最も効果的な次のアクション",
-  "estimatedGrowthPotential": 成長ポテンシャル（0-100の数値）
-}
-
-JSONのみを返してください。
-`;
+  ): RenderedPrompt {
+    return renderPrompt(
+      'score-analysis',
+      { platform, ...behaviorData },
+      this.promptVersions['score-analysis']
+    );
   }
 
   /**
@@ -440,20 +619,16 @@ JSONのみを返してください。
   async analyzeBuzzContent(
     url: string,
     content: string,
-    platform: Platform
+    platform: Platform,
+    stream?: StreamOptions
   ): Promise<BuzzAnalysis> {
     const prompt = this.buildAnalysisPrompt(url, content, platform);
-    const responseText = await this.sendMessage(prompt);
-
-    interface AnalysisData {
-      transcript: string;
-      keyPoints: string[];
-      structure: ContentStructure;
-      estimatedImpressions: number;
-      estimatedEngagement: number;
-    }
-
-    const data = this.parseJsonResponse<AnalysisData>(responseText);
+    const data = await this.requestStructured<AnalysisData>(
+      prompt.text,
+      'analyze',
+      ANALYSIS_SCHEMA,
+      stream
+    );
 
     return {
       id: this.generateId(),
@@ -464,39 +639,267 @@ JSONのみを返してください。
       transcript: data.transcript,
       keyPoints: data.keyPoints,
       structure: data.structure,
+      promptVersion: prompt.ref,
       analyzedAt: new Date(),
     };
   }
 
+  /**
+   * 最適化レスポンスを生成して検証する
+   *
+   * ルール（文字数・ハッシュタグ・禁止フレーズ）を守っていなければ、
+   * 違反内容を伝えて1回だけ書き直しを依頼する。ハッシュタグ数の超過は check で切り詰めて直す。
+   */
+  private async generateCompliant<T>(
+    promptText: string,
+    schema: Schema,
+    targetPlatform: Platform,
+    check: (data: T) => { data: T; compliance: ComplianceReport },
+    stream?: StreamOptions
+  ): Promise<{ data: T; compliance: ComplianceReport }> {
+    const generate = async (conversation: string | StructuredMessage[]) =>
+      check(await this.requestStructured<T>(conversation, 'optimize', schema, stream));
+
+    let result = await generate(promptText);
+
+    if (!result.compliance.compliant) {
+      try {
+        const retried = await generate([
+          { role: 'user', content: promptText },
+          { role: 'assistant', content: JSON.stringify(result.data) },
+          { role: 'user', content: buildTightenPrompt(result.compliance, targetPlatform) },
+        ]);
+        // 書き直しで違反が増えた場合は元の結果を使う
+        if (countErrors(retried.compliance) <= countErrors(result.compliance)) {
+          result = retried;
+        }
+      } catch (error) {
+        console.error('Compliance retry failed:', error);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * プラットフォーム別に最適化
+   *
+   * 生成したコンテンツがルール（文字数・ハッシュタグ・禁止フレーズ）を守っていなければ、
+   * 違反内容を伝えて1回だけ書き直しを依頼する。結果には検証結果（compliance）を含める。
    */
   async optimizeForPlatform(
     analysis: BuzzAnalysis,
     targetPlatform: Platform,
-    mode: PostMode = 'impression'
+    mode: PostMode = 'impression',
+    stream?: StreamOptions
   ): Promise<OptimizedContent> {
     const prompt = this.buildOptimizationPrompt(analysis, targetPlatform, mode);
-    const responseText = await this.sendMessage(prompt);
+    const rules = this.getPlatformRules(targetPlatform);
+
+    const { data, compliance } = await this.generateCompliant<OptimizationData>(
+      prompt.text,
+      OPTIMIZATION_SCHEMA,
+      targetPlatform,
+      (result) => {
+        const content = this.openWithHook(result.content);
+        const hashtags = result.hashtags.slice(0, rules.hashtagCount);
+        return {
+          data: { ...result, content, hashtags },
+          compliance: checkCompliance(
+            { content, hashtags },
+            targetPlatform,
+            rules,
+            this.voiceProfile?.bannedWords
+          ),
+        };
+      },
+      stream
+    );
+
+    return {
+      id: this.generateId(),
+      originalAnalysisId: analysis.id,
+      targetPlatform,
+      content: data.content,
+      hashtags: data.hashtags,
+      bestPostTime: calculateBestPostTime(targetPlatform),
+      expectedImpressions: data.expectedImpressions,
+      mode,
+      promptVersion: prompt.ref,
+      ...(this.voiceProfile && {
+        voiceMatchScore: scoreVoiceMatch(data.content, this.voiceProfile),
+      }),
+      compliance,
+      createdAt: new Date(),
+    };
+  }
 
-    interface OptimizationData {
-      content: string;
-      hashtags: string[];
-      expectedImpressions: number;
+  /**
+   * スレッド形式（複数の投稿）で最適化
+   *
+   * 1件目にフック、最後の投稿にCTAを置く。番号付けを含めて各投稿が文字数制限に
+   * 収まらなければ、optimizeForPlatform と同様に1回だけ書き直しを依頼する。
+   *
+   * @throws ClaudeAPIError スレッド形式に対応していないプラットフォームの場合
+   */
+  async optimizeThread(
+    analysis: BuzzAnalysis,
+    targetPlatform: Platform,
+    mode: PostMode = 'impression',
+    options: ThreadOptions = {},
+    stream?: StreamOptions
+  ): Promise<OptimizedContent> {
+    if (!supportsThread(targetPlatform)) {
+      throw new ClaudeAPIError(
+        `Thread format is not supported for ${targetPlatform}`,
+        'invalid_request',
+        400
+      );
     }
 
-    const data = this.parseJsonResponse<OptimizationData>(responseText);
-    const rules = PLATFORM_RULES[targetPlatform];
+    const numbering = options.numbering ?? true;
+    const rules = this.getPlatformRules(targetPlatform);
+    const segmentLength = rules.maxLength - (numbering ? numberingLength(MAX_THREAD_SEGMENTS) : 0);
+    const prompt = renderPrompt(
+      'thread-optimization',
+      threadPromptVariables(
+        this.withOpeningHook(analysis),
+        targetPlatform,
+        mode,
+        rules,
+        segmentLength,
+        this.voiceProfile && describeBrandVoice(this.voiceProfile)
+      ),
+      this.promptVersions['thread-optimization']
+    );
+    const finalize = (segments: string[]) =>
+      numbering ? numberSegments(segments) : segments.map((segment) => segment.trim());
+
+    const { data, compliance } = await this.generateCompliant<ThreadOptimizationData>(
+      prompt.text,
+      THREAD_OPTIMIZATION_SCHEMA,
+      targetPlatform,
+      (result) => {
+        const segments = result.segments.map((segment, index) =>
+          index === 0 ? this.openWithHook(segment) : segment
+        );
+        const hashtags = result.hashtags.slice(0, rules.hashtagCount);
+        return {
+          data: { ...result, segments, hashtags },
+          compliance: checkThreadCompliance(
+            { segments: finalize(segments), hashtags },
+            targetPlatform,
+            rules,
+            this.voiceProfile?.bannedWords
+          ),
+        };
+      },
+      stream
+    );
+
+    const segments = finalize(data.segments);
+    const content = joinSegments(segments);
 
     return {
       id: this.generateId(),
       originalAnalysisId: analysis.id,
       targetPlatform,
-      content: data.content,
-      hashtags: data.hashtags.slice(0, rules.hashtagCount),
-      bestPostTime: this.calculateBestPostTime(targetPlatform),
+      content,
+      segments,
+      hashtags: data.hashtags,
+      bestPostTime: calculateBestPostTime(targetPlatform),
       expectedImpressions: data.expectedImpressions,
       mode,
+      promptVersion: prompt.ref,
+      ...(this.voiceProfile && {
+        voiceMatchScore: scoreVoiceMatch(content, this.voiceProfile),
+      }),
+      compliance,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Instagram のカルーセル（スライド構成）・リール（台本）を生成
+   *
+   * コンテンツ構造のフックを最初、CTAを最後に置いた構成とキャプションを作る。
+   * キャプションは optimizeForPlatform と同様にルールを検証し、1回だけ書き直しを依頼する。
+   *
+   * @throws ClaudeAPIError Instagram 以外のプラットフォームの場合
+   */
+  async optimizeVisualPlan(
+    analysis: BuzzAnalysis,
+    targetPlatform: Platform,
+    format: InstagramVisualFormat,
+    mode: PostMode = 'impression',
+    stream?: StreamOptions
+  ): Promise<OptimizedContent> {
+    if (!supportsVisualPlan(targetPlatform)) {
+      throw new ClaudeAPIError(
+        `${format} format is only supported for instagram`,
+        'invalid_request',
+        400
+      );
+    }
+
+    const rules = this.getPlatformRules(targetPlatform);
+    const templateId = format === 'carousel' ? 'carousel-outline' : 'reels-script';
+    const prompt = renderPrompt(
+      templateId,
+      visualPlanPromptVariables(
+        format,
+        this.withOpeningHook(analysis),
+        mode,
+        rules,
+        this.voiceProfile && describeBrandVoice(this.voiceProfile)
+      ),
+      this.promptVersions[templateId]
+    );
+
+    const { data, compliance } = await this.generateCompliant<VisualPlanData>(
+      prompt.text,
+      format === 'carousel' ? CAROUSEL_OUTLINE_SCHEMA : REELS_SCRIPT_SCHEMA,
+      targetPlatform,
+      (result) => {
+        const caption = this.openWithHook(result.caption);
+        const hashtags = result.hashtags.slice(0, rules.hashtagCount);
+        return {
+          data: { ...result, caption, hashtags },
+          compliance: checkCompliance(
+            { content: caption, hashtags },
+            targetPlatform,
+            rules,
+            this.voiceProfile?.bannedWords
+          ),
+        };
+      },
+      stream
+    );
+
+    const visualPlan: InstagramVisualPlan =
+      format === 'carousel'
+        ? { format, slides: data.slides ?? [] }
+        : {
+            format,
+            durationSeconds: data.durationSeconds ?? MAX_REELS_SECONDS,
+            beats: normalizeReelsBeats(data.beats ?? [], data.durationSeconds ?? MAX_REELS_SECONDS),
+          };
+
+    return {
+      id: this.generateId(),
+      originalAnalysisId: analysis.id,
+      targetPlatform,
+      content: data.caption,
+      hashtags: data.hashtags,
+      visualPlan,
+      bestPostTime: calculateBestPostTime(targetPlatform),
+      expectedImpressions: data.expectedImpressions,
+      mode,
+      promptVersion: prompt.ref,
+      ...(this.voiceProfile && {
+        voiceMatchScore: scoreVoiceMatch(data.caption, this.voiceProfile),
+      }),
+      compliance,
       createdAt: new Date(),
     };
   }
@@ -522,67 +925,14 @@ JSONのみを返してください。
     estimatedGrowthPotential: number;
   }> {
     const prompt = this.buildScoreAnalysisPrompt(platform, behaviorData);
-    const responseText = await this.sendMessage(prompt);
-
-    interface ScoreAnalysisData {
-      aiInsight: string;
-      strengths: string[];
-      improvements: string[];
-      priorityAction: string;
-      estimatedGrowthPotential: number;
-    }
-
-    return this.parseJsonResponse<ScoreAnalysisData>(responseText);
-  }
-
-  /**
-   * 最適な投稿時間を計算
-   */
-  private calculateBestPostTime(platform: Platform): Date {
-    const times: Record<Platform, { hour: number; minute: number }[]> = {
-      threads: [
-        { hour: 7, minute: 0 },
-        { hour: 12, minute: 0 },
-        { hour: 20, minute: 0 },
-      ],
-      instagram: [
-        { hour: 6, minute: 0 },
-        { hour: 11, minute: 0 },
-        { hour: 19, minute: 0 },
-      ],
-      twitter: [
-        { hour: 8, minute: 0 },
-        { hour: 12, minute: 30 },
-        { hour: 17, minute: 0 },
-      ],
-    };
-
-    const platformTimes = times[platform];
-    const now = new Date();
-
-    // 今日の残りの最適時間を探す
-    for (const time of platformTimes) {
-      const candidate = new Date(now);
-      candidate.setHours(time.hour, time.minute, 0, 0);
-
-      if (candidate > now) {
-        return candidate;
-      }
-    }
-
-    // 今日の最適時間が全て過ぎていたら、明日の最初の最適時間
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(platformTimes[0].hour, platformTimes[0].minute, 0, 0);
-
-    return tomorrow;
+    return this.requestStructured<ScoreAnalysisData>(prompt.text, 'score', SCORE_ANALYSIS_SCHEMA);
   }
 
   /**
-   * プラットフォームルールを取得
+   * プラットフォームルールを取得（ユーザーの上書きを適用済み）
    */
   getPlatformRules(platform: Platform): PlatformRules {
-    return PLATFORM_RULES[platform];
+    return getPlatformRules(platform, this.ruleOverrides);
   }
 }
 
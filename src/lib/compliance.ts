@@ -0,0 +1,273 @@
+/**
+ * Content Compliance
+ *
+ * 生成したコンテンツがプラットフォームのルールを守っているかを決定的に検証する
+ * - 文字数は各プラットフォームの数え方で数える（スレッド形式は投稿ごと）
+ *   - X (Twitter): 全角文字・絵文字は2、URLは長さに関係なく23（twitter-text の重み付け）
+ *   - Threads / Instagram: 見た目の1文字（絵文字の結合も含めて1）
+ * - ハッシュタグの数と置き場所（本文に含めず hashtags にまとめる）
+ * - 禁止フレーズ（ブランドボイスの禁止ワードなど）
+ *
+ * サーバー専用の依存を持たないため、クライアントコンポーネントからも import できる。
+ */
+
+import type { PlatformRules } from './platformRules';
+import type { ComplianceReport, ComplianceViolation, Platform } from '../types/index';
+
+/**
+ * 検証するコンテンツ
+ */
+export interface ComplianceTarget {
+  content: string;
+  hashtags: string[];
+}
+
+/**
+ * 検証するスレッド形式のコンテンツ
+ */
+export interface ThreadComplianceTarget {
+  segments: string[];
+  hashtags: string[];
+}
+
+/**
+ * X (Twitter) で URL として数える長さ
+ */
+const TWITTER_URL_LENGTH = 23;
+
+/**
+ * X (Twitter) で重み1として数えるコードポイントの範囲（それ以外は2）
+ */
+const TWITTER_LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&/])[#＃]([\p{L}\p{N}_]+)/gu;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+/**
+ * 見た目の1文字単位に分割
+ */
+function graphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('ja', { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), (segment) => segment.segment);
+  }
+  return Array.from(text);
+}
+
+/**
+ * X (Twitter) での1文字の重み
+ */
+function twitterWeight(grapheme: string): number {
+  if (EMOJI_PATTERN.test(grapheme)) return 2;
+
+  return Array.from(grapheme).reduce((weight, char) => {
+    const codePoint = char.codePointAt(0) ?? 0;
+    const light = TWITTER_LIGHT_RANGES.some(
+      ([start, end]) => codePoint >= start && codePoint <= end
+    );
+    return weight + (light ? 1 : 2);
+  }, 0);
+}
+
+/**
+ * プラットフォームの数え方で文字数を数える
+ */
+export function countPlatformCharacters(text: string, platform: Platform): number {
+  if (platform !== 'twitter') {
+    return graphemes(text).length;
+  }
+
+  const urls = text.match(URL_PATTERN) ?? [];
+  const withoutUrls = text.replace(URL_PATTERN, '');
+
+  return (
+    urls.length * TWITTER_URL_LENGTH +
+    graphemes(withoutUrls).reduce((sum, grapheme) => sum + twitterWeight(grapheme), 0)
+  );
+}
+
+/**
+ * 本文中のハッシュタグ
+ */
+export function findHashtagsInContent(content: string): string[] {
+  return Array.from(content.matchAll(HASHTAG_PATTERN), (match) => match[1]);
+}
+
+/**
+ * 文字数超過の違反
+ */
+function tooLong(characterCount: number, maxLength: number, label: string): ComplianceViolation {
+  return {
+    code: 'too_long',
+    severity: 'error',
+    message: `${label}が${characterCount}文字で、上限の${maxLength}文字を${
+      characterCount - maxLength
+    }文字超えています`,
+  };
+}
+
+/**
+ * 文字数以外の違反（ハッシュタグの数と置き場所・禁止フレーズ）
+ *
+ * ハッシュタグは最後の投稿に付ける前提で、収まるかを確認する
+ */
+function contentViolations(
+  texts: string[],
+  hashtags: string[],
+  platform: Platform,
+  rules: Pick<PlatformRules, 'maxLength' | 'hashtagCount'>,
+  bannedPhrases: string[]
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const lastText = texts[texts.length - 1] ?? '';
+
+  if (hashtags.length > rules.hashtagCount) {
+    violations.push({
+      code: 'too_many_hashtags',
+      severity: 'error',
+      message: `ハッシュタグが${hashtags.length}個あります（上限${rules.hashtagCount}個）`,
+    });
+  }
+
+  const inlineTags = texts.flatMap(findHashtagsInContent);
+  if (inlineTags.length > 0) {
+    violations.push({
+      code: 'hashtag_in_content',
+      severity: 'error',
+      message: `本文にハッシュタグが含まれています（${inlineTags
+        .map((tag) => `#${tag}`)
+        .join(' ')}）。ハッシュタグは hashtags にまとめてください`,
+    });
+  }
+
+  const searchable = [...texts, ...hashtags].join('\n').toLowerCase();
+  const banned = bannedPhrases.filter(
+    (phrase) => phrase.trim().length > 0 && searchable.includes(phrase.trim().toLowerCase())
+  );
+  if (banned.length > 0) {
+    violations.push({
+      code: 'banned_phrase',
+      severity: 'error',
+      message: `禁止フレーズが含まれています（${banned.join(', ')}）`,
+    });
+  }
+
+  if (countPlatformCharacters(lastText, platform) <= rules.maxLength && hashtags.length > 0) {
+    const tagLine = hashtags.map((tag) => `#${tag}`).join(' ');
+    const withTags = countPlatformCharacters(`${lastText}\n\n${tagLine}`, platform);
+    if (withTags > rules.maxLength) {
+      violations.push({
+        code: 'hashtags_do_not_fit',
+        severity: 'warning',
+        message: `ハッシュタグを付けると${withTags}文字になるため、投稿時に一部のハッシュタグが省かれます`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * 検証結果にまとめる
+ */
+function toReport(
+  characterCount: number,
+  maxLength: number,
+  violations: ComplianceViolation[]
+): ComplianceReport {
+  return {
+    compliant: violations.every((violation) => violation.severity !== 'error'),
+    characterCount,
+    maxLength,
+    violations,
+  };
+}
+
+/**
+ * コンテンツを検証
+ *
+ * @param rules - 適用するルール（ユーザーの上書きを適用済みのもの）
+ * @param bannedPhrases - 使ってはいけないフレーズ
+ */
+export function checkCompliance(
+  target: ComplianceTarget,
+  platform: Platform,
+  rules: Pick<PlatformRules, 'maxLength' | 'hashtagCount'>,
+  bannedPhrases: string[] = []
+): ComplianceReport {
+  const content = target.content.trim();
+  const characterCount = countPlatformCharacters(content, platform);
+  const violations: ComplianceViolation[] = [];
+
+  if (characterCount > rules.maxLength) {
+    violations.push(tooLong(characterCount, rules.maxLength, '本文'));
+  }
+
+  violations.push(
+    ...contentViolations([content], target.hashtags, platform, rules, bannedPhrases)
+  );
+
+  return toReport(characterCount, rules.maxLength, violations);
+}
+
+/**
+ * スレッド形式のコンテンツを検証
+ *
+ * 各投稿（番号付けを含む）が文字数制限に収まるかを確認する
+ */
+export function checkThreadCompliance(
+  target: ThreadComplianceTarget,
+  platform: Platform,
+  rules: Pick<PlatformRules, 'maxLength' | 'hashtagCount'>,
+  bannedPhrases: string[] = []
+): ComplianceReport {
+  const segments = target.segments.map((segment) => segment.trim());
+  const counts = segments.map((segment) => countPlatformCharacters(segment, platform));
+  const violations: ComplianceViolation[] = [];
+
+  counts.forEach((count, index) => {
+    if (count > rules.maxLength) {
+      violations.push(tooLong(count, rules.maxLength, `${index + 1}件目の投稿`));
+    }
+  });
+
+  violations.push(
+    ...contentViolations(segments, target.hashtags, platform, rules, bannedPhrases)
+  );
+
+  return {
+    ...toReport(Math.max(0, ...counts), rules.maxLength, violations),
+    segmentCharacterCounts: counts,
+  };
+}
+
+/**
+ * 違反を伝えて修正を依頼するプロンプト
+ */
+export function buildTightenPrompt(report: ComplianceReport, platform: Platform): string {
+  const errors = report.violations.filter((violation) => violation.severity === 'error');
+  const countingNote =
+    platform === 'twitter' ? '（全角文字・絵文字は2文字、URLは23文字として数える）' : '';
+  const lengthRule = report.segmentCharacterCounts
+    ? `各投稿は${report.maxLength}文字以内`
+    : `本文は${report.maxLength}文字以内`;
+
+  return `
+先ほどのコンテンツはプラットフォームのルールを満たしていませんでした。
+
+【問題点】
+${errors.map((violation) => `- ${violation.message}`).join('\n')}
+
+元のバズ要因と主張は保ったまま、問題点をすべて修正してください。
+- ${lengthRule}${countingNote}
+- ハッシュタグは本文に入れず hashtags にまとめる
+
+最初に指定した形式のJSONのみを返してください。説明は不要です。
+`;
+}
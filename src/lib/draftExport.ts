@@ -0,0 +1,136 @@
+/**
+ * Draft Export
+ *
+ * 下書きをデザイナー・編集者に渡すための Markdown / JSON に変換する
+ * - キャプション（本文）とハッシュタグ
+ * - スレッドの各投稿、カルーセルのスライド構成、リールの台本
+ */
+
+import { VISUAL_FORMAT_LABELS, formatTimecode } from './visualPlan';
+import type { InstagramVisualPlan, OptimizedContent } from '../types/index';
+
+/**
+ * 書き出し形式
+ */
+export type DraftExportFormat = 'markdown' | 'json';
+
+/**
+ * 書き出したファイル
+ */
+export interface DraftExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * 書き出し形式か
+ */
+export function isDraftExportFormat(value: unknown): value is DraftExportFormat {
+  return value === 'markdown' || value === 'json';
+}
+
+/**
+ * ビジュアル構成を Markdown の行に変換
+ */
+function visualPlanLines(plan: InstagramVisualPlan): string[] {
+  if (plan.format === 'carousel') {
+    return plan.slides.flatMap((slide, index) => [
+      `### スライド ${index + 1}: ${slide.title}`,
+      '',
+      slide.body,
+      '',
+      `- ビジュアル: ${slide.visual}`,
+      '',
+    ]);
+  }
+
+  return [
+    `全体の長さ: ${formatTimecode(plan.durationSeconds)}`,
+    '',
+    ...plan.beats.flatMap((beat) => [
+      `### ${formatTimecode(beat.start)} - ${formatTimecode(beat.end)}`,
+      '',
+      `- 画面テキスト: ${beat.onScreenText}`,
+      `- ナレーション: ${beat.narration}`,
+      `- 撮影・編集: ${beat.visual}`,
+      '',
+    ]),
+  ];
+}
+
+/**
+ * 下書きを Markdown に変換
+ */
+export function draftToMarkdown(draft: OptimizedContent): string {
+  const lines: string[] = [
+    `# ${draft.targetPlatform} 下書き`,
+    '',
+    `- モード: ${draft.mode}`,
+    `- 推定インプレッション: ${draft.expectedImpressions}`,
+    ...(draft.promptVersion ? [`- プロンプト: ${draft.promptVersion}`] : []),
+    '',
+  ];
+
+  if (draft.visualPlan) {
+    lines.push(`## ${VISUAL_FORMAT_LABELS[draft.visualPlan.format]}`, '');
+    lines.push(...visualPlanLines(draft.visualPlan));
+  }
+
+  if (draft.segments) {
+    lines.push('## スレッド', '');
+    draft.segments.forEach((segment, index) => {
+      lines.push(`### ${index + 1}`, '', segment, '');
+    });
+  } else {
+    lines.push(draft.visualPlan ? '## キャプション' : '## 本文', '', draft.content, '');
+  }
+
+  if (draft.hashtags.length > 0) {
+    lines.push('## ハッシュタグ', '', draft.hashtags.map((tag) => `#${tag}`).join(' '), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 下書きを JSON に変換（検証結果など生成時だけの情報は含めない）
+ */
+export function draftToJson(draft: OptimizedContent): string {
+  return JSON.stringify(
+    {
+      id: draft.id,
+      platform: draft.targetPlatform,
+      mode: draft.mode,
+      content: draft.content,
+      ...(draft.segments && { segments: draft.segments }),
+      hashtags: draft.hashtags,
+      ...(draft.visualPlan && { visualPlan: draft.visualPlan }),
+      expectedImpressions: draft.expectedImpressions,
+      createdAt: draft.createdAt,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * 下書きを指定した形式のファイルに変換
+ */
+export function exportDraft(draft: OptimizedContent, format: DraftExportFormat): DraftExport {
+  const base = `draft-${draft.id}`;
+
+  if (format === 'markdown') {
+    return {
+      body: draftToMarkdown(draft),
+      contentType: 'text/markdown; charset=utf-8',
+      filename: `${base}.md`,
+    };
+  }
+
+  return {
+    body: draftToJson(draft),
+    contentType: 'application/json; charset=utf-8',
+    filename: `${base}.json`,
+  };
+}
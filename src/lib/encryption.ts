@@ -0,0 +1,104 @@
+/**
+ * Encryption Utilities
+ *
+ * ユーザーのAPIキーなどの秘密情報をDBに保存するための暗号化ヘルパー
+ * - AES-256-GCM（改ざん検知あり）
+ * - 鍵暗号化キー（KEK）は環境変数 API_KEY_ENCRYPTION_KEY（32バイトをbase64）から取得
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+
+/**
+ * 暗号文のフォーマットバージョン
+ */
+const FORMAT_VERSION = 'v1';
+
+/**
+ * 暗号化の設定・処理エラー
+ */
+export class EncryptionError extends Error {
+  public readonly code: 'missing_key' | 'invalid_key' | 'invalid_payload';
+
+  constructor(message: string, code: EncryptionError['code']) {
+    super(message);
+    this.name = 'EncryptionError';
+    this.code = code;
+  }
+}
+
+/**
+ * 環境変数から鍵暗号化キーを取得
+ *
+ * @throws EncryptionError 未設定・32バイトでない場合
+ */
+export function getKeyEncryptionKey(): Buffer {
+  const encoded = process.env.API_KEY_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new EncryptionError(
+      'API_KEY_ENCRYPTION_KEY is not configured',
+      'missing_key'
+    );
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new EncryptionError(
+      `API_KEY_ENCRYPTION_KEY must be ${KEY_BYTES} bytes encoded in base64`,
+      'invalid_key'
+    );
+  }
+
+  return key;
+}
+
+/**
+ * 秘密情報を暗号化
+ *
+ * @returns "v1:<iv>:<authTag>:<ciphertext>"（各要素はbase64）
+ */
+export function encryptSecret(plaintext: string, key: Buffer = getKeyEncryptionKey()): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * encryptSecret で暗号化した値を復号
+ *
+ * @throws EncryptionError 形式が不正・鍵が異なる・改ざんされている場合
+ */
+export function decryptSecret(payload: string, key: Buffer = getKeyEncryptionKey()): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new EncryptionError('Unsupported encrypted payload format', 'invalid_payload');
+  }
+
+  try {
+    // タグ長を固定しないと短く切り詰めたタグでも検証が通ってしまう
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'), {
+      authTagLength: AUTH_TAG_BYTES,
+    });
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new EncryptionError(
+      'Failed to decrypt payload (wrong key or tampered data)',
+      'invalid_payload'
+    );
+  }
+}
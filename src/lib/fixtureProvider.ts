@@ -0,0 +1,151 @@
+/**
+ * Fixture LLM Provider
+ *
+ * 記録済みの応答を再生する決定的な LLM プロバイダー
+ * - 同じリクエストには常に同じ応答を返す（APIキー・ネットワーク不要）
+ * - 応答は機能（operation）と、プロンプトに含まれる文字列（match）で選ぶ
+ * - LLM_FIXTURES_PATH に JSON（LlmFixture[]）を指定すると既定のフィクスチャの代わりに使う
+ * - RecordingProvider で実際の応答を記録し、フィクスチャとして保存できる
+ */
+
+import { readFileSync } from 'fs';
+import type { ClaudeOperation } from './claude';
+import { DEFAULT_LLM_FIXTURES } from './llmFixtures';
+import type { LlmProvider, LlmRequest, LlmResponse } from './llmProvider';
+
+/**
+ * 記録済みの応答
+ */
+export interface LlmFixture {
+  operation: ClaudeOperation;
+  match?: string; // プロンプトに含まれる文字列（省略時はその機能の既定の応答）
+  response: string | object; // object の場合は JSON として返す
+}
+
+/**
+ * ストリーミング時に1回で送る文字数
+ */
+const STREAM_CHUNK_SIZE = 32;
+
+/**
+ * フィクスチャのモデル名（利用記録・コスト計算用）
+ */
+export const FIXTURE_MODEL = 'fixture';
+
+/**
+ * 一致するフィクスチャがない場合のエラー
+ */
+export class LlmFixtureNotFoundError extends Error {
+  constructor(operation: ClaudeOperation) {
+    super(`No LLM fixture is recorded for operation "${operation}"`);
+    this.name = 'LlmFixtureNotFoundError';
+  }
+}
+
+/**
+ * 最初のユーザーメッセージ（修正依頼の往復でも元のプロンプトで照合する）
+ */
+function promptOf(request: LlmRequest): string {
+  return request.messages.find((message) => message.role === 'user')?.content ?? '';
+}
+
+/**
+ * トークン数の概算（使用量の記録用。4文字 = 1トークン）
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * 記録済みの応答を再生するプロバイダー
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture';
+  private readonly fixtures: LlmFixture[];
+
+  constructor(fixtures: LlmFixture[]) {
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * リクエストに対応するフィクスチャを選ぶ（match が一致するもの > 既定の応答）
+   */
+  private findFixture(request: LlmRequest): LlmFixture {
+    const prompt = promptOf(request);
+    const candidates = this.fixtures.filter((fixture) => fixture.operation === request.operation);
+    const fixture =
+      candidates.find((candidate) => candidate.match && prompt.includes(candidate.match)) ??
+      candidates.find((candidate) => !candidate.match);
+
+    if (!fixture) {
+      throw new LlmFixtureNotFoundError(request.operation);
+    }
+    return fixture;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const fixture = this.findFixture(request);
+    const text =
+      typeof fixture.response === 'string'
+        ? fixture.response
+        : JSON.stringify(fixture.response, null, 2);
+
+    if (request.onText) {
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) break;
+        request.onText(text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+
+    return {
+      text,
+      model: FIXTURE_MODEL,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map((message) => message.content).join('')),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+}
+
+/**
+ * 別のプロバイダーの応答をフィクスチャとして記録するプロバイダー
+ *
+ * recorded を JSON で保存し、LLM_FIXTURES_PATH に指定すると再生できる
+ */
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+  readonly recorded: LlmFixture[] = [];
+  private readonly inner: LlmProvider;
+
+  constructor(inner: LlmProvider) {
+    this.inner = inner;
+    this.name = `recording:${inner.name}`;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.inner.complete(request);
+    this.recorded.push({
+      operation: request.operation,
+      match: promptOf(request),
+      response: response.text,
+    });
+    return response;
+  }
+}
+
+/**
+ * LLM_FIXTURES_PATH のフィクスチャ、未設定の場合は既定のフィクスチャで作成
+ */
+export function createDefaultFixtureProvider(): FixtureProvider {
+  const path = process.env.LLM_FIXTURES_PATH;
+  if (!path) {
+    return new FixtureProvider(DEFAULT_LLM_FIXTURES);
+  }
+
+  const fixtures = JSON.parse(readFileSync(path, 'utf8')) as LlmFixture[];
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`LLM_FIXTURES_PATH must contain a JSON array of fixtures: ${path}`);
+  }
+  return new FixtureProvider(fixtures);
+}
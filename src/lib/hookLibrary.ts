@@ -0,0 +1,165 @@
+/**
+ * Hook Library
+ *
+ * 分析したバズ投稿のフックを再利用するためのヘルパー
+ * - フックの正規化と類似度（文字バイグラムの Dice 係数。日本語でも分かち書き不要）
+ * - ライブラリに登録済みの類似フックの検索（重複排除）
+ * - 最適化結果の冒頭に選んだフックを置く
+ */
+
+import type { Platform } from '../types/index';
+
+/**
+ * 同じフックとみなす類似度
+ */
+export const HOOK_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * 生成結果の1行目を選んだフックの言い換えとみなす類似度
+ */
+export const OPENING_HOOK_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * 1つのフックに付けられるタグの上限
+ */
+export const MAX_HOOK_TAGS = 10;
+
+/**
+ * タグの最大文字数
+ */
+export const MAX_HOOK_TAG_LENGTH = 30;
+
+/**
+ * フックの並べ替え
+ * - engagement: エンゲージメント率の高い順（同じならインプレッションの多い順）
+ * - impressions: インプレッションの多い順
+ * - usage: 最適化に使った回数の多い順
+ * - recent: 登録の新しい順
+ */
+export type HookSort = 'engagement' | 'impressions' | 'usage' | 'recent';
+
+/**
+ * 指定できる並べ替え
+ */
+export const HOOK_SORTS: HookSort[] = ['engagement', 'impressions', 'usage', 'recent'];
+
+/**
+ * フックライブラリの1件
+ */
+export interface HookLibraryEntry {
+  id: string;
+  text: string;
+  platform: Platform;
+  emotionalTriggers: string[];
+  tags: string[];
+  impressions: number; // 元の投稿のうち最も反応が多かったもの
+  engagement: number;
+  sourceCount: number; // このフック（類似を含む）が見つかった分析の数
+  sourceAnalysisId?: string;
+  usageCount: number; // 最適化の冒頭に使った回数
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 比較用にフックを正規化（全角半角・大文字小文字・空白・記号・絵文字の違いを無視）
+ */
+export function normalizeHookText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+/**
+ * 文字バイグラムの出現回数
+ */
+function bigrams(text: string): Map<string, number> {
+  const chars = Array.from(text);
+  const grams = new Map<string, number>();
+  const add = (gram: string) => grams.set(gram, (grams.get(gram) ?? 0) + 1);
+
+  if (chars.length === 1) {
+    add(chars[0]);
+  }
+  for (let i = 0; i < chars.length - 1; i++) {
+    add(chars[i] + chars[i + 1]);
+  }
+
+  return grams;
+}
+
+/**
+ * 2つのフックの類似度（0〜1）
+ */
+export function hookSimilarity(a: string, b: string): number {
+  const left = normalizeHookText(a);
+  const right = normalizeHookText(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+
+  let shared = 0;
+  let total = 0;
+  leftGrams.forEach((count, gram) => {
+    shared += Math.min(count, rightGrams.get(gram) ?? 0);
+    total += count;
+  });
+  rightGrams.forEach((count) => {
+    total += count;
+  });
+
+  return (2 * shared) / total;
+}
+
+/**
+ * 登録済みのフックから最も似ているものを探す（HOOK_SIMILARITY_THRESHOLD 未満なら null）
+ */
+export function findSimilarHook<T extends { text: string }>(text: string, hooks: T[]): T | null {
+  let best: T | null = null;
+  let bestScore = HOOK_SIMILARITY_THRESHOLD;
+
+  for (const hook of hooks) {
+    const score = hookSimilarity(text, hook.text);
+    if (score >= bestScore) {
+      best = hook;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * タグを正規化（先頭の # を外し、空・重複を除く）
+ */
+export function normalizeHookTags(tags: string[]): string[] {
+  return Array.from(
+    new Set(tags.map((tag) => tag.replace(/^#/, '').trim()).filter((tag) => tag.length > 0))
+  );
+}
+
+/**
+ * 本文の冒頭を選んだフックにする
+ *
+ * すでにフックで始まっていればそのまま、1行目がフックの言い換えなら置き換え、
+ * それ以外はフックを1行目として追加する。
+ */
+export function applyOpeningHook(content: string, hook: string): string {
+  const opening = hook.trim();
+  const body = content.trimStart();
+  if (opening.length === 0) return content;
+
+  if (normalizeHookText(body).startsWith(normalizeHookText(opening))) {
+    return body;
+  }
+
+  const [firstLine, ...rest] = body.split('\n');
+  if (hookSimilarity(firstLine, opening) >= OPENING_HOOK_SIMILARITY_THRESHOLD) {
+    return [opening, ...rest].join('\n');
+  }
+
+  return `${opening}\n${body}`;
+}
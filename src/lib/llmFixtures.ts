@@ -0,0 +1,197 @@
+/**
+ * Default LLM Fixtures
+ *
+ * LLM_PROVIDER=fixture で使う既定の応答
+ * 各機能のスキーマ（ANALYSIS_SCHEMA など）を満たす、記録済みの代表的な応答
+ */
+
+import type { LlmFixture } from './fixtureProvider';
+
+export const DEFAULT_LLM_FIXTURES: LlmFixture[] = [
+  {
+    operation: 'analyze',
+    response: {
+      transcript:
+        '1年前は貯金ゼロ。毎朝30分だけ副業に使うと決めて続けた結果、今は本業と同じくらいの収入になった。大事なのは才能ではなく、毎日同じ時間に手を動かすこと。',
+      keyPoints: [
+        'ビフォー・アフターの落差で興味を引いている',
+        '「毎朝30分」という真似しやすい具体的な行動',
+        '才能ではなく習慣だと伝えて読者の自己効力感を高めている',
+      ],
+      structure: {
+        hook: '1年前は貯金ゼロだった',
+        mainPoints: ['毎朝30分だけ副業に使う', '1年続けて本業と同じ収入に', '才能より習慣'],
+        cta: 'あなたが毎朝使える30分は何に使いますか？',
+        emotionalTriggers: ['共感', '希望', '驚き'],
+      },
+      estimatedImpressions: 48000,
+      estimatedEngagement: 6.2,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'threads用に',
+    response: {
+      content:
+        '1年前、貯金ゼロでした。\n\nやったのは「毎朝30分だけ副業に使う」こと。それだけ。\n\n気づいたら本業と同じくらいの収入に。才能じゃなくて、同じ時間に手を動かし続けただけなんです。\n\nあなたの朝の30分、何に使ってますか？',
+      hashtags: ['副業', '朝活', '習慣化'],
+      expectedImpressions: 32000,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'instagram用に',
+    response: {
+      content:
+        '貯金ゼロだった1年前の私へ。\n\n📌 毎朝30分だけ副業に使う\n📌 1日も休まず続ける\n📌 才能より「同じ時間に手を動かす」習慣\n\n1年後、本業と同じくらいの収入になりました。\n\n保存して、明日の朝から試してみてください☀️',
+      hashtags: ['副業', '朝活', '習慣化', '貯金', '自己投資', '副業初心者'],
+      expectedImpressions: 41000,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'twitter用に',
+    response: {
+      content:
+        '貯金ゼロから1年で副業収入が本業並みになった。\n\nやったことは「毎朝30分だけ副業」のみ。\n\n才能より、同じ時間に手を動かす習慣。',
+      hashtags: ['副業', '朝活'],
+      expectedImpressions: 27000,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'スレッド（複数の投稿をつなげた形式）',
+    response: {
+      segments: [
+        '1年前、貯金ゼロだった私が副業で本業並みに稼げるようになった話。',
+        'やったのは「毎朝30分だけ副業に使う」こと。それを1日も休まず続けただけ。',
+        '才能じゃなくて、同じ時間に手を動かす習慣。あなたの朝の30分、何に使ってますか？',
+      ],
+      hashtags: ['副業', '朝活'],
+      expectedImpressions: 30000,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'カルーセル投稿（複数枚のスライド）',
+    response: {
+      slides: [
+        {
+          title: '貯金ゼロから1年',
+          body: '副業収入が本業並みになった、たった1つの習慣',
+          visual: '朝日が差し込むデスクの写真に太字の白文字',
+        },
+        {
+          title: '毎朝30分だけ',
+          body: '出勤前の30分を副業に使うと決めた',
+          visual: '時計のアイコンと「6:00-6:30」の大きな数字',
+        },
+        {
+          title: '1日も休まない',
+          body: '短くても毎日続けることで手が止まらなくなる',
+          visual: 'カレンダーにチェックが並ぶイラスト',
+        },
+        {
+          title: '才能より習慣',
+          body: '同じ時間に手を動かし続けることが一番の近道',
+          visual: 'ビフォー・アフターの収入グラフ',
+        },
+        {
+          title: '明日の朝から',
+          body: '保存して、明日の30分を決めておこう',
+          visual: '保存ボタンを指す矢印とブランドカラーの背景',
+        },
+      ],
+      caption:
+        '貯金ゼロだった1年前の私へ。\n\n毎朝30分の副業を1年続けたら、本業と同じくらいの収入になりました。\n\nスワイプして、やったことを全部見てください👉',
+      hashtags: ['副業', '朝活', '習慣化', '副業初心者'],
+      expectedImpressions: 45000,
+    },
+  },
+  {
+    operation: 'optimize',
+    match: 'リール動画の台本',
+    response: {
+      durationSeconds: 30,
+      beats: [
+        {
+          start: 0,
+          end: 3,
+          onScreenText: '貯金ゼロから1年',
+          narration: '1年前、貯金ゼロでした。',
+          visual: '顔のアップから通帳を見せる',
+        },
+        {
+          start: 3,
+          end: 12,
+          onScreenText: '毎朝30分だけ副業',
+          narration: 'やったのは、毎朝30分だけ副業に使うこと。',
+          visual: '早朝のデスクでPC作業するタイムラプス',
+        },
+        {
+          start: 12,
+          end: 22,
+          onScreenText: '本業と同じ収入に',
+          narration: '1年続けたら、本業と同じくらいの収入になりました。',
+          visual: '収入グラフのアニメーション',
+        },
+        {
+          start: 22,
+          end: 30,
+          onScreenText: '保存して明日から',
+          narration: '才能じゃなくて習慣です。保存して、明日の朝から試してみて。',
+          visual: 'カメラ目線で語りかけ、保存ボタンを指す',
+        },
+      ],
+      caption: '毎朝30分の副業を1年続けた結果。\n\n保存して、明日の朝から試してみてください☀️',
+      hashtags: ['副業', '朝活', '習慣化', 'リール'],
+      expectedImpressions: 52000,
+    },
+  },
+  {
+    operation: 'score',
+    response: {
+      aiInsight:
+        'いいねやコメントで他者と交流できており、コミュニティからの評価は安定しています。投稿頻度にばらつきがあるため、一貫性を高めるとアルゴリズムからの評価がさらに上がります。',
+      strengths: ['他者への積極的なコメント', 'フォロワーの着実な増加'],
+      improvements: ['投稿頻度を週5回程度に安定させる', 'トレンドハッシュタグを週2回以上使う'],
+      priorityAction: '毎日同じ時間帯に1投稿する習慣を作る',
+      estimatedGrowthPotential: 72,
+    },
+  },
+  {
+    operation: 'trends',
+    response: [
+      {
+        name: '朝活ルーティン',
+        category: 'lifestyle',
+        volume: 18500,
+        growthRate: 1.4,
+        sentiment: 'positive',
+        relatedHashtags: ['朝活', 'モーニングルーティン'],
+        peakHour: 7,
+        recommendationScore: 86,
+      },
+      {
+        name: '生成AIの仕事活用',
+        category: 'technology',
+        volume: 26000,
+        growthRate: 1.7,
+        sentiment: 'mixed',
+        relatedHashtags: ['生成AI', '業務効率化'],
+        peakHour: 12,
+        recommendationScore: 80,
+      },
+      {
+        name: '新NISAの始め方',
+        category: 'business',
+        volume: 15200,
+        growthRate: 1.1,
+        sentiment: 'neutral',
+        relatedHashtags: ['新NISA', '資産形成'],
+        peakHour: 21,
+        recommendationScore: 68,
+      },
+    ],
+  },
+];
@@ -0,0 +1,125 @@
+/**
+ * LLM Provider
+ *
+ * ClaudeClient / ContentOptimizer / TrendDetector が使う LLM 呼び出しの抽象化
+ * - AnthropicProvider: Anthropic Messages API（本番）
+ * - FixtureProvider: 記録済みの応答を再生する決定的なプロバイダー（CI・APIキーなしのローカル開発）
+ *
+ * LLM_PROVIDER=fixture でアプリ全体がフィクスチャを使う
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ClaudeOperation } from './claude';
+import { createDefaultFixtureProvider } from './fixtureProvider';
+import type { StructuredMessage } from './structuredOutput';
+
+/**
+ * LLM へのリクエスト
+ */
+export interface LlmRequest {
+  operation: ClaudeOperation;
+  model: string;
+  maxTokens: number;
+  messages: StructuredMessage[];
+  onText?: (delta: string) => void; // 指定した場合はストリーミングで生成
+  signal?: AbortSignal;
+}
+
+/**
+ * LLM の応答
+ */
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * LLM プロバイダー
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Anthropic Messages API のプロバイダー
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const params = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: request.messages,
+    };
+
+    let message: Anthropic.Message;
+    if (request.onText) {
+      const onText = request.onText;
+      const stream = this.client.messages.stream(params, { signal: request.signal });
+      stream.on('text', (delta) => onText(delta));
+      message = await stream.finalMessage();
+    } else {
+      message = request.signal
+        ? await this.client.messages.create(params, { signal: request.signal })
+        : await this.client.messages.create(params);
+    }
+
+    const content = message.content[0];
+    if (content?.type !== 'text') {
+      throw new LlmResponseFormatError();
+    }
+
+    return {
+      text: content.text,
+      model: message.model ?? request.model,
+      usage: {
+        inputTokens: message.usage?.input_tokens ?? 0,
+        outputTokens: message.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
+
+/**
+ * テキスト以外の応答が返ってきた場合のエラー
+ */
+export class LlmResponseFormatError extends Error {
+  constructor() {
+    super('Unexpected response format');
+    this.name = 'LlmResponseFormatError';
+  }
+}
+
+/**
+ * フィクスチャのプロバイダーを使うか（LLM_PROVIDER=fixture）
+ */
+export function isFixtureProviderEnabled(): boolean {
+  return process.env.LLM_PROVIDER === 'fixture';
+}
+
+/**
+ * 設定に応じたプロバイダーを作成
+ *
+ * LLM_PROVIDER=fixture の場合は APIキーなしでフィクスチャを再生する
+ *
+ * @throws Error Anthropic を使う設定で APIキーがない場合
+ */
+export function createLlmProvider(apiKey?: string): LlmProvider {
+  if (isFixtureProviderEnabled()) {
+    return createDefaultFixtureProvider();
+  }
+
+  if (!apiKey) {
+    throw new Error('API key is required');
+  }
+
+  return new AnthropicProvider(apiKey);
+}
@@ -379,6 +379,33 @@ export function detectConsecutiveDecline(
   return true;
 }
 
+/**
+ * 連続したスコア低下のアラートを生成
+ */
+export function createDeclineAlert(
+  scoreHistory: number[],
+  consecutiveDays: number = 3,
+  onAction?: () => void
+): AlertData | null {
+  if (!detectConsecutiveDecline(scoreHistory, consecutiveDays)) {
+    return null;
+  }
+
+  const recent = scoreHistory.slice(-consecutiveDays);
+  const drop = Math.round((recent[0] - recent[recent.length - 1]) * 10) / 10;
+
+  return {
+    id: generateAlertId(),
+    severity: drop >= 10 ? 'critical' : 'warning',
+    category: 'score',
+    title: warningMessages.scoreDeclining,
+    message: `直近${consecutiveDays}回連続でスコアが低下しています（${drop}ポイント減）。エンゲージメント行動を見直しましょう。`,
+    actionLabel: '改善策を見る',
+    onAction,
+    dismissible: true,
+  };
+}
+
 // =============================================================================
 // ローカルストレージ管理
 // =============================================================================
@@ -0,0 +1,146 @@
+/**
+ * Platform Rules
+ *
+ * プラットフォーム別のルールの唯一の定義
+ * - 最適化ルール（文字数・ハッシュタグ数・トーン・フォーマット・ベストプラクティス）
+ * - ベストな投稿時間
+ *
+ * 分析・最適化（ClaudeClient / ContentOptimizer）、投稿アダプター、UI はすべてここを参照する。
+ * ユーザーごとの上書き（設定画面で編集）は最適化と表示にのみ適用し、投稿アダプターは常にデフォルトを使う。
+ * サーバー専用の依存を持たないため、クライアントコンポーネントからも import できる。
+ */
+
+import type { Platform } from '../types/index';
+
+/**
+ * プラットフォーム別最適化ルール
+ */
+export interface PlatformRules {
+  maxLength: number;
+  hashtagCount: number;
+  tone: string;
+  formatting: string[];
+  bestPractices: string[];
+}
+
+/**
+ * ユーザーごとのルールの上書き（指定した項目のみデフォルトを置き換える）
+ */
+export type PlatformRuleOverrides = Partial<Record<Platform, Partial<PlatformRules>>>;
+
+/**
+ * 投稿時刻（ローカル時刻）
+ */
+export interface PostTime {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * プラットフォームルール定義
+ */
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  threads: {
+    maxLength: 500,
+    hashtagCount: 3,
+    tone: '会話的でカジュアル、親しみやすい',
+    formatting: ['短い段落', '絵文字適度に使用', '質問で終わる'],
+    bestPractices: [
+      '最初の1行で興味を引く',
+      '読者に語りかける口調',
+      '共感を誘う表現',
+      'シンプルな言葉選び',
+    ],
+  },
+  instagram: {
+    maxLength: 2200,
+    hashtagCount: 15,
+    tone: 'ビジュアル重視、感情的なストーリーテリング',
+    formatting: ['改行を多用', '絵文字をセクション分けに使用', 'CTAを明確に'],
+    bestPractices: [
+      'フック(最初の125文字)が重要',
+      'ストーリー形式で展開',
+      'ハッシュタグは最後にまとめる',
+      '保存したくなる価値を提供',
+    ],
+  },
+  twitter: {
+    maxLength: 280,
+    hashtagCount: 2,
+    tone: 'シャープで簡潔、インパクト重視',
+    formatting: ['1文1ツイート感覚', '数字を効果的に使用', 'スレッド形式も検討'],
+    bestPractices: [
+      '最初の数語で勝負',
+      '反論を呼ぶ主張',
+      'リツイートしたくなる価値',
+      '議論を促す問いかけ',
+    ],
+  },
+};
+
+/**
+ * ベストな投稿時間（プラットフォーム別、早い順）
+ */
+export const BEST_POST_TIMES: Record<Platform, PostTime[]> = {
+  threads: [
+    { hour: 7, minute: 0 },
+    { hour: 12, minute: 0 },
+    { hour: 20, minute: 0 },
+  ],
+  instagram: [
+    { hour: 6, minute: 0 },
+    { hour: 11, minute: 0 },
+    { hour: 19, minute: 0 },
+  ],
+  twitter: [
+    { hour: 8, minute: 0 },
+    { hour: 12, minute: 30 },
+    { hour: 17, minute: 0 },
+  ],
+};
+
+/**
+ * プラットフォームルールを取得（上書きがあればデフォルトに適用）
+ */
+export function getPlatformRules(
+  platform: Platform,
+  overrides?: PlatformRuleOverrides
+): PlatformRules {
+  const override = overrides?.[platform];
+  if (!override) {
+    return PLATFORM_RULES[platform];
+  }
+
+  const defaults = PLATFORM_RULES[platform];
+  return {
+    maxLength: override.maxLength ?? defaults.maxLength,
+    hashtagCount: override.hashtagCount ?? defaults.hashtagCount,
+    tone: override.tone ?? defaults.tone,
+    formatting: override.formatting ?? defaults.formatting,
+    bestPractices: override.bestPractices ?? defaults.bestPractices,
+  };
+}
+
+/**
+ * 次のベストな投稿時間を計算
+ *
+ * 今日の残りの最適時間のうち最も早いもの。すべて過ぎていたら明日の最初の最適時間。
+ */
+export function calculateBestPostTime(platform: Platform, now: Date = new Date()): Date {
+  const times = BEST_POST_TIMES[platform];
+
+  for (const time of times) {
+    const candidate = new Date(now);
+    candidate.setHours(time.hour, time.minute, 0, 0);
+
+    if (candidate > now) {
+      return candidate;
+    }
+  }
+
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(times[0].hour, times[0].minute, 0, 0);
+
+  return tomorrow;
+}
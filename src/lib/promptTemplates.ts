@@ -0,0 +1,738 @@
+/**
+ * Prompt Templates
+ *
+ * Claude に送るプロンプトの名前付き・バージョン付きテンプレート
+ * - テンプレートは {{変数名}} で変数を埋め込む
+ * - 既存のバージョンは変更せず、改善する場合は新しいバージョンを追加する
+ * - 通常は ACTIVE_PROMPT_VERSIONS のバージョンを使い、A/B 比較（/api/prompts/evaluate）で確認してから切り替える
+ * - 保存する結果には生成に使ったテンプレート（例: "analysis@1"）を記録する
+ */
+
+import { MAX_THREAD_SEGMENTS, MIN_THREAD_SEGMENTS } from './threadSegments';
+import {
+  MAX_CAROUSEL_SLIDES,
+  MAX_REELS_BEATS,
+  MAX_REELS_SECONDS,
+  MIN_CAROUSEL_SLIDES,
+  MIN_REELS_BEATS,
+} from './visualPlan';
+import type { BuzzAnalysis, InstagramVisualFormat, Platform, PostMode } from '../types/index';
+
+/**
+ * テンプレート名
+ */
+export type PromptTemplateId =
+  | 'analysis'
+  | 'optimization'
+  | 'thread-optimization'
+  | 'carousel-outline'
+  | 'reels-script'
+  | 'score-analysis'
+  | 'trending-topics';
+
+/**
+ * プロンプトテンプレート
+ */
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: number;
+  description: string;
+  variables: readonly string[];
+  template: string;
+}
+
+/**
+ * 変数を埋め込んだプロンプト
+ */
+export interface RenderedPrompt {
+  text: string;
+  templateId: PromptTemplateId;
+  version: number;
+  ref: string; // 結果に記録する識別子（例: "analysis@1"）
+}
+
+/**
+ * テンプレートごとに使うバージョン（ClaudeConfig.promptVersions で個別に変更できる）
+ */
+export type PromptVersions = Partial<Record<PromptTemplateId, number>>;
+
+/**
+ * プロンプトテンプレートのエラー
+ */
+export class PromptTemplateError extends Error {
+  code: 'unknown_template' | 'unknown_version' | 'missing_variable';
+
+  constructor(message: string, code: PromptTemplateError['code']) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.code = code;
+  }
+}
+
+/**
+ * 登録済みのテンプレート
+ */
+export const PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  {
+    id: 'analysis',
+    version: 1,
+    description: 'バズ投稿の構造分析',
+    variables: ['url', 'content', 'platform'],
+    template: `
+あなたはSNSバズコンテンツの専門アナリストです。
+
+以下のバズ投稿を分析し、なぜバズったのかを構造的に解析してください。
+
+【投稿URL】
+{{url}}
+
+【投稿内容】
+{{content}}
+
+【プラットフォーム】
+{{platform}}
+
+以下のJSON形式で回答してください:
+{
+  "transcript": "投稿の本質的なメッセージ・ノウハウを台本形式で抽出（そのまま使える形式で）",
+  "keyPoints": ["バズった要因1", "バズった要因2", "バズった要因3"],
+  "structure": {
+    "hook": "冒頭のフック（最初に読者を引き込んだ部分）",
+    "mainPoints": ["主要ポイント1", "主要ポイント2", "主要ポイント3"],
+    "cta": "Call to Action（行動を促す部分）",
+    "emotionalTriggers": ["感情トリガー1", "感情トリガー2"]
+  },
+  "estimatedImpressions": 推定インプレッション数（数値のみ）,
+  "estimatedEngagement": 推定エンゲージメント率（0-100の数値）
+}
+
+JSONのみを返してください。説明は不要です。
+`,
+  },
+  {
+    id: 'analysis',
+    version: 2,
+    description: 'バズ投稿の構造分析（要因を本文の表現と結びつけて説明させる）',
+    variables: ['url', 'content', 'platform'],
+    template: `
+あなたはSNSバズコンテンツの専門アナリストです。
+
+以下のバズ投稿を分析し、なぜバズったのかを構造的に解析してください。
+バズった要因は、投稿内のどの表現がどう効いているかが分かるように書いてください。
+
+【投稿URL】
+{{url}}
+
+【投稿内容】
+{{content}}
+
+【プラットフォーム】
+{{platform}}
+
+以下のJSON形式で回答してください:
+{
+  "transcript": "投稿の本質的なメッセージ・ノウハウを台本形式で抽出（そのまま使える形式で）",
+  "keyPoints": ["「投稿内の表現」→ バズった理由", "「投稿内の表現」→ バズった理由", "「投稿内の表現」→ バズった理由"],
+  "structure": {
+    "hook": "冒頭のフック（投稿内の表現をそのまま引用）",
+    "mainPoints": ["主要ポイント1", "主要ポイント2", "主要ポイント3"],
+    "cta": "Call to Action（ない場合は空文字）",
+    "emotionalTriggers": ["感情トリガー1", "感情トリガー2"]
+  },
+  "estimatedImpressions": 推定インプレッション数（数値のみ）,
+  "estimatedEngagement": 推定エンゲージメント率（0-100の数値）
+}
+
+JSONのみを返してください。説明は不要です。
+`,
+  },
+  {
+    id: 'optimization',
+    version: 1,
+    description: 'ガッチャンコ（バズノウハウのプラットフォーム別変換）',
+    variables: [
+      'platform',
+      'transcript',
+      'keyPoints',
+      'hook',
+      'mainPoints',
+      'cta',
+      'emotionalTriggers',
+      'maxLength',
+      'tone',
+      'formatting',
+      'bestPractices',
+      'modeGuidance',
+    ],
+    template: `
+あなたはSNSコンテンツ最適化のプロです。
+
+【ガッチャンコ作業】
+以下のバズったノウハウを、{{platform}}用に言い回しを変換してください。
+
+【元のバズコンテンツの台本】
+{{transcript}}
+
+【バズった要因】
+{{keyPoints}}
+
+【コンテンツ構造】
+- フック: {{hook}}
+- 主要ポイント: {{mainPoints}}
+- CTA: {{cta}}
+- 感情トリガー: {{emotionalTriggers}}
+
+【{{platform}}の最適化ルール】
+- 最大文字数: {{maxLength}}文字
+- トーン: {{tone}}
+- フォーマット: {{formatting}}
+- ベストプラクティス: {{bestPractices}}
+
+【モード】
+{{modeGuidance}}
+
+以下のJSON形式で最適化されたコンテンツを返してください:
+{
+  "content": "最適化されたコンテンツ本文（{{maxLength}}文字以内）",
+  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
+  "expectedImpressions": 期待されるインプレッション数（数値のみ）
+}
+
+重要:
+- 元のバズ要因を保ちながら、{{platform}}に最適な表現に変換
+- {{platform}}ユーザーが好む言い回しを使用
+- そのまま投稿できる完成形で出力
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'optimization',
+    version: 2,
+    description: 'ガッチャンコ（ユーザーのブランドボイスに合わせる）',
+    variables: [
+      'platform',
+      'transcript',
+      'keyPoints',
+      'hook',
+      'mainPoints',
+      'cta',
+      'emotionalTriggers',
+      'maxLength',
+      'tone',
+      'formatting',
+      'bestPractices',
+      'modeGuidance',
+      'brandVoice',
+    ],
+    template: `
+あなたはSNSコンテンツ最適化のプロです。
+
+【ガッチャンコ作業】
+以下のバズったノウハウを、{{platform}}用に言い回しを変換してください。
+
+【元のバズコンテンツの台本】
+{{transcript}}
+
+【バズった要因】
+{{keyPoints}}
+
+【コンテンツ構造】
+- フック: {{hook}}
+- 主要ポイント: {{mainPoints}}
+- CTA: {{cta}}
+- 感情トリガー: {{emotionalTriggers}}
+
+【{{platform}}の最適化ルール】
+- 最大文字数: {{maxLength}}文字
+- トーン: {{tone}}
+- フォーマット: {{formatting}}
+- ベストプラクティス: {{bestPractices}}
+
+【モード】
+{{modeGuidance}}
+
+【ブランドボイス（投稿者本人の書き方）】
+{{brandVoice}}
+
+以下のJSON形式で最適化されたコンテンツを返してください:
+{
+  "content": "最適化されたコンテンツ本文（{{maxLength}}文字以内）",
+  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
+  "expectedImpressions": 期待されるインプレッション数（数値のみ）
+}
+
+重要:
+- 元のバズ要因を保ちながら、{{platform}}に最適な表現に変換
+- {{platform}}ユーザーが好む言い回しを使用
+- ブランドボイスの語彙・文の長さ・絵文字の使い方に合わせ、禁止ワードは使わない
+- そのまま投稿できる完成形で出力
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'thread-optimization',
+    version: 1,
+    description: 'ガッチャンコ（スレッド形式の複数投稿）',
+    variables: [
+      'platform',
+      'transcript',
+      'keyPoints',
+      'hook',
+      'mainPoints',
+      'cta',
+      'emotionalTriggers',
+      'maxLength',
+      'tone',
+      'formatting',
+      'bestPractices',
+      'modeGuidance',
+      'brandVoice',
+      'minSegments',
+      'maxSegments',
+    ],
+    template: `
+あなたはSNSコンテンツ最適化のプロです。
+
+【ガッチャンコ作業】
+以下のバズったノウハウを、{{platform}}用のスレッド（複数の投稿をつなげた形式）に変換してください。
+
+【元のバズコンテンツの台本】
+{{transcript}}
+
+【バズった要因】
+{{keyPoints}}
+
+【コンテンツ構造】
+- フック: {{hook}}
+- 主要ポイント: {{mainPoints}}
+- CTA: {{cta}}
+- 感情トリガー: {{emotionalTriggers}}
+
+【{{platform}}の最適化ルール】
+- 1投稿の最大文字数: {{maxLength}}文字
+- トーン: {{tone}}
+- フォーマット: {{formatting}}
+- ベストプラクティス: {{bestPractices}}
+
+【モード】
+{{modeGuidance}}
+
+【ブランドボイス（投稿者本人の書き方）】
+{{brandVoice}}
+
+以下のJSON形式で最適化されたスレッドを返してください:
+{
+  "segments": ["1件目の投稿（フック）", "2件目の投稿", "最後の投稿（CTA）"],
+  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
+  "expectedImpressions": 期待されるインプレッション数（数値のみ）
+}
+
+重要:
+- 投稿は{{minSegments}}〜{{maxSegments}}件、それぞれ{{maxLength}}文字以内
+- 1件目はフックだけで続きを読みたくなるように書く
+- 最後の投稿にCTAを入れる
+- 各投稿は単体でも意味が通るように区切る
+- 「1/5」などの番号やハッシュタグは投稿に含めない（投稿時に付ける）
+- ブランドボイスの語彙・文の長さ・絵文字の使い方に合わせ、禁止ワードは使わない
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'carousel-outline',
+    version: 1,
+    description: 'ガッチャンコ（Instagram カルーセルのスライド構成）',
+    variables: [
+      'platform',
+      'transcript',
+      'keyPoints',
+      'hook',
+      'mainPoints',
+      'cta',
+      'emotionalTriggers',
+      'maxLength',
+      'tone',
+      'formatting',
+      'bestPractices',
+      'modeGuidance',
+      'brandVoice',
+      'minSlides',
+      'maxSlides',
+    ],
+    template: `
+あなたはSNSコンテンツ最適化のプロです。
+
+【ガッチャンコ作業】
+以下のバズったノウハウを、{{platform}}のカルーセル投稿（複数枚のスライド）に変換してください。
+
+【元のバズコンテンツの台本】
+{{transcript}}
+
+【バズった要因】
+{{keyPoints}}
+
+【コンテンツ構造】
+- フック: {{hook}}
+- 主要ポイント: {{mainPoints}}
+- CTA: {{cta}}
+- 感情トリガー: {{emotionalTriggers}}
+
+【{{platform}}の最適化ルール】
+- キャプションの最大文字数: {{maxLength}}文字
+- トーン: {{tone}}
+- フォーマット: {{formatting}}
+- ベストプラクティス: {{bestPractices}}
+
+【モード】
+{{modeGuidance}}
+
+【ブランドボイス（投稿者本人の書き方）】
+{{brandVoice}}
+
+以下のJSON形式でスライド構成とキャプションを返してください:
+{
+  "slides": [
+    {
+      "title": "スライドの見出し（15文字程度）",
+      "body": "スライドに載せる本文（60文字程度）",
+      "visual": "デザイナーへのビジュアル指示（写真・イラスト・配色・レイアウト）"
+    }
+  ],
+  "caption": "投稿のキャプション（{{maxLength}}文字以内）",
+  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
+  "expectedImpressions": 期待されるインプレッション数（数値のみ）
+}
+
+重要:
+- スライドは{{minSlides}}〜{{maxSlides}}枚
+- 1枚目はフックだけでスワイプしたくなる表紙にする
+- 主要ポイントは1枚に1つずつ
+- 最後のスライドにCTA（保存・シェア・フォローなど）を入れる
+- ハッシュタグはキャプションに入れず hashtags にまとめる
+- ブランドボイスの語彙・文の長さ・絵文字の使い方に合わせ、禁止ワードは使わない
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'reels-script',
+    version: 1,
+    description: 'ガッチャンコ（Instagram リールの台本）',
+    variables: [
+      'platform',
+      'transcript',
+      'keyPoints',
+      'hook',
+      'mainPoints',
+      'cta',
+      'emotionalTriggers',
+      'maxLength',
+      'tone',
+      'formatting',
+      'bestPractices',
+      'modeGuidance',
+      'brandVoice',
+      'minBeats',
+      'maxBeats',
+      'maxSeconds',
+    ],
+    template: `
+あなたはSNSコンテンツ最適化のプロです。
+
+【ガッチャンコ作業】
+以下のバズったノウハウを、{{platform}}のリール動画の台本に変換してください。
+
+【元のバズコンテンツの台本】
+{{transcript}}
+
+【バズった要因】
+{{keyPoints}}
+
+【コンテンツ構造】
+- フック: {{hook}}
+- 主要ポイント: {{mainPoints}}
+- CTA: {{cta}}
+- 感情トリガー: {{emotionalTriggers}}
+
+【{{platform}}の最適化ルール】
+- キャプションの最大文字数: {{maxLength}}文字
+- トーン: {{tone}}
+- フォーマット: {{formatting}}
+- ベストプラクティス: {{bestPractices}}
+
+【モード】
+{{modeGuidance}}
+
+【ブランドボイス（投稿者本人の書き方）】
+{{brandVoice}}
+
+以下のJSON形式で台本とキャプションを返してください:
+{
+  "durationSeconds": 動画全体の長さ（秒、数値のみ）,
+  "beats": [
+    {
+      "start": 開始秒（数値のみ）,
+      "end": 終了秒（数値のみ）,
+      "onScreenText": "画面に表示するテキスト（15文字程度）",
+      "narration": "話す内容・ナレーション",
+      "visual": "撮影・編集の指示（カメラワーク・カット・効果音など）"
+    }
+  ],
+  "caption": "投稿のキャプション（{{maxLength}}文字以内）",
+  "hashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2", "関連ハッシュタグ3"],
+  "expectedImpressions": 期待されるインプレッション数（数値のみ）
+}
+
+重要:
+- 動画は{{maxSeconds}}秒以内、場面は{{minBeats}}〜{{maxBeats}}個で時間順に並べる
+- 最初の3秒でフックを見せて離脱を防ぐ
+- 主要ポイントは1場面に1つずつ、画面テキストだけでも内容が伝わるようにする
+- 最後の場面にCTAを入れる
+- ハッシュタグはキャプションに入れず hashtags にまとめる
+- ブランドボイスの語彙・文の長さ・絵文字の使い方に合わせ、禁止ワードは使わない
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'score-analysis',
+    version: 1,
+    description: '行動データからのプラットフォーム評価の予測',
+    variables: [
+      'platform',
+      'likesGiven',
+      'commentsGiven',
+      'sharesGiven',
+      'postsThisWeek',
+      'trendingHashtagsUsed',
+      'followersGained',
+    ],
+    template: `
+あなたはSNSマーケティングの専門家です。
+
+以下のユーザー行動データを分析し、プラットフォームからの評価を予測してください。
+
+【プラットフォーム】
+{{platform}}
+
+【ユーザー行動データ】
+- 他者へのいいね数: {{likesGiven}}
+- 他者へのコメント数: {{commentsGiven}}
+- シェア/リポスト数: {{sharesGiven}}
+- 今週の投稿数: {{postsThisWeek}}
+- トレンドタグ使用数: {{trendingHashtagsUsed}}
+- 獲得フォロワー数: {{followersGained}}
+
+以下のJSON形式で回答してください:
+{
+  "aiInsight": "AIによる総合的な分析コメント（100-200文字）",
+  "strengths": ["強み1", "強み2", "強み3"],
+  "improvements": ["改善点1", "改善点2"],
+  "priorityAction": "最も効果的な次のアクション",
+  "estimatedGrowthPotential": 成長ポテンシャル（0-100の数値）
+}
+
+JSONのみを返してください。
+`,
+  },
+  {
+    id: 'trending-topics',
+    version: 1,
+    description: 'プラットフォーム別のトレンドトピック生成',
+    variables: ['platform', 'limit', 'categories'],
+    template: `
+あなたはSNSトレンド分析の専門家です。
+
+{{platform}}プラットフォームにおける現在のトレンドトピックを{{limit}}個生成してください。
+
+【対象カテゴリ】
+{{categories}}
+
+【出力形式】
+以下のJSON配列形式で回答してください:
+[
+  {
+    "name": "トレンドトピック名",
+    "category": "カテゴリ（entertainment, technology, lifestyle, business, news, sports, education, other）",
+    "volume": 推定投稿数（数値）,
+    "growthRate": 成長率（0-2の数値、1が横ばい）,
+    "sentiment": "センチメント（positive, negative, neutral, mixed）",
+    "relatedHashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2"],
+    "peakHour": ピーク時間（0-23）,
+    "recommendationScore": コメント参加推奨度（0-100）
+  }
+]
+
+重要:
+- 実際にバズりやすいリアルなトピックを生成
+- {{platform}}ユーザーが関心を持ちそうな内容
+- コメント戦略に活用できるトピック
+
+JSONのみを返してください。
+`,
+  },
+];
+
+/**
+ * 通常使うバージョン
+ */
+export const ACTIVE_PROMPT_VERSIONS: Record<PromptTemplateId, number> = {
+  analysis: 1,
+  optimization: 2,
+  'thread-optimization': 1,
+  'carousel-outline': 1,
+  'reels-script': 1,
+  'score-analysis': 1,
+  'trending-topics': 1,
+};
+
+/**
+ * テンプレートを取得（バージョン省略時は ACTIVE_PROMPT_VERSIONS）
+ *
+ * @throws PromptTemplateError 未登録のテンプレート・バージョンの場合
+ */
+export function getPromptTemplate(id: PromptTemplateId, version?: number): PromptTemplate {
+  const versions = PROMPT_TEMPLATES.filter((template) => template.id === id);
+  if (versions.length === 0) {
+    throw new PromptTemplateError(`Unknown prompt template: ${id}`, 'unknown_template');
+  }
+
+  const targetVersion = version ?? ACTIVE_PROMPT_VERSIONS[id];
+  const template = versions.find((candidate) => candidate.version === targetVersion);
+  if (!template) {
+    throw new PromptTemplateError(
+      `Prompt template ${id} has no version ${targetVersion} (available: ${versions
+        .map((candidate) => candidate.version)
+        .join(', ')})`,
+      'unknown_version'
+    );
+  }
+
+  return template;
+}
+
+/**
+ * 登録済みのテンプレート名か
+ */
+export function isPromptTemplateId(value: unknown): value is PromptTemplateId {
+  return PROMPT_TEMPLATES.some((template) => template.id === value);
+}
+
+/**
+ * テンプレートに変数を埋め込む
+ *
+ * @throws PromptTemplateError 変数が足りない場合
+ */
+export function renderPrompt(
+  id: PromptTemplateId,
+  variables: Record<string, string | number>,
+  version?: number
+): RenderedPrompt {
+  const template = getPromptTemplate(id, version);
+
+  const missing = template.variables.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(
+      `Prompt template ${id}@${template.version} is missing variables: ${missing.join(', ')}`,
+      'missing_variable'
+    );
+  }
+
+  const text = template.template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    variables[name] === undefined ? placeholder : String(variables[name])
+  );
+
+  return {
+    text,
+    templateId: id,
+    version: template.version,
+    ref: `${id}@${template.version}`,
+  };
+}
+
+/**
+ * モード別の指示
+ */
+const MODE_GUIDANCE: Record<PostMode, string> = {
+  impression: 'インプレッション最大化を優先。多くの人に届く普遍的な表現を使用。',
+  expression: '自己表現を優先。個性的な視点と独自の言葉選びを重視。',
+};
+
+/**
+ * ブランドボイスが未登録の場合の指示
+ */
+const DEFAULT_BRAND_VOICE = '指定なし（プラットフォームのトーンに従う）';
+
+/**
+ * optimization テンプレートの変数
+ *
+ * @param brandVoice - describeBrandVoice（lib/brandVoice）で作成した指示
+ */
+export function optimizationPromptVariables(
+  analysis: BuzzAnalysis,
+  targetPlatform: Platform,
+  mode: PostMode,
+  rules: { maxLength: number; tone: string; formatting: string[]; bestPractices: string[] },
+  brandVoice?: string
+): Record<string, string | number> {
+  return {
+    platform: targetPlatform,
+    transcript: analysis.transcript,
+    keyPoints: analysis.keyPoints.join('\n'),
+    hook: analysis.structure.hook,
+    mainPoints: analysis.structure.mainPoints.join(', '),
+    cta: analysis.structure.cta,
+    emotionalTriggers: analysis.structure.emotionalTriggers.join(', '),
+    maxLength: rules.maxLength,
+    tone: rules.tone,
+    formatting: rules.formatting.join(', '),
+    bestPractices: rules.bestPractices.join(', '),
+    modeGuidance: MODE_GUIDANCE[mode],
+    brandVoice: brandVoice ?? DEFAULT_BRAND_VOICE,
+  };
+}
+
+/**
+ * thread-optimization テンプレートの変数
+ *
+ * @param segmentLength - 1投稿に使える文字数（番号付けの分を除いたもの）
+ */
+export function threadPromptVariables(
+  analysis: BuzzAnalysis,
+  targetPlatform: Platform,
+  mode: PostMode,
+  rules: { maxLength: number; tone: string; formatting: string[]; bestPractices: string[] },
+  segmentLength: number,
+  brandVoice?: string
+): Record<string, string | number> {
+  return {
+    ...optimizationPromptVariables(analysis, targetPlatform, mode, rules, brandVoice),
+    maxLength: segmentLength,
+    minSegments: MIN_THREAD_SEGMENTS,
+    maxSegments: MAX_THREAD_SEGMENTS,
+  };
+}
+
+/**
+ * carousel-outline / reels-script テンプレートの変数
+ */
+export function visualPlanPromptVariables(
+  format: InstagramVisualFormat,
+  analysis: BuzzAnalysis,
+  mode: PostMode,
+  rules: { maxLength: number; tone: string; formatting: string[]; bestPractices: string[] },
+  brandVoice?: string
+): Record<string, string | number> {
+  const variables = optimizationPromptVariables(analysis, 'instagram', mode, rules, brandVoice);
+
+  return format === 'carousel'
+    ? { ...variables, minSlides: MIN_CAROUSEL_SLIDES, maxSlides: MAX_CAROUSEL_SLIDES }
+    : {
+        ...variables,
+        minBeats: MIN_REELS_BEATS,
+        maxBeats: MAX_REELS_BEATS,
+        maxSeconds: MAX_REELS_SECONDS,
+      };
+}
@@ -0,0 +1,44 @@
+/**
+ * Serialization Utilities
+ *
+ * Prismaの文字列カラムに保存するJSONの変換ヘルパー
+ * (SQLiteはJSON型/配列型を持たないため、配列はJSON文字列で保存する)
+ */
+
+/**
+ * JSON文字列カラムを文字列配列に変換
+ * 不正なJSONや配列以外の値は空配列として扱う
+ */
+export function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 配列をJSON文字列カラム用に変換
+ */
+export function toJsonArray(values: readonly string[] | null | undefined): string {
+  return JSON.stringify(values ?? []);
+}
+
+/**
+ * JSON文字列カラムを任意の型に変換
+ * パースできない場合はフォールバック値を返す
+ */
+export function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Server-Sent Events Utilities
+ *
+ * AI の生成中のテキストを逐次返すための SSE ヘルパー（サーバー・クライアント共通）
+ * - delta: 生成中のテキストの差分
+ * - reset: 修正の再生成を始めた（それまでの差分は破棄する）
+ * - result: 検証済みの構造化データ（ストリームの最後）
+ * - error: エラー（ストリームの最後）
+ */
+
+/**
+ * ストリームで送るイベント
+ */
+export type StreamEvent<T> =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'reset'; data: Record<string, never> }
+  | { event: 'result'; data: T }
+  | { event: 'error'; data: { error: string; status: number } };
+
+/**
+ * SSE レスポンスのヘッダー
+ */
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+} as const;
+
+/**
+ * クライアントがストリーミングを要求しているか（Accept: text/event-stream）
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * イベントを SSE の形式にエンコード
+ */
+export function formatEvent<T>(event: StreamEvent<T>): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * 例外を error イベントの内容に変換
+ *
+ * statusCode を持つエラー（ClaudeAPIError / UsageLimitError）はその値、それ以外は 500
+ */
+export function toStreamError(error: unknown): { error: string; status: number } {
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+
+  return {
+    error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    status: typeof statusCode === 'number' ? statusCode : 500,
+  };
+}
+
+/**
+ * SSE のストリームを作成
+ *
+ * run が例外を投げた場合も error イベントを送ってストリームを閉じる（待ち続けることはない）。
+ * クライアントが切断すると signal が中止される。
+ */
+export function createEventStream<T>(
+  run: (send: (event: StreamEvent<T>) => void, signal: AbortSignal) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: StreamEvent<T>) => {
+        if (closed || abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatEvent(event)));
+        if (event.event === 'result' || event.event === 'error') {
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send, abortController.signal);
+        send({ event: 'error', data: { error: 'Stream ended without a result', status: 500 } });
+      } catch (error) {
+        console.error('Event stream error:', error);
+        send({ event: 'error', data: toStreamError(error) });
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+}
+
+/**
+ * 受信したイベントのブロックをパース
+ */
+function parseEventBlock<T>(block: string): StreamEvent<T> | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join('\n')) } as StreamEvent<T>;
+}
+
+/**
+ * SSE レスポンスを読み込み、最後の result を返す
+ *
+ * @param onDelta - 生成中のテキストの差分を受け取る
+ * @param onReset - 修正の再生成を始めた（それまでに受け取った差分を破棄する）
+ * @throws Error error イベントを受信した・result の前にストリームが終わった場合
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onDelta?: (text: string) => void,
+  onReset?: () => void
+): Promise<T> {
+  if (!response.body) {
+    throw new Error('Response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const event = parseEventBlock<T>(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+
+      if (event?.event === 'delta') {
+        onDelta?.(event.data.text);
+      } else if (event?.event === 'reset') {
+        onReset?.();
+      } else if (event?.event === 'result') {
+        await reader.cancel();
+        return event.data;
+      } else if (event?.event === 'error') {
+        await reader.cancel();
+        throw new Error(event.data.error);
+      }
+    }
+
+    if (done) {
+      throw new Error('Stream ended before a result was received');
+    }
+  }
+}
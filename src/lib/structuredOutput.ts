@@ -0,0 +1,242 @@
+/**
+ * Structured Output
+ *
+ * Claude の JSON 応答をスキーマで検証するヘルパー
+ * - 宣言的なスキーマ（string / number / boolean / array / object）
+ * - フィールド単位のエラーメッセージ（例: "structure.hook: must be a string"）
+ * - 検証に失敗した場合はエラー内容をモデルに送り、1回だけ修正を依頼する
+ */
+
+/**
+ * 応答のスキーマ
+ */
+export type Schema =
+  | { type: 'string'; minLength?: number; enum?: readonly string[] }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema; minItems?: number; maxItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; optional?: readonly string[] };
+
+/**
+ * 会話のメッセージ（Anthropic の MessageParam と互換）
+ */
+export interface StructuredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 検証結果
+ */
+export type StructuredResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * 修正を依頼しても応答がスキーマに合わなかった場合のエラー
+ */
+export class StructuredOutputError extends Error {
+  public readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Response did not match the expected format: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * 1回の検証で報告するエラーの上限（修正依頼のプロンプトが長くなりすぎないように）
+ */
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * フィールドのパスを連結
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 値をスキーマで検証し、フィールド単位のエラーを返す（空配列なら妥当）
+ */
+export function validateSchema(schema: Schema, value: unknown, path = ''): string[] {
+  const label = path || '(root)';
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return [`${label}: must be a string`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [`${label}: must be at least ${schema.minLength} characters`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${label}: must be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${label}: must be a number`];
+      }
+      if (schema.integer && !Number.isInteger(value)) return [`${label}: must be an integer`];
+      if (schema.min !== undefined && value < schema.min) {
+        return [`${label}: must be at least ${schema.min}`];
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return [`${label}: must be at most ${schema.max}`];
+      }
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${label}: must be a boolean`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${label}: must be an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${label}: must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${label}: must have at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(schema.items, item, joinPath(path, index)));
+      });
+      return errors;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${label}: must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const [key, fieldSchema] of Object.entries(schema.properties)) {
+        const fieldPath = joinPath(path, key);
+        if (record[key] === undefined || record[key] === null) {
+          if (!schema.optional?.includes(key)) errors.push(`${fieldPath}: is required`);
+          continue;
+        }
+        errors.push(...validateSchema(fieldSchema, record[key], fieldPath));
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * 応答テキストから JSON 部分を取り出す
+ *
+ * コードブロックや前後の説明文は無視し、最初の { / [ に対応する閉じ括弧までを返す。
+ * 閉じ括弧が見つからない（途中で切れている）場合は null。
+ */
+export function extractJson(text: string, root: 'object' | 'array'): string | null {
+  const open = root === 'object' ? '{' : '[';
+  const start = text.indexOf(open);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 応答テキストをパースしてスキーマで検証
+ */
+export function parseStructuredOutput<T>(text: string, schema: Schema): StructuredResult<T> {
+  const root = schema.type === 'array' ? 'array' : 'object';
+  const json = extractJson(text, root);
+  if (json === null) {
+    return {
+      success: false,
+      errors: [
+        text.includes(root === 'array' ? '[' : '{')
+          ? 'response JSON is incomplete (it may have been cut off)'
+          : `response does not contain a JSON ${root}`,
+      ],
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`],
+    };
+  }
+
+  const errors = validateSchema(schema, data);
+  if (errors.length > 0) {
+    return { success: false, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  return { success: true, data: data as T };
+}
+
+/**
+ * 検証エラーを伝えて修正を依頼するプロンプト
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `
+先ほどの回答は指定したJSON形式を満たしていませんでした。
+
+【問題点】
+${errors.map((error) => `- ${error}`).join('\n')}
+
+問題点を修正し、最初に指定した形式のJSONのみを返してください。説明は不要です。
+`;
+}
+
+/**
+ * 構造化された応答を生成（検証に失敗した場合は1回だけ修正を依頼）
+ *
+ * @param send - 会話を送信して応答テキストを返す関数
+ * @param prompt - プロンプト、または続きを依頼する場合はそれまでの会話
+ * @throws StructuredOutputError 修正後も応答がスキーマに合わない場合
+ */
+export async function generateStructured<T>(
+  send: (messages: StructuredMessage[]) => Promise<string>,
+  prompt: string | StructuredMessage[],
+  schema: Schema
+): Promise<T> {
+  const messages: StructuredMessage[] =
+    typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+  const firstText = await send(messages);
+  const first = parseStructuredOutput<T>(firstText, schema);
+  if (first.success) return first.data;
+
+  const repairedText = await send([
+    ...messages,
+    { role: 'assistant', content: firstText.trim() || '(empty response)' },
+    { role: 'user', content: buildRepairPrompt(first.errors) },
+  ]);
+  const repaired = parseStructuredOutput<T>(repairedText, schema);
+  if (repaired.success) return repaired.data;
+
+  throw new StructuredOutputError(repaired.errors);
+}
@@ -0,0 +1,211 @@
+/**
+ * Text Search
+ *
+ * 分析・下書きの検索に使うテキスト処理
+ * - 日本語向けのトークン化（漢字・ひらがな・カタカナの連続を文字バイグラムに分け、英数字は単語のまま）
+ * - BM25 によるキーワード検索のスコア
+ * - 外部サービスを使わないローカルの埋め込み（トークンの特徴ハッシング）とコサイン類似度
+ * - 一致箇所の前後を切り出したスニペット
+ */
+
+/**
+ * キーワード検索で一致とみなすのに必要な、クエリのトークンを含む割合
+ */
+export const MIN_KEYWORD_COVERAGE = 0.5;
+
+/**
+ * 類似検索で一致とみなすコサイン類似度
+ */
+export const MIN_SEMANTIC_SIMILARITY = 0.15;
+
+/**
+ * 埋め込みの次元数
+ */
+export const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * スニペットの最大文字数
+ */
+export const SNIPPET_LENGTH = 80;
+
+// BM25 のパラメータ
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * 文字種ごとの連続（漢字 / ひらがな / カタカナ / それ以外の文字・数字）
+ */
+const SCRIPT_RUN =
+  /([\p{Script=Han}々〆ヶ]+)|(\p{Script=Hiragana}+)|([\p{Script=Katakana}ー]+)|([^\s\p{P}\p{S}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+)/gu;
+
+/**
+ * ランキング結果（documents のインデックスとスコア）
+ */
+export interface RankedDocument {
+  index: number;
+  score: number;
+}
+
+/**
+ * 文字バイグラム（1文字の場合はその文字）
+ */
+function charBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+}
+
+/**
+ * テキストをトークンに分ける
+ *
+ * 日本語は分かち書きしないため、漢字・かなは文字種の境界で区切ってからバイグラムにする
+ * （「副業で月5万円」→ 副業 / 月 / 5 / 万円）。1文字のひらがな（助詞など）は除く。
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.normalize('NFKC').toLowerCase().matchAll(SCRIPT_RUN)) {
+    const [run, han, hiragana, katakana] = match;
+    if (hiragana !== undefined) {
+      if (Array.from(hiragana).length > 1) tokens.push(...charBigrams(hiragana));
+    } else if (han !== undefined || katakana !== undefined) {
+      tokens.push(...charBigrams(run));
+    } else {
+      tokens.push(run);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * トークンの出現回数
+ */
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  tokens.forEach((token) => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+  return frequencies;
+}
+
+/**
+ * クエリに対して BM25 でドキュメントを順位付け
+ *
+ * クエリのトークンを MIN_KEYWORD_COVERAGE 以上含むドキュメントだけを、スコアの高い順に返す。
+ */
+export function rankByKeyword(query: string, documents: string[]): RankedDocument[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map(tokenize);
+  const frequencies = tokenized.map(termFrequencies);
+  const averageLength =
+    tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / tokenized.length || 1;
+
+  const idf = new Map(
+    terms.map((term) => {
+      const df = frequencies.filter((tf) => tf.has(term)).length;
+      return [term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  const ranked: RankedDocument[] = [];
+  frequencies.forEach((tf, index) => {
+    const matched = terms.filter((term) => tf.has(term));
+    if (matched.length === 0 || matched.length / terms.length < MIN_KEYWORD_COVERAGE) return;
+
+    const lengthNorm = 1 - BM25_B + (BM25_B * tokenized[index].length) / averageLength;
+    const score = matched.reduce((sum, term) => {
+      const count = tf.get(term)!;
+      return sum + idf.get(term)! * ((count * (BM25_K1 + 1)) / (count + BM25_K1 * lengthNorm));
+    }, 0);
+
+    ranked.push({ index, score });
+  });
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * FNV-1a ハッシュ
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * テキストの埋め込みベクトル（L2正規化済み）
+ *
+ * トークンを EMBEDDING_DIMENSIONS 次元に特徴ハッシングしたもの。
+ * 言い回しが部分的に重なる投稿どうしが近くなる（同義語までは扱わない）。
+ */
+export function embedText(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+  termFrequencies(tokenize(text)).forEach((count, token) => {
+    const hash = hashToken(token);
+    // 最上位ビットで符号を決め、衝突したトークンどうしが打ち消し合うようにする
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * コサイン類似度（正規化済みのベクトル同士）
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0);
+}
+
+/**
+ * クエリとの埋め込みの類似度でドキュメントを順位付け
+ */
+export function rankBySimilarity(query: string, documents: string[]): RankedDocument[] {
+  const queryVector = embedText(query);
+
+  return documents
+    .map((document, index) => ({
+      index,
+      score: cosineSimilarity(queryVector, embedText(document)),
+    }))
+    .filter((ranked) => ranked.score >= MIN_SEMANTIC_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * テキストがクエリのトークンを含むか
+ */
+export function containsQueryTerms(text: string, query: string): boolean {
+  const tokens = new Set(tokenize(text));
+  return tokenize(query).some((term) => tokens.has(term));
+}
+
+/**
+ * クエリに一致した箇所の前後を切り出す（一致がなければ先頭から）
+ */
+export function buildSnippet(
+  text: string,
+  query: string,
+  length: number = SNIPPET_LENGTH
+): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+
+  const positions = Array.from(new Set(tokenize(query)))
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, Math.min(first - Math.floor(length / 4), flat.length - length));
+  const end = Math.min(flat.length, start + length);
+
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Thread Segments
+ *
+ * スレッド形式（複数の投稿をつなげる形式）の投稿の組み立て
+ * - X (Twitter) はリプライ、Threads は返信の連鎖として投稿する
+ * - 番号（"1/5"）は各投稿の末尾に付け、文字数制限に含める
+ *
+ * サーバー専用の依存を持たないため、クライアントコンポーネントからも import できる。
+ */
+
+import type { Platform } from '../types/index';
+
+/**
+ * スレッド形式に対応するプラットフォーム
+ */
+export const THREAD_PLATFORMS: readonly Platform[] = ['twitter', 'threads'];
+
+/**
+ * スレッドの投稿数の範囲
+ */
+export const MIN_THREAD_SEGMENTS = 2;
+export const MAX_THREAD_SEGMENTS = 10;
+
+/**
+ * 全文（OptimizedContent.content）を組み立てるときの区切り
+ */
+const SEGMENT_SEPARATOR = '\n\n';
+
+/**
+ * スレッド形式に対応しているか
+ */
+export function supportsThread(platform: Platform): boolean {
+  return THREAD_PLATFORMS.includes(platform);
+}
+
+/**
+ * 番号の表記（例: "1/5"）
+ */
+function segmentLabel(index: number, total: number): string {
+  return `${index + 1}/${total}`;
+}
+
+/**
+ * 番号付けで1投稿あたりに増える文字数
+ *
+ * 番号は ASCII のみのため、どのプラットフォームの数え方でも同じ長さになる
+ */
+export function numberingLength(total: number): number {
+  return `\n${segmentLabel(total - 1, total)}`.length;
+}
+
+/**
+ * 各投稿の末尾に番号を付ける（1件のみの場合は付けない）
+ */
+export function numberSegments(segments: string[]): string[] {
+  if (segments.length < 2) return segments.map((segment) => segment.trim());
+
+  return segments.map(
+    (segment, index) => `${segment.trim()}\n${segmentLabel(index, segments.length)}`
+  );
+}
+
+/**
+ * 各投稿をつないだ全文
+ */
+export function joinSegments(segments: string[]): string {
+  return segments.map((segment) => segment.trim()).join(SEGMENT_SEPARATOR);
+}
@@ -0,0 +1,97 @@
+/**
+ * Instagram Visual Plan
+ *
+ * Instagram のカルーセル（スライド構成）・リール（台本）の制約と整形
+ * - カルーセルは1枚目にフック、最後のスライドにCTAを置く
+ * - リールは秒単位の場面（画面テキスト・ナレーション・撮影指示）で構成する
+ *
+ * サーバー専用の依存を持たないため、クライアントコンポーネントからも import できる。
+ */
+
+import type {
+  InstagramVisualFormat,
+  InstagramVisualPlan,
+  Platform,
+  ReelsBeat,
+} from '../types/index';
+
+/**
+ * カルーセルの枚数の範囲
+ */
+export const MIN_CAROUSEL_SLIDES = 3;
+export const MAX_CAROUSEL_SLIDES = 10;
+
+/**
+ * リールの長さの上限（秒）
+ */
+export const MAX_REELS_SECONDS = 90;
+
+/**
+ * リールの場面数の範囲
+ */
+export const MIN_REELS_BEATS = 3;
+export const MAX_REELS_BEATS = 12;
+
+/**
+ * ビジュアル形式の表示名
+ */
+export const VISUAL_FORMAT_LABELS: Record<InstagramVisualFormat, string> = {
+  carousel: 'カルーセル',
+  reels: 'リール',
+};
+
+/**
+ * カルーセル・リールに対応するプラットフォームか
+ */
+export function supportsVisualPlan(platform: Platform): boolean {
+  return platform === 'instagram';
+}
+
+/**
+ * ビジュアル形式か
+ */
+export function isInstagramVisualFormat(value: unknown): value is InstagramVisualFormat {
+  return value === 'carousel' || value === 'reels';
+}
+
+/**
+ * リールの場面を開始時間順に並べ、動画の長さに収める
+ */
+export function normalizeReelsBeats(beats: ReelsBeat[], durationSeconds: number): ReelsBeat[] {
+  return [...beats]
+    .sort((a, b) => a.start - b.start)
+    .map((beat) => {
+      const start = Math.min(Math.max(0, beat.start), durationSeconds);
+      const end = Math.min(Math.max(start, beat.end), durationSeconds);
+      return { ...beat, start, end };
+    });
+}
+
+/**
+ * 秒数を "0:05" 形式で表示
+ */
+export function formatTimecode(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 保存したJSONをビジュアル構成に変換（形式が不正な場合は undefined）
+ */
+export function parseVisualPlan(value: unknown): InstagramVisualPlan | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const plan = value as Record<string, unknown>;
+  if (plan.format === 'carousel' && Array.isArray(plan.slides)) {
+    return value as InstagramVisualPlan;
+  }
+  if (
+    plan.format === 'reels' &&
+    Array.isArray(plan.beats) &&
+    typeof plan.durationSeconds === 'number'
+  ) {
+    return value as InstagramVisualPlan;
+  }
+
+  return undefined;
+}
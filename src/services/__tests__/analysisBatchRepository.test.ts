@@ -0,0 +1,180 @@
+/**
+ * AnalysisBatchRepository Tests
+ *
+ * Tests for batch job progress, row claiming and recovering interrupted rows
+ */
+
+import {
+  STALE_ITEM_TIMEOUT_MS,
+  claimBatchItem,
+  createAnalysisBatch,
+  listPendingItemIds,
+  releaseBatchItem,
+  toAnalysisBatchProgress,
+} from '../analysisBatchRepository';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    analysisBatch: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    analysisBatchItem: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockedBatches = prisma.analysisBatch as unknown as Record<string, jest.Mock>;
+const mockedItems = prisma.analysisBatchItem as unknown as Record<string, jest.Mock>;
+
+const createdAt = new Date('2026-03-01T09:00:00Z');
+
+const batch = {
+  id: 'batch-1',
+  userId: 'user-1',
+  source: 'csv',
+  createdAt,
+  updatedAt: createdAt,
+};
+
+function itemRecord(
+  row: number,
+  status: 'pending' | 'processing' | 'succeeded' | 'failed',
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id: `item-${row}`,
+    batchId: 'batch-1',
+    row,
+    url: null,
+    content: `投稿${row}`,
+    platform: 'threads' as const,
+    impressions: null,
+    status,
+    attempts: status === 'pending' ? 0 : 1,
+    analysisId: status === 'succeeded' ? `analysis-${row}` : null,
+    errorMessage: null,
+    startedAt: null,
+    finishedAt: null,
+    ...overrides,
+  };
+}
+
+describe('AnalysisBatchRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toAnalysisBatchProgress', () => {
+    it('should count rows by status and order them by row number', () => {
+      const progress = toAnalysisBatchProgress(batch, [
+        itemRecord(3, 'pending'),
+        itemRecord(1, 'succeeded'),
+        itemRecord(2, 'processing'),
+      ]);
+
+      expect(progress).toMatchObject({
+        status: 'running',
+        total: 3,
+        pending: 1,
+        processing: 1,
+        succeeded: 1,
+        failed: 0,
+      });
+      expect(progress.items.map((item) => item.row)).toEqual([1, 2, 3]);
+      expect(progress.items[0].analysisId).toBe('analysis-1');
+    });
+
+    it('should stay pending when only rows rejected at upload have failed', () => {
+      const progress = toAnalysisBatchProgress(batch, [
+        itemRecord(1, 'failed', { attempts: 0, errorMessage: 'content or url is required' }),
+        itemRecord(2, 'pending'),
+      ]);
+
+      expect(progress.status).toBe('pending');
+      expect(progress.items[0].error).toBe('content or url is required');
+      expect(toAnalysisBatchProgress(batch, [itemRecord(1, 'failed')]).status).toBe(
+        'completed'
+      );
+    });
+  });
+
+  describe('createAnalysisBatch', () => {
+    it('should store invalid rows as failed with their reason', async () => {
+      mockedBatches.create.mockResolvedValue({ ...batch, items: [] });
+
+      await createAnalysisBatch('user-1', 'csv', [
+        { row: 1, content: '本文', platform: 'threads', impressions: 1200 },
+        { row: 2, error: 'content or url is required' },
+      ]);
+
+      const { items } = mockedBatches.create.mock.calls[0][0].data;
+      expect(items.create[0]).toMatchObject({
+        row: 1,
+        status: 'pending',
+        impressions: 1200,
+        errorMessage: null,
+      });
+      expect(items.create[1]).toMatchObject({
+        row: 2,
+        status: 'failed',
+        errorMessage: 'content or url is required',
+      });
+    });
+  });
+
+  describe('claimBatchItem', () => {
+    it('should only return the row when this worker claimed it', async () => {
+      mockedItems.updateMany.mockResolvedValueOnce({ count: 0 });
+      expect(await claimBatchItem('item-1')).toBeNull();
+      expect(mockedItems.findUnique).not.toHaveBeenCalled();
+
+      mockedItems.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockedItems.findUnique.mockResolvedValue(itemRecord(1, 'processing'));
+      expect(await claimBatchItem('item-1')).toMatchObject({ id: 'item-1', status: 'processing' });
+      expect(mockedItems.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'item-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'processing', attempts: { increment: 1 } }),
+      });
+    });
+  });
+
+  describe('releaseBatchItem', () => {
+    it('should put a claimed row back to pending without counting the attempt', async () => {
+      mockedItems.updateMany.mockResolvedValue({ count: 1 });
+
+      await releaseBatchItem('item-1');
+
+      expect(mockedItems.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', status: 'processing' },
+        data: { status: 'pending', startedAt: null, attempts: { decrement: 1 } },
+      });
+    });
+  });
+
+  describe('listPendingItemIds', () => {
+    it('should requeue rows left processing past the timeout', async () => {
+      const now = new Date('2026-03-01T10:00:00Z');
+      mockedItems.updateMany.mockResolvedValue({ count: 1 });
+      mockedItems.findMany.mockResolvedValue([{ id: 'item-1' }, { id: 'item-2' }]);
+
+      const ids = await listPendingItemIds('batch-1', now);
+
+      expect(mockedItems.updateMany).toHaveBeenCalledWith({
+        where: {
+          batchId: 'batch-1',
+          status: 'processing',
+          startedAt: { lt: new Date(now.getTime() - STALE_ITEM_TIMEOUT_MS) },
+        },
+        data: { status: 'pending', startedAt: null },
+      });
+      expect(ids).toEqual(['item-1', 'item-2']);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * AnalysisRepository Tests
+ *
+ * Tests for persisting and querying buzz analyses
+ */
+
+import {
+  saveAnalysis,
+  listAnalyses,
+  getAnalysis,
+  deleteAnalysis,
+  toBuzzAnalysis,
+  normalizePagination,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from '../analysisRepository';
+import { prisma } from '../../lib/prisma';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    buzzAnalysis: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma.buzzAnalysis as unknown as Record<string, jest.Mock>;
+
+const createdAt = new Date('2026-01-15T10:00:00Z');
+
+const record = {
+  id: 'analysis-1',
+  userId: 'user-1',
+  platform: 'threads' as const,
+  originalUrl: 'https://threads.net/@user/post/1',
+  author: null,
+  impressions: 50000,
+  engagement: 12,
+  metricsSource: 'observed' as const,
+  transcript: '副業で月100万稼げるようになった話',
+  createdAt,
+  updatedAt: createdAt,
+  promptVersion: null,
+  hook: '1年前、貯金0円だった',
+  mainPoints: JSON.stringify(['継続', '発信']),
+  cta: 'フォローしてね',
+  emotionalTriggers: JSON.stringify(['共感']),
+  keyPoints: JSON.stringify(['具体的な数字']),
+};
+
+const analysis: BuzzAnalysis = {
+  id: 'temp-id',
+  platform: 'threads',
+  originalUrl: 'https://threads.net/@user/post/1',
+  impressions: 50000.4,
+  engagement: 12.2,
+  transcript: '副業で月100万稼げるようになった話',
+  keyPoints: ['具体的な数字'],
+  structure: {
+    hook: '1年前、貯金0円だった',
+    mainPoints: ['継続', '発信'],
+    cta: 'フォローしてね',
+    emotionalTriggers: ['共感'],
+  },
+  analyzedAt: new Date(),
+};
+
+describe('AnalysisRepository', () => {
+  describe('toBuzzAnalysis', () => {
+    it('should parse JSON columns into arrays', () => {
+      const result = toBuzzAnalysis(record);
+
+      expect(result.id).toBe('analysis-1');
+      expect(result.keyPoints).toEqual(['具体的な数字']);
+      expect(result.structure).toEqual({
+        hook: '1年前、貯金0円だった',
+        mainPoints: ['継続', '発信'],
+        cta: 'フォローしてね',
+        emotionalTriggers: ['共感'],
+      });
+      expect(result.analyzedAt).toBe(createdAt);
+    });
+
+    it('should tolerate null and malformed JSON columns', () => {
+      const result = toBuzzAnalysis({
+        ...record,
+        hook: null,
+        cta: null,
+        mainPoints: 'not-json',
+        emotionalTriggers: null,
+        keyPoints: '{"a":1}',
+      });
+
+      expect(result.structure.hook).toBe('');
+      expect(result.structure.cta).toBe('');
+      expect(result.structure.mainPoints).toEqual([]);
+      expect(result.structure.emotionalTriggers).toEqual([]);
+      expect(result.keyPoints).toEqual([]);
+    });
+  });
+
+  describe('saveAnalysis', () => {
+    it('should store the analysis for the user and return the saved record', async () => {
+      mockedDb.create.mockResolvedValue(record);
+
+      const saved = await saveAnalysis('user-1', analysis);
+
+      expect(mockedDb.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          platform: 'threads',
+          impressions: 50000,
+          engagement: 12,
+          metricsSource: 'estimated',
+          mainPoints: JSON.stringify(['継続', '発信']),
+          keyPoints: JSON.stringify(['具体的な数字']),
+        }),
+      });
+      expect(saved.id).toBe('analysis-1');
+      expect(saved.metricsSource).toBe('observed');
+    });
+  });
+
+  describe('normalizePagination', () => {
+    it('should apply defaults', () => {
+      expect(normalizePagination()).toEqual({ page: 1, limit: DEFAULT_PAGE_SIZE });
+    });
+
+    it('should clamp limit and reject invalid page', () => {
+      expect(normalizePagination(0, 1000)).toEqual({ page: 1, limit: MAX_PAGE_SIZE });
+      expect(normalizePagination(3, 5)).toEqual({ page: 3, limit: 5 });
+    });
+  });
+
+  describe('listAnalyses', () => {
+    it('should filter by user, platform and date range', async () => {
+      mockedDb.findMany.mockResolvedValue([record]);
+      mockedDb.count.mockResolvedValue(21);
+
+      const from = new Date('2026-01-01');
+      const to = new Date('2026-01-31');
+      const result = await listAnalyses('user-1', {
+        platform: 'threads',
+        from,
+        to,
+        page: 2,
+        limit: 10,
+      });
+
+      expect(mockedDb.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          platform: 'threads',
+          createdAt: { gte: from, lte: to },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 10,
+        take: 10,
+      });
+      expect(result.items).toHaveLength(1);
+      expect(result.total).toBe(21);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should only scope by user when no filters are given', async () => {
+      mockedDb.findMany.mockResolvedValue([]);
+      mockedDb.count.mockResolvedValue(0);
+
+      const result = await listAnalyses('user-1');
+
+      expect(mockedDb.count).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('getAnalysis', () => {
+    it('should return null for missing or foreign records', async () => {
+      mockedDb.findFirst.mockResolvedValue(null);
+
+      await expect(getAnalysis('user-2', 'analysis-1')).resolves.toBeNull();
+      expect(mockedDb.findFirst).toHaveBeenCalledWith({
+        where: { id: 'analysis-1', userId: 'user-2' },
+      });
+    });
+  });
+
+  describe('deleteAnalysis', () => {
+    it('should report whether a record was deleted', async () => {
+      mockedDb.deleteMany.mockResolvedValueOnce({ count: 1 });
+      mockedDb.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(deleteAnalysis('user-1', 'analysis-1')).resolves.toBe(true);
+      await expect(deleteAnalysis('user-1', 'missing')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API Key Repository Tests
+ *
+ * Tests for encrypting per-user Claude API keys and resolving the key for a request
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  ApiKeyError,
+  getApiKeyStatus,
+  resolveClaudeApiKey,
+  setUserApiKey,
+} from '../apiKeyRepository';
+import { EncryptionError, decryptSecret, encryptSecret } from '../../lib/encryption';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as { user: Record<string, jest.Mock> };
+
+const userKey = 'sk-ant-REDACTED';
+const serverKey = 'sk-ant-REDACTED';
+
+describe('Encryption', () => {
+  const key = randomBytes(32);
+
+  it('should round-trip a secret', () => {
+    const payload = encryptSecret(userKey, key);
+
+    expect(payload).toMatch(/^v1:/);
+    expect(payload).not.toContain(userKey);
+    expect(decryptSecret(payload, key)).toBe(userKey);
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret(userKey, key)).not.toBe(encryptSecret(userKey, key));
+  });
+
+  it('should reject tampered data and the wrong key', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret(userKey, key).split(':');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 0xff;
+
+    expect(() =>
+      decryptSecret([version, iv, tag, flipped.toString('base64')].join(':'), key)
+    ).toThrow(EncryptionError);
+    expect(() => decryptSecret(encryptSecret(userKey, key), randomBytes(32))).toThrow(
+      EncryptionError
+    );
+    expect(() => decryptSecret('plaintext', key)).toThrow(EncryptionError);
+  });
+
+  it('should reject a truncated auth tag', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret(userKey, key).split(':');
+    const truncated = Buffer.from(tag, 'base64').subarray(0, 4).toString('base64');
+
+    expect(() => decryptSecret([version, iv, truncated, ciphertext].join(':'), key)).toThrow(
+      EncryptionError
+    );
+  });
+});
+
+describe('ApiKeyRepository', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env = {
+      ...originalEnv,
+      API_KEY_ENCRYPTION_KEY: randomBytes(32).toString('base64'),
+      ANTHROPIC_API_KEY: serverKey,
+    };
+    delete process.env.CLAUDE_API_KEY;
+    delete process.env.SERVER_API_KEY_FALLBACK;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('setUserApiKey', () => {
+    it('should store only the encrypted key and a hint', async () => {
+      mockedDb.user.findUnique.mockResolvedValue(null);
+
+      await setUserApiKey('user-1', `  ${userKey}\n`);
+
+      const { data } = mockedDb.user.update.mock.calls[0][0];
+      expect(data.claudeApiKey).not.toContain(userKey);
+      expect(decryptSecret(data.claudeApiKey)).toBe(userKey);
+      expect(data.claudeApiKeyHint).toBe('1234');
+    });
+
+    it('should reject values that are not Claude API keys', async () => {
+      await expect(setUserApiKey('user-1', 'not-a-key')).rejects.toMatchObject({
+        code: 'invalid_format',
+      });
+      expect(mockedDb.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the encryption key is not configured', async () => {
+      delete process.env.API_KEY_ENCRYPTION_KEY;
+
+      await expect(setUserApiKey('user-1', userKey)).rejects.toMatchObject({
+        name: 'EncryptionError',
+        code: 'missing_key',
+      });
+    });
+  });
+
+  describe('getApiKeyStatus', () => {
+    it('should never expose the stored key', async () => {
+      mockedDb.user.findUnique.mockResolvedValue({
+        claudeApiKey: encryptSecret(userKey),
+        claudeApiKeyHint: '1234',
+        claudeApiKeyUpdatedAt: new Date('2026-03-01T00:00:00Z'),
+      });
+
+      const status = await getApiKeyStatus('user-1');
+
+      expect(status).toEqual({
+        hasUserKey: true,
+        hint: '1234',
+        updatedAt: new Date('2026-03-01T00:00:00Z'),
+        serverFallbackAllowed: true,
+      });
+    });
+  });
+
+  describe('resolveClaudeApiKey', () => {
+    it("should prefer the user's own key", async () => {
+      mockedDb.user.findUnique.mockResolvedValue({ claudeApiKey: encryptSecret(userKey) });
+
+      await expect(resolveClaudeApiKey('user-1')).resolves.toEqual({
+        apiKey: userKey,
+        source: 'user',
+      });
+    });
+
+    it('should fall back to the server key', async () => {
+      mockedDb.user.findUnique.mockResolvedValue({ claudeApiKey: null });
+
+      await expect(resolveClaudeApiKey('user-1')).resolves.toEqual({
+        apiKey: serverKey,
+        source: 'server',
+      });
+      await expect(resolveClaudeApiKey(null)).resolves.toMatchObject({ source: 'server' });
+    });
+
+    it('should not use the server key when fallback is disabled', async () => {
+      process.env.SERVER_API_KEY_FALLBACK = 'false';
+      mockedDb.user.findUnique.mockResolvedValue({ claudeApiKey: null });
+
+      const error = await resolveClaudeApiKey('user-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiKeyError);
+      expect(error.code).toBe('not_configured');
+    });
+
+    it('should report a key that can no longer be decrypted', async () => {
+      mockedDb.user.findUnique.mockResolvedValue({
+        claudeApiKey: encryptSecret(userKey, randomBytes(32)),
+      });
+
+      await expect(resolveClaudeApiKey('user-1')).rejects.toMatchObject({ code: 'unreadable' });
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Batch Analysis Tests
+ *
+ * Tests for validating uploaded rows, the bounded worker pool and exporting results
+ */
+
+import {
+  BatchAnalysisRunner,
+  batchResultsToCsv,
+  normalizeBatchRows,
+  runWithConcurrency,
+} from '../batchAnalysis';
+import {
+  claimBatchItem,
+  completeBatchItem,
+  failBatchItem,
+  listPendingItemIds,
+  releaseBatchItem,
+  type AnalysisBatchItem,
+  type AnalysisBatchItemWithAnalysis,
+} from '../analysisBatchRepository';
+import { saveAnalysis } from '../analysisRepository';
+import { UsageLimitError } from '../usageRepository';
+import { ClaudeAPIError } from '../../lib/claude';
+import type { BuzzAnalysis, Platform } from '../../types/index';
+
+jest.mock('../analysisBatchRepository', () => ({
+  claimBatchItem: jest.fn(),
+  completeBatchItem: jest.fn(),
+  failBatchItem: jest.fn(),
+  listPendingItemIds: jest.fn(),
+  releaseBatchItem: jest.fn(),
+}));
+
+jest.mock('../analysisRepository', () => ({
+  saveAnalysis: jest.fn(),
+}));
+
+jest.mock('../hookLibraryRepository', () => ({
+  collectHook: jest.fn(),
+}));
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const mockedClaim = claimBatchItem as jest.Mock;
+const mockedComplete = completeBatchItem as jest.Mock;
+const mockedFail = failBatchItem as jest.Mock;
+const mockedPending = listPendingItemIds as jest.Mock;
+const mockedRelease = releaseBatchItem as jest.Mock;
+const mockedSave = saveAnalysis as jest.Mock;
+
+function createAnalysis(platform: Platform, overrides: Partial<BuzzAnalysis> = {}): BuzzAnalysis {
+  return {
+    id: 'temp-id',
+    platform,
+    originalUrl: 'manual-input',
+    impressions: 30000,
+    engagement: 4,
+    transcript: '本文',
+    keyPoints: ['数字', '共感'],
+    structure: {
+      hook: '1年前、貯金0円だった',
+      mainPoints: ['継続'],
+      cta: '保存してね',
+      emotionalTriggers: ['共感'],
+    },
+    analyzedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createItem(id: string, overrides: Partial<AnalysisBatchItem> = {}): AnalysisBatchItem {
+  return {
+    id,
+    row: Number(id.replace('item-', '')),
+    content: `投稿${id}`,
+    platform: 'threads',
+    status: 'processing',
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+describe('BatchAnalysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedSave.mockImplementation(async (_userId: string, analysis: BuzzAnalysis) => ({
+      ...analysis,
+      id: `saved-${analysis.transcript}`,
+    }));
+  });
+
+  describe('normalizeBatchRows', () => {
+    it('should accept rows with content or a post URL and infer the platform from the URL', () => {
+      const rows = normalizeBatchRows([
+        { URL: 'https://x.com/buzz_writer/status/123', Impressions: '12,400' },
+        { content: '朝活のすすめ', platform: 'Threads' },
+      ]);
+
+      expect(rows).toEqual([
+        {
+          row: 1,
+          url: 'https://x.com/buzz_writer/status/123',
+          platform: 'twitter',
+          impressions: 12400,
+        },
+        { row: 2, content: '朝活のすすめ', platform: 'threads' },
+      ]);
+    });
+
+    it('should keep invalid rows with the reason instead of dropping them', () => {
+      const rows = normalizeBatchRows([
+        { content: '本文', platform: 'tiktok' },
+        { url: 'https://example.com/post/1', platform: 'threads' },
+        { content: '本文', platform: 'instagram', url: 'https://x.com/a/status/1' },
+        { content: 'a'.repeat(10001), platform: 'threads' },
+        { content: '本文', platform: 'threads', impressions: 'many' },
+        'not-an-object',
+      ]);
+
+      expect(rows.map((row) => row.error)).toEqual([
+        'Valid platform is required (threads, instagram, twitter)',
+        'url must be a Threads, Instagram or X (Twitter) post URL when content is empty',
+        'url is a twitter post but platform is instagram',
+        'content exceeds maximum length of 10000 characters',
+        'impressions must be a non-negative number',
+        'Row must be an object',
+      ]);
+      expect(rows[5].row).toBe(6);
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('should never run more workers than the limit', async () => {
+      let active = 0;
+      let peak = 0;
+      const done: number[] = [];
+
+      await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        done.push(n);
+        active--;
+      });
+
+      expect(peak).toBe(3);
+      expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+  });
+
+  describe('BatchAnalysisRunner', () => {
+    it('should analyze pending rows, apply uploaded impressions and record failures per row', async () => {
+      mockedPending.mockResolvedValue(['item-1', 'item-2', 'item-3']);
+      mockedClaim.mockImplementation(async (id: string) =>
+        id === 'item-3' ? null : createItem(id, id === 'item-1' ? { impressions: 50000 } : {})
+      );
+      const client = {
+        analyzeBuzzContent: jest.fn(async (_url: string, content: string, platform: Platform) => {
+          if (content === '投稿item-2') throw new ClaudeAPIError('Invalid JSON', 'parse_error');
+          return createAnalysis(platform, { transcript: content });
+        }),
+      };
+
+      const runner = new BatchAnalysisRunner({ client, concurrency: 2 });
+      const summary = await runner.run('user-1', 'batch-1');
+
+      expect(summary).toEqual({ processed: 2, succeeded: 1, failed: 1 });
+      expect(mockedSave).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ impressions: 50000, transcript: '投稿item-1' })
+      );
+      expect(mockedComplete).toHaveBeenCalledWith('item-1', 'saved-投稿item-1');
+      expect(mockedFail).toHaveBeenCalledWith('item-2', 'Invalid JSON');
+    });
+
+    it('should wait and retry when the rate limiter rejects a request', async () => {
+      mockedPending.mockResolvedValue(['item-1']);
+      mockedClaim.mockResolvedValue(createItem('item-1'));
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const client = {
+        analyzeBuzzContent: jest
+          .fn()
+          .mockRejectedValueOnce(new UsageLimitError('Too many AI requests', 'rate_limited', 2000))
+          .mockRejectedValueOnce(new ClaudeAPIError('Rate limit exceeded', 'rate_limit', 429, 5000))
+          .mockResolvedValue(createAnalysis('threads')),
+      };
+
+      const runner = new BatchAnalysisRunner({ client, sleep });
+      const summary = await runner.run('user-1', 'batch-1');
+
+      expect(sleep.mock.calls).toEqual([[2000], [5000]]);
+      expect(summary.succeeded).toBe(1);
+    });
+
+    it('should put the row back and stop every worker when the budget is exhausted', async () => {
+      mockedPending.mockResolvedValue(['item-1', 'item-2', 'item-3', 'item-4']);
+      mockedClaim.mockImplementation(async (id: string) => createItem(id));
+      const sleep = jest.fn();
+      const client = {
+        analyzeBuzzContent: jest.fn(async (_url: string, content: string, platform: Platform) => {
+          if (content === '投稿item-1') {
+            throw new UsageLimitError('Budget exceeded', 'cost_budget_exceeded');
+          }
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return createAnalysis(platform, { transcript: content });
+        }),
+      };
+
+      const runner = new BatchAnalysisRunner({ client, concurrency: 2, sleep });
+      const summary = await runner.run('user-1', 'batch-1');
+
+      expect(summary).toEqual({
+        processed: 1,
+        succeeded: 1,
+        failed: 0,
+        stopped: 'cost_budget_exceeded',
+      });
+      expect(sleep).not.toHaveBeenCalled();
+      expect(mockedRelease).toHaveBeenCalledWith('item-1');
+      expect(mockedFail).not.toHaveBeenCalled();
+      expect(mockedClaim.mock.calls.map(([id]) => id)).toEqual(['item-1', 'item-2']);
+    });
+
+    it('should resume the rows left pending once the budget allows it', async () => {
+      mockedPending.mockResolvedValue(['item-1', 'item-3', 'item-4']);
+      mockedClaim.mockImplementation(async (id: string) => createItem(id));
+      const client = {
+        analyzeBuzzContent: jest.fn(async (_url: string, content: string, platform: Platform) =>
+          createAnalysis(platform, { transcript: content })
+        ),
+      };
+
+      const summary = await new BatchAnalysisRunner({ client }).run('user-1', 'batch-1');
+
+      expect(summary).toEqual({ processed: 3, succeeded: 3, failed: 0 });
+      expect(mockedComplete.mock.calls.map(([id]) => id).sort()).toEqual([
+        'item-1',
+        'item-3',
+        'item-4',
+      ]);
+    });
+
+    it('should ingest the post text when a row only has a URL', async () => {
+      mockedPending.mockResolvedValue(['item-1']);
+      mockedClaim.mockResolvedValue(
+        createItem('item-1', {
+          content: undefined,
+          url: 'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd',
+        })
+      );
+      const ingestor = {
+        ingest: jest.fn().mockResolvedValue({
+          platform: 'threads',
+          url: 'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd',
+          text: '取り込んだ本文',
+          author: 'fukugyo.mama',
+          metrics: { likes: 900, comments: 60, reposts: 40 },
+        }),
+      };
+      const client = { analyzeBuzzContent: jest.fn().mockResolvedValue(createAnalysis('threads')) };
+
+      await new BatchAnalysisRunner({ client, ingestor }).run('user-1', 'batch-1');
+
+      expect(client.analyzeBuzzContent).toHaveBeenCalledWith(
+        'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd',
+        '取り込んだ本文',
+        'threads'
+      );
+      expect(mockedSave).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ author: 'fukugyo.mama', impressions: 30000 })
+      );
+    });
+  });
+
+  describe('batchResultsToCsv', () => {
+    it('should include failed rows with their reason and quote fields', () => {
+      const items: AnalysisBatchItemWithAnalysis[] = [
+        {
+          ...createItem('item-1', { status: 'succeeded', analysisId: 'analysis-1' }),
+          analysis: createAnalysis('threads', {
+            structure: {
+              hook: '"1年前"、貯金0円',
+              mainPoints: ['継続', '発信'],
+              cta: '保存してね',
+              emotionalTriggers: ['共感'],
+            },
+          }),
+        },
+        createItem('item-2', { status: 'failed', error: 'content or url is required' }),
+      ];
+
+      const lines = batchResultsToCsv(items).trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe(
+        'row,status,url,platform,analysisId,impressions,engagement,hook,mainPoints,cta,emotionalTriggers,keyPoints,error'
+      );
+      expect(lines[1]).toBe(
+        '1,succeeded,,threads,analysis-1,30000,4,"""1年前""、貯金0円",継続 / 発信,保存してね,共感,数字 / 共感,'
+      );
+      expect(lines[2]).toBe('2,failed,,threads,,,,,,,,,content or url is required');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Brand Voice Repository Tests
+ *
+ * Tests for extracting and storing a user's brand voice profile
+ */
+
+import {
+  BrandVoiceError,
+  deleteBrandVoice,
+  getBrandVoice,
+  saveBrandVoice,
+} from '../brandVoiceRepository';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    brandVoiceProfile: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as { brandVoiceProfile: Record<string, jest.Mock> };
+
+const updatedAt = new Date('2026-03-01T00:00:00Z');
+
+const record = {
+  id: 'voice-1',
+  userId: 'user-1',
+  sampleCount: 3,
+  averageSentenceLength: 14.5,
+  emojiPerPost: 1,
+  topEmojis: '["☀"]',
+  vocabulary: '["朝活","読書"]',
+  signaturePhrases: '["今日も一歩ずつ"]',
+  bannedWords: '["副業"]',
+  createdAt: updatedAt,
+  updatedAt,
+};
+
+const posts = [
+  '朝活で読書☀️ 今日も一歩ずつ。',
+  '朝活の準備は前日の夜から。今日も一歩ずつ。',
+  '読書の記録をつけています☀️',
+];
+
+describe('brandVoiceRepository', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should map the stored profile', async () => {
+    mockedDb.brandVoiceProfile.findUnique.mockResolvedValue(record);
+
+    await expect(getBrandVoice('user-1')).resolves.toEqual({
+      sampleCount: 3,
+      averageSentenceLength: 14.5,
+      emojiPerPost: 1,
+      topEmojis: ['☀'],
+      vocabulary: ['朝活', '読書'],
+      signaturePhrases: ['今日も一歩ずつ'],
+      bannedWords: ['副業'],
+      updatedAt,
+    });
+  });
+
+  it('should return null when no profile is stored', async () => {
+    mockedDb.brandVoiceProfile.findUnique.mockResolvedValue(null);
+
+    await expect(getBrandVoice('user-1')).resolves.toBeNull();
+  });
+
+  it('should extract the profile from posts without storing the posts', async () => {
+    mockedDb.brandVoiceProfile.upsert.mockResolvedValue(record);
+
+    await saveBrandVoice('user-1', { posts: [...posts, '  '], bannedWords: ['副業', '副業 '] });
+
+    const { create, update } = mockedDb.brandVoiceProfile.upsert.mock.calls[0][0];
+    expect(create).toMatchObject({ userId: 'user-1', sampleCount: 3, bannedWords: '["副業"]' });
+    expect(JSON.parse(update.vocabulary)).toEqual(expect.arrayContaining(['朝活', '読書']));
+    expect(JSON.parse(update.signaturePhrases)).toEqual(['今日も一歩ずつ']);
+    expect(JSON.stringify(update)).not.toContain('前日の夜から');
+    expect(mockedDb.brandVoiceProfile.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should keep the stored banned words when re-extracting', async () => {
+    mockedDb.brandVoiceProfile.findUnique.mockResolvedValue({ bannedWords: '["読書"]' });
+    mockedDb.brandVoiceProfile.upsert.mockResolvedValue(record);
+
+    await saveBrandVoice('user-1', { posts });
+
+    const { update } = mockedDb.brandVoiceProfile.upsert.mock.calls[0][0];
+    expect(update.bannedWords).toBe('["読書"]');
+    expect(JSON.parse(update.vocabulary)).not.toContain('読書');
+  });
+
+  it('should update only the banned words of an existing profile', async () => {
+    mockedDb.brandVoiceProfile.findUnique.mockResolvedValue(record);
+    mockedDb.brandVoiceProfile.update.mockResolvedValue({ ...record, bannedWords: '["炎上"]' });
+
+    const profile = await saveBrandVoice('user-1', { bannedWords: ['炎上'] });
+
+    expect(mockedDb.brandVoiceProfile.update).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: { bannedWords: '["炎上"]' },
+    });
+    expect(profile.bannedWords).toEqual(['炎上']);
+  });
+
+  it('should reject too few posts and updating a missing profile', async () => {
+    await expect(saveBrandVoice('user-1', { posts: posts.slice(0, 2) })).rejects.toMatchObject({
+      code: 'invalid_request',
+    });
+
+    mockedDb.brandVoiceProfile.findUnique.mockResolvedValue(null);
+    await expect(saveBrandVoice('user-1', { bannedWords: ['炎上'] })).rejects.toMatchObject({
+      code: 'not_found',
+    });
+    await expect(saveBrandVoice('user-1', {})).rejects.toBeInstanceOf(BrandVoiceError);
+    expect(mockedDb.brandVoiceProfile.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should delete the profile', async () => {
+    mockedDb.brandVoiceProfile.deleteMany.mockResolvedValue({ count: 1 });
+
+    await expect(deleteBrandVoice('user-1')).resolves.toBe(true);
+    expect(mockedDb.brandVoiceProfile.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * ContentSearch Tests
+ *
+ * Tests for searching saved analyses and drafts with filters
+ */
+
+import { searchContent } from '../contentSearch';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    buzzAnalysis: { findMany: jest.fn() },
+    optimizedContent: { findMany: jest.fn() },
+  },
+}));
+
+const mockedAnalyses = prisma.buzzAnalysis as unknown as Record<string, jest.Mock>;
+const mockedDrafts = prisma.optimizedContent as unknown as Record<string, jest.Mock>;
+
+const analyses = [
+  {
+    id: 'analysis-1',
+    platform: 'threads',
+    transcript: '朝活で人生が変わった話',
+    keyPoints: '["副業の時間を朝に作った"]',
+    createdAt: new Date('2026-03-01T09:00:00Z'),
+  },
+  {
+    id: 'analysis-2',
+    platform: 'twitter',
+    transcript: '筋トレを続けるコツ',
+    keyPoints: '[]',
+    createdAt: new Date('2026-03-02T09:00:00Z'),
+  },
+];
+
+const drafts = [
+  {
+    id: 'draft-1',
+    targetPlatform: 'threads',
+    mode: 'impression',
+    content: '副業で月5万円稼ぐまでにやったこと',
+    originalAnalysisId: 'analysis-1',
+    createdAt: new Date('2026-03-03T09:00:00Z'),
+  },
+];
+
+describe('ContentSearch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAnalyses.findMany.mockResolvedValue(analyses);
+    mockedDrafts.findMany.mockResolvedValue(drafts);
+  });
+
+  it('should search transcripts, key points and drafts together', async () => {
+    const result = await searchContent('user-1', { q: '副業' });
+
+    expect(result.total).toBe(2);
+    expect(result.hits.map((hit) => [hit.type, hit.id, hit.field])).toEqual(
+      expect.arrayContaining([
+        ['analysis', 'analysis-1', 'keyPoints'],
+        ['draft', 'draft-1', 'content'],
+      ])
+    );
+    expect(result.hits.find((hit) => hit.type === 'draft')).toMatchObject({
+      mode: 'impression',
+      analysisId: 'analysis-1',
+    });
+  });
+
+  it('should pass platform and date filters to both queries', async () => {
+    const from = new Date('2026-03-01T00:00:00Z');
+    await searchContent('user-1', { q: '副業', platform: 'threads', from });
+
+    expect(mockedAnalyses.findMany.mock.calls[0][0].where).toEqual({
+      userId: 'user-1',
+      platform: 'threads',
+      createdAt: { gte: from },
+    });
+    expect(mockedDrafts.findMany.mock.calls[0][0].where).toEqual({
+      userId: 'user-1',
+      targetPlatform: 'threads',
+      createdAt: { gte: from },
+    });
+  });
+
+  it('should only search drafts when a mode is given', async () => {
+    const result = await searchContent('user-1', { q: '副業', mode: 'impression' });
+
+    expect(mockedAnalyses.findMany).not.toHaveBeenCalled();
+    expect(mockedDrafts.findMany.mock.calls[0][0].where).toMatchObject({ mode: 'impression' });
+    expect(result.hits.map((hit) => hit.id)).toEqual(['draft-1']);
+  });
+
+  it('should rank by local similarity in semantic mode', async () => {
+    const result = await searchContent('user-1', {
+      q: '筋トレが続かない',
+      match: 'semantic',
+      types: ['analysis'],
+    });
+
+    expect(mockedDrafts.findMany).not.toHaveBeenCalled();
+    expect(result.hits[0]).toMatchObject({ id: 'analysis-2', field: 'transcript' });
+    expect(result.match).toBe('semantic');
+  });
+});
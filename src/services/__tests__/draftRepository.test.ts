@@ -0,0 +1,255 @@
+/**
+ * DraftRepository Tests
+ *
+ * Tests for persisting optimized content drafts and lineage queries
+ */
+
+import {
+  saveDraft,
+  listDrafts,
+  listDraftsForAnalysis,
+  updateDraft,
+  deleteDraft,
+  toOptimizedContent,
+} from '../draftRepository';
+import { prisma } from '../../lib/prisma';
+import type { OptimizedContent } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    buzzAnalysis: {
+      findFirst: jest.fn(),
+    },
+    optimizedContent: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedAnalyses = prisma.buzzAnalysis as unknown as Record<string, jest.Mock>;
+const mockedDrafts = prisma.optimizedContent as unknown as Record<string, jest.Mock>;
+
+const createdAt = new Date('2026-02-01T09:00:00Z');
+const bestPostTime = new Date('2026-02-01T12:00:00Z');
+
+const record = {
+  id: 'draft-1',
+  userId: 'user-1',
+  originalAnalysisId: 'analysis-1',
+  targetPlatform: 'twitter' as const,
+  content: '成功者に共通する3つの習慣',
+  segments: null,
+  visualPlan: null,
+  hashtags: JSON.stringify(['習慣', '自己投資']),
+  bestPostTime,
+  expectedImpressions: 12000,
+  mode: 'impression' as const,
+  createdAt,
+  updatedAt: createdAt,
+  promptVersion: null,
+  voiceMatchScore: null,
+};
+
+const draft: OptimizedContent = {
+  id: 'temp-id',
+  originalAnalysisId: 'analysis-1',
+  targetPlatform: 'twitter',
+  content: '成功者に共通する3つの習慣',
+  hashtags: ['習慣', '自己投資'],
+  bestPostTime,
+  expectedImpressions: 12000,
+  mode: 'impression',
+  createdAt: new Date(),
+};
+
+describe('DraftRepository', () => {
+  describe('toOptimizedContent', () => {
+    it('should map a record to the domain model', () => {
+      const result = toOptimizedContent(record);
+
+      expect(result.id).toBe('draft-1');
+      expect(result.hashtags).toEqual(['習慣', '自己投資']);
+      expect(result.bestPostTime).toBe(bestPostTime);
+    });
+
+    it('should handle drafts whose source analysis was deleted', () => {
+      const result = toOptimizedContent({
+        ...record,
+        originalAnalysisId: null,
+        bestPostTime: null,
+        hashtags: null,
+      });
+
+      expect(result.originalAnalysisId).toBe('');
+      expect(result.bestPostTime).toBe(createdAt);
+      expect(result.hashtags).toEqual([]);
+    });
+
+    it('should map thread segments only for multi-part drafts', () => {
+      expect(toOptimizedContent(record).segments).toBeUndefined();
+      expect(
+        toOptimizedContent({ ...record, segments: JSON.stringify(['冒頭\n1/2', 'CTA\n2/2']) })
+          .segments
+      ).toEqual(['冒頭\n1/2', 'CTA\n2/2']);
+    });
+  });
+
+  describe('saveDraft', () => {
+    it('should link the draft to the user-owned source analysis', async () => {
+      mockedAnalyses.findFirst.mockResolvedValue({ id: 'analysis-1' });
+      mockedDrafts.create.mockResolvedValue(record);
+
+      const saved = await saveDraft('user-1', draft);
+
+      expect(mockedAnalyses.findFirst).toHaveBeenCalledWith({
+        where: { id: 'analysis-1', userId: 'user-1' },
+        select: { id: true },
+      });
+      expect(mockedDrafts.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          originalAnalysisId: 'analysis-1',
+          hashtags: JSON.stringify(['習慣', '自己投資']),
+        }),
+      });
+      expect(saved.id).toBe('draft-1');
+    });
+
+    it('should not link an analysis the user does not own', async () => {
+      mockedAnalyses.findFirst.mockResolvedValue(null);
+      mockedDrafts.create.mockResolvedValue({ ...record, originalAnalysisId: null });
+
+      await saveDraft('user-2', draft);
+
+      expect(mockedDrafts.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ originalAnalysisId: null }),
+      });
+    });
+
+    it('should store thread segments as JSON', async () => {
+      mockedAnalyses.findFirst.mockResolvedValue({ id: 'analysis-1' });
+      mockedDrafts.create.mockResolvedValue(record);
+
+      await saveDraft('user-1', { ...draft, segments: ['冒頭\n1/2', 'CTA\n2/2'] });
+
+      expect(mockedDrafts.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ segments: JSON.stringify(['冒頭\n1/2', 'CTA\n2/2']) }),
+      });
+    });
+
+    it('should store and restore an Instagram visual plan', async () => {
+      const visualPlan = {
+        format: 'carousel' as const,
+        slides: [{ title: '表紙', body: '本文', visual: '写真' }],
+      };
+      mockedAnalyses.findFirst.mockResolvedValue({ id: 'analysis-1' });
+      mockedDrafts.create.mockResolvedValue({ ...record, visualPlan: JSON.stringify(visualPlan) });
+
+      const saved = await saveDraft('user-1', { ...draft, visualPlan });
+
+      expect(mockedDrafts.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ visualPlan: JSON.stringify(visualPlan) }),
+      });
+      expect(saved.visualPlan).toEqual(visualPlan);
+    });
+
+    it('should skip the lookup when there is no source analysis', async () => {
+      mockedDrafts.create.mockResolvedValue({ ...record, originalAnalysisId: null });
+
+      await saveDraft('user-1', { ...draft, originalAnalysisId: '' });
+
+      expect(mockedAnalyses.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listDrafts', () => {
+    it('should filter by platform, mode and source analysis', async () => {
+      mockedDrafts.findMany.mockResolvedValue([record]);
+      mockedDrafts.count.mockResolvedValue(1);
+
+      const result = await listDrafts('user-1', {
+        platform: 'twitter',
+        mode: 'impression',
+        analysisId: 'analysis-1',
+      });
+
+      expect(mockedDrafts.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          targetPlatform: 'twitter',
+          mode: 'impression',
+          originalAnalysisId: 'analysis-1',
+        },
+      });
+      expect(result.items).toHaveLength(1);
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('listDraftsForAnalysis', () => {
+    it('should return every draft derived from the analysis', async () => {
+      mockedDrafts.findMany.mockResolvedValue([record, { ...record, id: 'draft-2' }]);
+
+      const result = await listDraftsForAnalysis('user-1', 'analysis-1');
+
+      expect(mockedDrafts.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', originalAnalysisId: 'analysis-1' },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(result.map((d) => d.id)).toEqual(['draft-1', 'draft-2']);
+    });
+  });
+
+  describe('updateDraft', () => {
+    it('should update only the provided fields', async () => {
+      mockedDrafts.updateMany.mockResolvedValue({ count: 1 });
+      mockedDrafts.findFirst.mockResolvedValue({ ...record, content: '編集済み' });
+
+      const result = await updateDraft('user-1', 'draft-1', { content: '編集済み' });
+
+      expect(mockedDrafts.updateMany).toHaveBeenCalledWith({
+        where: { id: 'draft-1', userId: 'user-1' },
+        data: { content: '編集済み', segments: null },
+      });
+      expect(result?.content).toBe('編集済み');
+    });
+
+    it('should rebuild the full text when thread segments are edited', async () => {
+      mockedDrafts.updateMany.mockResolvedValue({ count: 1 });
+      mockedDrafts.findFirst.mockResolvedValue(record);
+
+      await updateDraft('user-1', 'draft-1', { segments: ['冒頭\n1/2', 'CTA\n2/2'] });
+
+      expect(mockedDrafts.updateMany).toHaveBeenCalledWith({
+        where: { id: 'draft-1', userId: 'user-1' },
+        data: {
+          content: '冒頭\n1/2\n\nCTA\n2/2',
+          segments: JSON.stringify(['冒頭\n1/2', 'CTA\n2/2']),
+        },
+      });
+    });
+
+    it('should return null when the draft does not exist', async () => {
+      mockedDrafts.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        updateDraft('user-1', 'missing', { hashtags: ['a'] })
+      ).resolves.toBeNull();
+      expect(mockedDrafts.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteDraft', () => {
+    it('should report whether a draft was deleted', async () => {
+      mockedDrafts.deleteMany.mockResolvedValue({ count: 1 });
+
+      await expect(deleteDraft('user-1', 'draft-1')).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * HookLibraryRepository Tests
+ *
+ * Tests for collecting hooks from saved analyses, merging similar hooks and searching the library
+ */
+
+import { Prisma } from '@prisma/client';
+import { collectHook, listHooks, updateHookTags } from '../hookLibraryRepository';
+import { prisma } from '../../lib/prisma';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    hookLibraryEntry: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}));
+
+const mockedHooks = prisma.hookLibraryEntry as unknown as Record<string, jest.Mock>;
+
+const createdAt = new Date('2026-03-01T09:00:00Z');
+
+function hookRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'hook-1',
+    userId: 'user-1',
+    platform: 'threads' as const,
+    text: '1年前、貯金0円だった',
+    normalizedText: '1年前貯金0円だった',
+    emotionalTriggers: '["共感"]',
+    tags: '[]',
+    impressions: 10000,
+    engagement: 5,
+    sourceCount: 1,
+    sourceAnalysisId: 'analysis-1',
+    usageCount: 0,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+function createAnalysis(hook: string, overrides: Partial<BuzzAnalysis> = {}): BuzzAnalysis {
+  return {
+    id: 'analysis-2',
+    platform: 'threads',
+    originalUrl: 'manual-input',
+    impressions: 50000,
+    engagement: 8,
+    transcript: '本文',
+    keyPoints: [],
+    structure: { hook, mainPoints: [], cta: '', emotionalTriggers: ['希望'] },
+    analyzedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe('HookLibraryRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('collectHook', () => {
+    it('should add a new hook with the source performance', async () => {
+      mockedHooks.findMany.mockResolvedValue([hookRecord()]);
+      mockedHooks.create.mockImplementation(async ({ data }) =>
+        hookRecord({ id: 'hook-2', ...data })
+      );
+
+      const hook = await collectHook('user-1', createAnalysis('朝型と夜型、どっち派？'));
+
+      expect(mockedHooks.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', platform: 'threads' },
+      });
+      expect(mockedHooks.create.mock.calls[0][0].data).toEqual({
+        userId: 'user-1',
+        platform: 'threads',
+        text: '朝型と夜型、どっち派？',
+        normalizedText: '朝型と夜型どっち派',
+        emotionalTriggers: '["希望"]',
+        impressions: 50000,
+        engagement: 8,
+        sourceAnalysisId: 'analysis-2',
+      });
+      expect(hook).toMatchObject({ id: 'hook-2', emotionalTriggers: ['希望'], tags: [] });
+    });
+
+    it('should merge a similar hook and keep the best performing source', async () => {
+      mockedHooks.findMany.mockResolvedValue([hookRecord()]);
+      mockedHooks.update.mockResolvedValue(hookRecord({ sourceCount: 2 }));
+
+      await collectHook('user-1', createAnalysis('1年前、貯金0円だった。'));
+
+      expect(mockedHooks.create).not.toHaveBeenCalled();
+      expect(mockedHooks.update).toHaveBeenCalledWith({
+        where: { id: 'hook-1' },
+        data: {
+          sourceCount: { increment: 1 },
+          emotionalTriggers: '["共感","希望"]',
+          impressions: 50000,
+          engagement: 8,
+          sourceAnalysisId: 'analysis-2',
+        },
+      });
+
+      await collectHook(
+        'user-1',
+        createAnalysis('1年前、貯金0円だった', { impressions: 1000, engagement: 1 })
+      );
+
+      expect(mockedHooks.update.mock.calls[1][0].data).not.toHaveProperty('impressions');
+    });
+
+    it('should merge similar hooks collected at the same time', async () => {
+      const records: ReturnType<typeof hookRecord>[] = [];
+      mockedHooks.findMany.mockImplementation(async () => [...records]);
+      mockedHooks.create.mockImplementation(async ({ data }) => {
+        const record = hookRecord({ id: `hook-${records.length + 1}`, ...data });
+        records.push(record);
+        return record;
+      });
+      mockedHooks.update.mockImplementation(async () => records[0]);
+
+      await Promise.all([
+        collectHook('user-1', createAnalysis('朝型と夜型、どっち派？')),
+        collectHook('user-1', createAnalysis('朝型と夜型どっち派？')),
+        collectHook('user-1', createAnalysis('朝型と夜型、どっち派!?')),
+      ]);
+
+      expect(mockedHooks.create).toHaveBeenCalledTimes(1);
+      expect(mockedHooks.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should merge into the hook another instance created first', async () => {
+      mockedHooks.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([hookRecord()]);
+      mockedHooks.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        })
+      );
+      mockedHooks.update.mockResolvedValue(hookRecord({ sourceCount: 2 }));
+
+      const hook = await collectHook('user-1', createAnalysis('1年前、貯金0円だった'));
+
+      expect(mockedHooks.update.mock.calls[0][0].where).toEqual({ id: 'hook-1' });
+      expect(hook).toMatchObject({ id: 'hook-1', sourceCount: 2 });
+    });
+
+    it('should skip analyses without a hook and never throw', async () => {
+      expect(await collectHook('user-1', createAnalysis('  '))).toBeNull();
+      expect(mockedHooks.findMany).not.toHaveBeenCalled();
+
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockedHooks.findMany.mockRejectedValue(new Error('database is locked'));
+
+      expect(await collectHook('user-1', createAnalysis('朝型と夜型'))).toBeNull();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('listHooks', () => {
+    it('should search text, tags and triggers and rank by engagement', async () => {
+      mockedHooks.findMany.mockResolvedValue([hookRecord({ tags: '["副業"]' })]);
+      mockedHooks.count.mockResolvedValue(1);
+
+      const result = await listHooks('user-1', { q: '貯金', tag: '副業', platform: 'threads' });
+
+      expect(mockedHooks.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          platform: 'threads',
+          AND: [
+            {
+              OR: [
+                { text: { contains: '貯金' } },
+                { tags: { contains: '貯金' } },
+                { emotionalTriggers: { contains: '貯金' } },
+              ],
+            },
+            { tags: { contains: '"副業"' } },
+          ],
+        },
+        orderBy: [{ engagement: 'desc' }, { impressions: 'desc' }],
+        skip: 0,
+        take: 20,
+      });
+      expect(result.items[0].tags).toEqual(['副業']);
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('updateHookTags', () => {
+    it('should return null for hooks of other users', async () => {
+      mockedHooks.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await updateHookTags('user-2', 'hook-1', ['副業'])).toBeNull();
+      expect(mockedHooks.updateMany).toHaveBeenCalledWith({
+        where: { id: 'hook-1', userId: 'user-2' },
+        data: { tags: '["副業"]' },
+      });
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Metrics Ingestion Tests
+ *
+ * Tests for parsing analytics exports and aggregating stored events into UserBehaviorData
+ */
+
+import { normalizeRecords, parseCsv } from '../metricsIngestion';
+import { aggregateBehaviorData, buildBehaviorData, saveEvents } from '../metricsRepository';
+import { prisma } from '../../lib/prisma';
+import type { EngagementEvent } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    engagementEvent: {
+      upsert: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as {
+  $transaction: jest.Mock;
+  engagementEvent: Record<string, jest.Mock>;
+};
+
+const weekEnd = new Date('2026-03-08T00:00:00Z');
+
+function event(
+  type: EngagementEvent['type'],
+  occurredAt: string,
+  count: number = 1
+): EngagementEvent {
+  return { platform: 'threads', type, count, occurredAt: new Date(occurredAt) };
+}
+
+describe('MetricsIngestion', () => {
+  describe('parseCsv', () => {
+    it('should parse quoted fields, escaped quotes and CRLF line endings', () => {
+      const csv = '\uFEFFPost ID,Description,Saves\r\n1,"Hello, ""world""\nline 2",5\r\n\r\n';
+
+      expect(parseCsv(csv)).toEqual([
+        { 'Post ID': '1', Description: 'Hello, "world"\nline 2', Saves: '5' },
+      ]);
+    });
+
+    it('should return no records for an empty file', () => {
+      expect(parseCsv('')).toEqual([]);
+    });
+  });
+
+  describe('normalizeRecords', () => {
+    it('should accept generic event records', () => {
+      const { events, errors } = normalizeRecords('threads', [
+        { type: 'like_given', occurredAt: '2026-03-01T10:00:00Z', count: 12 },
+        { type: 'comment_given', occurredAt: '2026-03-01T11:00:00Z', externalId: 'c-1' },
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(events).toEqual([
+        {
+          platform: 'threads',
+          type: 'like_given',
+          count: 12,
+          occurredAt: new Date('2026-03-01T10:00:00Z'),
+        },
+        {
+          platform: 'threads',
+          type: 'comment_given',
+          count: 1,
+          occurredAt: new Date('2026-03-01T11:00:00Z'),
+          externalId: 'c-1',
+        },
+      ]);
+    });
+
+    it('should expand Instagram post exports into events', () => {
+      const records = parseCsv(
+        'Post ID,Publish time,Likes,Comments,Saves,Follows\n' +
+          '178,2026-03-02T12:00:00Z,"1,024",8,30,0\n'
+      );
+
+      const { events } = normalizeRecords('instagram', records);
+
+      expect(events.map((e) => [e.type, e.count, e.externalId])).toEqual([
+        ['post_published', 1, 'post_published:178'],
+        ['reply_received', 8, 'reply_received:178'],
+        ['saved_by_others', 30, 'saved_by_others:178'],
+      ]);
+    });
+
+    it('should map X analytics columns', () => {
+      const { events } = normalizeRecords('twitter', [
+        {
+          'Tweet id': '99',
+          time: '2026-03-03T08:00:00Z',
+          replies: '3',
+          'user profile clicks': '14',
+        },
+      ]);
+
+      expect(events.map((e) => e.type)).toEqual([
+        'post_published',
+        'reply_received',
+        'profile_visit',
+      ]);
+    });
+
+    it('should report invalid rows without dropping valid ones', () => {
+      const { events, errors } = normalizeRecords('threads', [
+        { type: 'unknown_type', occurredAt: '2026-03-01T10:00:00Z' },
+        { type: 'like_given', occurredAt: 'not a date' },
+        { type: 'like_given', occurredAt: '2026-03-01T10:00:00Z', count: -1 },
+        { replies: 3 },
+        { type: 'share_given', occurredAt: '2026-03-01T10:00:00Z' },
+      ]);
+
+      expect(events).toHaveLength(1);
+      expect(errors.map((e) => e.row)).toEqual([1, 2, 3, 4]);
+      expect(errors[0].message).toContain('unknown_type');
+    });
+  });
+
+  describe('aggregateBehaviorData', () => {
+    it('should sum this week events into behavior fields', () => {
+      const data = aggregateBehaviorData(
+        [
+          event('like_given', '2026-03-05T10:00:00Z', 30),
+          event('like_given', '2026-03-06T10:00:00Z', 12),
+          event('saved_by_others', '2026-03-07T10:00:00Z', 4),
+          // Previous week: not counted in weekly totals
+          event('like_given', '2026-02-27T10:00:00Z', 100),
+        ],
+        weekEnd
+      );
+
+      expect(data.likesGiven).toBe(42);
+      expect(data.savedByOthers).toBe(4);
+      expect(data.commentsGiven).toBe(0);
+    });
+
+    it('should derive posting frequency and timings from published posts', () => {
+      const data = aggregateBehaviorData(
+        [
+          // This week: 2 posts at 08:00 and 20:00 JST
+          event('post_published', '2026-03-05T23:00:00Z'),
+          event('post_published', '2026-03-06T11:00:00Z'),
+          // Last week: 3 posts
+          event('post_published', '2026-02-27T00:00:00Z'),
+          event('post_published', '2026-02-28T00:00:00Z'),
+          event('post_published', '2026-02-28T03:00:00Z'),
+          // Three weeks ago: 3 posts
+          event('post_published', '2026-02-15T00:00:00Z', 3),
+        ],
+        weekEnd,
+        'Asia/Tokyo'
+      );
+
+      expect(data.postsThisWeek).toBe(2);
+      expect(data.postsLastWeek).toBe(3);
+      expect(data.averagePostsPerWeek).toBe(2);
+      expect(data.postTimings).toEqual([8, 20]);
+    });
+
+    it('should return zeros when there are no events', () => {
+      const data = aggregateBehaviorData([], weekEnd);
+
+      expect(data.postsThisWeek).toBe(0);
+      expect(data.postTimings).toEqual([]);
+      expect(data.profileVisits).toBe(0);
+    });
+  });
+
+  describe('buildBehaviorData', () => {
+    it('should load the last four weeks of events for the platform', async () => {
+      mockedDb.engagementEvent.findMany.mockResolvedValue([
+        event('like_given', '2026-03-05T10:00:00Z', 5),
+        event('like_given', '2026-02-20T10:00:00Z', 5),
+      ]);
+
+      const result = await buildBehaviorData('user-1', 'threads', weekEnd);
+
+      expect(mockedDb.engagementEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          platform: 'threads',
+          occurredAt: { gte: new Date('2026-02-08T00:00:00Z'), lt: weekEnd },
+        },
+        select: { platform: true, type: true, count: true, occurredAt: true },
+      });
+      expect(result.data.likesGiven).toBe(5);
+      expect(result.eventCount).toBe(1);
+      expect(result.weekStart).toEqual(new Date('2026-03-01T00:00:00Z'));
+    });
+  });
+
+  describe('saveEvents', () => {
+    it('should upsert events with an external ID and create the rest', async () => {
+      mockedDb.$transaction.mockResolvedValue([]);
+
+      const saved = await saveEvents(
+        'user-1',
+        [
+          { ...event('saved_by_others', '2026-03-05T10:00:00Z', 3), externalId: 'saved_by_others:1' },
+          event('like_given', '2026-03-05T10:00:00Z'),
+        ],
+        'csv'
+      );
+
+      expect(saved).toBe(2);
+      expect(mockedDb.engagementEvent.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_platform_externalId: {
+              userId: 'user-1',
+              platform: 'threads',
+              externalId: 'saved_by_others:1',
+            },
+          },
+          update: expect.objectContaining({ count: 3, source: 'csv' }),
+        })
+      );
+      expect(mockedDb.engagementEvent.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the transaction when there is nothing to save', async () => {
+      await expect(saveEvents('user-1', [], 'json')).resolves.toBe(0);
+      expect(mockedDb.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
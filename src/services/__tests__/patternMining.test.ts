@@ -0,0 +1,189 @@
+/**
+ * Pattern Mining Tests
+ *
+ * Tests for clustering saved analyses into buzz patterns and scoring them against the user's data
+ */
+
+import {
+  MIN_ANALYSES_FOR_MINING,
+  classifyPattern,
+  detectHookStyle,
+  mineUserPatterns,
+  minePatterns,
+} from '../patternMining';
+import { TrendDetector } from '../trendDetector';
+import { prisma } from '../../lib/prisma';
+import type { BuzzAnalysis } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    buzzAnalysis: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock Anthropic SDK
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: jest.fn() } })),
+}));
+
+const mockedAnalyses = prisma.buzzAnalysis as unknown as Record<string, jest.Mock>;
+
+const LISTICLE_TEXT = '朝活が続くツール5選\n① タイマー\n② 習慣アプリ\n③ 日記\n#朝活 #習慣化';
+
+let sequence = 0;
+
+function createAnalysis(
+  hook: string,
+  transcript: string,
+  emotionalTriggers: string[],
+  impressions: number,
+  engagement: number,
+  mainPoints: string[] = ['ポイント']
+): BuzzAnalysis {
+  sequence++;
+  return {
+    id: `analysis-${sequence}`,
+    platform: 'threads',
+    originalUrl: 'manual-input',
+    impressions,
+    engagement,
+    metricsSource: 'observed',
+    transcript,
+    keyPoints: [],
+    structure: { hook, mainPoints, cta: '保存してね', emotionalTriggers },
+    analyzedAt: new Date(),
+  };
+}
+
+function listicle(): BuzzAnalysis {
+  return createAnalysis('朝活が続くツール5選', LISTICLE_TEXT, ['お得感'], 50000, 10, [
+    'タイマー',
+    '習慣アプリ',
+    '日記',
+  ]);
+}
+
+function story(): BuzzAnalysis {
+  return createAnalysis(
+    '1年前は貯金0円だった',
+    '1年前は貯金0円だった私が、毎朝30分だけ副業を続けた結果',
+    ['共感'],
+    10000,
+    5
+  );
+}
+
+function question(impressions: number, engagement: number): BuzzAnalysis {
+  return createAnalysis(
+    '朝型と夜型、どっち派？',
+    '朝型と夜型、どっち派？コメントで教えて',
+    ['参加意欲'],
+    impressions,
+    engagement
+  );
+}
+
+describe('PatternMining', () => {
+  describe('classifyPattern', () => {
+    it('should classify analyses by hook, body and emotional triggers', () => {
+      expect(classifyPattern(listicle())).toBe('listicle');
+      expect(classifyPattern(story())).toBe('storytelling');
+      expect(classifyPattern(question(1000, 1))).toBe('question');
+      expect(
+        classifyPattern(
+          createAnalysis('毎日やっていること', '続けていること', [], 1000, 1, ['a', 'b', 'c'])
+        )
+      ).toBe('listicle');
+    });
+
+    it('should detect the hook style', () => {
+      expect(detectHookStyle('朝型と夜型、どっち派？')).toBe('question');
+      expect(detectHookStyle('実は早起きは逆効果')).toBe('contrarian');
+      expect(detectHookStyle('3年前の私へ')).toBe('story');
+      expect(detectHookStyle('朝活が続くツール5選')).toBe('number');
+      expect(detectHookStyle('朝は白湯から')).toBe('statement');
+    });
+  });
+
+  describe('minePatterns', () => {
+    it('should not mine patterns until there are enough analyses', () => {
+      const analyses = Array.from({ length: MIN_ANALYSES_FOR_MINING - 1 }, listicle);
+
+      expect(minePatterns(analyses, 'threads')).toEqual([]);
+    });
+
+    it('should rank patterns by how often they beat the median in the user data', () => {
+      const analyses = [
+        ...Array.from({ length: 5 }, listicle),
+        ...Array.from({ length: 4 }, story),
+        question(50000, 10),
+        question(10000, 5),
+        question(10000, 5),
+        // 他のプラットフォームの分析は含めない
+        { ...listicle(), platform: 'twitter' as const },
+      ];
+
+      const patterns = minePatterns(analyses, 'threads');
+
+      expect(patterns.map((p) => [p.patternType, p.successRate, p.averageEngagement])).toEqual([
+        ['listicle', 1, 5000],
+        ['question', 0.33, 2000],
+        ['storytelling', 0, 500],
+      ]);
+
+      const [top] = patterns;
+      expect(top.id).toBe('mined-threads-listicle');
+      expect(top.description).toContain('5件中5件');
+      expect(top.requiredElements).toEqual(['数字で始まるフック', 'お得感', '主要ポイント3つ']);
+      expect(top.examples).toEqual(['朝活が続くツール5選']);
+      expect(top.optimalLength).toEqual({ min: LISTICLE_TEXT.length, max: LISTICLE_TEXT.length });
+      expect(top.bestHashtagCount).toBe(2);
+    });
+
+    it('should only count analyses with observed metrics', () => {
+      const estimated = Array.from({ length: 10 }, () => ({
+        ...listicle(),
+        metricsSource: 'estimated' as const,
+      }));
+
+      expect(minePatterns(estimated, 'threads')).toEqual([]);
+      expect(
+        minePatterns([...estimated.slice(0, 5), ...Array.from({ length: 9 }, listicle)], 'threads')
+      ).toEqual([]);
+      expect(minePatterns(Array.from({ length: 10 }, listicle), 'threads')).toHaveLength(1);
+    });
+
+    it('should drop patterns with too few samples', () => {
+      const analyses = [...Array.from({ length: 8 }, listicle), question(1000, 1), story()];
+
+      expect(minePatterns(analyses, 'threads').map((p) => p.patternType)).toEqual(['listicle']);
+    });
+  });
+
+  describe('mineUserPatterns', () => {
+    it('should mine the user analyses for the platform', async () => {
+      mockedAnalyses.findMany.mockResolvedValue([]);
+
+      expect(await mineUserPatterns('user-1', 'instagram')).toEqual([]);
+      expect(mockedAnalyses.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', platform: 'instagram', metricsSource: 'observed' },
+        })
+      );
+    });
+  });
+
+  describe('TrendDetector.getBuzzPatterns', () => {
+    it('should prefer mined patterns over the templates', () => {
+      const detector = new TrendDetector();
+      const mined = minePatterns(Array.from({ length: 10 }, listicle), 'threads');
+
+      expect(detector.getBuzzPatterns('threads', mined)).toBe(mined);
+      expect(detector.getBuzzPatterns('threads', [])[0].id).toBe('threads-storytelling');
+    });
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Platform Publisher Tests
+ *
+ * Exercises the Threads / Instagram / Twitter adapters against the local stand-in server
+ */
+
+import { PublishError } from '../postScheduler';
+import { appendHashtags, splitIntoSegments } from '../publishers/platformPublisher';
+import { ThreadsPublisher } from '../publishers/threadsPublisher';
+import { InstagramPublisher } from '../publishers/instagramPublisher';
+import { TwitterPublisher } from '../publishers/twitterPublisher';
+import { PlatformRouterPublisher, resolveUserCredentials } from '../publishers/platformRouter';
+import { startStandInServer, type StandInServer } from '../publishers/standInServer';
+import { prisma } from '../../lib/prisma';
+import type { OptimizedContent, Platform, PostSchedule } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    postSchedule: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockedSchedules = prisma.postSchedule as unknown as Record<string, jest.Mock>;
+
+const credentials = { accessToken: 'test-token' };
+
+function createContent(
+  platform: Platform,
+  overrides: Partial<OptimizedContent> = {}
+): OptimizedContent {
+  return {
+    id: 'draft-1',
+    originalAnalysisId: '',
+    targetPlatform: platform,
+    content: '朝の30分で人生が変わる。',
+    hashtags: ['朝活', '#習慣化'],
+    bestPostTime: new Date(),
+    expectedImpressions: 1000,
+    mode: 'impression',
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function expectPublishError(
+  promise: Promise<unknown>,
+  expected: Partial<Pick<PublishError, 'code' | 'retryable' | 'statusCode'>>
+): Promise<void> {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(PublishError);
+  expect(error).toMatchObject(expected);
+}
+
+describe('PlatformPublishers', () => {
+  let server: StandInServer;
+
+  beforeAll(async () => {
+    server = await startStandInServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  describe('splitIntoSegments', () => {
+    it('should keep short text as a single segment', () => {
+      expect(splitIntoSegments('短い投稿', 280, 'threads')).toEqual(['短い投稿']);
+    });
+
+    it('should split on paragraph and sentence boundaries', () => {
+      const text = `${'あ'.repeat(8)}。${'い'.repeat(8)}。\n\n${'う'.repeat(8)}。`;
+
+      const segments = splitIntoSegments(text, 20, 'threads');
+
+      expect(segments).toEqual([
+        `${'あ'.repeat(8)}。${'い'.repeat(8)}。`,
+        `${'う'.repeat(8)}。`,
+      ]);
+    });
+
+    it('should hard-split sentences longer than the limit', () => {
+      const segments = splitIntoSegments('あ'.repeat(25), 10, 'threads');
+
+      expect(segments).toEqual(['あ'.repeat(10), 'あ'.repeat(10), 'あ'.repeat(5)]);
+    });
+
+    it('should split Japanese text by the weighted X character count', () => {
+      const text = `${'朝'.repeat(100)}。${'活'.repeat(100)}。`;
+
+      const segments = splitIntoSegments(text, 280, 'twitter');
+
+      expect(segments).toEqual([`${'朝'.repeat(100)}。`, `${'活'.repeat(100)}。`]);
+      expect(splitIntoSegments('あ'.repeat(150), 280, 'twitter')).toEqual([
+        'あ'.repeat(140),
+        'あ'.repeat(10),
+      ]);
+    });
+  });
+
+  describe('appendHashtags', () => {
+    it('should drop trailing hashtags that do not fit', () => {
+      expect(appendHashtags('本文', ['一', '二'], 7, 'threads')).toBe('本文\n\n#一');
+      expect(appendHashtags('本文', ['一'], 3, 'threads')).toBe('本文');
+      expect(appendHashtags('本文', ['一'], 7, 'twitter')).toBe('本文');
+    });
+  });
+
+  describe('ThreadsPublisher', () => {
+    const publisher = () => new ThreadsPublisher({ baseUrl: server.baseUrls.threads });
+
+    it('should create a container and then publish it', async () => {
+      const result = await publisher().publish(createContent('threads'), credentials);
+
+      expect(server.requests.map((r) => r.path)).toEqual(['/me/threads', '/me/threads_publish']);
+      expect(server.requests[0].authorization).toBe('Bearer test-token');
+      expect(server.requests[0].body).toEqual({
+        media_type: 'TEXT',
+        text: '朝の30分で人生が変わる。\n\n#朝活 #習慣化',
+      });
+      expect(server.requests[1].body.creation_id).toMatch(/^threads-\d+$/);
+      expect(result.externalPostId).toMatch(/^threads-\d+$/);
+      expect(result.externalPostId).not.toBe(server.requests[1].body.creation_id);
+    });
+
+    it('should post thread segments as a reply chain with hashtags on the last post', async () => {
+      const result = await publisher().publish(
+        createContent('threads', { segments: ['冒頭\n1/2', '保存してね\n2/2'] }),
+        credentials
+      );
+
+      expect(server.requests.map((r) => r.path)).toEqual([
+        '/me/threads',
+        '/me/threads_publish',
+        '/me/threads',
+        '/me/threads_publish',
+      ]);
+      expect(server.requests[0].body).toEqual({ media_type: 'TEXT', text: '冒頭\n1/2' });
+      expect(server.requests[2].body).toEqual({
+        media_type: 'TEXT',
+        text: '保存してね\n2/2\n\n#朝活 #習慣化',
+        reply_to_id: result.postIds[0],
+      });
+      expect(result.postIds).toHaveLength(2);
+    });
+
+    it('should reject content over the 500 character limit without calling the API', async () => {
+      await expectPublishError(
+        publisher().publish(createContent('threads', { content: 'あ'.repeat(501) }), credentials),
+        { code: 'invalid_content', retryable: false }
+      );
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should map auth failures to non-retryable errors', async () => {
+      server.failNext('threads', 401, 'Invalid OAuth access token');
+
+      await expectPublishError(publisher().publish(createContent('threads'), credentials), {
+        code: 'auth_error',
+        retryable: false,
+        statusCode: 401,
+      });
+    });
+
+    it('should map rate limits and server errors to retryable errors', async () => {
+      server.failNext('threads', 429);
+      await expectPublishError(publisher().publish(createContent('threads'), credentials), {
+        code: 'rate_limit',
+        retryable: true,
+      });
+
+      server.failNext('threads', 503);
+      await expectPublishError(publisher().publish(createContent('threads'), credentials), {
+        code: 'server_error',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('InstagramPublisher', () => {
+    it('should publish an image with the caption and hashtags at the end', async () => {
+      const publisher = new InstagramPublisher({
+        baseUrl: server.baseUrls.instagram,
+        defaultImageUrl: 'https://example.com/cover.png',
+      });
+
+      await publisher.publish(createContent('instagram'), credentials);
+
+      expect(server.requests.map((r) => r.path)).toEqual(['/me/media', '/me/media_publish']);
+      expect(server.requests[0].body).toEqual({
+        image_url: 'https://example.com/cover.png',
+        caption: '朝の30分で人生が変わる。\n\n#朝活 #習慣化',
+      });
+    });
+
+    it('should require an image', async () => {
+      const publisher = new InstagramPublisher({ baseUrl: server.baseUrls.instagram });
+
+      await expectPublishError(publisher.publish(createContent('instagram'), credentials), {
+        code: 'invalid_content',
+        retryable: false,
+      });
+    });
+  });
+
+  describe('TwitterPublisher', () => {
+    const publisher = () => new TwitterPublisher({ baseUrl: server.baseUrls.twitter });
+    const longContent = Array.from({ length: 6 }, (_, i) => `${i + 1}. ${'x'.repeat(80)}.`).join(
+      '\n\n'
+    );
+
+    it('should post a single tweet with hashtags', async () => {
+      const result = await publisher().publish(createContent('twitter'), credentials);
+
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].body).toEqual({
+        text: '朝の30分で人生が変わる。\n\n#朝活 #習慣化',
+      });
+      expect(result.postIds).toEqual([result.externalPostId]);
+    });
+
+    it('should split long content into a reply thread', async () => {
+      const result = await publisher().publish(
+        createContent('twitter', { content: longContent }),
+        credentials
+      );
+
+      expect(server.requests.length).toBeGreaterThan(1);
+      expect(result.postIds).toHaveLength(server.requests.length);
+      expect(server.requests[0].body.reply).toBeUndefined();
+      server.requests.slice(1).forEach((request, index) => {
+        expect(request.body.reply).toEqual({ in_reply_to_tweet_id: result.postIds[index] });
+      });
+      const lastText = String(server.requests[server.requests.length - 1].body.text);
+      expect(lastText.endsWith('#朝活 #習慣化')).toBe(true);
+    });
+
+    it('should post stored segments as they are', async () => {
+      const segments = ['冒頭\n1/3', '本文\n2/3', '保存してね\n3/3'];
+
+      const result = await publisher().publish(createContent('twitter', { segments }), credentials);
+
+      expect(server.requests.map((request) => request.body.text)).toEqual([
+        '冒頭\n1/3',
+        '本文\n2/3',
+        '保存してね\n3/3\n\n#朝活 #習慣化',
+      ]);
+      expect(result.postIds).toHaveLength(3);
+    });
+
+    it('should split a 280-character Japanese post into weighted tweets', async () => {
+      const content = `${'朝'.repeat(139)}。${'活'.repeat(140)}`;
+
+      const result = await publisher().publish(
+        createContent('twitter', { content, hashtags: [] }),
+        credentials
+      );
+
+      expect(server.requests.map((request) => request.body.text)).toEqual([
+        `${'朝'.repeat(139)}。`,
+        '活'.repeat(140),
+      ]);
+      expect(result.postIds).toHaveLength(2);
+    });
+
+    it('should reject a stored segment over the limit without calling the API', async () => {
+      await expectPublishError(
+        publisher().publish(
+          createContent('twitter', { segments: ['冒頭', 'x'.repeat(281)] }),
+          credentials
+        ),
+        { code: 'invalid_content', retryable: false }
+      );
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should not retry a thread that failed midway', async () => {
+      const tweets = publisher().format(createContent('twitter', { content: longContent }));
+      expect(tweets.length).toBeGreaterThan(1);
+
+      // First tweet succeeds, second fails with a retryable status
+      const twitter = new TwitterPublisher({
+        baseUrl: server.baseUrls.twitter,
+        fetch: async (input, init) => {
+          if (server.requests.length === 1) server.failNext('twitter', 503);
+          return fetch(input, init);
+        },
+      });
+
+      await expectPublishError(
+        twitter.publish(createContent('twitter', { content: longContent }), credentials),
+        { code: 'server_error', retryable: false }
+      );
+    });
+
+    it('should map network failures to retryable errors', async () => {
+      const twitter = new TwitterPublisher({
+        fetch: async () => {
+          throw new Error('ECONNREFUSED');
+        },
+      });
+
+      await expectPublishError(twitter.publish(createContent('twitter'), credentials), {
+        code: 'network_error',
+        retryable: true,
+      });
+    });
+
+    it('should abort hanging requests and map the timeout to a retryable error', async () => {
+      let signal: AbortSignal | undefined;
+      const twitter = new TwitterPublisher({
+        timeoutMs: 50,
+        fetch: (_input, init) =>
+          new Promise<Response>((_resolve, reject) => {
+            signal = init?.signal ?? undefined;
+            signal?.addEventListener('abort', () => reject(signal?.reason));
+          }),
+      });
+
+      await expectPublishError(twitter.publish(createContent('twitter'), credentials), {
+        code: 'network_error',
+        retryable: true,
+      });
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('PlatformRouterPublisher', () => {
+    const schedule = { id: 'schedule-1' } as PostSchedule;
+
+    const createRouter = () =>
+      new PlatformRouterPublisher([
+        new ThreadsPublisher({ baseUrl: server.baseUrls.threads }),
+        new TwitterPublisher({ baseUrl: server.baseUrls.twitter }),
+      ]);
+
+    it('should route by target platform using the owner API key', async () => {
+      mockedSchedules.findUnique.mockResolvedValue({
+        user: { threadsApiKey: null, instagramApiKey: null, twitterApiKey: 'user-twitter-key' },
+      });
+
+      await createRouter().publish(createContent('twitter'), schedule);
+
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].platform).toBe('twitter');
+      expect(server.requests[0].authorization).toBe('Bearer user-twitter-key');
+    });
+
+    it('should fail without retry when the user has no API key', async () => {
+      mockedSchedules.findUnique.mockResolvedValue({
+        user: { threadsApiKey: null, instagramApiKey: null, twitterApiKey: null },
+      });
+
+      await expectPublishError(createRouter().publish(createContent('threads'), schedule), {
+        code: 'auth_error',
+        retryable: false,
+      });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should fail without retry for platforms with no adapter', async () => {
+      await expectPublishError(createRouter().publish(createContent('instagram'), schedule), {
+        code: 'invalid_content',
+        retryable: false,
+      });
+    });
+
+    it('should resolve credentials from the schedule owner', async () => {
+      mockedSchedules.findUnique.mockResolvedValue({
+        user: { threadsApiKey: 'threads-key', instagramApiKey: null, twitterApiKey: null },
+      });
+
+      await expect(resolveUserCredentials(schedule, 'threads')).resolves.toEqual({
+        accessToken: 'threads-key',
+      });
+      await expect(resolveUserCredentials(schedule, 'instagram')).resolves.toBeNull();
+    });
+  });
+});
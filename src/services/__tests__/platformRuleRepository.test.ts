@@ -0,0 +1,178 @@
+/**
+ * Platform Rule Repository Tests
+ *
+ * Tests for validating, saving and resetting per-user platform rule overrides
+ */
+
+import {
+  PlatformRuleError,
+  getPlatformRuleSettings,
+  getRuleOverrides,
+  parseRuleOverride,
+  resetPlatformRuleOverride,
+  setPlatformRuleOverride,
+} from '../platformRuleRepository';
+import { PLATFORM_RULES } from '../../lib/platformRules';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    platformRuleOverride: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as { platformRuleOverride: Record<string, jest.Mock> };
+
+const updatedAt = new Date('2026-03-01T00:00:00Z');
+
+function overrideRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'override-1',
+    userId: 'user-1',
+    platform: 'twitter',
+    maxLength: null,
+    hashtagCount: null,
+    tone: null,
+    formatting: null,
+    bestPractices: null,
+    createdAt: updatedAt,
+    updatedAt,
+    ...overrides,
+  };
+}
+
+describe('parseRuleOverride', () => {
+  it('should keep only the given fields and trim strings', () => {
+    expect(
+      parseRuleOverride('twitter', {
+        maxLength: 200,
+        tone: ' 落ち着いた専門家の口調 ',
+        bestPractices: ['データで裏付ける ', '最初の数語で勝負'],
+        hashtagCount: null,
+      })
+    ).toEqual({
+      maxLength: 200,
+      tone: '落ち着いた専門家の口調',
+      bestPractices: ['データで裏付ける', '最初の数語で勝負'],
+    });
+  });
+
+  it('should not allow maxLength above the platform limit', () => {
+    expect(() => parseRuleOverride('twitter', { maxLength: 281 })).toThrow(PlatformRuleError);
+    expect(parseRuleOverride('threads', { maxLength: 500 })).toEqual({ maxLength: 500 });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseRuleOverride('threads', null)).toThrow('rules must be an object');
+    expect(() => parseRuleOverride('threads', { hashtagCount: 1.5 })).toThrow(
+      'hashtagCount must be an integer'
+    );
+    expect(() => parseRuleOverride('threads', { tone: '  ' })).toThrow('tone must be');
+    expect(() => parseRuleOverride('threads', { formatting: ['ok', ''] })).toThrow(
+      'formatting items must be'
+    );
+    expect(() => parseRuleOverride('threads', { bestPractices: 'one' })).toThrow(
+      'bestPractices must be an array'
+    );
+  });
+});
+
+describe('platform rule overrides', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should return only the overridden fields per platform', async () => {
+    mockedDb.platformRuleOverride.findMany.mockResolvedValue([
+      overrideRecord({ hashtagCount: 0, bestPractices: '["データで裏付ける"]' }),
+    ]);
+
+    await expect(getRuleOverrides('user-1')).resolves.toEqual({
+      twitter: { hashtagCount: 0, bestPractices: ['データで裏付ける'] },
+    });
+    expect(mockedDb.platformRuleOverride.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+    });
+  });
+
+  it('should merge overrides with the defaults for every platform', async () => {
+    mockedDb.platformRuleOverride.findMany.mockResolvedValue([
+      overrideRecord({ tone: '丁寧で信頼感のある口調' }),
+    ]);
+
+    const settings = await getPlatformRuleSettings('user-1');
+    const twitter = settings.find((item) => item.platform === 'twitter');
+    const threads = settings.find((item) => item.platform === 'threads');
+
+    expect(settings.map((item) => item.platform)).toEqual(['threads', 'instagram', 'twitter']);
+    expect(twitter).toEqual({
+      platform: 'twitter',
+      rules: { ...PLATFORM_RULES.twitter, tone: '丁寧で信頼感のある口調' },
+      defaults: PLATFORM_RULES.twitter,
+      overridden: ['tone'],
+      updatedAt,
+    });
+    expect(threads).toEqual({
+      platform: 'threads',
+      rules: PLATFORM_RULES.threads,
+      defaults: PLATFORM_RULES.threads,
+      overridden: [],
+    });
+  });
+
+  it('should replace the saved override and clear omitted fields', async () => {
+    mockedDb.platformRuleOverride.upsert.mockResolvedValue(overrideRecord({ maxLength: 140 }));
+
+    const settings = await setPlatformRuleOverride('user-1', 'twitter', { maxLength: 140 });
+
+    expect(mockedDb.platformRuleOverride.upsert).toHaveBeenCalledWith({
+      where: { userId_platform: { userId: 'user-1', platform: 'twitter' } },
+      create: {
+        userId: 'user-1',
+        platform: 'twitter',
+        maxLength: 140,
+        hashtagCount: null,
+        tone: null,
+        formatting: null,
+        bestPractices: null,
+      },
+      update: {
+        maxLength: 140,
+        hashtagCount: null,
+        tone: null,
+        formatting: null,
+        bestPractices: null,
+      },
+    });
+    expect(settings.rules.maxLength).toBe(140);
+    expect(settings.overridden).toEqual(['maxLength']);
+  });
+
+  it('should not save invalid overrides', async () => {
+    await expect(
+      setPlatformRuleOverride('user-1', 'twitter', { maxLength: 1000 })
+    ).rejects.toBeInstanceOf(PlatformRuleError);
+    expect(mockedDb.platformRuleOverride.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should reset a platform to the defaults', async () => {
+    mockedDb.platformRuleOverride.deleteMany.mockResolvedValue({ count: 1 });
+
+    const settings = await resetPlatformRuleOverride('user-1', 'twitter');
+
+    expect(mockedDb.platformRuleOverride.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', platform: 'twitter' },
+    });
+    expect(settings).toEqual({
+      platform: 'twitter',
+      rules: PLATFORM_RULES.twitter,
+      defaults: PLATFORM_RULES.twitter,
+      overridden: [],
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * PostScheduler Service Tests
+ *
+ * Tests for the schedule dispatcher using the offline fake publisher
+ */
+
+import { PostDispatcher, PublishError, calculateBackoff } from '../postScheduler';
+import { FakePublisher } from '../publishers/fakePublisher';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    postSchedule: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma.postSchedule as unknown as Record<string, jest.Mock>;
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function createRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'schedule-1',
+    userId: 'user-1',
+    contentId: 'draft-1',
+    scheduledAt: new Date('2026-03-01T11:59:00Z'),
+    mode: 'impression',
+    status: 'pending',
+    postedAt: null,
+    errorMessage: null,
+    createdAt: now,
+    updatedAt: now,
+    attempts: 1,
+    nextAttemptAt: null,
+    lockedAt: now,
+    lockedBy: 'worker-a',
+    externalPostId: null,
+    content: {
+      id: 'draft-1',
+      userId: 'user-1',
+      originalAnalysisId: null,
+      targetPlatform: 'threads',
+      content: '今日のノウハウ',
+      hashtags: JSON.stringify(['副業']),
+      bestPostTime: null,
+      expectedImpressions: 1000,
+      mode: 'impression',
+      createdAt: now,
+      updatedAt: now,
+    },
+    ...overrides,
+  };
+}
+
+describe('PostScheduler', () => {
+  let publisher: FakePublisher;
+  let dispatcher: PostDispatcher;
+
+  beforeEach(() => {
+    publisher = new FakePublisher();
+    dispatcher = new PostDispatcher(publisher, {
+      workerId: 'worker-a',
+      maxAttempts: 3,
+      baseBackoffMs: 1000,
+    });
+    mockedDb.findMany.mockResolvedValue([{ id: 'schedule-1' }]);
+    mockedDb.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('calculateBackoff', () => {
+    it('should grow exponentially and respect the cap', () => {
+      expect(calculateBackoff(1, 1000, 10000)).toBe(1000);
+      expect(calculateBackoff(2, 1000, 10000)).toBe(2000);
+      expect(calculateBackoff(3, 1000, 10000)).toBe(4000);
+      expect(calculateBackoff(10, 1000, 10000)).toBe(10000);
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should publish due schedules and mark them posted', async () => {
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+
+      const summary = await dispatcher.dispatchDue(now);
+
+      expect(summary.posted).toBe(1);
+      expect(publisher.getPublished()).toHaveLength(1);
+      expect(publisher.getPublished()[0].content.hashtags).toEqual(['副業']);
+      expect(mockedDb.updateMany).toHaveBeenCalledWith({
+        where: { id: 'schedule-1', lockedBy: 'worker-a' },
+        data: expect.objectContaining({
+          status: 'posted',
+          externalPostId: 'fake-threads-1',
+          lockedAt: null,
+          lockedBy: null,
+        }),
+      });
+    });
+
+    it('should claim with a conditional update before publishing', async () => {
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+
+      await dispatcher.dispatchDue(now);
+
+      expect(mockedDb.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'schedule-1', status: 'pending' }),
+        data: expect.objectContaining({
+          lockedAt: now,
+          lockedBy: 'worker-a',
+          attempts: { increment: 1 },
+        }),
+      });
+    });
+
+    it('should skip schedules claimed by another worker', async () => {
+      mockedDb.updateMany.mockResolvedValue({ count: 0 });
+
+      const summary = await dispatcher.dispatchDue(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(mockedDb.findUnique).not.toHaveBeenCalled();
+      expect(publisher.getPublished()).toHaveLength(0);
+    });
+
+    it('should never double-post when two workers race for the same row', async () => {
+      const otherPublisher = new FakePublisher();
+      const otherDispatcher = new PostDispatcher(otherPublisher, { workerId: 'worker-b' });
+
+      // The conditional update only succeeds for the first claimant
+      let claimed = false;
+      mockedDb.updateMany.mockImplementation(async () => {
+        if (claimed) return { count: 0 };
+        claimed = true;
+        return { count: 1 };
+      });
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+
+      const [first, second] = await Promise.all([
+        dispatcher.dispatchDue(now),
+        otherDispatcher.dispatchDue(now),
+      ]);
+
+      expect(first.posted + second.posted).toBe(1);
+      expect(first.skipped + second.skipped).toBe(1);
+      expect(publisher.getPublished().length + otherPublisher.getPublished().length).toBe(1);
+    });
+
+    it('should not schedule a retry when recording the post fails', async () => {
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+      mockedDb.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(dispatcher.dispatchDue(now)).rejects.toThrow('database is locked');
+
+      expect(publisher.getPublished()).toHaveLength(1);
+      expect(mockedDb.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockedDb.updateMany.mock.calls[1][0].data.status).toBe('posted');
+    });
+
+    it('should only record the result while still holding the lock', async () => {
+      publisher.failNext('Temporary outage');
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+      mockedDb.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await dispatcher.dispatchDue(now);
+
+      expect(mockedDb.updateMany.mock.calls[1][0].where).toEqual({
+        id: 'schedule-1',
+        lockedBy: 'worker-a',
+      });
+    });
+
+    it('should schedule a retry with backoff on retryable failure', async () => {
+      publisher.failNext('Temporary outage');
+      mockedDb.findUnique.mockResolvedValue(createRecord({ attempts: 2 }));
+
+      const summary = await dispatcher.dispatchDue(now);
+
+      expect(summary.retrying).toBe(1);
+      expect(mockedDb.updateMany).toHaveBeenCalledWith({
+        where: { id: 'schedule-1', lockedBy: 'worker-a' },
+        data: {
+          errorMessage: 'Temporary outage',
+          nextAttemptAt: new Date(now.getTime() + 2000),
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+    });
+
+    it('should mark as failed when attempts are exhausted', async () => {
+      publisher.failNext('Still down');
+      mockedDb.findUnique.mockResolvedValue(createRecord({ attempts: 3 }));
+
+      const summary = await dispatcher.dispatchDue(now);
+
+      expect(summary.failed).toBe(1);
+      expect(summary.outcomes[0]).toEqual({
+        scheduleId: 'schedule-1',
+        status: 'failed',
+        attempts: 3,
+        error: 'Still down',
+      });
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      publisher.failNext('Content too long', false);
+      mockedDb.findUnique.mockResolvedValue(createRecord({ attempts: 1 }));
+
+      const summary = await dispatcher.dispatchDue(now);
+
+      expect(summary.failed).toBe(1);
+      expect(mockedDb.updateMany).toHaveBeenCalledWith({
+        where: { id: 'schedule-1', lockedBy: 'worker-a' },
+        data: expect.objectContaining({ status: 'failed', errorMessage: 'Content too long' }),
+      });
+    });
+
+    it('should treat unknown errors as retryable', async () => {
+      const failing = new PostDispatcher(
+        { publish: jest.fn().mockRejectedValue(new Error('socket hang up')) },
+        { workerId: 'worker-a' }
+      );
+      mockedDb.findUnique.mockResolvedValue(createRecord());
+
+      const summary = await failing.dispatchDue(now);
+
+      expect(summary.retrying).toBe(1);
+    });
+
+    it('should query due pending rows including retries and stale locks', async () => {
+      mockedDb.findMany.mockResolvedValue([]);
+
+      await dispatcher.dispatchDue(now);
+
+      const query = mockedDb.findMany.mock.calls[0][0];
+      expect(query.where.status).toBe('pending');
+      expect(query.where.OR).toEqual([
+        { nextAttemptAt: null, scheduledAt: { lte: now } },
+        { nextAttemptAt: { lte: now } },
+      ]);
+    });
+  });
+
+  describe('PublishError', () => {
+    it('should default to retryable', () => {
+      expect(new PublishError('x').retryable).toBe(true);
+      expect(new PublishError('x', false).retryable).toBe(false);
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should toggle the interval worker', () => {
+      jest.useFakeTimers();
+      dispatcher.start(1000);
+      expect(dispatcher.isRunning()).toBe(true);
+      dispatcher.stop();
+      expect(dispatcher.isRunning()).toBe(false);
+      jest.useRealTimers();
+    });
+  });
+});
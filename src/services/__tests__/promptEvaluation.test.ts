@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * PromptEvaluation Service Tests
+ *
+ * Tests for comparing two prompt template versions on saved analyses
+ */
+
+import {
+  PromptEvaluationError,
+  evaluatePromptVersions,
+  summarizeOutputs,
+} from '../promptEvaluation';
+import { ClaudeClient } from '../../lib/claude';
+import { FixtureProvider } from '../../lib/fixtureProvider';
+import { DEFAULT_LLM_FIXTURES } from '../../lib/llmFixtures';
+import { prisma } from '../../lib/prisma';
+import type { PromptVersions } from '../../lib/promptTemplates';
+import { UsageLimitError } from '../usageRepository';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    buzzAnalysis: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma.buzzAnalysis as unknown as Record<string, jest.Mock>;
+
+const createdAt = new Date('2026-03-01T09:00:00Z');
+
+const record = {
+  id: 'analysis-1',
+  userId: 'user-1',
+  platform: 'threads' as const,
+  originalUrl: 'https://threads.net/@user/post/1',
+  impressions: 50000,
+  engagement: 12,
+  transcript: '副業で月100万稼げるようになった話',
+  createdAt,
+  updatedAt: createdAt,
+  hook: '1年前、貯金0円だった',
+  mainPoints: JSON.stringify(['継続', '発信']),
+  cta: 'フォローしてね',
+  emotionalTriggers: JSON.stringify(['共感']),
+  keyPoints: JSON.stringify(['具体的な数字']),
+  promptVersion: 'analysis@1',
+};
+
+describe('evaluatePromptVersions', () => {
+  let provider: FixtureProvider;
+  let createClient: jest.Mock<ClaudeClient, [PromptVersions]>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    provider = new FixtureProvider(DEFAULT_LLM_FIXTURES);
+    createClient = jest.fn(
+      (promptVersions: PromptVersions) => new ClaudeClient({ apiKey: '', provider, promptVersions })
+    );
+  });
+
+  it('should run both versions on every saved analysis', async () => {
+    mockedDb.findMany.mockResolvedValue([record, { ...record, id: 'analysis-2' }]);
+    const complete = jest.spyOn(provider, 'complete');
+
+    const report = await evaluatePromptVersions(
+      'user-1',
+      { templateId: 'analysis', baselineVersion: 1, candidateVersion: 2 },
+      createClient
+    );
+
+    expect(createClient.mock.calls).toEqual([[{ analysis: 1 }], [{ analysis: 2 }]]);
+    expect(complete).toHaveBeenCalledTimes(4);
+    expect(report.samples.map((sample) => sample.analysisId)).toEqual(['analysis-1', 'analysis-2']);
+    expect(report.baseline).toMatchObject({ ref: 'analysis@1', successCount: 2, failureCount: 0 });
+    expect(report.candidate.ref).toBe('analysis@2');
+    expect(report.candidate.averages.keyPointCount).toBe(3);
+    expect(mockedDb.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      orderBy: { createdAt: 'desc' },
+      take: 5,
+    });
+  });
+
+  it('should optimize the selected analyses for the target platform', async () => {
+    mockedDb.findMany.mockResolvedValue([record]);
+
+    const report = await evaluatePromptVersions(
+      'user-1',
+      {
+        templateId: 'optimization',
+        baselineVersion: 1,
+        candidateVersion: 1,
+        analysisIds: ['analysis-1'],
+        targetPlatform: 'twitter',
+      },
+      createClient
+    );
+
+    expect(mockedDb.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user-1', id: { in: ['analysis-1'] } }, take: 1 })
+    );
+    expect(report.baseline.averages).toMatchObject({ hashtagCount: 2, withinMaxLength: 1 });
+  });
+
+  it('should stop the whole evaluation once a usage limit is reached', async () => {
+    mockedDb.findMany.mockResolvedValue([record, { ...record, id: 'analysis-2' }]);
+    const complete = jest.spyOn(provider, 'complete');
+    const reserveUsage = jest
+      .fn()
+      .mockResolvedValueOnce(jest.fn())
+      .mockRejectedValue(new UsageLimitError('Too many AI requests', 'rate_limited', 1000));
+    createClient.mockImplementation(
+      (promptVersions) => new ClaudeClient({ apiKey: '', provider, promptVersions, reserveUsage })
+    );
+
+    await expect(
+      evaluatePromptVersions(
+        'user-1',
+        { templateId: 'analysis', baselineVersion: 1, candidateVersion: 2 },
+        createClient
+      )
+    ).rejects.toBeInstanceOf(UsageLimitError);
+    expect(reserveUsage).toHaveBeenCalledTimes(2);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject versions that are not registered', async () => {
+    const evaluation = evaluatePromptVersions(
+      'user-1',
+      { templateId: 'analysis', baselineVersion: 1, candidateVersion: 9 },
+      createClient
+    );
+
+    await expect(evaluation).rejects.toBeInstanceOf(PromptEvaluationError);
+    await expect(evaluation).rejects.toMatchObject({ code: 'invalid_request' });
+    expect(mockedDb.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should fail when there are no saved analyses', async () => {
+    mockedDb.findMany.mockResolvedValue([]);
+
+    await expect(
+      evaluatePromptVersions(
+        'user-1',
+        { templateId: 'analysis', baselineVersion: 1, candidateVersion: 2 },
+        createClient
+      )
+    ).rejects.toMatchObject({ code: 'no_samples' });
+  });
+});
+
+describe('summarizeOutputs', () => {
+  it('should average metrics over successful generations only', () => {
+    const summary = summarizeOutputs('optimization', 2, [
+      { success: true, result: {} as never, metrics: { contentLength: 100 } },
+      { success: true, result: {} as never, metrics: { contentLength: 151 } },
+      { success: false, error: 'parse error' },
+    ]);
+
+    expect(summary).toEqual({
+      version: 2,
+      ref: 'optimization@2',
+      successCount: 2,
+      failureCount: 1,
+      averages: { contentLength: 125.5 },
+    });
+  });
+});
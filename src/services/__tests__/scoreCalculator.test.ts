@@ -120,13 +120,6 @@ describe('ScoreCalculator', () => {
       expect(Array.isArray(result.recommendations)).toBe(true);
     });
 
-    it('should include history entries', () => {
-      const result = calculatePlatformScore('threads', baseBehaviorData);
-
-      expect(result.history).toBeDefined();
-      expect(result.history.length).toBe(7); // Default 7 days
-    });
-
     it('should generate unique ID with timestamp prefix', () => {
       const result = calculatePlatformScore('threads', baseBehaviorData);
 
@@ -486,36 +479,6 @@ describe('ScoreCalculator', () => {
     });
   });
 
-  describe('Score History', () => {
-    it('should generate 7 days of history by default', () => {
-      const result = calculatePlatformScore('threads', generateSampleBehaviorData());
-      expect(result.history).toHaveLength(7);
-    });
-
-    it('should include all score components in history', () => {
-      const result = calculatePlatformScore('threads', generateSampleBehaviorData());
-
-      result.history.forEach((entry) => {
-        expect(entry).toHaveProperty('date');
-        expect(entry).toHaveProperty('overallScore');
-        expect(entry).toHaveProperty('engagementScore');
-        expect(entry).toHaveProperty('consistencyScore');
-        expect(entry).toHaveProperty('trendScore');
-        expect(entry).toHaveProperty('communityScore');
-      });
-    });
-
-    it('should have dates in chronological order', () => {
-      const result = calculatePlatformScore('threads', generateSampleBehaviorData());
-
-      for (let i = 0; i < result.history.length - 1; i++) {
-        expect(result.history[i].date.getTime()).toBeLessThan(
-          result.history[i + 1].date.getTime()
-        );
-      }
-    });
-  });
-
   describe('getScoreRank', () => {
     it('should return S rank for scores >= 90', () => {
       const rank = getScoreRank(95);
@@ -0,0 +1,171 @@
+/**
+ * Score History Repository Tests
+ *
+ * Tests for persisting score snapshots and downsampling the stored history
+ */
+
+import {
+  downsampleHistory,
+  getScoreHistory,
+  saveScoreSnapshot,
+} from '../scoreHistoryRepository';
+import { calculatePlatformScore, generateSampleBehaviorData } from '../scoreCalculator';
+import type { ScoreHistoryEntry } from '../scoreCalculator';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    platformScore: {
+      upsert: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as {
+  platformScore: Record<string, jest.Mock>;
+};
+
+function snapshot(date: string, overallScore: number): ScoreHistoryEntry {
+  return {
+    date: new Date(date),
+    overallScore,
+    engagementScore: overallScore,
+    consistencyScore: overallScore,
+    trendScore: overallScore,
+    communityScore: overallScore,
+  };
+}
+
+describe('ScoreHistoryRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveScoreSnapshot', () => {
+    it('should store component scores, factors and behavior data', async () => {
+      const behaviorData = generateSampleBehaviorData();
+      const { score } = calculatePlatformScore('threads', behaviorData);
+      mockedDb.platformScore.upsert.mockImplementation(({ create }) =>
+        Promise.resolve({ ...create, id: 'score-1', createdAt: new Date() })
+      );
+
+      const saved = await saveScoreSnapshot('user-1', score, behaviorData);
+
+      const { create, update } = mockedDb.platformScore.upsert.mock.calls[0][0];
+      expect(create).toMatchObject({
+        userId: 'user-1',
+        platform: 'threads',
+        overallScore: score.overallScore,
+        calculatedAt: score.calculatedAt,
+      });
+      expect(JSON.parse(create.factors)).toEqual(score.factors);
+      expect(JSON.parse(create.behaviorData)).toEqual(behaviorData);
+      expect(update).toMatchObject({ overallScore: score.overallScore });
+      expect(saved.id).toBe('score-1');
+      expect(saved.factors).toEqual(score.factors);
+    });
+
+    it('should keep one snapshot per user, platform and local day', async () => {
+      const behaviorData = generateSampleBehaviorData();
+      const { score } = calculatePlatformScore('threads', behaviorData);
+      mockedDb.platformScore.upsert.mockImplementation(({ create }) =>
+        Promise.resolve({ ...create, id: 'score-1', createdAt: new Date() })
+      );
+
+      // 2026-03-02 00:30 JST
+      const calculatedAt = new Date('2026-03-01T15:30:00Z');
+      await saveScoreSnapshot('user-1', { ...score, calculatedAt }, behaviorData, 'Asia/Tokyo');
+
+      expect(mockedDb.platformScore.upsert.mock.calls[0][0].where).toEqual({
+        userId_platform_snapshotDate: {
+          userId: 'user-1',
+          platform: 'threads',
+          snapshotDate: '2026-03-02',
+        },
+      });
+    });
+  });
+
+  describe('downsampleHistory', () => {
+    it('should average snapshots per local day', () => {
+      const points = downsampleHistory(
+        [
+          snapshot('2026-03-01T00:00:00Z', 60),
+          // 2026-03-02 00:30 JST
+          snapshot('2026-03-01T15:30:00Z', 70),
+          snapshot('2026-03-02T03:00:00Z', 75),
+        ],
+        'daily',
+        'Asia/Tokyo'
+      );
+
+      expect(points.map((p) => [p.period, p.overallScore, p.samples])).toEqual([
+        ['2026-03-01', 60, 1],
+        ['2026-03-02', 72.5, 2],
+      ]);
+      expect(points[1].date).toEqual(new Date('2026-03-02T03:00:00Z'));
+    });
+
+    it('should group weekly buckets starting on Monday', () => {
+      const points = downsampleHistory(
+        [
+          // Sunday 2026-03-01
+          snapshot('2026-03-01T03:00:00Z', 50),
+          // Monday 2026-03-02
+          snapshot('2026-03-02T03:00:00Z', 60),
+          // Sunday 2026-03-08
+          snapshot('2026-03-08T03:00:00Z', 71),
+        ],
+        'weekly',
+        'Asia/Tokyo'
+      );
+
+      expect(points.map((p) => [p.period, p.overallScore])).toEqual([
+        ['2026-02-23', 50],
+        ['2026-03-02', 65.5],
+      ]);
+    });
+
+    it('should return an empty series when there are no snapshots', () => {
+      expect(downsampleHistory([], 'weekly')).toEqual([]);
+    });
+  });
+
+  describe('getScoreHistory', () => {
+    it('should query snapshots in range oldest first', async () => {
+      const from = new Date('2026-02-01T00:00:00Z');
+      const to = new Date('2026-03-01T00:00:00Z');
+      mockedDb.platformScore.findMany.mockResolvedValue([
+        {
+          calculatedAt: new Date('2026-02-10T03:00:00Z'),
+          overallScore: 64,
+          engagementScore: 70,
+          consistencyScore: 60,
+          trendScore: 55,
+          communityScore: 68,
+        },
+      ]);
+
+      const points = await getScoreHistory('user-1', 'instagram', {
+        from,
+        to,
+        timeZone: 'Asia/Tokyo',
+      });
+
+      expect(mockedDb.platformScore.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            platform: 'instagram',
+            calculatedAt: { gte: from, lte: to },
+          },
+          orderBy: { calculatedAt: 'asc' },
+        })
+      );
+      expect(points).toHaveLength(1);
+      expect(points[0]).toMatchObject({ period: '2026-02-10', overallScore: 64, samples: 1 });
+    });
+  });
+});
@@ -11,12 +11,18 @@ import {
   MODE_DESCRIPTIONS,
   getStrategyManager,
   resetStrategyManager,
+  parseStrategy,
   WeeklyScheduleItem,
   RatioHealthCheck,
   PostClassification,
   OptimalPostTime,
 } from '../strategyManager';
-import type { EngagementStrategy, CommentStrategy, Platform } from '../../types/index';
+import type {
+  EngagementStrategy,
+  CommentStrategy,
+  Platform,
+  ScheduledStrategy,
+} from '../../types/index';
 
 describe('StrategyManager', () => {
   let manager: StrategyManager;
@@ -227,6 +233,65 @@ describe('StrategyManager', () => {
     });
   });
 
+  describe('scheduled strategies', () => {
+    // Launch week: Mon 2024-01-08 to Sun 2024-01-14 (local time), expression on Wednesday only
+    const launchWeek: ScheduledStrategy = {
+      name: 'launch week',
+      strategy: {
+        ...DEFAULT_STRATEGY,
+        impressionRatio: 0.7,
+        expressionRatio: 0.3,
+        weeklyExpressionDays: [3],
+      },
+      activeFrom: new Date(2024, 0, 8),
+      activeUntil: new Date(2024, 0, 15),
+    };
+
+    beforeEach(() => {
+      manager = new StrategyManager({ weeklyExpressionDays: [0, 6] }, [launchWeek]);
+    });
+
+    it('should use the scheduled strategy inside its date range', () => {
+      expect(manager.getStrategyForDate(new Date(2024, 0, 10, 12)).impressionRatio).toBe(0.7);
+      expect(manager.getRecommendedMode(new Date(2024, 0, 10, 12))).toBe('expression');
+      // Saturday inside the range is not an expression day for the launch week
+      expect(manager.getRecommendedMode(new Date(2024, 0, 13, 12))).toBe('impression');
+    });
+
+    it('should fall back to the base strategy outside the range', () => {
+      expect(manager.getRecommendedMode(new Date(2024, 0, 6, 12))).toBe('expression');
+      // activeUntil is exclusive
+      expect(manager.getScheduledStrategyForDate(new Date(2024, 0, 15))).toBeUndefined();
+      expect(manager.getStrategyForDate(new Date(2024, 0, 20)).impressionRatio).toBe(0.9);
+    });
+
+    it('should prefer the later-starting strategy when ranges overlap', () => {
+      manager.setScheduledStrategies([
+        { ...launchWeek, name: 'campaign', activeFrom: new Date(2024, 0, 12) },
+        launchWeek,
+      ]);
+
+      expect(manager.getScheduledStrategyForDate(new Date(2024, 0, 9))?.name).toBe('launch week');
+      expect(manager.getScheduledStrategyForDate(new Date(2024, 0, 12, 12))?.name).toBe('campaign');
+    });
+
+    it('should follow the active strategy per day in the weekly schedule', () => {
+      const schedule = manager.generateWeeklySchedule(new Date(2024, 0, 6)); // Saturday
+
+      expect(schedule.map((item) => item.recommendedMode)).toEqual([
+        'expression', // Sat (base)
+        'expression', // Sun (base)
+        'impression', // Mon (launch week)
+        'impression',
+        'expression', // Wed (launch week)
+        'impression',
+        'impression',
+      ]);
+      expect(schedule[0].strategyName).toBeUndefined();
+      expect(schedule[2].strategyName).toBe('launch week');
+    });
+  });
+
   describe('isRatioHealthy', () => {
     it('should return healthy for ratios 0.8-0.95', () => {
       manager.setImpressionRatio(0.9);
@@ -458,6 +523,23 @@ describe('StrategyManager', () => {
       expect(imported.commentStrategy).toBeDefined();
     });
 
+    it('should reject values outside the validated format', () => {
+      expect(() =>
+        manager.importStrategy(JSON.stringify({ weeklyExpressionDays: [7] }))
+      ).toThrow('無効な戦略データです: weeklyExpressionDays must be an array of days (0-6)');
+      expect(manager.getStrategy()).toEqual(DEFAULT_STRATEGY);
+    });
+
+    it('should round-trip exported strategies', () => {
+      manager.setImpressionRatio(0.8);
+      manager.setExpressionDays([3]);
+
+      const other = new StrategyManager();
+      other.importStrategy(manager.exportStrategy());
+
+      expect(other.getStrategy()).toEqual(manager.getStrategy());
+    });
+
     it('should normalize ratios after import', () => {
       const invalidRatios = {
         impressionRatio: 0.6,
@@ -471,6 +553,34 @@ describe('StrategyManager', () => {
   });
 });
 
+describe('parseStrategy', () => {
+  it('should fill missing fields with defaults', () => {
+    const strategy = parseStrategy({ commentStrategy: { maxCommentsPerDay: 5 } });
+
+    expect(strategy.impressionRatio).toBe(DEFAULT_STRATEGY.impressionRatio);
+    expect(strategy.commentStrategy).toEqual({
+      ...DEFAULT_STRATEGY.commentStrategy,
+      maxCommentsPerDay: 5,
+    });
+  });
+
+  it('should dedupe and sort expression days', () => {
+    expect(parseStrategy({ weeklyExpressionDays: [6, 0, 6] }).weeklyExpressionDays).toEqual([
+      0, 6,
+    ]);
+  });
+
+  it.each([
+    [null, 'strategy must be an object'],
+    [{ impressionRatio: 1.5 }, 'impressionRatio must be a number between 0 and 1'],
+    [{ impressionRatio: 0, expressionRatio: 0 }, 'cannot both be 0'],
+    [{ commentStrategy: { enabled: 'yes' } }, 'commentStrategy.enabled must be a boolean'],
+    [{ commentStrategy: { maxCommentsPerDay: 2.5 } }, 'maxCommentsPerDay must be an integer'],
+  ])('should reject %j', (input, message) => {
+    expect(() => parseStrategy(input)).toThrow(message);
+  });
+});
+
 describe('Constants and Exports', () => {
   describe('DEFAULT_STRATEGY', () => {
     it('should have 9:1 ratio as recommended', () => {
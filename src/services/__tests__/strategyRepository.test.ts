@@ -0,0 +1,369 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Strategy Repository Tests
+ *
+ * Tests for persisting the active strategy and detecting concurrent edits
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  StrategyConflictError,
+  StrategyPresetError,
+  activateStrategyPreset,
+  createStrategyPreset,
+  deleteStrategyPreset,
+  getActiveStrategy,
+  getScheduledStrategies,
+  saveActiveStrategy,
+  updateStrategyPreset,
+} from '../strategyRepository';
+import { DEFAULT_STRATEGY } from '../strategyManager';
+import { prisma } from '../../lib/prisma';
+import type { EngagementStrategy } from '../../types/index';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    strategy: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as {
+  $transaction: jest.Mock;
+  strategy: Record<string, jest.Mock>;
+};
+
+const updatedAt = new Date('2026-03-01T10:00:00Z');
+
+const customStrategy: EngagementStrategy = {
+  impressionRatio: 0.8,
+  expressionRatio: 0.2,
+  weeklyExpressionDays: [5, 6],
+  commentStrategy: {
+    enabled: true,
+    targetTrendingPosts: false,
+    maxCommentsPerDay: 5,
+    avoidNegative: true,
+  },
+};
+
+const record = {
+  id: 'strategy-1',
+  userId: 'user-1',
+  name: 'Default Strategy',
+  isActive: true,
+  createdAt: updatedAt,
+  updatedAt,
+  impressionRatio: 0.8,
+  expressionRatio: 0.2,
+  weeklyExpressionDays: '[5,6]',
+  commentEnabled: true,
+  targetTrendingPosts: false,
+  maxCommentsPerDay: 5,
+  avoidNegativeComments: true,
+  activeFrom: null,
+  activeUntil: null,
+};
+
+describe('StrategyRepository', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('getActiveStrategy', () => {
+    it('should map columns to an EngagementStrategy', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(record);
+
+      await expect(getActiveStrategy('user-1')).resolves.toEqual({
+        strategy: customStrategy,
+        updatedAt,
+      });
+      expect(mockedDb.strategy.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isActive: true },
+      });
+    });
+
+    it('should fall back to defaults for corrupt stored values', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue({ ...record, weeklyExpressionDays: '[9]' });
+
+      const stored = await getActiveStrategy('user-1');
+
+      expect(stored?.strategy).toEqual(DEFAULT_STRATEGY);
+    });
+
+    it('should return null when nothing is stored', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(null);
+
+      await expect(getActiveStrategy('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('saveActiveStrategy', () => {
+    beforeEach(() => {
+      mockedDb.$transaction.mockImplementation((run) => run(prisma));
+      mockedDb.strategy.findMany.mockResolvedValue([]);
+    });
+
+    it('should create the first strategy', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(null);
+      mockedDb.strategy.create.mockResolvedValue(record);
+
+      const saved = await saveActiveStrategy('user-1', customStrategy, null);
+
+      expect(mockedDb.strategy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          name: 'Default Strategy',
+          isActive: true,
+          activeUserId: 'user-1',
+          weeklyExpressionDays: '[5,6]',
+          avoidNegativeComments: true,
+        }),
+      });
+      expect(saved.updatedAt).toEqual(updatedAt);
+    });
+
+    it('should not reuse the name of an existing inactive preset', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(null);
+      mockedDb.strategy.findMany.mockResolvedValue([{ name: 'Default Strategy' }]);
+      mockedDb.strategy.create.mockResolvedValue(record);
+
+      await saveActiveStrategy('user-1', customStrategy, null);
+
+      expect(mockedDb.strategy.create.mock.calls[0][0].data.name).toBe('Default Strategy 2');
+    });
+
+    it('should report a conflict when another device created it first', async () => {
+      mockedDb.strategy.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+      mockedDb.strategy.findFirst.mockResolvedValueOnce(null).mockResolvedValue(record);
+
+      const error = await saveActiveStrategy('user-1', DEFAULT_STRATEGY, null).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StrategyConflictError);
+      expect(error.current.strategy).toEqual(customStrategy);
+    });
+
+    it('should not report a conflict without a server version', async () => {
+      const uniqueError = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      });
+      mockedDb.strategy.create.mockRejectedValue(uniqueError);
+      mockedDb.strategy.findFirst.mockResolvedValue(null);
+
+      await expect(saveActiveStrategy('user-1', DEFAULT_STRATEGY, null)).rejects.toBe(
+        uniqueError
+      );
+    });
+
+    it('should not create a second base strategy', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(record);
+
+      await expect(saveActiveStrategy('user-1', DEFAULT_STRATEGY, null)).rejects.toBeInstanceOf(
+        StrategyConflictError
+      );
+      expect(mockedDb.strategy.create).not.toHaveBeenCalled();
+    });
+
+    it('should update only when the base version matches', async () => {
+      mockedDb.strategy.updateMany.mockResolvedValue({ count: 1 });
+      mockedDb.strategy.findFirst.mockResolvedValue(record);
+
+      await saveActiveStrategy('user-1', customStrategy, updatedAt);
+
+      expect(mockedDb.strategy.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isActive: true, updatedAt },
+        data: expect.objectContaining({ impressionRatio: 0.8, maxCommentsPerDay: 5 }),
+      });
+    });
+
+    it('should throw a conflict with the latest strategy when the base is stale', async () => {
+      mockedDb.strategy.updateMany.mockResolvedValue({ count: 0 });
+      mockedDb.strategy.findFirst.mockResolvedValue(record);
+
+      await expect(
+        saveActiveStrategy('user-1', DEFAULT_STRATEGY, new Date('2026-02-01T00:00:00Z'))
+      ).rejects.toMatchObject({
+        name: 'StrategyConflictError',
+        current: { strategy: customStrategy, updatedAt },
+      });
+    });
+  });
+
+  describe('presets', () => {
+    const activeFrom = new Date('2026-03-02T00:00:00Z');
+    const activeUntil = new Date('2026-03-09T00:00:00Z');
+    const launchWeek = {
+      ...record,
+      id: 'strategy-2',
+      name: 'launch week',
+      isActive: false,
+      impressionRatio: 0.7,
+      expressionRatio: 0.3,
+      activeFrom,
+      activeUntil,
+    };
+
+    it('should create an inactive preset with a schedule', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(null);
+      mockedDb.strategy.create.mockResolvedValue(launchWeek);
+
+      const preset = await createStrategyPreset('user-1', {
+        name: 'launch week',
+        strategy: { ...customStrategy, impressionRatio: 0.7, expressionRatio: 0.3 },
+        activeFrom,
+        activeUntil,
+      });
+
+      expect(mockedDb.strategy.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          activeFrom: { lt: activeUntil },
+          activeUntil: { gt: activeFrom },
+        },
+        select: { name: true },
+      });
+      expect(mockedDb.strategy.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'launch week', isActive: false, activeFrom }),
+      });
+      expect(preset).toMatchObject({ name: 'launch week', activeFrom, activeUntil });
+    });
+
+    it('should reject overlapping schedules', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue({ name: 'launch week' });
+
+      await expect(
+        createStrategyPreset('user-1', {
+          name: 'campaign',
+          strategy: customStrategy,
+          activeFrom: new Date('2026-03-05T00:00:00Z'),
+          activeUntil: new Date('2026-03-12T00:00:00Z'),
+        })
+      ).rejects.toMatchObject({ code: 'overlapping_schedule' });
+      expect(mockedDb.strategy.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an incomplete or reversed schedule', async () => {
+      await expect(
+        createStrategyPreset('user-1', { name: 'x', strategy: customStrategy, activeFrom })
+      ).rejects.toMatchObject({ code: 'invalid_schedule' });
+      await expect(
+        createStrategyPreset('user-1', {
+          name: 'x',
+          strategy: customStrategy,
+          activeFrom: activeUntil,
+          activeUntil: activeFrom,
+        })
+      ).rejects.toMatchObject({ code: 'invalid_schedule' });
+    });
+
+    it('should report duplicate names', async () => {
+      mockedDb.strategy.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(
+        createStrategyPreset('user-1', { name: 'normal', strategy: customStrategy })
+      ).rejects.toMatchObject({ code: 'duplicate_name' });
+    });
+
+    it('should exclude the edited preset when checking overlaps', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValueOnce(launchWeek).mockResolvedValueOnce(null);
+      mockedDb.strategy.update.mockResolvedValue(launchWeek);
+
+      await updateStrategyPreset('user-1', 'strategy-2', {
+        activeUntil: new Date('2026-03-10T00:00:00Z'),
+      });
+
+      expect(mockedDb.strategy.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { not: 'strategy-2' } }),
+        })
+      );
+      expect(mockedDb.strategy.update).toHaveBeenCalledWith({
+        where: { id: 'strategy-2' },
+        data: { activeFrom, activeUntil: new Date('2026-03-10T00:00:00Z') },
+      });
+    });
+
+    it('should switch the base strategy in one transaction', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(launchWeek);
+      mockedDb.$transaction.mockResolvedValue([{ count: 1 }, { ...launchWeek, isActive: true }]);
+
+      const preset = await activateStrategyPreset('user-1', 'strategy-2');
+
+      expect(mockedDb.strategy.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isActive: true, id: { not: 'strategy-2' } },
+        data: { isActive: false, activeUserId: null },
+      });
+      expect(mockedDb.strategy.update).toHaveBeenCalledWith({
+        where: { id: 'strategy-2' },
+        data: { isActive: true, activeUserId: 'user-1' },
+      });
+      expect(preset.isActive).toBe(true);
+    });
+
+    it('should apply an edit and the switch in the same transaction', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(launchWeek);
+      mockedDb.$transaction.mockResolvedValue([{ count: 1 }, { ...launchWeek, isActive: true }]);
+
+      await updateStrategyPreset('user-1', 'strategy-2', { name: 'launch' }, { activate: true });
+
+      expect(mockedDb.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockedDb.strategy.update).toHaveBeenCalledTimes(1);
+      expect(mockedDb.strategy.update).toHaveBeenCalledWith({
+        where: { id: 'strategy-2' },
+        data: { name: 'launch', isActive: true, activeUserId: 'user-1' },
+      });
+    });
+
+    it('should not delete the base strategy', async () => {
+      mockedDb.strategy.findFirst.mockResolvedValue(record);
+
+      const error = await deleteStrategyPreset('user-1', 'strategy-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(StrategyPresetError);
+      expect(error.code).toBe('active_preset');
+      expect(mockedDb.strategy.delete).not.toHaveBeenCalled();
+    });
+
+    it('should list schedules that have not ended yet', async () => {
+      const now = new Date('2026-03-04T00:00:00Z');
+      mockedDb.strategy.findMany.mockResolvedValue([launchWeek]);
+
+      const schedules = await getScheduledStrategies('user-1', now);
+
+      expect(mockedDb.strategy.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', activeFrom: { not: null }, activeUntil: { gt: now } },
+        orderBy: { activeFrom: 'asc' },
+      });
+      expect(schedules).toEqual([
+        {
+          name: 'launch week',
+          strategy: { ...customStrategy, impressionRatio: 0.7, expressionRatio: 0.3 },
+          activeFrom,
+          activeUntil,
+        },
+      ]);
+    });
+  });
+});
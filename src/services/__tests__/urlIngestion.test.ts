@@ -0,0 +1,207 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * URL Ingestion Tests
+ *
+ * Parses post URLs and extracts text / author / counts from recorded pages and oEmbed responses
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  UrlIngestionError,
+  UrlIngestor,
+  applyPostMetrics,
+  decodeHtmlEntities,
+  extractInstagramPost,
+  parseCount,
+  parsePostUrl,
+} from '../urlIngestion';
+import type { BuzzAnalysis } from '../../types/index';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'urlIngestion', name), 'utf-8');
+}
+
+function respondWith(body: string, status = 200): jest.Mock {
+  return jest.fn().mockResolvedValue(new Response(body, { status }));
+}
+
+const analysis: BuzzAnalysis = {
+  id: 'analysis-1',
+  platform: 'threads',
+  originalUrl: 'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd',
+  impressions: 80000,
+  engagement: 3.5,
+  transcript: '1年前、貯金0円だった私が…',
+  keyPoints: [],
+  structure: { hook: '', mainPoints: [], cta: '', emotionalTriggers: [] },
+  analyzedAt: new Date(),
+};
+
+describe('UrlIngestion', () => {
+  describe('parsePostUrl', () => {
+    it('should recognize Threads, Instagram and X post URLs', () => {
+      expect(parsePostUrl('https://threads.com/@fukugyo.mama/post/C4xYz12AbCd?igshid=1')).toEqual({
+        platform: 'threads',
+        url: 'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd',
+        postId: 'C4xYz12AbCd',
+        username: 'fukugyo.mama',
+      });
+      expect(parsePostUrl('https://www.instagram.com/reel/DAbC123xYz/?utm_source=ig')).toMatchObject({
+        platform: 'instagram',
+        url: 'https://www.instagram.com/reel/DAbC123xYz/',
+      });
+      expect(parsePostUrl('https://mobile.twitter.com/buzz_writer/status/1765432109876543210')).toMatchObject({
+        platform: 'twitter',
+        url: 'https://x.com/buzz_writer/status/1765432109876543210',
+        username: 'buzz_writer',
+      });
+    });
+
+    it('should reject profile pages and other sites', () => {
+      expect(parsePostUrl('https://www.threads.net/@fukugyo.mama')).toBeNull();
+      expect(parsePostUrl('https://x.com/buzz_writer/status/abc')).toBeNull();
+      expect(parsePostUrl('https://example.com/p/DAbC123xYz')).toBeNull();
+      expect(parsePostUrl('manual-input')).toBeNull();
+    });
+  });
+
+  describe('parseCount', () => {
+    it('should parse abbreviated counts', () => {
+      expect(parseCount('1,234')).toBe(1234);
+      expect(parseCount('1.2K')).toBe(1200);
+      expect(parseCount('3.4M')).toBe(3400000);
+      expect(parseCount('1.5万')).toBe(15000);
+      expect(parseCount('many')).toBeUndefined();
+    });
+  });
+
+  describe('decodeHtmlEntities', () => {
+    it('should decode named and numeric entities', () => {
+      expect(decodeHtmlEntities('&quot;朝活&quot; &#x1F305; &#26397;')).toBe('"朝活" 🌅 朝');
+    });
+
+    it('should leave out-of-range code points as they are', () => {
+      expect(decodeHtmlEntities('&#x110000; &#99999999;')).toBe('&#x110000; &#99999999;');
+    });
+  });
+
+  describe('UrlIngestor.ingest', () => {
+    it('should extract text, author and counts from a Threads page', async () => {
+      const fetchMock = respondWith(fixture('threads-post.html'));
+      const ingestor = new UrlIngestor({ fetch: fetchMock });
+
+      const post = await ingestor.ingest('https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd');
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd'
+      );
+      expect(post.author).toBe('fukugyo.mama');
+      expect(post.text).toBe(
+        '1年前、貯金0円だった私が…「毎朝30分」だけ続けたこと。\n\n① 起きてすぐスマホを見ない\n② 30分だけ副業に使う\n\n保存して明日から試してね'
+      );
+      expect(post.metrics).toEqual({ likes: 4210, comments: 186, reposts: 352 });
+    });
+
+    it('should extract the caption and counts from an Instagram page', async () => {
+      const ingestor = new UrlIngestor({ fetch: respondWith(fixture('instagram-post.html')) });
+
+      const post = await ingestor.ingest('https://www.instagram.com/p/DAbC123xYz/');
+
+      expect(post.author).toBe('asakatsu.mika');
+      expect(post.text).toBe(
+        '朝5時に起きるだけで人生は変わらない。\n\n変わるのは「起きてから何をするか」。\n#朝活 #習慣化'
+      );
+      expect(post.metrics).toEqual({ likes: 12000, comments: 1043 });
+    });
+
+    it('should read Japanese Instagram descriptions', () => {
+      const html =
+        '<meta property="og:description" content="いいね！1.2万件、コメント88件 - asakatsu.mika、2026年3月1日: &quot;朝活のすすめ&quot;" />';
+      const postUrl = parsePostUrl('https://www.instagram.com/p/DAbC123xYz/')!;
+
+      expect(extractInstagramPost(html, postUrl)).toMatchObject({
+        text: '朝活のすすめ',
+        author: 'asakatsu.mika',
+        metrics: { likes: 12000, comments: 88 },
+      });
+    });
+
+    it('should read X posts through oEmbed', async () => {
+      const fetchMock = respondWith(fixture('twitter-oembed.json'));
+      const ingestor = new UrlIngestor({ fetch: fetchMock });
+
+      const post = await ingestor.ingest('https://twitter.com/buzz_writer/status/1765432109876543210');
+
+      const requested = new URL(fetchMock.mock.calls[0][0]);
+      expect(requested.origin + requested.pathname).toBe('https://publish.twitter.com/oembed');
+      expect(requested.searchParams.get('url')).toBe(
+        'https://x.com/buzz_writer/status/1765432109876543210'
+      );
+      expect(post.author).toBe('buzz_writer');
+      expect(post.text).toBe(
+        '伸びる投稿は「1行目」で9割決まる。\n\n✅ 数字を入れる\n✅ 結論から書く\n✅ 読者を主語にする #SNS運用'
+      );
+      expect(post.metrics).toEqual({});
+    });
+
+    it('should report login walls, missing posts and unsupported URLs', async () => {
+      await expect(
+        new UrlIngestor({ fetch: respondWith(fixture('instagram-login.html')) }).ingest(
+          'https://www.instagram.com/p/DAbC123xYz/'
+        )
+      ).rejects.toMatchObject({ code: 'no_content' });
+      await expect(
+        new UrlIngestor({ fetch: respondWith('', 404) }).ingest(
+          'https://x.com/buzz_writer/status/1765432109876543210'
+        )
+      ).rejects.toMatchObject({ code: 'not_found' });
+      await expect(
+        new UrlIngestor({ fetch: jest.fn().mockRejectedValue(new Error('ECONNRESET')) }).ingest(
+          'https://www.threads.net/@fukugyo.mama/post/C4xYz12AbCd'
+        )
+      ).rejects.toMatchObject({ code: 'fetch_failed' });
+
+      const fetchMock = jest.fn();
+      const error = await new UrlIngestor({ fetch: fetchMock })
+        .ingest('https://example.com/post/1')
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(UrlIngestionError);
+      expect(error).toMatchObject({ code: 'unsupported_url' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyPostMetrics', () => {
+    it('should use visible views as impressions and compute engagement from interactions', () => {
+      const result = applyPostMetrics(analysis, {
+        views: 50000,
+        likes: 4000,
+        comments: 600,
+        reposts: 400,
+      });
+
+      expect(result.impressions).toBe(50000);
+      expect(result.engagement).toBe(10);
+      expect(result.metricsSource).toBe('observed');
+    });
+
+    it('should not divide visible interactions by estimated impressions', () => {
+      const result = applyPostMetrics(analysis, { likes: 4000, comments: 600 });
+
+      expect(result.impressions).toBe(80000);
+      expect(result.engagement).toBe(3.5);
+      expect(result.metricsSource).toBeUndefined();
+    });
+
+    it('should keep the estimates when no counts are visible', () => {
+      const result = applyPostMetrics(analysis, {});
+
+      expect(result.impressions).toBe(80000);
+      expect(result.engagement).toBe(3.5);
+    });
+  });
+});
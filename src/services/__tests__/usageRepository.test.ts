@@ -0,0 +1,271 @@
+/**
+ * Usage Repository Tests
+ *
+ * Tests for reserving and recording Claude token usage and enforcing monthly budgets
+ */
+
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  estimateCostUsd,
+  getBillingPeriod,
+  getMonthlyUsage,
+  reserveUsage,
+  usageLimitResponseInit,
+} from '../usageRepository';
+import { prisma } from '../../lib/prisma';
+
+// Mock Prisma client
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    claudeUsage: {
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockedDb = prisma as unknown as {
+  claudeUsage: Record<string, jest.Mock>;
+  user: Record<string, jest.Mock>;
+};
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+/**
+ * groupBy の結果を作成
+ */
+function usageGroup(operation: string, inputTokens: number, outputTokens: number, costUsd: number) {
+  return {
+    operation,
+    _count: { _all: 2 },
+    _sum: { inputTokens, outputTokens, costUsd },
+  };
+}
+
+describe('UsageRepository', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.MONTHLY_TOKEN_BUDGET;
+    delete process.env.MONTHLY_COST_BUDGET_USD;
+    delete process.env.API_RATE_LIMIT;
+    mockedDb.claudeUsage.create.mockResolvedValue({ id: 'usage-1' });
+    mockedDb.claudeUsage.findMany.mockResolvedValue([]);
+    mockedDb.claudeUsage.groupBy.mockResolvedValue([]);
+    mockedDb.user.findUnique.mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('estimateCostUsd', () => {
+    it('should price tokens by model family', () => {
+      expect(estimateCostUsd('claude-sonnet-4-20250514', 1_000_000, 1_000_000)).toBeCloseTo(18);
+      expect(estimateCostUsd('claude-opus-4-20250514', 1000, 0)).toBeCloseTo(0.015);
+    });
+
+    it('should fall back to Sonnet pricing for unknown models', () => {
+      expect(estimateCostUsd('some-new-model', 1_000_000, 0)).toBeCloseTo(3);
+    });
+  });
+
+  it('should use the UTC calendar month as the billing period', () => {
+    expect(getBillingPeriod(new Date('2026-12-31T23:59:00Z'))).toEqual({
+      start: new Date('2026-12-01T00:00:00Z'),
+      end: new Date('2027-01-01T00:00:00Z'),
+    });
+  });
+
+  describe('reserveUsage', () => {
+    const request = {
+      operation: 'analyze' as const,
+      model: 'claude-sonnet-4-20250514',
+      maxTokens: 4000,
+    };
+
+    it('should reserve an estimate before the call and record the actual usage', async () => {
+      const settle = await reserveUsage('user-1', 'user', request, now);
+
+      expect(mockedDb.claudeUsage.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          operation: 'analyze',
+          model: 'claude-sonnet-4-20250514',
+          inputTokens: 0,
+          outputTokens: 4000,
+          costUsd: expect.closeTo(0.06),
+          keySource: 'user',
+          pending: true,
+          createdAt: now,
+        },
+        select: { id: true },
+      });
+
+      await settle({ ...request, inputTokens: 1200, outputTokens: 800 });
+
+      expect(mockedDb.claudeUsage.update).toHaveBeenCalledWith({
+        where: { id: 'usage-1' },
+        data: {
+          model: 'claude-sonnet-4-20250514',
+          inputTokens: 1200,
+          outputTokens: 800,
+          costUsd: expect.closeTo(0.0156),
+          pending: false,
+        },
+      });
+    });
+
+    it('should count calls still in flight but not its own reservation', async () => {
+      process.env.API_RATE_LIMIT = '2';
+      mockedDb.claudeUsage.findMany.mockResolvedValue([
+        { id: 'usage-0', createdAt: new Date('2026-03-15T11:59:30Z') },
+        { id: 'usage-1', createdAt: now },
+      ]);
+
+      await expect(reserveUsage('user-1', 'user', request, now)).resolves.toBeInstanceOf(Function);
+
+      mockedDb.claudeUsage.findMany.mockResolvedValue([
+        { id: 'usage-0', createdAt: new Date('2026-03-15T11:59:30Z') },
+        { id: 'usage-2', createdAt: now },
+        { id: 'usage-1', createdAt: now },
+      ]);
+
+      await expect(reserveUsage('user-1', 'user', request, now)).rejects.toMatchObject({
+        code: 'rate_limited',
+      });
+      expect(mockedDb.claudeUsage.delete).toHaveBeenCalledWith({ where: { id: 'usage-1' } });
+    });
+
+    it('should leave out its own estimate when checking the budget', async () => {
+      mockedDb.claudeUsage.groupBy.mockResolvedValue([usageGroup('analyze', 3000, 6000, 0.1)]);
+      mockedDb.user.findUnique.mockResolvedValue({
+        monthlyTokenBudget: 6000,
+        monthlyCostBudgetUsd: null,
+      });
+
+      await expect(reserveUsage('user-1', 'user', request, now)).resolves.toBeInstanceOf(Function);
+
+      mockedDb.user.findUnique.mockResolvedValue({
+        monthlyTokenBudget: 5000,
+        monthlyCostBudgetUsd: null,
+      });
+
+      await expect(reserveUsage('user-1', 'user', request, now)).rejects.toMatchObject({
+        code: 'token_budget_exceeded',
+      });
+    });
+
+    it('should drop the reservation when the call fails', async () => {
+      const settle = await reserveUsage('user-1', 'user', request, now);
+      await settle(null);
+
+      expect(mockedDb.claudeUsage.delete).toHaveBeenCalledWith({ where: { id: 'usage-1' } });
+      expect(mockedDb.claudeUsage.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('usageLimitResponseInit', () => {
+    it('should use the error status and always tell clients when to retry a 429', () => {
+      expect(
+        usageLimitResponseInit(new UsageLimitError('slow down', 'rate_limited', 20000))
+      ).toEqual({ status: 429, headers: { 'Retry-After': '20' } });
+      expect(usageLimitResponseInit(new UsageLimitError('slow down', 'rate_limited'))).toEqual({
+        status: 429,
+        headers: { 'Retry-After': '60' },
+      });
+      expect(
+        usageLimitResponseInit(new UsageLimitError('over budget', 'cost_budget_exceeded'))
+      ).toEqual({ status: 402 });
+    });
+  });
+
+  describe('getMonthlyUsage', () => {
+    it('should total usage per operation for the current month', async () => {
+      mockedDb.claudeUsage.groupBy.mockResolvedValue([
+        usageGroup('analyze', 3000, 1000, 0.024),
+        usageGroup('optimize', 2000, 2000, 0.036),
+      ]);
+      mockedDb.user.findUnique.mockResolvedValue({
+        monthlyTokenBudget: 100000,
+        monthlyCostBudgetUsd: null,
+      });
+
+      const usage = await getMonthlyUsage('user-1', now);
+
+      expect(mockedDb.claudeUsage.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            createdAt: {
+              gte: new Date('2026-03-01T00:00:00Z'),
+              lt: new Date('2026-04-01T00:00:00Z'),
+            },
+          },
+        })
+      );
+      expect(usage.totals).toEqual({
+        requests: 4,
+        inputTokens: 5000,
+        outputTokens: 3000,
+        totalTokens: 8000,
+        costUsd: expect.closeTo(0.06),
+      });
+      expect(usage.byOperation.optimize.totalTokens).toBe(4000);
+      expect(usage.byOperation.trends.requests).toBe(0);
+      expect(usage.budget).toEqual({ tokens: 100000, costUsd: null });
+    });
+  });
+
+  describe('assertWithinUsageLimits', () => {
+    it('should allow calls under every limit', async () => {
+      await expect(assertWithinUsageLimits('user-1', 'server', now)).resolves.toBeUndefined();
+    });
+
+    it('should rate limit with the time until the oldest call leaves the window', async () => {
+      process.env.API_RATE_LIMIT = '2';
+      mockedDb.claudeUsage.findMany.mockResolvedValue([
+        { createdAt: new Date('2026-03-15T11:59:20Z') },
+        { createdAt: new Date('2026-03-15T11:59:50Z') },
+      ]);
+
+      const error = await assertWithinUsageLimits('user-1', 'user', now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(UsageLimitError);
+      expect(error.code).toBe('rate_limited');
+      expect(error.retryAfter).toBe(20000);
+    });
+
+    it("should stop calls once the user's own budget is reached", async () => {
+      mockedDb.claudeUsage.groupBy.mockResolvedValue([usageGroup('analyze', 6000, 4000, 0.08)]);
+      mockedDb.user.findUnique.mockResolvedValue({
+        monthlyTokenBudget: 10000,
+        monthlyCostBudgetUsd: null,
+      });
+
+      await expect(assertWithinUsageLimits('user-1', 'user', now)).rejects.toMatchObject({
+        code: 'token_budget_exceeded',
+      });
+    });
+
+    it('should apply the server budget only when the server key is used', async () => {
+      process.env.MONTHLY_COST_BUDGET_USD = '0.05';
+      mockedDb.claudeUsage.groupBy.mockResolvedValue([usageGroup('score', 6000, 4000, 0.08)]);
+
+      await expect(assertWithinUsageLimits('user-1', 'user', now)).resolves.toBeUndefined();
+      await expect(assertWithinUsageLimits('user-1', 'server', now)).rejects.toMatchObject({
+        code: 'cost_budget_exceeded',
+      });
+    });
+  });
+});
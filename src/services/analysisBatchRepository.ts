@@ -0,0 +1,286 @@
+/**
+ * Analysis Batch Repository
+ *
+ * まとめて登録したバズ分析ジョブ（AnalysisBatch）と各行の永続化を担当
+ * - 行ごとの状態（pending → processing → succeeded / failed）で進捗を管理する
+ * - 処理する行は条件付き更新で取得する（同じ行を二重に分析しない）
+ */
+
+import type {
+  AnalysisBatch as AnalysisBatchRecord,
+  AnalysisBatchItem as AnalysisBatchItemRecord,
+  BuzzAnalysis as BuzzAnalysisRecord,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { toBuzzAnalysis } from './analysisRepository';
+import type { BuzzAnalysis, Platform } from '../types/index';
+
+/**
+ * 処理中のまま放置された行を pending に戻すまでの時間（ミリ秒）
+ */
+export const STALE_ITEM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * 行の状態
+ */
+export type BatchItemStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+/**
+ * ジョブの状態（行の状態から決まる）
+ */
+export type AnalysisBatchStatus = 'pending' | 'running' | 'completed';
+
+/**
+ * 登録する行
+ *
+ * error がある行は形式が不正なため、分析せずに failed として登録する。
+ */
+export interface BatchRowInput {
+  row: number;
+  url?: string;
+  content?: string;
+  platform?: Platform;
+  impressions?: number;
+  error?: string;
+}
+
+/**
+ * 処理する行
+ */
+export interface AnalysisBatchItem {
+  id: string;
+  row: number;
+  url?: string;
+  content?: string;
+  platform?: Platform;
+  impressions?: number;
+  status: BatchItemStatus;
+  attempts: number;
+  analysisId?: string;
+  error?: string;
+}
+
+/**
+ * 結果に含める行（成功した行は保存済みの分析結果つき）
+ */
+export interface AnalysisBatchItemWithAnalysis extends AnalysisBatchItem {
+  analysis?: BuzzAnalysis;
+}
+
+/**
+ * ジョブの進捗
+ */
+export interface AnalysisBatchProgress {
+  id: string;
+  source: string;
+  status: AnalysisBatchStatus;
+  total: number;
+  pending: number;
+  processing: number;
+  succeeded: number;
+  failed: number;
+  createdAt: Date;
+  items: AnalysisBatchItem[];
+}
+
+/**
+ * DBレコードを行に変換
+ */
+export function toAnalysisBatchItem(record: AnalysisBatchItemRecord): AnalysisBatchItem {
+  return {
+    id: record.id,
+    row: record.row,
+    ...(record.url && { url: record.url }),
+    ...(record.content && { content: record.content }),
+    ...(record.platform && { platform: record.platform }),
+    ...(record.impressions !== null && { impressions: record.impressions }),
+    status: record.status,
+    attempts: record.attempts,
+    ...(record.analysisId && { analysisId: record.analysisId }),
+    ...(record.errorMessage && { error: record.errorMessage }),
+  };
+}
+
+/**
+ * 行の状態からジョブの進捗を集計
+ */
+export function toAnalysisBatchProgress(
+  record: AnalysisBatchRecord,
+  itemRecords: AnalysisBatchItemRecord[]
+): AnalysisBatchProgress {
+  const items = itemRecords.map(toAnalysisBatchItem).sort((a, b) => a.row - b.row);
+  const count = (status: BatchItemStatus) =>
+    items.filter((item) => item.status === status).length;
+
+  const pending = count('pending');
+  const processing = count('processing');
+  const succeeded = count('succeeded');
+  const failed = count('failed');
+
+  // 形式が不正で登録時に failed になった行は attempts = 0 のまま
+  const started = items.some((item) => item.attempts > 0);
+  const status: AnalysisBatchStatus =
+    pending === 0 && processing === 0 ? 'completed' : started ? 'running' : 'pending';
+
+  return {
+    id: record.id,
+    source: record.source,
+    status,
+    total: items.length,
+    pending,
+    processing,
+    succeeded,
+    failed,
+    createdAt: record.createdAt,
+    items,
+  };
+}
+
+/**
+ * ジョブを登録
+ */
+export async function createAnalysisBatch(
+  userId: string,
+  source: string,
+  rows: BatchRowInput[]
+): Promise<AnalysisBatchProgress> {
+  const record = await prisma.analysisBatch.create({
+    data: {
+      userId,
+      source,
+      items: {
+        create: rows.map((row) => ({
+          row: row.row,
+          url: row.url ?? null,
+          content: row.content ?? null,
+          platform: row.platform ?? null,
+          impressions: row.impressions ?? null,
+          status: row.error ? 'failed' : 'pending',
+          errorMessage: row.error ?? null,
+          finishedAt: row.error ? new Date() : null,
+        })),
+      },
+    },
+    include: { items: true },
+  });
+
+  return toAnalysisBatchProgress(record, record.items);
+}
+
+/**
+ * ユーザーのジョブの進捗を取得（他のユーザーのジョブは null）
+ */
+export async function getAnalysisBatch(
+  userId: string,
+  id: string
+): Promise<AnalysisBatchProgress | null> {
+  const record = await prisma.analysisBatch.findFirst({
+    where: { id, userId },
+    include: { items: true },
+  });
+
+  return record ? toAnalysisBatchProgress(record, record.items) : null;
+}
+
+/**
+ * 結果のダウンロード用に、全行を保存済みの分析結果つきで取得
+ */
+export async function getAnalysisBatchResults(
+  userId: string,
+  id: string
+): Promise<AnalysisBatchItemWithAnalysis[] | null> {
+  const record = await prisma.analysisBatch.findFirst({
+    where: { id, userId },
+    include: { items: { include: { analysis: true }, orderBy: { row: 'asc' } } },
+  });
+
+  if (!record) return null;
+
+  return record.items.map(
+    (item: AnalysisBatchItemRecord & { analysis: BuzzAnalysisRecord | null }) => ({
+      ...toAnalysisBatchItem(item),
+      ...(item.analysis && { analysis: toBuzzAnalysis(item.analysis) }),
+    })
+  );
+}
+
+/**
+ * 未処理の行IDを行番号順に取得
+ *
+ * 処理中のまま STALE_ITEM_TIMEOUT_MS を過ぎた行（サーバーの再起動などで中断したもの）は
+ * pending に戻してから対象に含める。
+ */
+export async function listPendingItemIds(
+  batchId: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  await prisma.analysisBatchItem.updateMany({
+    where: {
+      batchId,
+      status: 'processing',
+      startedAt: { lt: new Date(now.getTime() - STALE_ITEM_TIMEOUT_MS) },
+    },
+    data: { status: 'pending', startedAt: null },
+  });
+
+  const items = await prisma.analysisBatchItem.findMany({
+    where: { batchId, status: 'pending' },
+    orderBy: { row: 'asc' },
+    select: { id: true },
+  });
+
+  return items.map((item) => item.id);
+}
+
+/**
+ * 行を処理中にして取得（他のワーカーが先に取得していれば null）
+ */
+export async function claimBatchItem(
+  id: string,
+  now: Date = new Date()
+): Promise<AnalysisBatchItem | null> {
+  const claimed = await prisma.analysisBatchItem.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'processing', startedAt: now, attempts: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) return null;
+
+  const record = await prisma.analysisBatchItem.findUnique({ where: { id } });
+  return record ? toAnalysisBatchItem(record) : null;
+}
+
+/**
+ * 処理中の行を pending に戻す（次の実行で処理し直す。今回の取得は試行に数えない）
+ */
+export async function releaseBatchItem(id: string): Promise<void> {
+  await prisma.analysisBatchItem.updateMany({
+    where: { id, status: 'processing' },
+    data: { status: 'pending', startedAt: null, attempts: { decrement: 1 } },
+  });
+}
+
+/**
+ * 行を成功にする
+ */
+export async function completeBatchItem(id: string, analysisId: string): Promise<void> {
+  await prisma.analysisBatchItem.update({
+    where: { id },
+    data: {
+      status: 'succeeded',
+      analysisId,
+      errorMessage: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * 行を失敗にする
+ */
+export async function failBatchItem(id: string, message: string): Promise<void> {
+  await prisma.analysisBatchItem.update({
+    where: { id },
+    data: { status: 'failed', errorMessage: message, finishedAt: new Date() },
+  });
+}
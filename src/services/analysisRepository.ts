@@ -0,0 +1,172 @@
+/**
+ * Analysis Repository
+ *
+ * バズ分析結果の永続化を担当
+ * - /api/analyze の結果をユーザーごとに BuzzAnalysis テーブルへ保存
+ * - プラットフォーム・期間での絞り込みとページネーション
+ */
+
+import type { BuzzAnalysis as BuzzAnalysisRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { parseJsonArray, toJsonArray } from '../lib/serialization';
+import type { BuzzAnalysis, PaginatedResult, Platform } from '../types/index';
+
+/**
+ * 一覧取得の上限件数
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * 一覧取得のデフォルト件数
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * 分析履歴の検索条件
+ */
+export interface AnalysisListQuery {
+  platform?: Platform;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toBuzzAnalysis(record: BuzzAnalysisRecord): BuzzAnalysis {
+  return {
+    id: record.id,
+    platform: record.platform,
+    originalUrl: record.originalUrl,
+    ...(record.author && { author: record.author }),
+    impressions: record.impressions,
+    engagement: record.engagement,
+    metricsSource: record.metricsSource,
+    transcript: record.transcript,
+    keyPoints: parseJsonArray(record.keyPoints),
+    structure: {
+      hook: record.hook ?? '',
+      mainPoints: parseJsonArray(record.mainPoints),
+      cta: record.cta ?? '',
+      emotionalTriggers: parseJsonArray(record.emotionalTriggers),
+    },
+    ...(record.promptVersion && { promptVersion: record.promptVersion }),
+    analyzedAt: record.createdAt,
+  };
+}
+
+/**
+ * 分析結果を保存
+ *
+ * 保存後のレコードIDで置き換えた BuzzAnalysis を返す。
+ * 以降の最適化はこのIDを originalAnalysisId として参照する。
+ */
+export async function saveAnalysis(
+  userId: string,
+  analysis: BuzzAnalysis
+): Promise<BuzzAnalysis> {
+  const record = await prisma.buzzAnalysis.create({
+    data: {
+      userId,
+      platform: analysis.platform,
+      originalUrl: analysis.originalUrl,
+      author: analysis.author ?? null,
+      impressions: Math.max(0, Math.round(analysis.impressions || 0)),
+      engagement: Math.max(0, Math.round(analysis.engagement || 0)),
+      metricsSource: analysis.metricsSource ?? 'estimated',
+      transcript: analysis.transcript,
+      hook: analysis.structure.hook,
+      mainPoints: toJsonArray(analysis.structure.mainPoints),
+      cta: analysis.structure.cta,
+      emotionalTriggers: toJsonArray(analysis.structure.emotionalTriggers),
+      keyPoints: toJsonArray(analysis.keyPoints),
+      promptVersion: analysis.promptVersion ?? null,
+    },
+  });
+
+  return toBuzzAnalysis(record);
+}
+
+/**
+ * ページ番号・件数を正規化
+ */
+export function normalizePagination(
+  page?: number,
+  limit?: number
+): { page: number; limit: number } {
+  const safePage = Number.isFinite(page) && page! >= 1 ? Math.floor(page!) : 1;
+  const safeLimit =
+    Number.isFinite(limit) && limit! >= 1
+      ? Math.min(MAX_PAGE_SIZE, Math.floor(limit!))
+      : DEFAULT_PAGE_SIZE;
+
+  return { page: safePage, limit: safeLimit };
+}
+
+/**
+ * ユーザーの分析履歴を取得（新しい順）
+ */
+export async function listAnalyses(
+  userId: string,
+  query: AnalysisListQuery = {}
+): Promise<PaginatedResult<BuzzAnalysis>> {
+  const { page, limit } = normalizePagination(query.page, query.limit);
+
+  const where = {
+    userId,
+    ...(query.platform && { platform: query.platform }),
+    ...((query.from || query.to) && {
+      createdAt: {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      },
+    }),
+  };
+
+  const [records, total] = await Promise.all([
+    prisma.buzzAnalysis.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.buzzAnalysis.count({ where }),
+  ]);
+
+  return {
+    items: records.map(toBuzzAnalysis),
+    total,
+    page,
+    limit,
+    hasMore: page * limit < total,
+  };
+}
+
+/**
+ * 分析結果を1件取得（他ユーザーのレコードは null）
+ */
+export async function getAnalysis(
+  userId: string,
+  id: string
+): Promise<BuzzAnalysis | null> {
+  const record = await prisma.buzzAnalysis.findFirst({
+    where: { id, userId },
+  });
+
+  return record ? toBuzzAnalysis(record) : null;
+}
+
+/**
+ * 分析結果を削除
+ *
+ * @returns 削除できた場合 true（存在しない・他ユーザーの場合 false）
+ */
+export async function deleteAnalysis(userId: string, id: string): Promise<boolean> {
+  const result = await prisma.buzzAnalysis.deleteMany({
+    where: { id, userId },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,170 @@
+/**
+ * API Key Repository
+ *
+ * ユーザーごとの Claude APIキーの保存と解決を担当
+ * - APIキーは鍵暗号化キー（API_KEY_ENCRYPTION_KEY）で暗号化して User.claudeApiKey に保存
+ * - リクエストしたユーザーのキーを優先し、ポリシーで許可されている場合のみサーバーのキーを使用
+ */
+
+import { prisma } from '../lib/prisma';
+import { getApiKeyFromEnv } from '../lib/claude';
+import { EncryptionError, decryptSecret, encryptSecret } from '../lib/encryption';
+import { isFixtureProviderEnabled } from '../lib/llmProvider';
+
+/**
+ * 表示用に残す末尾の文字数
+ */
+const HINT_LENGTH = 4;
+
+/**
+ * Claude APIキーの形式
+ */
+const CLAUDE_API_KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]{20,}$/;
+
+/**
+ * 使用するAPIキーの出所
+ */
+export type ApiKeySource = 'user' | 'server' | 'fixture';
+
+/**
+ * 解決したAPIキー
+ */
+export interface ResolvedApiKey {
+  apiKey: string;
+  source: ApiKeySource;
+}
+
+/**
+ * APIキーの登録状況（キー自体は返さない）
+ */
+export interface ApiKeyStatus {
+  hasUserKey: boolean;
+  hint?: string; // 末尾4文字
+  updatedAt?: Date;
+  serverFallbackAllowed: boolean;
+}
+
+/**
+ * APIキー操作のエラー
+ */
+export class ApiKeyError extends Error {
+  public readonly code: 'not_configured' | 'invalid_format' | 'unreadable';
+
+  constructor(message: string, code: ApiKeyError['code']) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.code = code;
+  }
+}
+
+/**
+ * ユーザーのキーがない場合にサーバーのキーを使うか
+ *
+ * SERVER_API_KEY_FALLBACK=false で無効化（各ユーザーに自分のキーを登録させる運用）
+ */
+export function isServerKeyFallbackAllowed(): boolean {
+  return process.env.SERVER_API_KEY_FALLBACK !== 'false';
+}
+
+/**
+ * APIキーの登録状況を取得
+ */
+export async function getApiKeyStatus(userId: string): Promise<ApiKeyStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { claudeApiKey: true, claudeApiKeyHint: true, claudeApiKeyUpdatedAt: true },
+  });
+
+  return {
+    hasUserKey: Boolean(user?.claudeApiKey),
+    ...(user?.claudeApiKey && user.claudeApiKeyHint && { hint: user.claudeApiKeyHint }),
+    ...(user?.claudeApiKey && user.claudeApiKeyUpdatedAt && { updatedAt: user.claudeApiKeyUpdatedAt }),
+    serverFallbackAllowed: isServerKeyFallbackAllowed(),
+  };
+}
+
+/**
+ * ユーザーのAPIキーを登録（既に登録済みの場合は置き換え）
+ *
+ * @throws ApiKeyError 形式が不正な場合
+ * @throws EncryptionError 鍵暗号化キーが未設定の場合
+ */
+export async function setUserApiKey(userId: string, apiKey: string): Promise<ApiKeyStatus> {
+  const trimmed = apiKey.trim();
+  if (!CLAUDE_API_KEY_PATTERN.test(trimmed)) {
+    throw new ApiKeyError('apiKey must be a Claude API key (sk-ant-...)', 'invalid_format');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      claudeApiKey: encryptSecret(trimmed),
+      claudeApiKeyHint: trimmed.slice(-HINT_LENGTH),
+      claudeApiKeyUpdatedAt: new Date(),
+    },
+  });
+
+  return getApiKeyStatus(userId);
+}
+
+/**
+ * ユーザーのAPIキーを削除
+ */
+export async function deleteUserApiKey(userId: string): Promise<ApiKeyStatus> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { claudeApiKey: null, claudeApiKeyHint: null, claudeApiKeyUpdatedAt: null },
+  });
+
+  return getApiKeyStatus(userId);
+}
+
+/**
+ * リクエストに使う Claude APIキーを解決
+ *
+ * 1. ユーザーが登録したキー
+ * 2. ポリシーで許可されている場合はサーバーのキー（ANTHROPIC_API_KEY / CLAUDE_API_KEY）
+ *
+ * LLM_PROVIDER=fixture の場合はキーを使わない（source: 'fixture'）
+ *
+ * @param userId - 未ログインの場合は null（サーバーのキーのみ）
+ * @throws ApiKeyError 使用できるキーがない・登録済みのキーを復号できない場合
+ */
+export async function resolveClaudeApiKey(userId: string | null): Promise<ResolvedApiKey> {
+  if (isFixtureProviderEnabled()) {
+    return { apiKey: '', source: 'fixture' };
+  }
+
+  if (userId) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { claudeApiKey: true },
+    });
+
+    if (user?.claudeApiKey) {
+      try {
+        return { apiKey: decryptSecret(user.claudeApiKey), source: 'user' };
+      } catch (error) {
+        if (error instanceof EncryptionError) {
+          throw new ApiKeyError(
+            'Your saved Claude API key could not be decrypted. Please register it again in settings.',
+            'unreadable'
+          );
+        }
+        throw error;
+      }
+    }
+  }
+
+  const serverKey = isServerKeyFallbackAllowed() ? getApiKeyFromEnv() : undefined;
+  if (!serverKey) {
+    throw new ApiKeyError(
+      isServerKeyFallbackAllowed()
+        ? 'Claude API key is not configured. Register your key in settings or set ANTHROPIC_API_KEY.'
+        : 'Claude API key is not configured. Register your own key in settings.',
+      'not_configured'
+    );
+  }
+
+  return { apiKey: serverKey, source: 'server' };
+}
@@ -0,0 +1,505 @@
+/**
+ * Batch Analysis Service
+ *
+ * 競合の投稿をまとめて分析するバッチ処理
+ * - CSV / JSON の行（url, content, platform, impressions）を検証して AnalysisBatch に登録
+ * - 同時実行数を制限したワーカーで1行ずつ分析し、行ごとに成功・失敗を記録
+ * - レート制限に当たった行は待ってから再試行する（Claude API のレート制限・利用回数の上限）
+ * - 月の予算を使い切ったら実行を止め、残りの行は pending のまま残す（予算を増やせば再開できる）
+ * - 結果は失敗した行と理由を含めて CSV / JSON で書き出す
+ */
+
+import { ClaudeAPIError, ClaudeClient } from '../lib/claude';
+import {
+  claimBatchItem,
+  completeBatchItem,
+  failBatchItem,
+  listPendingItemIds,
+  releaseBatchItem,
+  type AnalysisBatchItem,
+  type AnalysisBatchItemWithAnalysis,
+  type BatchRowInput,
+} from './analysisBatchRepository';
+import { saveAnalysis } from './analysisRepository';
+import { collectHook } from './hookLibraryRepository';
+import { resolveClaudeApiKey } from './apiKeyRepository';
+import {
+  UsageLimitError,
+  assertWithinUsageLimits,
+  createUsageReserver,
+} from './usageRepository';
+import {
+  UrlIngestor,
+  applyPostMetrics,
+  parsePostUrl,
+  type IngestedPost,
+  type PostMetrics,
+} from './urlIngestion';
+import type { BuzzAnalysis, Platform } from '../types/index';
+
+/**
+ * 1回のバッチで受け付ける最大行数
+ */
+export const MAX_BATCH_ROWS = 500;
+
+/**
+ * 1行あたりの本文の最大文字数（/api/analyze と同じ）
+ */
+export const MAX_BATCH_CONTENT_LENGTH = 10000;
+
+/**
+ * 同時に分析する行数のデフォルト
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * レート制限で待ってから再試行する回数の上限
+ */
+export const MAX_RATE_LIMIT_RETRIES = 5;
+
+/**
+ * 待ち時間が分からないレート制限のときに待つ時間（ミリ秒）
+ */
+const DEFAULT_RATE_LIMIT_WAIT_MS = 10 * 1000;
+
+/**
+ * 結果の書き出し形式
+ */
+export type BatchResultFormat = 'csv' | 'json';
+
+/**
+ * バッチ処理の設定
+ */
+export interface BatchAnalysisRunnerConfig {
+  client: Pick<ClaudeClient, 'analyzeBuzzContent'>;
+  ingestor?: Pick<UrlIngestor, 'ingest'>;
+  concurrency?: number;
+  maxRateLimitRetries?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * 1回の実行の集計
+ */
+export interface BatchRunSummary {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  stopped?: UsageLimitError['code']; // 予算の上限で実行を止めた場合
+}
+
+/**
+ * 結果の1行
+ */
+export interface BatchResultRow {
+  row: number;
+  status: string;
+  url: string;
+  platform: string;
+  analysisId: string;
+  impressions: number | '';
+  engagement: number | '';
+  hook: string;
+  mainPoints: string;
+  cta: string;
+  emotionalTriggers: string;
+  keyPoints: string;
+  error: string;
+}
+
+const VALID_PLATFORMS: Platform[] = ['threads', 'instagram', 'twitter'];
+
+/**
+ * 行の列名（小文字で比較）
+ */
+const ROW_COLUMNS = {
+  url: ['url', 'link', 'post url'],
+  content: ['content', 'text', 'body'],
+  platform: ['platform'],
+  impressions: ['impressions', 'views'],
+};
+
+/**
+ * 列名の候補から値を取り出す
+ */
+function pick(record: Record<string, unknown>, columns: string[]): unknown {
+  for (const [key, value] of Object.entries(record)) {
+    if (columns.includes(key.trim().toLowerCase())) return value;
+  }
+  return undefined;
+}
+
+/**
+ * 空でない文字列に変換（数値は文字列にする）
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * 1行を検証して登録する行に変換
+ *
+ * @param row - 1始まりの行番号
+ */
+export function normalizeBatchRow(record: unknown, row: number): BatchRowInput {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { row, error: 'Row must be an object' };
+  }
+
+  const fields = record as Record<string, unknown>;
+  const url = toText(pick(fields, ROW_COLUMNS.url));
+  const content = toText(pick(fields, ROW_COLUMNS.content));
+  const platformValue = toText(pick(fields, ROW_COLUMNS.platform))?.toLowerCase();
+  const impressionsValue = toText(pick(fields, ROW_COLUMNS.impressions));
+
+  const postUrl = url ? parsePostUrl(url) : null;
+  const platform = (platformValue || postUrl?.platform) as Platform | undefined;
+  const impressions = impressionsValue ? Number(impressionsValue.replace(/,/g, '')) : undefined;
+
+  const base: BatchRowInput = {
+    row,
+    ...(url && { url }),
+    ...(content && { content }),
+    ...(platform && VALID_PLATFORMS.includes(platform) && { platform }),
+  };
+
+  if (!content && !postUrl) {
+    return {
+      ...base,
+      error: url
+        ? 'url must be a Threads, Instagram or X (Twitter) post URL when content is empty'
+        : 'content or url is required',
+    };
+  }
+
+  if (!platform || !VALID_PLATFORMS.includes(platform)) {
+    return { ...base, error: 'Valid platform is required (threads, instagram, twitter)' };
+  }
+
+  if (postUrl && postUrl.platform !== platform) {
+    return { ...base, error: `url is a ${postUrl.platform} post but platform is ${platform}` };
+  }
+
+  if (content && content.length > MAX_BATCH_CONTENT_LENGTH) {
+    return {
+      ...base,
+      error: `content exceeds maximum length of ${MAX_BATCH_CONTENT_LENGTH} characters`,
+    };
+  }
+
+  if (impressions !== undefined && (!Number.isFinite(impressions) || impressions < 0)) {
+    return { ...base, error: 'impressions must be a non-negative number' };
+  }
+
+  return {
+    ...base,
+    ...(impressions !== undefined && { impressions: Math.round(impressions) }),
+  };
+}
+
+/**
+ * 全行を検証して登録する行に変換
+ */
+export function normalizeBatchRows(records: unknown[]): BatchRowInput[] {
+  return records.map((record, index) => normalizeBatchRow(record, index + 1));
+}
+
+/**
+ * 同時実行数を制限して処理
+ *
+ * @param signal - 中止されたら、各ワーカーは処理中のものを終えた後に次を取らない
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const size = Math.max(1, Math.min(concurrency, items.length));
+
+  await Promise.all(
+    Array.from({ length: size }, async () => {
+      while (next < items.length && !signal?.aborted) {
+        const item = items[next++];
+        await worker(item);
+      }
+    })
+  );
+}
+
+/**
+ * レート制限による待ち時間（レート制限でなければ null）
+ */
+function rateLimitWait(error: unknown): number | null {
+  if (error instanceof ClaudeAPIError && error.type === 'rate_limit') {
+    return error.retryAfter ?? DEFAULT_RATE_LIMIT_WAIT_MS;
+  }
+  if (error instanceof UsageLimitError && error.code === 'rate_limited') {
+    return error.retryAfter ?? DEFAULT_RATE_LIMIT_WAIT_MS;
+  }
+  return null;
+}
+
+/**
+ * 月の予算を使い切ったか（待っても解消しないので、実行を止める）
+ */
+function isBudgetExceeded(error: unknown): error is UsageLimitError {
+  return error instanceof UsageLimitError && error.code !== 'rate_limited';
+}
+
+/**
+ * バッチ分析の実行
+ */
+export class BatchAnalysisRunner {
+  private readonly client: Pick<ClaudeClient, 'analyzeBuzzContent'>;
+  private readonly ingestor?: Pick<UrlIngestor, 'ingest'>;
+  private readonly concurrency: number;
+  private readonly maxRateLimitRetries: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(config: BatchAnalysisRunnerConfig) {
+    this.client = config.client;
+    this.ingestor = config.ingestor;
+    this.concurrency = config.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    this.maxRateLimitRetries = config.maxRateLimitRetries ?? MAX_RATE_LIMIT_RETRIES;
+    this.sleep = config.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * ジョブの未処理の行をすべて処理
+   *
+   * 予算の上限に達した行は pending に戻し、他のワーカーにも次の行を取らせずに止める
+   */
+  async run(userId: string, batchId: string): Promise<BatchRunSummary> {
+    const ids = await listPendingItemIds(batchId);
+    const summary: BatchRunSummary = { processed: 0, succeeded: 0, failed: 0 };
+    const stop = new AbortController();
+
+    await runWithConcurrency(
+      ids,
+      this.concurrency,
+      async (id) => {
+        const item = await claimBatchItem(id);
+        if (!item) return;
+
+        try {
+          const analysis = await this.analyzeItem(item);
+          const saved = await saveAnalysis(userId, analysis);
+          await collectHook(userId, saved);
+          await completeBatchItem(id, saved.id);
+          summary.processed++;
+          summary.succeeded++;
+        } catch (error) {
+          if (isBudgetExceeded(error)) {
+            await releaseBatchItem(id);
+            summary.stopped = error.code;
+            stop.abort();
+            return;
+          }
+
+          const message = error instanceof Error ? error.message : 'Unknown analysis error';
+          await failBatchItem(id, message);
+          summary.processed++;
+          summary.failed++;
+        }
+      },
+      stop.signal
+    );
+
+    return summary;
+  }
+
+  /**
+   * 1行を分析（URLがあれば本文・反応数を取り込む）
+   */
+  private async analyzeItem(item: AnalysisBatchItem): Promise<BuzzAnalysis> {
+    const postUrl = item.url ? parsePostUrl(item.url) : null;
+    const platform = item.platform!;
+
+    let ingested: IngestedPost | null = null;
+    if (postUrl && this.ingestor) {
+      try {
+        ingested = await this.ingestor.ingest(postUrl.url);
+      } catch (error) {
+        if (!item.content) throw error;
+      }
+    }
+
+    const content = item.content ?? ingested?.text;
+    if (!content) {
+      throw new Error('No content to analyze');
+    }
+
+    // 利用上限は ClaudeClient が呼び出しごとに確認する（UsageLimitError）
+    const analysis = await this.withRateLimitRetry(() =>
+      this.client.analyzeBuzzContent(postUrl?.url ?? item.url ?? 'manual-input', content, platform)
+    );
+
+    // ファイルに記録されていたインプレッションは表示されていた閲覧数より優先する
+    const metrics: PostMetrics = {
+      ...ingested?.metrics,
+      ...(item.impressions !== undefined && { views: item.impressions }),
+    };
+
+    return {
+      ...applyPostMetrics(analysis, metrics),
+      ...(ingested?.author && { author: ingested.author }),
+    };
+  }
+
+  /**
+   * レート制限に当たったら待ってから再試行
+   */
+  private async withRateLimitRetry<T>(task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        const wait = rateLimitWait(error);
+        if (wait === null || attempt >= this.maxRateLimitRetries) throw error;
+        await this.sleep(wait);
+      }
+    }
+  }
+}
+
+/**
+ * このプロセスで実行中のジョブ（同じジョブのワーカーを重複して起動しない）
+ */
+const activeBatches = new Set<string>();
+
+/**
+ * ジョブの処理をバックグラウンドで開始
+ *
+ * APIキーの解決と利用上限のチェックはここで行い、エラーは呼び出し元に返す。
+ * 処理自体はレスポンスを返した後も続き、進捗は AnalysisBatchItem に記録される。
+ *
+ * @returns 処理を開始した場合は true（既に実行中なら false）
+ * @throws ApiKeyError, UsageLimitError
+ */
+export async function startBatchAnalysis(userId: string, batchId: string): Promise<boolean> {
+  if (activeBatches.has(batchId)) return false;
+
+  const { apiKey, source } = await resolveClaudeApiKey(userId);
+  await assertWithinUsageLimits(userId, source);
+
+  const runner = new BatchAnalysisRunner({
+    client: new ClaudeClient({ apiKey, reserveUsage: createUsageReserver(userId, source) }),
+    ingestor: new UrlIngestor(),
+  });
+
+  activeBatches.add(batchId);
+  void runner
+    .run(userId, batchId)
+    .catch((error) => console.error('Batch analysis error:', error))
+    .finally(() => activeBatches.delete(batchId));
+
+  return true;
+}
+
+/**
+ * 結果の列（CSVのヘッダー順）
+ */
+const RESULT_COLUMNS: Array<keyof BatchResultRow> = [
+  'row',
+  'status',
+  'url',
+  'platform',
+  'analysisId',
+  'impressions',
+  'engagement',
+  'hook',
+  'mainPoints',
+  'cta',
+  'emotionalTriggers',
+  'keyPoints',
+  'error',
+];
+
+/**
+ * 行を結果の1行に変換（リストは " / " でつなぐ）
+ */
+export function toBatchResultRow(item: AnalysisBatchItemWithAnalysis): BatchResultRow {
+  const analysis = item.analysis;
+
+  return {
+    row: item.row,
+    status: item.status,
+    url: item.url ?? '',
+    platform: item.platform ?? '',
+    analysisId: item.analysisId ?? '',
+    impressions: analysis ? analysis.impressions : '',
+    engagement: analysis ? analysis.engagement : '',
+    hook: analysis?.structure.hook ?? '',
+    mainPoints: analysis?.structure.mainPoints.join(' / ') ?? '',
+    cta: analysis?.structure.cta ?? '',
+    emotionalTriggers: analysis?.structure.emotionalTriggers.join(' / ') ?? '',
+    keyPoints: analysis?.keyPoints.join(' / ') ?? '',
+    error: item.error ?? '',
+  };
+}
+
+/**
+ * CSVのフィールドをエスケープ（RFC 4180）
+ */
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 結果をCSVに変換
+ */
+export function batchResultsToCsv(items: AnalysisBatchItemWithAnalysis[]): string {
+  const lines = items.map((item) => {
+    const row = toBatchResultRow(item);
+    return RESULT_COLUMNS.map((column) => escapeCsvField(row[column])).join(',');
+  });
+
+  return [RESULT_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * 結果をJSONに変換（成功した行は分析結果をそのまま含める）
+ */
+export function batchResultsToJson(items: AnalysisBatchItemWithAnalysis[]): string {
+  return JSON.stringify(
+    items.map((item) => ({
+      row: item.row,
+      status: item.status,
+      ...(item.url && { url: item.url }),
+      ...(item.platform && { platform: item.platform }),
+      ...(item.analysis && { analysis: item.analysis }),
+      ...(item.error && { error: item.error }),
+    })),
+    null,
+    2
+  );
+}
+
+/**
+ * 結果を指定した形式のファイルに変換
+ */
+export function exportBatchResults(
+  batchId: string,
+  items: AnalysisBatchItemWithAnalysis[],
+  format: BatchResultFormat
+): { body: string; contentType: string; filename: string } {
+  if (format === 'csv') {
+    return {
+      body: batchResultsToCsv(items),
+      contentType: 'text/csv; charset=utf-8',
+      filename: `analysis-batch-${batchId}.csv`,
+    };
+  }
+
+  return {
+    body: batchResultsToJson(items),
+    contentType: 'application/json; charset=utf-8',
+    filename: `analysis-batch-${batchId}.json`,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Brand Voice Repository
+ *
+ * ユーザーのブランドボイス（BrandVoiceProfile テーブル）の永続化を担当
+ * - 送られた投稿からプロファイルを抽出して保存する（投稿本文は保存しない）
+ * - 禁止ワードだけの更新は保存済みのプロファイルに適用する
+ */
+
+import type { BrandVoiceProfile as BrandVoiceProfileRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { extractBrandVoice, type BrandVoiceProfile } from '../lib/brandVoice';
+import { parseJsonArray, toJsonArray } from '../lib/serialization';
+
+/**
+ * 抽出に必要な投稿数と上限
+ */
+export const MIN_VOICE_SAMPLES = 3;
+export const MAX_VOICE_SAMPLES = 200;
+
+/**
+ * 1投稿の最大文字数
+ */
+export const MAX_VOICE_SAMPLE_LENGTH = 5000;
+
+/**
+ * 禁止ワードの最大件数
+ */
+export const MAX_BANNED_WORDS = 50;
+
+/**
+ * ブランドボイスの登録内容
+ *
+ * posts を省略した場合は保存済みのプロファイルの禁止ワードのみ更新する
+ */
+export interface BrandVoiceInput {
+  posts?: string[];
+  bannedWords?: string[];
+}
+
+/**
+ * ブランドボイス操作のエラー
+ */
+export class BrandVoiceError extends Error {
+  public readonly code: 'invalid_request' | 'not_found';
+
+  constructor(message: string, code: BrandVoiceError['code']) {
+    super(message);
+    this.name = 'BrandVoiceError';
+    this.code = code;
+  }
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toBrandVoiceProfile(record: BrandVoiceProfileRecord): BrandVoiceProfile {
+  return {
+    sampleCount: record.sampleCount,
+    averageSentenceLength: record.averageSentenceLength,
+    emojiPerPost: record.emojiPerPost,
+    topEmojis: parseJsonArray(record.topEmojis),
+    vocabulary: parseJsonArray(record.vocabulary),
+    signaturePhrases: parseJsonArray(record.signaturePhrases),
+    bannedWords: parseJsonArray(record.bannedWords),
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * 投稿を検証（空の投稿は除外）
+ */
+function parsePosts(posts: unknown): string[] {
+  if (!Array.isArray(posts) || posts.some((post) => typeof post !== 'string')) {
+    throw new BrandVoiceError('posts must be an array of strings', 'invalid_request');
+  }
+
+  const samples = (posts as string[]).map((post) => post.trim()).filter((post) => post.length > 0);
+  if (samples.length < MIN_VOICE_SAMPLES || samples.length > MAX_VOICE_SAMPLES) {
+    throw new BrandVoiceError(
+      `Provide between ${MIN_VOICE_SAMPLES} and ${MAX_VOICE_SAMPLES} posts`,
+      'invalid_request'
+    );
+  }
+  if (samples.some((post) => post.length > MAX_VOICE_SAMPLE_LENGTH)) {
+    throw new BrandVoiceError(
+      `Each post must be at most ${MAX_VOICE_SAMPLE_LENGTH} characters`,
+      'invalid_request'
+    );
+  }
+
+  return samples;
+}
+
+/**
+ * 禁止ワードを検証（重複・空文字は除外）
+ */
+function parseBannedWords(bannedWords: unknown): string[] {
+  if (!Array.isArray(bannedWords) || bannedWords.some((word) => typeof word !== 'string')) {
+    throw new BrandVoiceError('bannedWords must be an array of strings', 'invalid_request');
+  }
+
+  const words = Array.from(
+    new Set((bannedWords as string[]).map((word) => word.trim()).filter((word) => word.length > 0))
+  );
+  if (words.length > MAX_BANNED_WORDS) {
+    throw new BrandVoiceError(
+      `bannedWords must have at most ${MAX_BANNED_WORDS} words`,
+      'invalid_request'
+    );
+  }
+
+  return words;
+}
+
+/**
+ * プロファイルをDBカラムに変換
+ */
+function toProfileColumns(profile: BrandVoiceProfile) {
+  return {
+    sampleCount: profile.sampleCount,
+    averageSentenceLength: profile.averageSentenceLength,
+    emojiPerPost: profile.emojiPerPost,
+    topEmojis: toJsonArray(profile.topEmojis),
+    vocabulary: toJsonArray(profile.vocabulary),
+    signaturePhrases: toJsonArray(profile.signaturePhrases),
+    bannedWords: toJsonArray(profile.bannedWords),
+  };
+}
+
+/**
+ * ユーザーのブランドボイスを取得（未登録の場合は null）
+ */
+export async function getBrandVoice(userId: string): Promise<BrandVoiceProfile | null> {
+  const record = await prisma.brandVoiceProfile.findUnique({ where: { userId } });
+  return record ? toBrandVoiceProfile(record) : null;
+}
+
+/**
+ * ブランドボイスを登録・更新
+ *
+ * @throws BrandVoiceError 入力が不正な場合、禁止ワードのみの更新でプロファイルが未登録の場合
+ */
+export async function saveBrandVoice(
+  userId: string,
+  input: BrandVoiceInput
+): Promise<BrandVoiceProfile> {
+  const bannedWords =
+    input.bannedWords === undefined ? undefined : parseBannedWords(input.bannedWords);
+
+  if (input.posts === undefined) {
+    if (bannedWords === undefined) {
+      throw new BrandVoiceError('posts or bannedWords is required', 'invalid_request');
+    }
+
+    const existing = await prisma.brandVoiceProfile.findUnique({ where: { userId } });
+    if (!existing) {
+      throw new BrandVoiceError(
+        'No brand voice profile yet. Send your posts to create one.',
+        'not_found'
+      );
+    }
+
+    const record = await prisma.brandVoiceProfile.update({
+      where: { userId },
+      data: { bannedWords: toJsonArray(bannedWords) },
+    });
+    return toBrandVoiceProfile(record);
+  }
+
+  const posts = parsePosts(input.posts);
+
+  // 禁止ワードの指定がなければ保存済みのものを引き継ぐ
+  let keptBannedWords = bannedWords;
+  if (keptBannedWords === undefined) {
+    const existing = await prisma.brandVoiceProfile.findUnique({
+      where: { userId },
+      select: { bannedWords: true },
+    });
+    keptBannedWords = parseJsonArray(existing?.bannedWords);
+  }
+
+  const columns = toProfileColumns(extractBrandVoice(posts, keptBannedWords));
+  const record = await prisma.brandVoiceProfile.upsert({
+    where: { userId },
+    create: { userId, ...columns },
+    update: columns,
+  });
+
+  return toBrandVoiceProfile(record);
+}
+
+/**
+ * ブランドボイスを削除
+ *
+ * @returns 削除した場合 true
+ */
+export async function deleteBrandVoice(userId: string): Promise<boolean> {
+  const result = await prisma.brandVoiceProfile.deleteMany({ where: { userId } });
+  return result.count > 0;
+}
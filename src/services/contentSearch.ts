@@ -0,0 +1,212 @@
+/**
+ * Content Search
+ *
+ * 保存した分析（本文・キーポイント）と最適化した下書きを横断して検索する
+ * - キーワード検索（日本語向けのトークン化と BM25）
+ * - 類似検索（ローカルの埋め込みのコサイン類似度。外部サービスは使わない）
+ * - プラットフォーム・モード・期間での絞り込み
+ */
+
+import { prisma } from '../lib/prisma';
+import { parseJsonArray } from '../lib/serialization';
+import {
+  buildSnippet,
+  containsQueryTerms,
+  rankByKeyword,
+  rankBySimilarity,
+} from '../lib/textSearch';
+import type { Platform, PostMode } from '../types/index';
+
+/**
+ * 検索の一致方法
+ */
+export type SearchMatch = 'keyword' | 'semantic';
+
+export const SEARCH_MATCHES: SearchMatch[] = ['keyword', 'semantic'];
+
+/**
+ * 検索対象の種類（分析 / 下書き）
+ */
+export type SearchResultType = 'analysis' | 'draft';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['analysis', 'draft'];
+
+/**
+ * 種類ごとに検索対象にする件数の上限（新しい順）
+ */
+export const MAX_SEARCH_CANDIDATES = 1000;
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * 検索条件
+ */
+export interface ContentSearchQuery {
+  q: string;
+  match?: SearchMatch;
+  types?: SearchResultType[];
+  platform?: Platform;
+  mode?: PostMode; // 指定した場合は下書きのみ（分析にはモードがない）
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * 検索結果の1件
+ */
+export interface ContentSearchHit {
+  type: SearchResultType;
+  id: string;
+  platform: Platform;
+  mode?: PostMode;
+  field: 'transcript' | 'keyPoints' | 'content'; // スニペットを切り出したフィールド
+  snippet: string;
+  score: number;
+  createdAt: Date;
+  analysisId?: string; // 下書きの元になった分析
+}
+
+export interface ContentSearchResult {
+  query: string;
+  match: SearchMatch;
+  total: number;
+  hits: ContentSearchHit[];
+}
+
+interface SearchDocument {
+  type: SearchResultType;
+  id: string;
+  platform: Platform;
+  mode?: PostMode;
+  createdAt: Date;
+  analysisId?: string;
+  fields: Partial<Record<ContentSearchHit['field'], string>>;
+}
+
+/**
+ * 期間の条件
+ */
+function createdAtRange(query: ContentSearchQuery) {
+  return (query.from || query.to) && {
+    createdAt: {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to }),
+    },
+  };
+}
+
+async function loadAnalyses(
+  userId: string,
+  query: ContentSearchQuery
+): Promise<SearchDocument[]> {
+  const records = await prisma.buzzAnalysis.findMany({
+    where: {
+      userId,
+      ...(query.platform && { platform: query.platform }),
+      ...createdAtRange(query),
+    },
+    select: { id: true, platform: true, transcript: true, keyPoints: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_SEARCH_CANDIDATES,
+  });
+
+  return records.map((record) => ({
+    type: 'analysis' as const,
+    id: record.id,
+    platform: record.platform,
+    createdAt: record.createdAt,
+    fields: {
+      transcript: record.transcript,
+      keyPoints: parseJsonArray(record.keyPoints).join(' / '),
+    },
+  }));
+}
+
+async function loadDrafts(
+  userId: string,
+  query: ContentSearchQuery
+): Promise<SearchDocument[]> {
+  const records = await prisma.optimizedContent.findMany({
+    where: {
+      userId,
+      ...(query.platform && { targetPlatform: query.platform }),
+      ...(query.mode && { mode: query.mode }),
+      ...createdAtRange(query),
+    },
+    select: {
+      id: true,
+      targetPlatform: true,
+      mode: true,
+      content: true,
+      originalAnalysisId: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_SEARCH_CANDIDATES,
+  });
+
+  return records.map((record) => ({
+    type: 'draft' as const,
+    id: record.id,
+    platform: record.targetPlatform,
+    mode: record.mode,
+    createdAt: record.createdAt,
+    ...(record.originalAnalysisId && { analysisId: record.originalAnalysisId }),
+    fields: { content: record.content },
+  }));
+}
+
+/**
+ * スニペットを切り出すフィールド（クエリを含む最初のフィールド）
+ */
+function snippetField(document: SearchDocument, q: string): ContentSearchHit['field'] {
+  const fields = Object.keys(document.fields) as ContentSearchHit['field'][];
+  const matched = fields.find((field) => containsQueryTerms(document.fields[field] ?? '', q));
+  return matched ?? fields[0];
+}
+
+/**
+ * 分析と下書きを検索
+ *
+ * 各種類の新しい MAX_SEARCH_CANDIDATES 件を対象に、スコアの高い順（同点は新しい順）に返す。
+ */
+export async function searchContent(
+  userId: string,
+  query: ContentSearchQuery
+): Promise<ContentSearchResult> {
+  const q = query.q.trim();
+  const match = query.match ?? 'keyword';
+  const types = query.types?.length ? query.types : SEARCH_RESULT_TYPES;
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+
+  const [analyses, drafts] = await Promise.all([
+    types.includes('analysis') && !query.mode ? loadAnalyses(userId, query) : [],
+    types.includes('draft') ? loadDrafts(userId, query) : [],
+  ]);
+  const documents = [...analyses, ...drafts];
+
+  const texts = documents.map((document) => Object.values(document.fields).join('\n'));
+  const ranked = match === 'semantic' ? rankBySimilarity(q, texts) : rankByKeyword(q, texts);
+
+  const hits = ranked
+    .map(({ index, score }): ContentSearchHit => {
+      const document = documents[index];
+      const field = snippetField(document, q);
+      return {
+        type: document.type,
+        id: document.id,
+        platform: document.platform,
+        ...(document.mode && { mode: document.mode }),
+        field,
+        snippet: buildSnippet(document.fields[field] ?? '', q),
+        score: Math.round(score * 1000) / 1000,
+        createdAt: document.createdAt,
+        ...(document.analysisId && { analysisId: document.analysisId }),
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime());
+
+  return { query: q, match, total: hits.length, hits: hits.slice(0, limit) };
+}
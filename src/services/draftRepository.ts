@@ -0,0 +1,215 @@
+/**
+ * Draft Repository
+ *
+ * 最適化コンテンツ（下書き）の永続化を担当
+ * - /api/optimize の結果を OptimizedContent テーブルへ保存
+ * - 下書きライブラリ（一覧・取得・編集・削除）
+ * - 元の BuzzAnalysis からの派生関係（lineage）の検索
+ */
+
+import type { OptimizedContent as OptimizedContentRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { parseJson, parseJsonArray, toJsonArray } from '../lib/serialization';
+import { joinSegments } from '../lib/threadSegments';
+import { parseVisualPlan } from '../lib/visualPlan';
+import { normalizePagination } from './analysisRepository';
+import type {
+  OptimizedContent,
+  PaginatedResult,
+  Platform,
+  PostMode,
+} from '../types/index';
+
+/**
+ * 下書き一覧の検索条件
+ */
+export interface DraftListQuery {
+  platform?: Platform;
+  mode?: PostMode;
+  analysisId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 下書きの編集可能フィールド
+ *
+ * segments を指定した場合、content は各投稿をつないだ全文で置き換える。
+ * content だけを指定した場合は単一の投稿に戻す。
+ */
+export interface DraftUpdate {
+  content?: string;
+  segments?: string[];
+  hashtags?: string[];
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ *
+ * 元の分析が削除された下書きは originalAnalysisId が空文字になる。
+ */
+export function toOptimizedContent(record: OptimizedContentRecord): OptimizedContent {
+  const visualPlan = parseVisualPlan(parseJson<unknown>(record.visualPlan, null));
+
+  return {
+    id: record.id,
+    originalAnalysisId: record.originalAnalysisId ?? '',
+    targetPlatform: record.targetPlatform,
+    content: record.content,
+    ...(record.segments && { segments: parseJsonArray(record.segments) }),
+    hashtags: parseJsonArray(record.hashtags),
+    ...(visualPlan && { visualPlan }),
+    bestPostTime: record.bestPostTime ?? record.createdAt,
+    expectedImpressions: record.expectedImpressions,
+    mode: record.mode,
+    ...(record.promptVersion && { promptVersion: record.promptVersion }),
+    ...(record.voiceMatchScore !== null && { voiceMatchScore: record.voiceMatchScore }),
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * 最適化結果を下書きとして保存
+ *
+ * originalAnalysisId はユーザー自身の保存済み分析を指す場合のみ関連付ける。
+ * 生成時の検証結果（compliance）は保存せず、そのまま返す。
+ */
+export async function saveDraft(
+  userId: string,
+  draft: OptimizedContent
+): Promise<OptimizedContent> {
+  const sourceAnalysis = draft.originalAnalysisId
+    ? await prisma.buzzAnalysis.findFirst({
+        where: { id: draft.originalAnalysisId, userId },
+        select: { id: true },
+      })
+    : null;
+
+  const record = await prisma.optimizedContent.create({
+    data: {
+      userId,
+      originalAnalysisId: sourceAnalysis?.id ?? null,
+      targetPlatform: draft.targetPlatform,
+      content: draft.content,
+      segments: draft.segments ? toJsonArray(draft.segments) : null,
+      hashtags: toJsonArray(draft.hashtags),
+      visualPlan: draft.visualPlan ? JSON.stringify(draft.visualPlan) : null,
+      bestPostTime: draft.bestPostTime,
+      expectedImpressions: Math.max(0, Math.round(draft.expectedImpressions || 0)),
+      mode: draft.mode,
+      promptVersion: draft.promptVersion ?? null,
+      voiceMatchScore: draft.voiceMatchScore ?? null,
+    },
+  });
+
+  return {
+    ...toOptimizedContent(record),
+    ...(draft.compliance && { compliance: draft.compliance }),
+  };
+}
+
+/**
+ * ユーザーの下書き一覧を取得（新しい順）
+ */
+export async function listDrafts(
+  userId: string,
+  query: DraftListQuery = {}
+): Promise<PaginatedResult<OptimizedContent>> {
+  const { page, limit } = normalizePagination(query.page, query.limit);
+
+  const where = {
+    userId,
+    ...(query.platform && { targetPlatform: query.platform }),
+    ...(query.mode && { mode: query.mode }),
+    ...(query.analysisId && { originalAnalysisId: query.analysisId }),
+  };
+
+  const [records, total] = await Promise.all([
+    prisma.optimizedContent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.optimizedContent.count({ where }),
+  ]);
+
+  return {
+    items: records.map(toOptimizedContent),
+    total,
+    page,
+    limit,
+    hasMore: page * limit < total,
+  };
+}
+
+/**
+ * 指定した分析から派生した下書きをすべて取得
+ */
+export async function listDraftsForAnalysis(
+  userId: string,
+  analysisId: string
+): Promise<OptimizedContent[]> {
+  const records = await prisma.optimizedContent.findMany({
+    where: { userId, originalAnalysisId: analysisId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return records.map(toOptimizedContent);
+}
+
+/**
+ * 下書きを1件取得（他ユーザーのレコードは null）
+ */
+export async function getDraft(
+  userId: string,
+  id: string
+): Promise<OptimizedContent | null> {
+  const record = await prisma.optimizedContent.findFirst({
+    where: { id, userId },
+  });
+
+  return record ? toOptimizedContent(record) : null;
+}
+
+/**
+ * 下書きの本文（スレッドの場合は各投稿）・ハッシュタグを編集
+ *
+ * @returns 更新後の下書き（存在しない・他ユーザーの場合 null）
+ */
+export async function updateDraft(
+  userId: string,
+  id: string,
+  updates: DraftUpdate
+): Promise<OptimizedContent | null> {
+  const result = await prisma.optimizedContent.updateMany({
+    where: { id, userId },
+    data: {
+      ...(updates.content !== undefined && { content: updates.content, segments: null }),
+      ...(updates.segments !== undefined && {
+        content: joinSegments(updates.segments),
+        segments: toJsonArray(updates.segments),
+      }),
+      ...(updates.hashtags !== undefined && { hashtags: toJsonArray(updates.hashtags) }),
+    },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  return getDraft(userId, id);
+}
+
+/**
+ * 下書きを削除
+ *
+ * @returns 削除できた場合 true（存在しない・他ユーザーの場合 false）
+ */
+export async function deleteDraft(userId: string, id: string): Promise<boolean> {
+  const result = await prisma.optimizedContent.deleteMany({
+    where: { id, userId },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,266 @@
+/**
+ * Hook Library Repository
+ *
+ * 分析したバズ投稿のフックをユーザーごとのライブラリとして保存する
+ * - 分析を保存するたびにフックを登録し、同じプラットフォームの類似フックはまとめる
+ *   （元の投稿の数を数え、最も反応が多かった投稿の実績を残す）
+ * - 登録はユーザー・プラットフォームごとに順番に行い（バッチの並列ワーカー対策）、
+ *   正規化したフックの一意制約で別インスタンスからの同じフックの重複も防ぐ
+ * - キーワード・タグ・プラットフォームでの検索と、エンゲージメントなどでの並べ替え
+ */
+
+import { Prisma, type HookLibraryEntry as HookLibraryEntryRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  findSimilarHook,
+  normalizeHookText,
+  type HookLibraryEntry,
+  type HookSort,
+} from '../lib/hookLibrary';
+import { parseJsonArray, toJsonArray } from '../lib/serialization';
+import { normalizePagination } from './analysisRepository';
+import { interactionsOf } from './patternMining';
+import type { BuzzAnalysis, PaginatedResult, Platform } from '../types/index';
+
+/**
+ * フックの検索条件
+ */
+export interface HookListQuery {
+  q?: string; // フック・タグ・感情トリガーに含まれる文字列
+  platform?: Platform;
+  tag?: string;
+  sort?: HookSort;
+  page?: number;
+  limit?: number;
+}
+
+const SORT_ORDERS: Record<HookSort, Prisma.HookLibraryEntryOrderByWithRelationInput[]> = {
+  engagement: [{ engagement: 'desc' }, { impressions: 'desc' }],
+  impressions: [{ impressions: 'desc' }, { engagement: 'desc' }],
+  usage: [{ usageCount: 'desc' }, { engagement: 'desc' }],
+  recent: [{ createdAt: 'desc' }],
+};
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toHookLibraryEntry(record: HookLibraryEntryRecord): HookLibraryEntry {
+  return {
+    id: record.id,
+    text: record.text,
+    platform: record.platform,
+    emotionalTriggers: parseJsonArray(record.emotionalTriggers),
+    tags: parseJsonArray(record.tags),
+    impressions: record.impressions,
+    engagement: record.engagement,
+    sourceCount: record.sourceCount,
+    ...(record.sourceAnalysisId && { sourceAnalysisId: record.sourceAnalysisId }),
+    usageCount: record.usageCount,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * ユーザー・プラットフォームごとの登録待ち（類似判定と登録を順番に行う）
+ */
+const collectQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * 同じキーの処理を前の処理が終わってから実行
+ */
+function runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = collectQueues.get(key) ?? Promise.resolve();
+  const result = previous.then(task, task);
+  const settled = result.catch(() => undefined);
+  collectQueues.set(key, settled);
+  void settled.then(() => {
+    if (collectQueues.get(key) === settled) collectQueues.delete(key);
+  });
+  return result;
+}
+
+/**
+ * 類似フックにまとめるか、新しく登録
+ */
+async function mergeOrCreateHook(
+  userId: string,
+  analysis: BuzzAnalysis,
+  text: string
+): Promise<HookLibraryEntryRecord> {
+  const existing = await prisma.hookLibraryEntry.findMany({
+    where: { userId, platform: analysis.platform },
+  });
+  const similar = findSimilarHook(text, existing);
+
+  if (similar) {
+    const outperforms =
+      interactionsOf(analysis) > (similar.impressions * similar.engagement) / 100;
+    return prisma.hookLibraryEntry.update({
+      where: { id: similar.id },
+      data: {
+        sourceCount: { increment: 1 },
+        emotionalTriggers: toJsonArray(
+          Array.from(
+            new Set([
+              ...parseJsonArray(similar.emotionalTriggers),
+              ...analysis.structure.emotionalTriggers,
+            ])
+          )
+        ),
+        ...(outperforms && {
+          impressions: analysis.impressions,
+          engagement: analysis.engagement,
+          sourceAnalysisId: analysis.id,
+        }),
+      },
+    });
+  }
+
+  return prisma.hookLibraryEntry.create({
+    data: {
+      userId,
+      platform: analysis.platform,
+      text,
+      normalizedText: normalizeHookText(text),
+      emotionalTriggers: toJsonArray(analysis.structure.emotionalTriggers),
+      impressions: analysis.impressions,
+      engagement: analysis.engagement,
+      sourceAnalysisId: analysis.id,
+    },
+  });
+}
+
+/**
+ * 保存した分析のフックをライブラリに登録
+ *
+ * 同じプラットフォームに類似のフックがあれば新しく作らずにまとめる。
+ * 別のインスタンスが同じフックを先に登録していた場合は、そのフックにまとめ直す。
+ * 登録の失敗で分析の保存は失敗させない（エラーはログに残して null を返す）。
+ */
+export async function collectHook(
+  userId: string,
+  analysis: BuzzAnalysis
+): Promise<HookLibraryEntry | null> {
+  const text = analysis.structure.hook.trim();
+  if (text.length === 0) return null;
+
+  try {
+    const record = await runExclusive(`${userId}:${analysis.platform}`, async () => {
+      try {
+        return await mergeOrCreateHook(userId, analysis, text);
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return mergeOrCreateHook(userId, analysis, text);
+        }
+        throw error;
+      }
+    });
+    return toHookLibraryEntry(record);
+  } catch (error) {
+    console.error('Failed to add hook to the library:', error);
+    return null;
+  }
+}
+
+/**
+ * ライブラリを検索
+ */
+export async function listHooks(
+  userId: string,
+  query: HookListQuery = {}
+): Promise<PaginatedResult<HookLibraryEntry>> {
+  const { page, limit } = normalizePagination(query.page, query.limit);
+  const keyword = query.q?.trim();
+
+  const where: Prisma.HookLibraryEntryWhereInput = {
+    userId,
+    ...(query.platform && { platform: query.platform }),
+    AND: [
+      ...(keyword
+        ? [
+            {
+              OR: [
+                { text: { contains: keyword } },
+                { tags: { contains: keyword } },
+                { emotionalTriggers: { contains: keyword } },
+              ],
+            },
+          ]
+        : []),
+      // タグは JSON 配列の要素として完全一致
+      ...(query.tag ? [{ tags: { contains: JSON.stringify(query.tag) } }] : []),
+    ],
+  };
+
+  const [records, total] = await Promise.all([
+    prisma.hookLibraryEntry.findMany({
+      where,
+      orderBy: SORT_ORDERS[query.sort ?? 'engagement'],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.hookLibraryEntry.count({ where }),
+  ]);
+
+  return {
+    items: records.map(toHookLibraryEntry),
+    total,
+    page,
+    limit,
+    hasMore: page * limit < total,
+  };
+}
+
+/**
+ * フックを1件取得（他ユーザーのフックは null）
+ */
+export async function getHook(userId: string, id: string): Promise<HookLibraryEntry | null> {
+  const record = await prisma.hookLibraryEntry.findFirst({
+    where: { id, userId },
+  });
+
+  return record ? toHookLibraryEntry(record) : null;
+}
+
+/**
+ * タグを置き換える
+ *
+ * @returns 更新後のフック（存在しない・他ユーザーの場合 null）
+ */
+export async function updateHookTags(
+  userId: string,
+  id: string,
+  tags: string[]
+): Promise<HookLibraryEntry | null> {
+  const result = await prisma.hookLibraryEntry.updateMany({
+    where: { id, userId },
+    data: { tags: toJsonArray(tags) },
+  });
+  if (result.count === 0) return null;
+
+  return getHook(userId, id);
+}
+
+/**
+ * 最適化の冒頭に使った回数を記録
+ */
+export async function recordHookUsage(userId: string, id: string): Promise<void> {
+  await prisma.hookLibraryEntry.updateMany({
+    where: { id, userId },
+    data: { usageCount: { increment: 1 } },
+  });
+}
+
+/**
+ * フックを削除
+ *
+ * @returns 削除できた場合 true（存在しない・他ユーザーの場合 false）
+ */
+export async function deleteHook(userId: string, id: string): Promise<boolean> {
+  const result = await prisma.hookLibraryEntry.deleteMany({
+    where: { id, userId },
+  });
+
+  return result.count > 0;
+}
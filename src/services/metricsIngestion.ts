@@ -0,0 +1,286 @@
+/**
+ * Metrics Ingestion Service
+ *
+ * 各SNSのアナリティクスからエクスポートした CSV / JSON を
+ * エンゲージメント実績（EngagementEvent）に変換する
+ *
+ * 対応フォーマット:
+ * - 汎用形式: 1行1実績（type, occurredAt, count, externalId）
+ * - 投稿アナリティクス形式: 1行1投稿（各SNSのエクスポート列名をそのまま使用）
+ *   投稿1件につき post_published と、返信数・保存数などの受け取った反応を実績として展開する
+ */
+
+import type { EngagementEvent, EngagementEventType, Platform } from '../types/index';
+
+/**
+ * 1回のインポートで受け付ける最大行数
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * 実績の種類一覧
+ */
+export const ENGAGEMENT_EVENT_TYPES: EngagementEventType[] = [
+  'like_given',
+  'comment_given',
+  'share_given',
+  'reply_received',
+  'post_published',
+  'trending_hashtag_used',
+  'trending_topic_engaged',
+  'early_trend_engaged',
+  'follower_gained',
+  'mention_received',
+  'saved_by_others',
+  'profile_visit',
+];
+
+/**
+ * 変換できなかった行
+ */
+export interface ImportRowError {
+  row: number; // 1始まり（CSVのヘッダー行は含まない）
+  message: string;
+}
+
+/**
+ * 変換結果
+ */
+export interface NormalizedImport {
+  events: EngagementEvent[];
+  errors: ImportRowError[];
+}
+
+/**
+ * 投稿アナリティクス形式の列定義（列名は小文字で比較）
+ */
+interface PostAnalyticsColumns {
+  id: string[];
+  time: string[];
+  metrics: Array<{ columns: string[]; type: EngagementEventType }>;
+}
+
+const POST_ANALYTICS_COLUMNS: Record<Platform, PostAnalyticsColumns> = {
+  // Threads インサイト（API の投稿メトリクス）
+  threads: {
+    id: ['id', 'post id', 'media id'],
+    time: ['timestamp', 'publish time', 'date'],
+    metrics: [
+      { columns: ['replies'], type: 'reply_received' },
+      { columns: ['quotes'], type: 'mention_received' },
+      { columns: ['follows', 'new follows'], type: 'follower_gained' },
+      { columns: ['profile visits'], type: 'profile_visit' },
+    ],
+  },
+  // Meta Business Suite の投稿エクスポート
+  instagram: {
+    id: ['post id', 'id'],
+    time: ['publish time', 'timestamp', 'date'],
+    metrics: [
+      { columns: ['comments'], type: 'reply_received' },
+      { columns: ['saves'], type: 'saved_by_others' },
+      { columns: ['follows'], type: 'follower_gained' },
+      { columns: ['profile visits'], type: 'profile_visit' },
+    ],
+  },
+  // X アナリティクスのポストエクスポート（旧 tweet activity 形式にも対応）
+  twitter: {
+    id: ['post id', 'tweet id', 'id'],
+    time: ['time', 'date'],
+    metrics: [
+      { columns: ['replies'], type: 'reply_received' },
+      { columns: ['bookmarks'], type: 'saved_by_others' },
+      { columns: ['new follows', 'follows'], type: 'follower_gained' },
+      { columns: ['profile visits', 'user profile clicks'], type: 'profile_visit' },
+    ],
+  },
+};
+
+/**
+ * CSVをパース（RFC 4180: ダブルクォート・クォート内の改行に対応）
+ *
+ * @returns ヘッダー行をキーにしたレコードの配列
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((value) => value.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+  return body.map((values) =>
+    Object.fromEntries(keys.map((key, index) => [key, (values[index] ?? '').trim()]))
+  );
+}
+
+/**
+ * キーを小文字に揃える
+ */
+function lowerCaseKeys(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value])
+  );
+}
+
+/**
+ * 候補の列名から最初に存在する値を取得
+ */
+function pick(record: Record<string, unknown>, columns: string[]): unknown {
+  const column = columns.find((c) => record[c] !== undefined && record[c] !== '');
+  return column ? record[column] : undefined;
+}
+
+/**
+ * 数値に変換（"1,234" 形式に対応）
+ */
+function toCount(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(num) && num >= 0 ? Math.round(num) : null;
+}
+
+/**
+ * 日時に変換
+ */
+function toDate(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 汎用形式の1行を変換
+ */
+function normalizeEventRecord(
+  platform: Platform,
+  record: Record<string, unknown>
+): EngagementEvent {
+  const type = String(record.type) as EngagementEventType;
+  if (!ENGAGEMENT_EVENT_TYPES.includes(type)) {
+    throw new Error(`Unknown event type: ${record.type}`);
+  }
+
+  const occurredAt = toDate(pick(record, ['occurredat', 'date', 'timestamp']));
+  if (!occurredAt) {
+    throw new Error('occurredAt must be a valid date');
+  }
+
+  const count = record.count === undefined ? 1 : toCount(record.count);
+  if (count === null) {
+    throw new Error('count must be a non-negative number');
+  }
+
+  const externalId = pick(record, ['externalid', 'id']);
+
+  return {
+    platform,
+    type,
+    count,
+    occurredAt,
+    ...(externalId !== undefined && { externalId: String(externalId) }),
+  };
+}
+
+/**
+ * 投稿アナリティクス形式の1行を実績に展開
+ */
+function normalizePostRecord(
+  platform: Platform,
+  record: Record<string, unknown>
+): EngagementEvent[] {
+  const columns = POST_ANALYTICS_COLUMNS[platform];
+
+  const occurredAt = toDate(pick(record, columns.time));
+  if (!occurredAt) {
+    throw new Error(`Post time is missing or invalid (expected one of: ${columns.time.join(', ')})`);
+  }
+
+  const postId = pick(record, columns.id);
+  const idFor = (type: EngagementEventType) =>
+    postId !== undefined ? { externalId: `${type}:${postId}` } : {};
+
+  const events: EngagementEvent[] = [
+    { platform, type: 'post_published', count: 1, occurredAt, ...idFor('post_published') },
+  ];
+
+  for (const metric of columns.metrics) {
+    const count = toCount(pick(record, metric.columns));
+    if (count) {
+      events.push({ platform, type: metric.type, count, occurredAt, ...idFor(metric.type) });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * インポートしたレコードを実績に変換
+ *
+ * 変換できない行はスキップし、行番号とともに errors に記録する
+ */
+export function normalizeRecords(
+  platform: Platform,
+  records: Record<string, unknown>[]
+): NormalizedImport {
+  const events: EngagementEvent[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((raw, index) => {
+    try {
+      if (!raw || typeof raw !== 'object') {
+        throw new Error('Row must be an object');
+      }
+
+      const record = lowerCaseKeys(raw);
+      if (record.type !== undefined) {
+        events.push(normalizeEventRecord(platform, record));
+      } else {
+        events.push(...normalizePostRecord(platform, record));
+      }
+    } catch (error) {
+      errors.push({
+        row: index + 1,
+        message: error instanceof Error ? error.message : 'Invalid row',
+      });
+    }
+  });
+
+  return { events, errors };
+}
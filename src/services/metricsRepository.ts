@@ -0,0 +1,202 @@
+/**
+ * Metrics Repository
+ *
+ * エンゲージメント実績（EngagementEvent）の保存と、
+ * 実績からスコア計算用の UserBehaviorData を組み立てる集計処理
+ */
+
+import { prisma } from '../lib/prisma';
+import type { UserBehaviorData } from './scoreCalculator';
+import type { EngagementEvent, EngagementEventType, Platform } from '../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * 週平均投稿数の算出に使う週数
+ */
+export const AVERAGE_WEEKS = 4;
+
+/**
+ * 投稿時間帯の判定に使うタイムゾーン
+ */
+export const DEFAULT_METRICS_TIME_ZONE = 'Asia/Tokyo';
+
+/**
+ * 集計対象の期間
+ */
+export interface MetricsPeriod {
+  weekStart: Date;
+  weekEnd: Date;
+}
+
+/**
+ * 集計結果
+ */
+export interface BehaviorMetrics extends MetricsPeriod {
+  data: UserBehaviorData;
+  eventCount: number; // 今週の実績件数（0 の場合はデータ未登録）
+}
+
+/**
+ * 実績の種類と UserBehaviorData の項目の対応（今週分の合計を使用）
+ */
+const WEEKLY_TOTAL_FIELDS: Array<
+  [EngagementEventType, Exclude<keyof UserBehaviorData, 'postTimings'>]
+> = [
+  ['like_given', 'likesGiven'],
+  ['comment_given', 'commentsGiven'],
+  ['share_given', 'sharesGiven'],
+  ['reply_received', 'repliesReceived'],
+  ['trending_hashtag_used', 'trendingHashtagsUsed'],
+  ['trending_topic_engaged', 'trendingTopicsEngaged'],
+  ['early_trend_engaged', 'earlyTrendEngagement'],
+  ['follower_gained', 'followersGained'],
+  ['mention_received', 'mentionsReceived'],
+  ['saved_by_others', 'savedByOthers'],
+  ['profile_visit', 'profileVisits'],
+];
+
+/**
+ * 実績を保存
+ *
+ * externalId があるものは同じIDの実績を上書きするため、
+ * 同じエクスポートを再インポートしても二重計上されない
+ *
+ * @returns 保存した件数
+ */
+export async function saveEvents(
+  userId: string,
+  events: EngagementEvent[],
+  source: 'json' | 'csv'
+): Promise<number> {
+  if (events.length === 0) return 0;
+
+  await prisma.$transaction(
+    events.map((event) => {
+      const data = {
+        type: event.type,
+        count: event.count,
+        occurredAt: event.occurredAt,
+        source,
+      };
+
+      return event.externalId
+        ? prisma.engagementEvent.upsert({
+            where: {
+              userId_platform_externalId: {
+                userId,
+                platform: event.platform,
+                externalId: event.externalId,
+              },
+            },
+            create: { ...data, userId, platform: event.platform, externalId: event.externalId },
+            update: data,
+          })
+        : prisma.engagementEvent.create({
+            data: { ...data, userId, platform: event.platform },
+          });
+    })
+  );
+
+  return events.length;
+}
+
+/**
+ * 指定タイムゾーンでの時刻（0-23）を取得
+ */
+function getHour(date: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    hourCycle: 'h23',
+    timeZone,
+  }).format(date);
+
+  return Number(hour) % 24;
+}
+
+/**
+ * 実績を集計して UserBehaviorData を作成
+ *
+ * - 今週: weekEnd の直前7日間
+ * - 先週: その前の7日間
+ * - 週平均投稿数: 直近 AVERAGE_WEEKS 週の平均
+ */
+export function aggregateBehaviorData(
+  events: EngagementEvent[],
+  weekEnd: Date,
+  timeZone: string = DEFAULT_METRICS_TIME_ZONE
+): UserBehaviorData {
+  const end = weekEnd.getTime();
+  const weekStart = end - WEEK_MS;
+  const lastWeekStart = end - 2 * WEEK_MS;
+  const averageStart = end - AVERAGE_WEEKS * WEEK_MS;
+
+  const between = (from: number, to: number) => (event: EngagementEvent) => {
+    const time = event.occurredAt.getTime();
+    return time >= from && time < to;
+  };
+  const sum = (items: EngagementEvent[]) => items.reduce((total, e) => total + e.count, 0);
+
+  const thisWeek = events.filter(between(weekStart, end));
+  const posts = events.filter((e) => e.type === 'post_published');
+  const postsThisWeek = thisWeek.filter((e) => e.type === 'post_published');
+
+  const data: UserBehaviorData = {
+    likesGiven: 0,
+    commentsGiven: 0,
+    sharesGiven: 0,
+    repliesReceived: 0,
+    postsThisWeek: sum(postsThisWeek),
+    postsLastWeek: sum(posts.filter(between(lastWeekStart, weekStart))),
+    averagePostsPerWeek:
+      Math.round((sum(posts.filter(between(averageStart, end))) / AVERAGE_WEEKS) * 10) / 10,
+    postTimings: postsThisWeek.map((e) => getHour(e.occurredAt, timeZone)),
+    trendingHashtagsUsed: 0,
+    trendingTopicsEngaged: 0,
+    earlyTrendEngagement: 0,
+    followersGained: 0,
+    mentionsReceived: 0,
+    savedByOthers: 0,
+    profileVisits: 0,
+  };
+
+  for (const [type, field] of WEEKLY_TOTAL_FIELDS) {
+    data[field] = sum(thisWeek.filter((e) => e.type === type));
+  }
+
+  return data;
+}
+
+/**
+ * 保存済みの実績から UserBehaviorData を作成
+ */
+export async function buildBehaviorData(
+  userId: string,
+  platform: Platform,
+  weekEnd: Date = new Date(),
+  timeZone: string = process.env.METRICS_TIME_ZONE || DEFAULT_METRICS_TIME_ZONE
+): Promise<BehaviorMetrics> {
+  const weekStart = new Date(weekEnd.getTime() - WEEK_MS);
+
+  const records = await prisma.engagementEvent.findMany({
+    where: {
+      userId,
+      platform,
+      occurredAt: {
+        gte: new Date(weekEnd.getTime() - AVERAGE_WEEKS * WEEK_MS),
+        lt: weekEnd,
+      },
+    },
+    select: { platform: true, type: true, count: true, occurredAt: true },
+  });
+
+  const events: EngagementEvent[] = records;
+
+  return {
+    weekStart,
+    weekEnd,
+    data: aggregateBehaviorData(events, weekEnd, timeZone),
+    eventCount: events.filter((e) => e.occurredAt >= weekStart).length,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Pattern Mining Service
+ *
+ * ユーザーの保存済みバズ分析からバズパターンを抽出する
+ * - フックの型・感情トリガー・文字数・構成から各分析をパターンに分類
+ * - プラットフォーム内で反応数（インプレッション × エンゲージメント率）が中央値を超えた分析を
+ *   「高パフォーマンス」とし、パターンごとの割合を successRate とする
+ * - 反応数が実測の分析（metricsSource: observed）だけを使う。Claude の推定値で集計すると
+ *   パターンがモデルの推測を反映するだけになるため
+ * - 分析が十分にあるプラットフォームでは、固定のテンプレートの代わりにこの結果を使う
+ */
+
+import { prisma } from '../lib/prisma';
+import { toBuzzAnalysis } from './analysisRepository';
+import type { BuzzPattern, BuzzPatternType } from './trendDetector';
+import type { BuzzAnalysis, Platform } from '../types/index';
+
+/**
+ * パターンを抽出するのに必要なプラットフォームごとの分析数（反応数が実測のもの）
+ */
+export const MIN_ANALYSES_FOR_MINING = 10;
+
+/**
+ * 1つのパターンとして扱うのに必要な分析数
+ */
+export const MIN_PATTERN_SAMPLES = 3;
+
+/**
+ * 抽出に使う分析の上限（新しい順）
+ */
+export const MAX_MINING_ANALYSES = 500;
+
+/**
+ * フックの型
+ */
+export type HookStyle = 'number' | 'question' | 'story' | 'contrarian' | 'statement';
+
+/**
+ * フックの型の表示名
+ */
+export const HOOK_STYLE_LABELS: Record<HookStyle, string> = {
+  number: '数字で始まるフック',
+  question: '問いかけのフック',
+  story: '過去の体験から入るフック',
+  contrarian: '常識を否定するフック',
+  statement: '言い切りのフック',
+};
+
+/**
+ * パターンの表示名
+ */
+const PATTERN_LABELS: Record<BuzzPatternType, string> = {
+  storytelling: 'ストーリー形式',
+  educational: 'ノウハウ解説',
+  controversial: '意見表明・逆張り',
+  inspirational: '共感・励まし',
+  humor: 'ユーモア',
+  breaking_news: '速報・新情報',
+  listicle: 'リスト形式',
+  question: '問いかけ',
+  behind_the_scenes: '舞台裏の公開',
+};
+
+/**
+ * パターンごとの判定キーワード（本文・フック・感情トリガーに対して判定）
+ */
+const PATTERN_RULES: Array<{ type: BuzzPatternType; text: RegExp; triggers?: RegExp }> = [
+  { type: 'question', text: /[?？]|どっち|どう思う|知ってる/ },
+  { type: 'listicle', text: /\d+\s*(選|つの|個の|ステップ)|[①②③④⑤]|^\s*[・✅■▶︎-]/m },
+  {
+    type: 'controversial',
+    text: /実は|本当は|間違い|やめ(た方|ろ|て)|しないで|嘘|逆に|常識/,
+    triggers: /驚き|怒り|反発|危機感/,
+  },
+  {
+    type: 'storytelling',
+    text: /年前|ヶ月前|だった(私|自分|僕)|私が|自分が|体験|話/,
+    triggers: /共感|ノスタルジー/,
+  },
+  {
+    type: 'inspirational',
+    text: /諦め|夢|人生|勇気|挑戦|大丈夫/,
+    triggers: /感動|希望|勇気|安心/,
+  },
+  { type: 'humor', text: /笑|www|草|爆笑/, triggers: /笑い|ユーモア|面白/ },
+  { type: 'breaking_news', text: /速報|発表|リリース|ついに|新機能/, triggers: /緊急|興奮/ },
+  { type: 'behind_the_scenes', text: /裏側|舞台裏|作業風景|普段は見せない|ルーティン/ },
+  {
+    type: 'educational',
+    text: /方法|コツ|解説|やり方|ポイント|知らないと|手順/,
+    triggers: /好奇心|学び|お得/,
+  },
+];
+
+/**
+ * フックの型を判定
+ */
+export function detectHookStyle(hook: string): HookStyle {
+  if (/[?？]/.test(hook)) return 'question';
+  if (/実は|本当は|間違い|しないで|やめ|嘘|常識/.test(hook)) return 'contrarian';
+  if (/年前|ヶ月前|だった|昔/.test(hook)) return 'story';
+  if (/[0-9０-９]/.test(hook)) return 'number';
+  return 'statement';
+}
+
+/**
+ * 分析をパターンに分類
+ *
+ * フックの一致は本文の一致より重く数え、同点の場合は PATTERN_RULES の順で決める。
+ */
+export function classifyPattern(analysis: BuzzAnalysis): BuzzPatternType {
+  const hook = analysis.structure.hook;
+  const triggers = analysis.structure.emotionalTriggers.join(' ');
+
+  let best: BuzzPatternType = 'educational';
+  let bestScore = 0;
+
+  for (const rule of PATTERN_RULES) {
+    let score = 0;
+    if (rule.text.test(hook)) score += 2;
+    if (rule.text.test(analysis.transcript)) score += 1;
+    if (rule.triggers?.test(triggers)) score += 1;
+
+    if (score > bestScore) {
+      best = rule.type;
+      bestScore = score;
+    }
+  }
+
+  // ルールに当たらなくても、主要ポイントが多い投稿はリスト形式
+  if (bestScore === 0 && analysis.structure.mainPoints.length >= 3) {
+    return 'listicle';
+  }
+
+  return best;
+}
+
+/**
+ * 反応数（インプレッション × エンゲージメント率）
+ */
+export function interactionsOf(analysis: BuzzAnalysis): number {
+  return (analysis.impressions * analysis.engagement) / 100;
+}
+
+/**
+ * 中央値
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 分位点（0〜1、線形補間）
+ */
+function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * 出現回数の多い順に並べる
+ */
+function mostFrequent(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+/**
+ * 1つのパターンの集計
+ */
+function summarizePattern(
+  platform: Platform,
+  patternType: BuzzPatternType,
+  members: BuzzAnalysis[],
+  threshold: number
+): BuzzPattern {
+  const high = members.filter((analysis) => interactionsOf(analysis) > threshold);
+  // 高パフォーマンスの分析がなければパターン全体から傾向を取る
+  const reference = high.length > 0 ? high : members;
+
+  const lengths = reference.map((analysis) => analysis.transcript.length);
+  const hookStyle = mostFrequent(
+    reference.map((analysis) => detectHookStyle(analysis.structure.hook)),
+    1
+  )[0] as HookStyle;
+  const triggers = mostFrequent(
+    reference.flatMap((analysis) => analysis.structure.emotionalTriggers),
+    2
+  );
+  const pointCount = Math.round(
+    median(reference.map((analysis) => analysis.structure.mainPoints.length))
+  );
+
+  const examples = Array.from(
+    new Set(
+      [...members]
+        .sort((a, b) => interactionsOf(b) - interactionsOf(a))
+        .map((analysis) => analysis.structure.hook.trim())
+        .filter((hook) => hook.length > 0)
+    )
+  ).slice(0, 3);
+
+  return {
+    id: `mined-${platform}-${patternType}`,
+    platform,
+    patternType,
+    description: `${PATTERN_LABELS[patternType]}（あなたの分析${members.length}件中${high.length}件が高パフォーマンス）`,
+    successRate: Math.round((high.length / members.length) * 100) / 100,
+    averageEngagement: Math.round(
+      members.reduce((sum, analysis) => sum + interactionsOf(analysis), 0) / members.length
+    ),
+    examples,
+    requiredElements: [
+      HOOK_STYLE_LABELS[hookStyle],
+      ...triggers,
+      ...(pointCount > 0 ? [`主要ポイント${pointCount}つ`] : []),
+    ],
+    optimalLength: {
+      min: Math.round(quantile(lengths, 0.25)),
+      max: Math.round(quantile(lengths, 0.75)),
+    },
+    bestHashtagCount: Math.round(
+      median(reference.map((analysis) => (analysis.transcript.match(/#[^\s#]+/g) ?? []).length))
+    ),
+  };
+}
+
+/**
+ * 分析からプラットフォームのバズパターンを抽出
+ *
+ * 反応数が実測の分析が MIN_ANALYSES_FOR_MINING 件未満、または MIN_PATTERN_SAMPLES 件以上の
+ * パターンがない場合は空配列（テンプレートを使う）。
+ * successRate の高い順（同じなら平均反応数の多い順）に並べる。
+ */
+export function minePatterns(analyses: BuzzAnalysis[], platform: Platform): BuzzPattern[] {
+  const samples = analyses.filter(
+    (analysis) => analysis.platform === platform && analysis.metricsSource === 'observed'
+  );
+  if (samples.length < MIN_ANALYSES_FOR_MINING) return [];
+
+  const threshold = median(samples.map(interactionsOf));
+
+  const clusters = new Map<BuzzPatternType, BuzzAnalysis[]>();
+  for (const analysis of samples) {
+    const type = classifyPattern(analysis);
+    clusters.set(type, [...(clusters.get(type) ?? []), analysis]);
+  }
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length >= MIN_PATTERN_SAMPLES)
+    .map(([type, members]) => summarizePattern(platform, type, members, threshold))
+    .sort(
+      (a, b) => b.successRate - a.successRate || b.averageEngagement - a.averageEngagement
+    );
+}
+
+/**
+ * ユーザーの保存済み分析からバズパターンを抽出
+ */
+export async function mineUserPatterns(
+  userId: string,
+  platform: Platform
+): Promise<BuzzPattern[]> {
+  const records = await prisma.buzzAnalysis.findMany({
+    where: { userId, platform, metricsSource: 'observed' },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_MINING_ANALYSES,
+  });
+
+  return minePatterns(records.map(toBuzzAnalysis), platform);
+}
@@ -0,0 +1,239 @@
+/**
+ * Platform Rule Repository
+ *
+ * ユーザーごとのプラットフォームルールの上書き（PlatformRuleOverride テーブル）の永続化を担当
+ * - 上書きした項目のみ保存し、未指定の項目はデフォルト（PLATFORM_RULES）を使う
+ * - 文字数の上限はプラットフォームの制限（デフォルトの maxLength）を超えられない
+ */
+
+import type { PlatformRuleOverride as PlatformRuleOverrideRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  PLATFORM_RULES,
+  getPlatformRules,
+  type PlatformRuleOverrides,
+  type PlatformRules,
+} from '../lib/platformRules';
+import { parseJsonArray, toJsonArray } from '../lib/serialization';
+import type { Platform } from '../types/index';
+
+/**
+ * ハッシュタグ数の上限
+ */
+export const MAX_HASHTAG_COUNT = 30;
+
+/**
+ * トーンの最大文字数
+ */
+export const MAX_TONE_LENGTH = 200;
+
+/**
+ * formatting / bestPractices の最大件数と1件あたりの最大文字数
+ */
+export const MAX_RULE_ITEMS = 10;
+export const MAX_RULE_ITEM_LENGTH = 100;
+
+const PLATFORMS: Platform[] = ['threads', 'instagram', 'twitter'];
+
+/**
+ * プラットフォームごとのルール設定（設定画面の表示用）
+ */
+export interface PlatformRuleSettings {
+  platform: Platform;
+  rules: PlatformRules; // 上書きを適用したルール
+  defaults: PlatformRules;
+  overridden: (keyof PlatformRules)[]; // 上書きしている項目
+  updatedAt?: Date;
+}
+
+/**
+ * ルールの上書きのエラー
+ */
+export class PlatformRuleError extends Error {
+  public readonly code: 'invalid_rule';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlatformRuleError';
+    this.code = 'invalid_rule';
+  }
+}
+
+/**
+ * DBレコードを上書き内容に変換（null の項目は含めない）
+ */
+function toRuleOverride(record: PlatformRuleOverrideRecord): Partial<PlatformRules> {
+  return {
+    ...(record.maxLength !== null && { maxLength: record.maxLength }),
+    ...(record.hashtagCount !== null && { hashtagCount: record.hashtagCount }),
+    ...(record.tone !== null && { tone: record.tone }),
+    ...(record.formatting !== null && { formatting: parseJsonArray(record.formatting) }),
+    ...(record.bestPractices !== null && { bestPractices: parseJsonArray(record.bestPractices) }),
+  };
+}
+
+/**
+ * 表示用の設定を組み立てる
+ */
+function toSettings(
+  platform: Platform,
+  record: PlatformRuleOverrideRecord | null | undefined
+): PlatformRuleSettings {
+  const override = record ? toRuleOverride(record) : {};
+
+  return {
+    platform,
+    rules: getPlatformRules(platform, { [platform]: override }),
+    defaults: PLATFORM_RULES[platform],
+    overridden: Object.keys(override) as (keyof PlatformRules)[],
+    ...(record && { updatedAt: record.updatedAt }),
+  };
+}
+
+/**
+ * 整数の項目を検証
+ */
+function parseInteger(value: unknown, name: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new PlatformRuleError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * 文字列配列の項目を検証
+ */
+function parseItems(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || value.length > MAX_RULE_ITEMS) {
+    throw new PlatformRuleError(`${name} must be an array of up to ${MAX_RULE_ITEMS} items`);
+  }
+
+  return value.map((item) => {
+    if (typeof item !== 'string' || item.trim().length === 0 || item.length > MAX_RULE_ITEM_LENGTH) {
+      throw new PlatformRuleError(
+        `${name} items must be non-empty strings of up to ${MAX_RULE_ITEM_LENGTH} characters`
+      );
+    }
+    return item.trim();
+  });
+}
+
+/**
+ * リクエストの上書き内容を検証
+ *
+ * 省略または null の項目はデフォルトに戻す
+ *
+ * @throws PlatformRuleError 値が不正な場合
+ */
+export function parseRuleOverride(platform: Platform, input: unknown): Partial<PlatformRules> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new PlatformRuleError('rules must be an object');
+  }
+
+  const value = input as Record<string, unknown>;
+  const override: Partial<PlatformRules> = {};
+
+  if (value.maxLength != null) {
+    override.maxLength = parseInteger(
+      value.maxLength,
+      'maxLength',
+      1,
+      PLATFORM_RULES[platform].maxLength
+    );
+  }
+
+  if (value.hashtagCount != null) {
+    override.hashtagCount = parseInteger(value.hashtagCount, 'hashtagCount', 0, MAX_HASHTAG_COUNT);
+  }
+
+  if (value.tone != null) {
+    if (
+      typeof value.tone !== 'string' ||
+      value.tone.trim().length === 0 ||
+      value.tone.length > MAX_TONE_LENGTH
+    ) {
+      throw new PlatformRuleError(
+        `tone must be a non-empty string of up to ${MAX_TONE_LENGTH} characters`
+      );
+    }
+    override.tone = value.tone.trim();
+  }
+
+  if (value.formatting != null) {
+    override.formatting = parseItems(value.formatting, 'formatting');
+  }
+
+  if (value.bestPractices != null) {
+    override.bestPractices = parseItems(value.bestPractices, 'bestPractices');
+  }
+
+  return override;
+}
+
+/**
+ * ユーザーのルールの上書きを取得（ClaudeConfig.ruleOverrides に渡す形式）
+ */
+export async function getRuleOverrides(userId: string): Promise<PlatformRuleOverrides> {
+  const records = await prisma.platformRuleOverride.findMany({ where: { userId } });
+
+  const overrides: PlatformRuleOverrides = {};
+  for (const record of records) {
+    overrides[record.platform] = toRuleOverride(record);
+  }
+
+  return overrides;
+}
+
+/**
+ * 全プラットフォームのルール設定を取得
+ */
+export async function getPlatformRuleSettings(userId: string): Promise<PlatformRuleSettings[]> {
+  const records = await prisma.platformRuleOverride.findMany({ where: { userId } });
+
+  return PLATFORMS.map((platform) =>
+    toSettings(
+      platform,
+      records.find((record) => record.platform === platform)
+    )
+  );
+}
+
+/**
+ * プラットフォームのルールの上書きを保存（既存の上書きは置き換える）
+ *
+ * @throws PlatformRuleError 値が不正な場合
+ */
+export async function setPlatformRuleOverride(
+  userId: string,
+  platform: Platform,
+  input: unknown
+): Promise<PlatformRuleSettings> {
+  const override = parseRuleOverride(platform, input);
+  const columns = {
+    maxLength: override.maxLength ?? null,
+    hashtagCount: override.hashtagCount ?? null,
+    tone: override.tone ?? null,
+    formatting: override.formatting ? toJsonArray(override.formatting) : null,
+    bestPractices: override.bestPractices ? toJsonArray(override.bestPractices) : null,
+  };
+
+  const record = await prisma.platformRuleOverride.upsert({
+    where: { userId_platform: { userId, platform } },
+    create: { userId, platform, ...columns },
+    update: columns,
+  });
+
+  return toSettings(platform, record);
+}
+
+/**
+ * プラットフォームのルールをデフォルトに戻す
+ */
+export async function resetPlatformRuleOverride(
+  userId: string,
+  platform: Platform
+): Promise<PlatformRuleSettings> {
+  await prisma.platformRuleOverride.deleteMany({ where: { userId, platform } });
+
+  return toSettings(platform, null);
+}
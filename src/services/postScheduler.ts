@@ -0,0 +1,333 @@
+/**
+ * Post Scheduler Service
+ *
+ * PostSchedule テーブルを投稿キューとして処理するディスパッチャー
+ *
+ * 処理の流れ:
+ * 1. 投稿時刻（リトライ中は nextAttemptAt）を過ぎた pending を取得
+ * 2. 条件付き更新でロックを取得（取得できたワーカーだけが投稿する）
+ * 3. PostPublisher に投稿を依頼
+ * 4. 成功なら posted、失敗ならバックオフ付きで再試行、上限到達で failed
+ *
+ * 複数ワーカーが同時に動いても、ロック取得は1件につき1ワーカーのみ成功するため
+ * 同じスケジュールが二重投稿されることはない。
+ */
+
+import { prisma } from '../lib/prisma';
+import { toPostSchedule, type PostScheduleWithContent } from './scheduleRepository';
+import type { OptimizedContent, PostSchedule } from '../types/index';
+
+/**
+ * 投稿結果
+ */
+export interface PublishResult {
+  externalPostId?: string;
+}
+
+/**
+ * 投稿先への投稿を担当するインターフェース
+ */
+export interface PostPublisher {
+  publish(content: OptimizedContent, schedule: PostSchedule): Promise<PublishResult>;
+}
+
+/**
+ * 投稿エラーの種類
+ */
+export type PublishErrorCode =
+  | 'auth_error'
+  | 'rate_limit'
+  | 'invalid_content'
+  | 'server_error'
+  | 'network_error'
+  | 'unknown';
+
+/**
+ * 投稿エラー
+ *
+ * retryable が false のエラー（認証エラー・文字数超過など）は再試行しない
+ */
+export class PublishError extends Error {
+  public readonly retryable: boolean;
+  public readonly code: PublishErrorCode;
+  public readonly statusCode?: number;
+
+  constructor(
+    message: string,
+    retryable: boolean = true,
+    code: PublishErrorCode = 'unknown',
+    statusCode?: number
+  ) {
+    super(message);
+    this.name = 'PublishError';
+    this.retryable = retryable;
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * ディスパッチャー設定
+ */
+export interface DispatcherConfig {
+  workerId?: string;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  lockTimeoutMs?: number;
+}
+
+/**
+ * 1件の処理結果
+ */
+export interface DispatchOutcome {
+  scheduleId: string;
+  status: 'posted' | 'retrying' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * 1回のディスパッチの集計
+ */
+export interface DispatchSummary {
+  workerId: string;
+  startedAt: Date;
+  outcomes: DispatchOutcome[];
+  posted: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+}
+
+const DEFAULT_CONFIG: Required<Omit<DispatcherConfig, 'workerId'>> = {
+  batchSize: 10,
+  maxAttempts: 3,
+  baseBackoffMs: 60 * 1000, // 1分
+  maxBackoffMs: 60 * 60 * 1000, // 1時間
+  lockTimeoutMs: 5 * 60 * 1000, // 5分
+};
+
+/**
+ * 再試行までの待ち時間を計算（指数バックオフ）
+ *
+ * @param attempts - これまでの試行回数（1以上）
+ */
+export function calculateBackoff(
+  attempts: number,
+  baseBackoffMs: number = DEFAULT_CONFIG.baseBackoffMs,
+  maxBackoffMs: number = DEFAULT_CONFIG.maxBackoffMs
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(maxBackoffMs, baseBackoffMs * 2 ** exponent);
+}
+
+/**
+ * ワーカーIDを生成
+ */
+function generateWorkerId(): string {
+  return `worker-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * 投稿ディスパッチャー
+ */
+export class PostDispatcher {
+  private readonly publisher: PostPublisher;
+  private readonly workerId: string;
+  private readonly config: Required<Omit<DispatcherConfig, 'workerId'>>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(publisher: PostPublisher, config: DispatcherConfig = {}) {
+    this.publisher = publisher;
+    this.workerId = config.workerId || generateWorkerId();
+    this.config = {
+      batchSize: config.batchSize ?? DEFAULT_CONFIG.batchSize,
+      maxAttempts: config.maxAttempts ?? DEFAULT_CONFIG.maxAttempts,
+      baseBackoffMs: config.baseBackoffMs ?? DEFAULT_CONFIG.baseBackoffMs,
+      maxBackoffMs: config.maxBackoffMs ?? DEFAULT_CONFIG.maxBackoffMs,
+      lockTimeoutMs: config.lockTimeoutMs ?? DEFAULT_CONFIG.lockTimeoutMs,
+    };
+  }
+
+  /**
+   * ワーカーIDを取得
+   */
+  getWorkerId(): string {
+    return this.workerId;
+  }
+
+  /**
+   * 期限が来たスケジュールを1バッチ処理
+   */
+  async dispatchDue(now: Date = new Date()): Promise<DispatchSummary> {
+    const staleLockBefore = new Date(now.getTime() - this.config.lockTimeoutMs);
+
+    const candidates = await prisma.postSchedule.findMany({
+      where: {
+        status: 'pending',
+        OR: [
+          { nextAttemptAt: null, scheduledAt: { lte: now } },
+          { nextAttemptAt: { lte: now } },
+        ],
+        AND: [{ OR: [{ lockedAt: null }, { lockedAt: { lt: staleLockBefore } }] }],
+      },
+      orderBy: { scheduledAt: 'asc' },
+      take: this.config.batchSize,
+      select: { id: true },
+    });
+
+    const outcomes: DispatchOutcome[] = [];
+    for (const candidate of candidates) {
+      outcomes.push(await this.dispatchOne(candidate.id, now, staleLockBefore));
+    }
+
+    return {
+      workerId: this.workerId,
+      startedAt: now,
+      outcomes,
+      posted: outcomes.filter((o) => o.status === 'posted').length,
+      retrying: outcomes.filter((o) => o.status === 'retrying').length,
+      failed: outcomes.filter((o) => o.status === 'failed').length,
+      skipped: outcomes.filter((o) => o.status === 'skipped').length,
+    };
+  }
+
+  /**
+   * 1件をロックして投稿
+   */
+  private async dispatchOne(
+    scheduleId: string,
+    now: Date,
+    staleLockBefore: Date
+  ): Promise<DispatchOutcome> {
+    // 条件付き更新でロックを取得（他ワーカーが先に取得していれば count = 0）
+    const claimed = await prisma.postSchedule.updateMany({
+      where: {
+        id: scheduleId,
+        status: 'pending',
+        OR: [{ lockedAt: null }, { lockedAt: { lt: staleLockBefore } }],
+      },
+      data: {
+        lockedAt: now,
+        lockedBy: this.workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 0) {
+      return { scheduleId, status: 'skipped', attempts: 0 };
+    }
+
+    const record = (await prisma.postSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { content: true },
+    })) as PostScheduleWithContent | null;
+
+    if (!record || record.lockedBy !== this.workerId) {
+      return { scheduleId, status: 'skipped', attempts: record?.attempts ?? 0 };
+    }
+
+    const schedule = toPostSchedule(record);
+    // 結果の記録はロックを持っている場合だけ（期限切れで他のワーカーが取得した行は上書きしない）
+    const locked = { id: scheduleId, lockedBy: this.workerId };
+
+    let result: PublishResult;
+    try {
+      result = await this.publisher.publish(schedule.content, schedule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown publish error';
+      const retryable = !(error instanceof PublishError) || error.retryable;
+      const exhausted = record.attempts >= this.config.maxAttempts;
+
+      if (retryable && !exhausted) {
+        const backoff = calculateBackoff(
+          record.attempts,
+          this.config.baseBackoffMs,
+          this.config.maxBackoffMs
+        );
+
+        await prisma.postSchedule.updateMany({
+          where: locked,
+          data: {
+            errorMessage: message,
+            nextAttemptAt: new Date(now.getTime() + backoff),
+            lockedAt: null,
+            lockedBy: null,
+          },
+        });
+
+        return { scheduleId, status: 'retrying', attempts: record.attempts, error: message };
+      }
+
+      await prisma.postSchedule.updateMany({
+        where: locked,
+        data: {
+          status: 'failed',
+          errorMessage: message,
+          nextAttemptAt: null,
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+
+      return { scheduleId, status: 'failed', attempts: record.attempts, error: message };
+    }
+
+    // 投稿済みの記録に失敗しても再試行にはしない（再試行すると二重投稿になる）
+    await prisma.postSchedule.updateMany({
+      where: locked,
+      data: {
+        status: 'posted',
+        postedAt: new Date(),
+        externalPostId: result.externalPostId ?? null,
+        errorMessage: null,
+        nextAttemptAt: null,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    return { scheduleId, status: 'posted', attempts: record.attempts };
+  }
+
+  /**
+   * 一定間隔でディスパッチを実行（長時間稼働するワーカープロセス用）
+   */
+  start(intervalMs: number = 60 * 1000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(async () => {
+      // 前回の処理が終わっていなければスキップ
+      if (this.running) return;
+      this.running = true;
+
+      try {
+        await this.dispatchDue();
+      } catch (error) {
+        console.error('Post dispatch error:', error);
+      } finally {
+        this.running = false;
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * 定期実行を停止
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 定期実行中かどうか
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
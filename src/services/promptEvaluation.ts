@@ -0,0 +1,276 @@
+/**
+ * Prompt Evaluation Service
+ *
+ * プロンプトテンプレートの2つのバージョンを A/B で比較する
+ * - ユーザーの保存済みバズ分析をサンプルとして、同じ入力を両方のバージョンで生成
+ * - サンプルごとの出力と、バージョンごとの成功数・指標の平均を返す
+ * - 比較用の生成結果は保存しない（利用量は通常どおり記録される）
+ * - 利用上限には呼び出しごとに確認し、途中で達した場合は比較全体を中止する
+ */
+
+import type { ClaudeClient } from '../lib/claude';
+import { PLATFORM_RULES } from '../lib/platformRules';
+import { prisma } from '../lib/prisma';
+import { getPromptTemplate, type PromptVersions } from '../lib/promptTemplates';
+import { toBuzzAnalysis } from './analysisRepository';
+import { UsageLimitError } from './usageRepository';
+import type { BuzzAnalysis, OptimizedContent, Platform, PostMode } from '../types/index';
+
+/**
+ * 比較できるテンプレート
+ */
+export const EVALUABLE_TEMPLATES = ['analysis', 'optimization'] as const;
+
+export type EvaluableTemplateId = (typeof EVALUABLE_TEMPLATES)[number];
+
+/**
+ * 1回の比較で使うサンプル数の上限
+ */
+export const MAX_EVALUATION_SAMPLES = 10;
+
+/**
+ * サンプル数のデフォルト（analysisIds 省略時は最新の保存済み分析から）
+ */
+export const DEFAULT_EVALUATION_SAMPLES = 5;
+
+/**
+ * 比較の条件
+ */
+export interface PromptEvaluationRequest {
+  templateId: EvaluableTemplateId;
+  baselineVersion: number;
+  candidateVersion: number;
+  analysisIds?: string[];
+  limit?: number;
+  targetPlatform?: Platform; // optimization のみ（省略時は元の分析のプラットフォーム）
+  mode?: PostMode; // optimization のみ
+}
+
+/**
+ * 1つのバージョンでの生成結果
+ */
+export type PromptEvaluationOutput =
+  | { success: true; result: BuzzAnalysis | OptimizedContent; metrics: Record<string, number> }
+  | { success: false; error: string };
+
+/**
+ * サンプルごとの比較結果
+ */
+export interface PromptEvaluationSample {
+  analysisId: string;
+  baseline: PromptEvaluationOutput;
+  candidate: PromptEvaluationOutput;
+}
+
+/**
+ * バージョンごとの集計
+ */
+export interface PromptVersionSummary {
+  version: number;
+  ref: string;
+  successCount: number;
+  failureCount: number;
+  averages: Record<string, number>; // 成功した生成の指標の平均
+}
+
+/**
+ * 比較結果
+ */
+export interface PromptEvaluationReport {
+  templateId: EvaluableTemplateId;
+  baseline: PromptVersionSummary;
+  candidate: PromptVersionSummary;
+  samples: PromptEvaluationSample[];
+}
+
+/**
+ * 比較のエラー
+ */
+export class PromptEvaluationError extends Error {
+  code: 'invalid_request' | 'no_samples';
+
+  constructor(message: string, code: PromptEvaluationError['code']) {
+    super(message);
+    this.name = 'PromptEvaluationError';
+    this.code = code;
+  }
+}
+
+/**
+ * 比較できるテンプレートか
+ */
+export function isEvaluableTemplate(value: unknown): value is EvaluableTemplateId {
+  return EVALUABLE_TEMPLATES.includes(value as EvaluableTemplateId);
+}
+
+/**
+ * 分析結果の指標
+ */
+function analysisMetrics(analysis: BuzzAnalysis): Record<string, number> {
+  return {
+    estimatedImpressions: analysis.impressions,
+    estimatedEngagement: analysis.engagement,
+    keyPointCount: analysis.keyPoints.length,
+    transcriptLength: analysis.transcript.length,
+  };
+}
+
+/**
+ * 最適化結果の指標
+ */
+function optimizationMetrics(content: OptimizedContent): Record<string, number> {
+  return {
+    expectedImpressions: content.expectedImpressions,
+    contentLength: content.content.length,
+    hashtagCount: content.hashtags.length,
+    withinMaxLength:
+      content.content.length <= PLATFORM_RULES[content.targetPlatform].maxLength ? 1 : 0,
+    ...(content.voiceMatchScore !== undefined && { voiceMatchScore: content.voiceMatchScore }),
+  };
+}
+
+/**
+ * 1つのサンプルを1つのバージョンで生成
+ */
+async function runSample(
+  client: ClaudeClient,
+  request: PromptEvaluationRequest,
+  analysis: BuzzAnalysis
+): Promise<PromptEvaluationOutput> {
+  try {
+    if (request.templateId === 'analysis') {
+      const result = await client.analyzeBuzzContent(
+        analysis.originalUrl,
+        analysis.transcript,
+        analysis.platform
+      );
+      return { success: true, result, metrics: analysisMetrics(result) };
+    }
+
+    const result = await client.optimizeForPlatform(
+      analysis,
+      request.targetPlatform ?? analysis.platform,
+      request.mode ?? 'impression'
+    );
+    return { success: true, result, metrics: optimizationMetrics(result) };
+  } catch (error) {
+    if (error instanceof UsageLimitError) throw error;
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Generation failed',
+    };
+  }
+}
+
+/**
+ * バージョンごとに集計
+ */
+export function summarizeOutputs(
+  templateId: EvaluableTemplateId,
+  version: number,
+  outputs: PromptEvaluationOutput[]
+): PromptVersionSummary {
+  const successes = outputs.filter(
+    (output): output is Extract<PromptEvaluationOutput, { success: true }> => output.success
+  );
+
+  const averages: Record<string, number> = {};
+  for (const key of Object.keys(successes[0]?.metrics ?? {})) {
+    const total = successes.reduce((sum, output) => sum + (output.metrics[key] ?? 0), 0);
+    averages[key] = Math.round((total / successes.length) * 100) / 100;
+  }
+
+  return {
+    version,
+    ref: `${templateId}@${version}`,
+    successCount: successes.length,
+    failureCount: outputs.length - successes.length,
+    averages,
+  };
+}
+
+/**
+ * 比較に使う保存済み分析を取得
+ */
+async function loadSamples(
+  userId: string,
+  request: PromptEvaluationRequest
+): Promise<BuzzAnalysis[]> {
+  const limit = Math.min(
+    MAX_EVALUATION_SAMPLES,
+    Math.max(1, Math.floor(request.limit ?? request.analysisIds?.length ?? DEFAULT_EVALUATION_SAMPLES))
+  );
+
+  const records = await prisma.buzzAnalysis.findMany({
+    where: {
+      userId,
+      ...(request.analysisIds && { id: { in: request.analysisIds } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  return records.map(toBuzzAnalysis);
+}
+
+/**
+ * 2つのバージョンを保存済み分析で比較
+ *
+ * @param createClient - 指定したテンプレートのバージョンを使うクライアントを作成
+ * @throws PromptEvaluationError バージョンが未登録・サンプルがない場合
+ */
+export async function evaluatePromptVersions(
+  userId: string,
+  request: PromptEvaluationRequest,
+  createClient: (promptVersions: PromptVersions) => ClaudeClient
+): Promise<PromptEvaluationReport> {
+  const { templateId, baselineVersion, candidateVersion } = request;
+
+  for (const version of [baselineVersion, candidateVersion]) {
+    try {
+      getPromptTemplate(templateId, version);
+    } catch (error) {
+      throw new PromptEvaluationError(
+        error instanceof Error ? error.message : 'Unknown prompt version',
+        'invalid_request'
+      );
+    }
+  }
+
+  const analyses = await loadSamples(userId, request);
+  if (analyses.length === 0) {
+    throw new PromptEvaluationError(
+      'No saved analyses to evaluate. Analyze some buzz posts first.',
+      'no_samples'
+    );
+  }
+
+  const baselineClient = createClient({ [templateId]: baselineVersion });
+  const candidateClient = createClient({ [templateId]: candidateVersion });
+
+  // レート制限を考慮して順番に生成する
+  const samples: PromptEvaluationSample[] = [];
+  for (const analysis of analyses) {
+    samples.push({
+      analysisId: analysis.id,
+      baseline: await runSample(baselineClient, request, analysis),
+      candidate: await runSample(candidateClient, request, analysis),
+    });
+  }
+
+  return {
+    templateId,
+    baseline: summarizeOutputs(
+      templateId,
+      baselineVersion,
+      samples.map((sample) => sample.baseline)
+    ),
+    candidate: summarizeOutputs(
+      templateId,
+      candidateVersion,
+      samples.map((sample) => sample.candidate)
+    ),
+    samples,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Fake Publisher
+ *
+ * 実際のSNSに投稿せず、メモリ上に記録するだけのパブリッシャー
+ * ローカル開発・テストでスケジューラーの流れをオフラインで確認するために使用
+ */
+
+import { PublishError, type PostPublisher, type PublishResult } from '../postScheduler';
+import type { OptimizedContent, PostSchedule } from '../../types/index';
+
+/**
+ * 記録された投稿
+ */
+export interface FakePublishedPost {
+  externalPostId: string;
+  scheduleId: string;
+  content: OptimizedContent;
+  publishedAt: Date;
+}
+
+/**
+ * 失敗のシミュレーション設定
+ */
+interface FailureSimulation {
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Fake Publisher Class
+ */
+export class FakePublisher implements PostPublisher {
+  private readonly published: FakePublishedPost[] = [];
+  private readonly failures: FailureSimulation[] = [];
+  private sequence = 0;
+
+  /**
+   * 投稿を記録
+   */
+  async publish(content: OptimizedContent, schedule: PostSchedule): Promise<PublishResult> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw new PublishError(failure.message, failure.retryable);
+    }
+
+    this.sequence += 1;
+    const externalPostId = `fake-${content.targetPlatform}-${this.sequence}`;
+
+    this.published.push({
+      externalPostId,
+      scheduleId: schedule.id,
+      content,
+      publishedAt: new Date(),
+    });
+
+    return { externalPostId };
+  }
+
+  /**
+   * 次の投稿を失敗させる（複数回呼ぶと順番に失敗する）
+   */
+  failNext(message: string = 'Simulated publish failure', retryable: boolean = true): this {
+    this.failures.push({ message, retryable });
+    return this;
+  }
+
+  /**
+   * 記録された投稿を取得
+   */
+  getPublished(): FakePublishedPost[] {
+    return [...this.published];
+  }
+
+  /**
+   * 記録をクリア
+   */
+  reset(): void {
+    this.published.length = 0;
+    this.failures.length = 0;
+    this.sequence = 0;
+  }
+}
+
+export default FakePublisher;
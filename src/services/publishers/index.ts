@@ -0,0 +1,74 @@
+/**
+ * Publishers
+ *
+ * スケジューラーが使用するパブリッシャーの生成
+ *
+ * POST_PUBLISHER 環境変数で切り替え:
+ * - fake: 投稿せずメモリに記録（ローカル開発・テスト用）
+ * - platform: 各SNSのAPIに実際に投稿
+ */
+
+import type { PostPublisher } from '../postScheduler';
+import { FakePublisher } from './fakePublisher';
+import { InstagramPublisher } from './instagramPublisher';
+import { PlatformRouterPublisher } from './platformRouter';
+import { ThreadsPublisher } from './threadsPublisher';
+import { TwitterPublisher } from './twitterPublisher';
+
+export { FakePublisher } from './fakePublisher';
+export { ThreadsPublisher } from './threadsPublisher';
+export { InstagramPublisher } from './instagramPublisher';
+export { TwitterPublisher } from './twitterPublisher';
+export { PlatformRouterPublisher } from './platformRouter';
+export type {
+  PlatformCredentials,
+  PlatformPublisher,
+  PlatformPublishResult,
+} from './platformPublisher';
+
+/**
+ * パブリッシャーの種類
+ */
+export type PublisherKind = 'fake' | 'platform';
+
+/**
+ * 環境変数からパブリッシャーの種類を取得
+ */
+export function getPublisherKindFromEnv(): PublisherKind | undefined {
+  const kind = process.env.POST_PUBLISHER;
+  return kind === 'fake' || kind === 'platform' ? kind : undefined;
+}
+
+/**
+ * 各プラットフォームのアダプターを束ねたパブリッシャーを生成
+ *
+ * *_API_BASE_URL でAPIの接続先を差し替え可能（スタンドインサーバーでの動作確認用）
+ */
+function createPlatformPublisher(): PostPublisher {
+  return new PlatformRouterPublisher([
+    new ThreadsPublisher({ baseUrl: process.env.THREADS_API_BASE_URL }),
+    new InstagramPublisher({
+      baseUrl: process.env.INSTAGRAM_API_BASE_URL,
+      defaultImageUrl: process.env.INSTAGRAM_DEFAULT_IMAGE_URL,
+    }),
+    new TwitterPublisher({ baseUrl: process.env.TWITTER_API_BASE_URL }),
+  ]);
+}
+
+/**
+ * パブリッシャーを生成
+ *
+ * @returns 設定されていない場合は null
+ */
+export function createPublisher(
+  kind: PublisherKind | undefined = getPublisherKindFromEnv()
+): PostPublisher | null {
+  switch (kind) {
+    case 'fake':
+      return new FakePublisher();
+    case 'platform':
+      return createPlatformPublisher();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Instagram Publisher
+ *
+ * Instagram Graph API へのフィード投稿アダプター
+ * Instagram はテキストのみの投稿ができないため、画像URLが必須
+ * （投稿ごとの mediaUrl、なければ設定の defaultImageUrl を使用）
+ */
+
+import { PublishError } from '../postScheduler';
+import {
+  BasePlatformPublisher,
+  type PlatformCredentials,
+  type PlatformPublishOptions,
+  type PlatformPublishResult,
+  type PlatformPublisherConfig,
+} from './platformPublisher';
+import type { OptimizedContent, Platform } from '../../types/index';
+
+export const INSTAGRAM_API_BASE_URL = 'https://graph.instagram.com/v21.0';
+
+/**
+ * Instagram アダプター設定
+ */
+export interface InstagramPublisherConfig extends PlatformPublisherConfig {
+  defaultImageUrl?: string;
+}
+
+/**
+ * Instagram Publisher Class
+ */
+export class InstagramPublisher extends BasePlatformPublisher {
+  readonly platform: Platform = 'instagram';
+  private readonly defaultImageUrl?: string;
+
+  constructor(config: InstagramPublisherConfig = {}) {
+    super(INSTAGRAM_API_BASE_URL, config);
+    this.defaultImageUrl = config.defaultImageUrl;
+  }
+
+  /**
+   * キャプションに整形（ハッシュタグは最後にまとめる）
+   */
+  format(content: OptimizedContent): string[] {
+    return this.formatSingle(content);
+  }
+
+  /**
+   * 画像 + キャプションで投稿
+   */
+  async publish(
+    content: OptimizedContent,
+    credentials: PlatformCredentials,
+    options: PlatformPublishOptions = {}
+  ): Promise<PlatformPublishResult> {
+    const imageUrl = options.mediaUrl || this.defaultImageUrl;
+    if (!imageUrl) {
+      throw new PublishError(
+        'Instagram posts require an image. Set INSTAGRAM_DEFAULT_IMAGE_URL or provide a media URL.',
+        false,
+        'invalid_content'
+      );
+    }
+
+    const [caption] = this.format(content);
+    const account = this.accountPath(credentials);
+
+    const container = await this.postJson<{ id: string }>(
+      `${account}/media`,
+      { image_url: imageUrl, caption },
+      credentials
+    );
+
+    const published = await this.postJson<{ id: string }>(
+      `${account}/media_publish`,
+      { creation_id: container.id },
+      credentials
+    );
+
+    return { externalPostId: published.id, postIds: [published.id] };
+  }
+}
+
+export default InstagramPublisher;
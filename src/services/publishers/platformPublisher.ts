@@ -0,0 +1,371 @@
+/**
+ * Platform Publisher
+ *
+ * 各SNSのAPIへ実際に投稿するアダプターの共通インターフェースと基底クラス
+ * - 文字数制限（PLATFORM_RULES）に合わせた本文の整形
+ *   （文字数は各プラットフォームの数え方。X は全角文字・絵文字が2、URLが23）
+ * - ハッシュタグの付与（収まらない分は末尾から削る）
+ * - HTTPエラーを PublishError に変換
+ * - リクエストはタイムアウト付き（投稿ワーカーのロックが切れる前に必ず終わらせる）
+ */
+
+import { countPlatformCharacters } from '../../lib/compliance';
+import { PLATFORM_RULES, type PlatformRules } from '../../lib/platformRules';
+import { PublishError, type PublishResult } from '../postScheduler';
+import type { OptimizedContent, Platform } from '../../types/index';
+
+// 1リクエストのタイムアウト（スケジューラのロックタイムアウト5分より十分短く）
+export const DEFAULT_PUBLISH_TIMEOUT_MS = 20000;
+
+/**
+ * 投稿に使用する認証情報
+ */
+export interface PlatformCredentials {
+  accessToken: string;
+  accountId?: string; // 省略時は "me"
+}
+
+/**
+ * 投稿オプション
+ */
+export interface PlatformPublishOptions {
+  mediaUrl?: string; // Instagram では必須
+}
+
+/**
+ * アダプターの投稿結果
+ */
+export interface PlatformPublishResult extends PublishResult {
+  externalPostId: string;
+  postIds: string[]; // スレッド投稿の場合は全投稿のID
+}
+
+/**
+ * アダプター設定
+ */
+export interface PlatformPublisherConfig {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+/**
+ * プラットフォームへの投稿アダプター
+ */
+export interface PlatformPublisher {
+  readonly platform: Platform;
+
+  /**
+   * 投稿する本文を組み立てる（スレッドの場合は複数件）
+   *
+   * @throws PublishError 本文が文字数制限に収まらない場合
+   */
+  format(content: OptimizedContent): string[];
+
+  publish(
+    content: OptimizedContent,
+    credentials: PlatformCredentials,
+    options?: PlatformPublishOptions
+  ): Promise<PlatformPublishResult>;
+}
+
+/**
+ * ハッシュタグを正規化（# と空白を除去し重複を排除）
+ */
+export function normalizeHashtags(hashtags: string[], maxCount: number): string[] {
+  const normalized = hashtags
+    .map((tag) => tag.replace(/^#+/, '').replace(/\s+/g, ''))
+    .filter((tag) => tag.length > 0);
+
+  return Array.from(new Set(normalized)).slice(0, maxCount);
+}
+
+/**
+ * 本文の末尾にハッシュタグを付与
+ *
+ * 制限を超える場合は末尾のハッシュタグから削り、1つも入らなければ本文のみを返す
+ */
+export function appendHashtags(
+  text: string,
+  hashtags: string[],
+  maxLength: number,
+  platform: Platform
+): string {
+  for (let count = hashtags.length; count > 0; count--) {
+    const tagLine = hashtags
+      .slice(0, count)
+      .map((tag) => `#${tag}`)
+      .join(' ');
+    const candidate = `${text}\n\n${tagLine}`;
+
+    if (countPlatformCharacters(candidate, platform) <= maxLength) {
+      return candidate;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * 文字数で強制的に分割（1文が制限を超える場合の最終手段）
+ */
+function hardSplit(text: string, maxLength: number, platform: Platform): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const char of Array.from(text)) {
+    const candidate = current + char;
+    if (current && countPlatformCharacters(candidate, platform) > maxLength) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * 区切りごとの断片を制限内に収まるよう詰めていく
+ */
+function packSegments(
+  pieces: string[],
+  separator: string,
+  maxLength: number,
+  platform: Platform,
+  splitPiece: (piece: string) => string[]
+): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const parts =
+      countPlatformCharacters(piece, platform) > maxLength ? splitPiece(piece) : [piece];
+
+    for (const part of parts) {
+      const candidate = current ? `${current}${separator}${part}` : part;
+
+      if (countPlatformCharacters(candidate, platform) <= maxLength) {
+        current = candidate;
+      } else {
+        if (current) segments.push(current.trim());
+        current = part;
+      }
+    }
+  }
+
+  if (current.trim()) segments.push(current.trim());
+  return segments;
+}
+
+/**
+ * 長文を複数の投稿に分割
+ *
+ * 段落 → 文 → 文字数の順に区切り、できるだけ段落・文の途中で切らない
+ */
+export function splitIntoSegments(
+  text: string,
+  maxLength: number,
+  platform: Platform
+): string[] {
+  const paragraphs = text
+    .trim()
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  return packSegments(paragraphs, '\n\n', maxLength, platform, (paragraph) => {
+    const sentences = paragraph.match(/[^。！？!?\n]+[。！？!?]*\s*|\n/g) || [paragraph];
+    return packSegments(sentences, '', maxLength, platform, (sentence) =>
+      hardSplit(sentence.trim(), maxLength, platform)
+    );
+  });
+}
+
+/**
+ * エラーレスポンスからメッセージを抽出（Meta / Twitter の形式に対応）
+ */
+function extractErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+
+  const data = body as {
+    error?: { message?: string };
+    detail?: string;
+    title?: string;
+    errors?: Array<{ message?: string }>;
+  };
+
+  return data.error?.message || data.detail || data.errors?.[0]?.message || data.title;
+}
+
+/**
+ * HTTPステータスを PublishError に変換
+ */
+export function mapHttpError(
+  platform: Platform,
+  statusCode: number,
+  body: unknown
+): PublishError {
+  const detail = extractErrorMessage(body) || `HTTP ${statusCode}`;
+  const message = `${platform} API error: ${detail}`;
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new PublishError(message, false, 'auth_error', statusCode);
+  }
+
+  if (statusCode === 429) {
+    return new PublishError(message, true, 'rate_limit', statusCode);
+  }
+
+  if (statusCode >= 500) {
+    return new PublishError(message, true, 'server_error', statusCode);
+  }
+
+  return new PublishError(message, false, 'invalid_content', statusCode);
+}
+
+/**
+ * アダプターの基底クラス
+ */
+export abstract class BasePlatformPublisher implements PlatformPublisher {
+  abstract readonly platform: Platform;
+  protected readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(defaultBaseUrl: string, config: PlatformPublisherConfig = {}) {
+    this.baseUrl = (config.baseUrl || defaultBaseUrl).replace(/\/+$/, '');
+    this.fetchImpl = config.fetch || ((...args) => fetch(...args));
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_PUBLISH_TIMEOUT_MS;
+  }
+
+  /**
+   * プラットフォームルールを取得
+   */
+  protected get rules(): PlatformRules {
+    return PLATFORM_RULES[this.platform];
+  }
+
+  abstract format(content: OptimizedContent): string[];
+
+  abstract publish(
+    content: OptimizedContent,
+    credentials: PlatformCredentials,
+    options?: PlatformPublishOptions
+  ): Promise<PlatformPublishResult>;
+
+  /**
+   * 本文1件 + ハッシュタグの形式で整形（Threads / Instagram 共通）
+   */
+  protected formatSingle(content: OptimizedContent): string[] {
+    const text = content.content.trim();
+    const { maxLength, hashtagCount } = this.rules;
+
+    if (countPlatformCharacters(text, this.platform) > maxLength) {
+      throw new PublishError(
+        `Content exceeds ${this.platform} limit of ${maxLength} characters`,
+        false,
+        'invalid_content'
+      );
+    }
+
+    const hashtags = normalizeHashtags(content.hashtags, hashtagCount);
+    return [appendHashtags(text, hashtags, maxLength, this.platform)];
+  }
+
+  /**
+   * スレッド形式の下書き（segments）を投稿単位に整形（ハッシュタグは最後の投稿に付ける）
+   */
+  protected formatThread(segments: string[], hashtags: string[]): string[] {
+    const { maxLength, hashtagCount } = this.rules;
+    const posts = segments.map((segment) => segment.trim()).filter((segment) => segment.length > 0);
+
+    if (posts.length === 0) {
+      throw new PublishError('Content is empty', false, 'invalid_content');
+    }
+
+    const tooLong = posts.findIndex(
+      (post) => countPlatformCharacters(post, this.platform) > maxLength
+    );
+    if (tooLong >= 0) {
+      throw new PublishError(
+        `Thread post ${tooLong + 1} exceeds ${this.platform} limit of ${maxLength} characters`,
+        false,
+        'invalid_content'
+      );
+    }
+
+    const last = posts.length - 1;
+    posts[last] = appendHashtags(
+      posts[last],
+      normalizeHashtags(hashtags, hashtagCount),
+      maxLength,
+      this.platform
+    );
+
+    return posts;
+  }
+
+  /**
+   * APIにJSONをPOSTし、レスポンスを返す
+   *
+   * @throws PublishError 通信エラー・タイムアウト・エラーレスポンスの場合
+   */
+  protected async postJson<T>(
+    path: string,
+    body: Record<string, unknown>,
+    credentials: PlatformCredentials
+  ): Promise<T> {
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    let response: Response;
+
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${credentials.accessToken}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      throw this.networkError(signal, error);
+    }
+
+    const data = await response.json().catch(() => undefined);
+
+    // 本文の受信中にタイムアウトした場合も通信エラーとして扱う
+    if (signal.aborted) {
+      throw this.networkError(signal, signal.reason);
+    }
+
+    if (!response.ok) {
+      throw mapHttpError(this.platform, response.status, data);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * 通信エラーを再試行可能な PublishError に変換
+   */
+  private networkError(signal: AbortSignal, error: unknown): PublishError {
+    const detail = signal.aborted
+      ? `timed out after ${this.timeoutMs}ms`
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error';
+
+    return new PublishError(`${this.platform} API request failed: ${detail}`, true, 'network_error');
+  }
+
+  /**
+   * アカウントIDを取得（省略時は "me"）
+   */
+  protected accountPath(credentials: PlatformCredentials): string {
+    return `/${encodeURIComponent(credentials.accountId || 'me')}`;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Platform Router Publisher
+ *
+ * スケジューラーから受け取った投稿を、下書きの targetPlatform に応じて
+ * 各プラットフォームのアダプターへ振り分けるパブリッシャー
+ *
+ * 認証情報はスケジュールの所有ユーザーの APIキー（User.threadsApiKey など）を使用する
+ */
+
+import { prisma } from '../../lib/prisma';
+import { PublishError, type PostPublisher } from '../postScheduler';
+import type {
+  PlatformCredentials,
+  PlatformPublisher,
+  PlatformPublishResult,
+} from './platformPublisher';
+import type { OptimizedContent, Platform, PostSchedule } from '../../types/index';
+
+/**
+ * 認証情報の取得関数
+ */
+export type CredentialsResolver = (
+  schedule: PostSchedule,
+  platform: Platform
+) => Promise<PlatformCredentials | null>;
+
+/**
+ * スケジュールの所有ユーザーから APIキーを取得
+ */
+export const resolveUserCredentials: CredentialsResolver = async (schedule, platform) => {
+  const record = await prisma.postSchedule.findUnique({
+    where: { id: schedule.id },
+    select: {
+      user: {
+        select: { threadsApiKey: true, instagramApiKey: true, twitterApiKey: true },
+      },
+    },
+  });
+
+  const keys = record?.user;
+  if (!keys) return null;
+
+  const accessToken = {
+    threads: keys.threadsApiKey,
+    instagram: keys.instagramApiKey,
+    twitter: keys.twitterApiKey,
+  }[platform];
+
+  return accessToken ? { accessToken } : null;
+};
+
+/**
+ * Platform Router Publisher Class
+ */
+export class PlatformRouterPublisher implements PostPublisher {
+  private readonly publishers: Partial<Record<Platform, PlatformPublisher>>;
+  private readonly resolveCredentials: CredentialsResolver;
+
+  constructor(
+    publishers: PlatformPublisher[],
+    resolveCredentials: CredentialsResolver = resolveUserCredentials
+  ) {
+    this.publishers = Object.fromEntries(publishers.map((p) => [p.platform, p]));
+    this.resolveCredentials = resolveCredentials;
+  }
+
+  /**
+   * 下書きのプラットフォームに投稿
+   */
+  async publish(
+    content: OptimizedContent,
+    schedule: PostSchedule
+  ): Promise<PlatformPublishResult> {
+    const platform = content.targetPlatform;
+    const publisher = this.publishers[platform];
+
+    if (!publisher) {
+      throw new PublishError(`No publisher for platform: ${platform}`, false, 'invalid_content');
+    }
+
+    const credentials = await this.resolveCredentials(schedule, platform);
+    if (!credentials) {
+      throw new PublishError(`No ${platform} API key configured`, false, 'auth_error');
+    }
+
+    return publisher.publish(content, credentials);
+  }
+}
+
+export default PlatformRouterPublisher;
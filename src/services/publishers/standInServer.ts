@@ -0,0 +1,163 @@
+/**
+ * Platform API Stand-in Server
+ *
+ * Threads / Instagram / Twitter の投稿APIを模したローカルHTTPサーバー
+ * 本物のAPIに接続せずにアダプターを動作確認するために使用する（テスト・ローカル開発用）
+ *
+ * - /threads/:account/threads, /threads/:account/threads_publish
+ * - /instagram/:account/media, /instagram/:account/media_publish
+ * - /twitter/tweets
+ *
+ * 受け取ったリクエストを記録し、各APIと同じ文字数制限・エラー形式で応答する
+ * （文字数は各プラットフォームの数え方。X は全角文字・絵文字が2、URLが23）
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { countPlatformCharacters } from '../../lib/compliance';
+import { PLATFORM_RULES } from '../../lib/platformRules';
+import type { Platform } from '../../types/index';
+
+/**
+ * 記録されたリクエスト
+ */
+export interface StandInRequest {
+  platform: Platform;
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * 失敗のシミュレーション設定
+ */
+interface StandInFailure {
+  statusCode: number;
+  message: string;
+}
+
+/**
+ * 起動中のスタンドインサーバー
+ */
+export interface StandInServer {
+  url: string;
+  baseUrls: Record<Platform, string>;
+  requests: StandInRequest[];
+  failNext(platform: Platform, statusCode: number, message?: string): void;
+  close(): Promise<void>;
+}
+
+/**
+ * プラットフォームごとのエラーレスポンス形式
+ */
+function errorBody(platform: Platform, statusCode: number, message: string): unknown {
+  if (platform === 'twitter') {
+    return { title: 'Error', detail: message, status: statusCode };
+  }
+  return { error: { message, code: statusCode } };
+}
+
+/**
+ * リクエストボディを読み込む
+ */
+function readBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => {
+    let raw = '';
+    request.on('data', (chunk) => {
+      raw += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+/**
+ * スタンドインサーバーを起動
+ *
+ * @param port - 省略時は空いているポートを使用
+ */
+export async function startStandInServer(port: number = 0): Promise<StandInServer> {
+  const requests: StandInRequest[] = [];
+  const failures: Partial<Record<Platform, StandInFailure[]>> = {};
+  let sequence = 0;
+
+  const server = http.createServer(async (request, response) => {
+    const path = (request.url || '/').split('?')[0];
+    const [, platformSegment, ...rest] = path.split('/');
+    const platform = platformSegment as Platform;
+    const endpoint = `/${rest.join('/')}`;
+    const body = await readBody(request);
+
+    const send = (statusCode: number, payload: unknown) => {
+      response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(payload));
+    };
+
+    if (!(platform in PLATFORM_RULES) || request.method !== 'POST') {
+      send(404, { error: { message: 'Not found' } });
+      return;
+    }
+
+    requests.push({
+      platform,
+      path: endpoint,
+      authorization: request.headers.authorization,
+      body,
+    });
+
+    const failure = failures[platform]?.shift();
+    if (failure) {
+      send(failure.statusCode, errorBody(platform, failure.statusCode, failure.message));
+      return;
+    }
+
+    if (!request.headers.authorization?.startsWith('Bearer ')) {
+      send(401, errorBody(platform, 401, 'Invalid OAuth access token'));
+      return;
+    }
+
+    const text = String(body.text ?? body.caption ?? '');
+    const maxLength = PLATFORM_RULES[platform].maxLength;
+    if (countPlatformCharacters(text, platform) > maxLength) {
+      send(400, errorBody(platform, 400, `Text exceeds ${maxLength} characters`));
+      return;
+    }
+
+    sequence += 1;
+    const id = `${platform}-${sequence}`;
+
+    if (platform === 'twitter' && endpoint === '/tweets') {
+      send(201, { data: { id, text } });
+    } else if (/^\/[^/]+\/(threads|media|threads_publish|media_publish)$/.test(endpoint)) {
+      send(200, { id });
+    } else {
+      send(404, errorBody(platform, 404, `Unknown endpoint: ${endpoint}`));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    baseUrls: {
+      threads: `${url}/threads`,
+      instagram: `${url}/instagram`,
+      twitter: `${url}/twitter`,
+    },
+    requests,
+    failNext(platform, statusCode, message = 'Simulated failure') {
+      (failures[platform] ||= []).push({ statusCode, message });
+    },
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Threads Publisher
+ *
+ * Threads API へのテキスト投稿アダプター
+ * コンテナ作成（/threads）→ 公開（/threads_publish）の2段階で投稿する
+ * スレッド形式の下書き（segments）は返信（reply_to_id）の連鎖として投稿する
+ */
+
+import { PublishError } from '../postScheduler';
+import {
+  BasePlatformPublisher,
+  type PlatformCredentials,
+  type PlatformPublishResult,
+  type PlatformPublisherConfig,
+} from './platformPublisher';
+import type { OptimizedContent, Platform } from '../../types/index';
+
+export const THREADS_API_BASE_URL = 'https://graph.threads.net/v1.0';
+
+/**
+ * Threads Publisher Class
+ */
+export class ThreadsPublisher extends BasePlatformPublisher {
+  readonly platform: Platform = 'threads';
+
+  constructor(config: PlatformPublisherConfig = {}) {
+    super(THREADS_API_BASE_URL, config);
+  }
+
+  /**
+   * 本文の末尾にハッシュタグを付けた1件の投稿に整形
+   *
+   * segments がある場合は投稿ごとに分け、ハッシュタグは最後の投稿に付ける
+   */
+  format(content: OptimizedContent): string[] {
+    if (content.segments && content.segments.length > 0) {
+      return this.formatThread(content.segments, content.hashtags);
+    }
+
+    return this.formatSingle(content);
+  }
+
+  /**
+   * テキスト投稿を1件公開
+   */
+  private async publishText(
+    text: string,
+    credentials: PlatformCredentials,
+    replyToId?: string
+  ): Promise<string> {
+    const account = this.accountPath(credentials);
+
+    const container = await this.postJson<{ id: string }>(
+      `${account}/threads`,
+      { media_type: 'TEXT', text, ...(replyToId && { reply_to_id: replyToId }) },
+      credentials
+    );
+
+    const published = await this.postJson<{ id: string }>(
+      `${account}/threads_publish`,
+      { creation_id: container.id },
+      credentials
+    );
+
+    return published.id;
+  }
+
+  /**
+   * テキスト投稿（またはスレッド）を公開
+   *
+   * スレッドの途中で失敗した場合、再試行すると公開済みの投稿が重複するため
+   * 再試行不可のエラーとして扱う
+   */
+  async publish(
+    content: OptimizedContent,
+    credentials: PlatformCredentials
+  ): Promise<PlatformPublishResult> {
+    const posts = this.format(content);
+    const postIds: string[] = [];
+
+    for (const text of posts) {
+      try {
+        postIds.push(await this.publishText(text, credentials, postIds[postIds.length - 1]));
+      } catch (error) {
+        if (postIds.length > 0 && error instanceof PublishError) {
+          throw new PublishError(
+            `Thread partially posted (${postIds.length}/${posts.length}, first post ${postIds[0]}): ${error.message}`,
+            false,
+            error.code,
+            error.statusCode
+          );
+        }
+        throw error;
+      }
+    }
+
+    return { externalPostId: postIds[0], postIds };
+  }
+}
+
+export default ThreadsPublisher;
@@ -0,0 +1,106 @@
+/**
+ * Twitter Publisher
+ *
+ * Twitter API v2 へのツイート投稿アダプター
+ * スレッド形式の下書き（segments）と文字数制限を超える本文はスレッド（リプライの連鎖）として投稿する
+ */
+
+import { PublishError } from '../postScheduler';
+import {
+  BasePlatformPublisher,
+  appendHashtags,
+  normalizeHashtags,
+  splitIntoSegments,
+  type PlatformCredentials,
+  type PlatformPublishResult,
+  type PlatformPublisherConfig,
+} from './platformPublisher';
+import type { OptimizedContent, Platform } from '../../types/index';
+
+export const TWITTER_API_BASE_URL = 'https://api.twitter.com/2';
+
+/**
+ * POST /tweets のレスポンス
+ */
+interface TweetResponse {
+  data: { id: string; text: string };
+}
+
+/**
+ * Twitter Publisher Class
+ */
+export class TwitterPublisher extends BasePlatformPublisher {
+  readonly platform: Platform = 'twitter';
+
+  constructor(config: PlatformPublisherConfig = {}) {
+    super(TWITTER_API_BASE_URL, config);
+  }
+
+  /**
+   * ツイート単位に分割（ハッシュタグは最後のツイートに付ける）
+   *
+   * segments がある場合はその区切りのまま投稿する
+   */
+  format(content: OptimizedContent): string[] {
+    if (content.segments && content.segments.length > 0) {
+      return this.formatThread(content.segments, content.hashtags);
+    }
+
+    const { maxLength, hashtagCount } = this.rules;
+    const segments = splitIntoSegments(content.content, maxLength, this.platform);
+
+    if (segments.length === 0) {
+      throw new PublishError('Content is empty', false, 'invalid_content');
+    }
+
+    const hashtags = normalizeHashtags(content.hashtags, hashtagCount);
+    const last = segments.length - 1;
+    segments[last] = appendHashtags(segments[last], hashtags, maxLength, this.platform);
+
+    return segments;
+  }
+
+  /**
+   * ツイート（またはスレッド）を投稿
+   *
+   * スレッドの途中で失敗した場合、再試行すると投稿済みのツイートが重複するため
+   * 再試行不可のエラーとして扱う
+   */
+  async publish(
+    content: OptimizedContent,
+    credentials: PlatformCredentials
+  ): Promise<PlatformPublishResult> {
+    const tweets = this.format(content);
+    const postIds: string[] = [];
+
+    for (const text of tweets) {
+      const replyTo = postIds[postIds.length - 1];
+
+      try {
+        const response = await this.postJson<TweetResponse>(
+          '/tweets',
+          {
+            text,
+            ...(replyTo && { reply: { in_reply_to_tweet_id: replyTo } }),
+          },
+          credentials
+        );
+        postIds.push(response.data.id);
+      } catch (error) {
+        if (postIds.length > 0 && error instanceof PublishError) {
+          throw new PublishError(
+            `Thread partially posted (${postIds.length}/${tweets.length}, first tweet ${postIds[0]}): ${error.message}`,
+            false,
+            error.code,
+            error.statusCode
+          );
+        }
+        throw error;
+      }
+    }
+
+    return { externalPostId: postIds[0], postIds };
+  }
+}
+
+export default TwitterPublisher;
@@ -0,0 +1,233 @@
+/**
+ * Schedule Repository
+ *
+ * 投稿スケジュール（PostSchedule）の作成・取得・編集・削除
+ * 実際の投稿処理は postScheduler の PostDispatcher が担当する
+ */
+
+import type {
+  OptimizedContent as OptimizedContentRecord,
+  PostSchedule as PostScheduleRecord,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizePagination } from './analysisRepository';
+import { toOptimizedContent } from './draftRepository';
+import type {
+  PaginatedResult,
+  PostMode,
+  PostSchedule,
+  ScheduleStatus,
+} from '../types/index';
+
+/**
+ * 下書きを含むスケジュールレコード
+ */
+export type PostScheduleWithContent = PostScheduleRecord & {
+  content: OptimizedContentRecord;
+};
+
+/**
+ * スケジュール一覧の検索条件
+ */
+export interface ScheduleListQuery {
+  status?: ScheduleStatus;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * スケジュール作成パラメータ
+ */
+export interface ScheduleCreateInput {
+  contentId: string;
+  scheduledAt: Date;
+  mode?: PostMode;
+}
+
+/**
+ * スケジュール編集パラメータ（pending のもののみ編集可能）
+ */
+export interface ScheduleUpdateInput {
+  scheduledAt?: Date;
+  mode?: PostMode;
+  status?: Extract<ScheduleStatus, 'cancelled'>;
+}
+
+/**
+ * スケジュール操作のエラー
+ */
+export class ScheduleError extends Error {
+  public readonly code: 'not_found' | 'content_not_found' | 'not_editable';
+
+  constructor(message: string, code: ScheduleError['code']) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.code = code;
+  }
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toPostSchedule(record: PostScheduleWithContent): PostSchedule {
+  return {
+    id: record.id,
+    content: toOptimizedContent(record.content),
+    scheduledAt: record.scheduledAt,
+    mode: record.mode,
+    status: record.status,
+    postedAt: record.postedAt ?? undefined,
+    errorMessage: record.errorMessage ?? undefined,
+    attempts: record.attempts,
+    externalPostId: record.externalPostId ?? undefined,
+  };
+}
+
+/**
+ * スケジュールを作成
+ *
+ * @throws ScheduleError 下書きが存在しない・他ユーザーのものの場合
+ */
+export async function createSchedule(
+  userId: string,
+  input: ScheduleCreateInput
+): Promise<PostSchedule> {
+  const content = await prisma.optimizedContent.findFirst({
+    where: { id: input.contentId, userId },
+  });
+
+  if (!content) {
+    throw new ScheduleError('Content not found', 'content_not_found');
+  }
+
+  const record = await prisma.postSchedule.create({
+    data: {
+      userId,
+      contentId: content.id,
+      scheduledAt: input.scheduledAt,
+      mode: input.mode ?? content.mode,
+    },
+    include: { content: true },
+  });
+
+  return toPostSchedule(record);
+}
+
+/**
+ * ユーザーのスケジュール一覧を取得（投稿予定が近い順）
+ */
+export async function listSchedules(
+  userId: string,
+  query: ScheduleListQuery = {}
+): Promise<PaginatedResult<PostSchedule>> {
+  const { page, limit } = normalizePagination(query.page, query.limit);
+
+  const where = {
+    userId,
+    ...(query.status && { status: query.status }),
+    ...((query.from || query.to) && {
+      scheduledAt: {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      },
+    }),
+  };
+
+  const [records, total] = await Promise.all([
+    prisma.postSchedule.findMany({
+      where,
+      include: { content: true },
+      orderBy: { scheduledAt: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.postSchedule.count({ where }),
+  ]);
+
+  return {
+    items: records.map(toPostSchedule),
+    total,
+    page,
+    limit,
+    hasMore: page * limit < total,
+  };
+}
+
+/**
+ * スケジュールを1件取得（他ユーザーのレコードは null）
+ */
+export async function getSchedule(
+  userId: string,
+  id: string
+): Promise<PostSchedule | null> {
+  const record = await prisma.postSchedule.findFirst({
+    where: { id, userId },
+    include: { content: true },
+  });
+
+  return record ? toPostSchedule(record) : null;
+}
+
+/**
+ * スケジュールを編集（日時変更・モード変更・キャンセル）
+ *
+ * ディスパッチャーが処理中（ロック中）のもの、pending 以外のものは編集できない。
+ *
+ * @throws ScheduleError 存在しない・編集不可の場合
+ */
+export async function updateSchedule(
+  userId: string,
+  id: string,
+  input: ScheduleUpdateInput
+): Promise<PostSchedule> {
+  const result = await prisma.postSchedule.updateMany({
+    where: { id, userId, status: 'pending', lockedAt: null },
+    data: {
+      ...(input.scheduledAt && {
+        scheduledAt: input.scheduledAt,
+        nextAttemptAt: null,
+      }),
+      ...(input.mode && { mode: input.mode }),
+      ...(input.status && { status: input.status }),
+    },
+  });
+
+  if (result.count === 0) {
+    const existing = await prisma.postSchedule.findFirst({ where: { id, userId } });
+    throw existing
+      ? new ScheduleError(
+          `Schedule is ${existing.lockedAt ? 'being dispatched' : existing.status} and cannot be edited`,
+          'not_editable'
+        )
+      : new ScheduleError('Schedule not found', 'not_found');
+  }
+
+  const updated = await getSchedule(userId, id);
+  if (!updated) {
+    throw new ScheduleError('Schedule not found', 'not_found');
+  }
+
+  return updated;
+}
+
+/**
+ * スケジュールを削除
+ *
+ * ディスパッチャーが処理中のものは削除できない。
+ *
+ * @throws ScheduleError 存在しない・処理中の場合
+ */
+export async function deleteSchedule(userId: string, id: string): Promise<void> {
+  const result = await prisma.postSchedule.deleteMany({
+    where: { id, userId, lockedAt: null },
+  });
+
+  if (result.count === 0) {
+    const existing = await prisma.postSchedule.findFirst({ where: { id, userId } });
+    throw existing
+      ? new ScheduleError('Schedule is being dispatched and cannot be deleted', 'not_editable')
+      : new ScheduleError('Schedule not found', 'not_found');
+  }
+}
@@ -57,7 +57,7 @@ export interface ScoreRecommendation {
 }
 
 /**
- * スコア履歴エントリ
+ * スコア履歴エントリ（PlatformScore スナップショットから作成）
  */
 export interface ScoreHistoryEntry {
   date: Date;
@@ -74,7 +74,6 @@ export interface ScoreHistoryEntry {
 export interface ScoreCalculationResult {
   score: PlatformScore;
   recommendations: ScoreRecommendation[];
-  history: ScoreHistoryEntry[];
 }
 
 /**
@@ -447,36 +446,6 @@ function generateRecommendations(
   return recommendations;
 }
 
-/**
- * スコア履歴を生成（デモ用）
- */
-function generateScoreHistory(
-  currentScore: PlatformScore,
-  days: number = 7
-): ScoreHistoryEntry[] {
-  const history: ScoreHistoryEntry[] = [];
-  const now = new Date();
-
-  for (let i = days - 1; i >= 0; i--) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
-
-    // 過去のスコアはやや低めに
-    const variation = (i / days) * 15;
-
-    history.push({
-      date,
-      overallScore: Math.max(0, currentScore.overallScore - variation + Math.random() * 5),
-      engagementScore: Math.max(0, currentScore.engagementScore - variation + Math.random() * 5),
-      consistencyScore: Math.max(0, currentScore.consistencyScore - variation + Math.random() * 5),
-      trendScore: Math.max(0, currentScore.trendScore - variation + Math.random() * 5),
-      communityScore: Math.max(0, currentScore.communityScore - variation + Math.random() * 5),
-    });
-  }
-
-  return history;
-}
-
 /**
  * メイン: プラットフォームスコアを計算
  */
@@ -528,13 +497,9 @@ export function calculatePlatformScore(
     communityResult.score
   );
 
-  // 履歴生成
-  const history = generateScoreHistory(score);
-
   return {
     score,
     recommendations,
-    history,
   };
 }
 
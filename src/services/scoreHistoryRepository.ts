@@ -0,0 +1,222 @@
+/**
+ * Score History Repository
+ *
+ * スコア計算結果を PlatformScore テーブルに1日1件のスナップショットとして保存し、
+ * 期間指定・日次/週次の集約で履歴を取得する
+ */
+
+import type { PlatformScore as PlatformScoreRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { parseJson } from '../lib/serialization';
+import { DEFAULT_METRICS_TIME_ZONE, buildBehaviorData } from './metricsRepository';
+import {
+  calculatePlatformScore,
+  type ScoreHistoryEntry,
+  type UserBehaviorData,
+} from './scoreCalculator';
+import type { Platform, PlatformScore, ScoreFactor } from '../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 取得できる最大期間（日数）
+ */
+export const MAX_HISTORY_DAYS = 366;
+
+/**
+ * 履歴の集約単位
+ */
+export type HistoryGranularity = 'daily' | 'weekly';
+
+/**
+ * 履歴の検索条件
+ */
+export interface ScoreHistoryQuery {
+  from: Date;
+  to: Date;
+  granularity?: HistoryGranularity;
+  timeZone?: string;
+}
+
+/**
+ * 集約済みの履歴エントリ
+ */
+export interface ScoreHistoryPoint extends ScoreHistoryEntry {
+  period: string; // 日次: YYYY-MM-DD / 週次: 週の月曜日の YYYY-MM-DD
+  samples: number; // 集約したスナップショット数
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toPlatformScore(record: PlatformScoreRecord): PlatformScore {
+  return {
+    id: record.id,
+    platform: record.platform,
+    overallScore: record.overallScore,
+    engagementScore: record.engagementScore,
+    consistencyScore: record.consistencyScore,
+    trendScore: record.trendScore,
+    communityScore: record.communityScore,
+    calculatedAt: record.calculatedAt,
+    factors: parseJson<ScoreFactor[]>(record.factors, []),
+  };
+}
+
+/**
+ * スコア計算結果をスナップショットとして保存
+ *
+ * スナップショットはユーザー・プラットフォームごとに1日1件（集計タイムゾーンの日付）。
+ * 同じ日に再計算した場合はその日のスナップショットを上書きする。
+ * 保存後のレコードIDで置き換えた PlatformScore を返す。
+ */
+export async function saveScoreSnapshot(
+  userId: string,
+  score: PlatformScore,
+  behaviorData: UserBehaviorData,
+  timeZone: string = process.env.METRICS_TIME_ZONE || DEFAULT_METRICS_TIME_ZONE
+): Promise<PlatformScore> {
+  const values = {
+    overallScore: score.overallScore,
+    engagementScore: score.engagementScore,
+    consistencyScore: score.consistencyScore,
+    trendScore: score.trendScore,
+    communityScore: score.communityScore,
+    calculatedAt: score.calculatedAt,
+    factors: JSON.stringify(score.factors),
+    behaviorData: JSON.stringify(behaviorData),
+  };
+  const snapshotDate = getLocalDateKey(score.calculatedAt, timeZone);
+
+  const record = await prisma.platformScore.upsert({
+    where: {
+      userId_platform_snapshotDate: { userId, platform: score.platform, snapshotDate },
+    },
+    create: { userId, platform: score.platform, snapshotDate, ...values },
+    update: values,
+  });
+
+  return toPlatformScore(record);
+}
+
+/**
+ * インポート済みの実績からスコアを計算し、その日のスナップショットとして保存
+ */
+export async function recordImportedScore(
+  userId: string,
+  platform: Platform
+): Promise<PlatformScore> {
+  const metrics = await buildBehaviorData(userId, platform);
+  const { score } = calculatePlatformScore(platform, metrics.data);
+
+  return saveScoreSnapshot(userId, score, metrics.data);
+}
+
+/**
+ * 指定タイムゾーンでの日付キー（YYYY-MM-DD）を取得
+ */
+function getLocalDateKey(date: Date, timeZone: string): string {
+  // en-CA は YYYY-MM-DD 形式で出力される
+  return new Intl.DateTimeFormat('en-CA', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone,
+  }).format(date);
+}
+
+/**
+ * 集約単位ごとの期間キーを取得（週は月曜始まり）
+ */
+function getPeriodKey(date: Date, granularity: HistoryGranularity, timeZone: string): string {
+  const dayKey = getLocalDateKey(date, timeZone);
+  if (granularity === 'daily') return dayKey;
+
+  const day = new Date(`${dayKey}T00:00:00Z`);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 小数第1位で丸めた平均
+ */
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * スナップショットを日次/週次に集約
+ *
+ * 各期間のスコアは期間内の平均、date は期間内で最後のスナップショット時刻
+ *
+ * @param snapshots - 古い順に並んだスナップショット
+ */
+export function downsampleHistory(
+  snapshots: ScoreHistoryEntry[],
+  granularity: HistoryGranularity,
+  timeZone: string = DEFAULT_METRICS_TIME_ZONE
+): ScoreHistoryPoint[] {
+  const buckets = new Map<string, ScoreHistoryEntry[]>();
+
+  for (const snapshot of snapshots) {
+    const key = getPeriodKey(snapshot.date, granularity, timeZone);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(snapshot);
+    } else {
+      buckets.set(key, [snapshot]);
+    }
+  }
+
+  return Array.from(buckets.entries()).map(([period, entries]) => ({
+    period,
+    samples: entries.length,
+    date: entries[entries.length - 1].date,
+    overallScore: average(entries.map((e) => e.overallScore)),
+    engagementScore: average(entries.map((e) => e.engagementScore)),
+    consistencyScore: average(entries.map((e) => e.consistencyScore)),
+    trendScore: average(entries.map((e) => e.trendScore)),
+    communityScore: average(entries.map((e) => e.communityScore)),
+  }));
+}
+
+/**
+ * スコア履歴を取得
+ */
+export async function getScoreHistory(
+  userId: string,
+  platform: Platform,
+  query: ScoreHistoryQuery
+): Promise<ScoreHistoryPoint[]> {
+  const records = await prisma.platformScore.findMany({
+    where: {
+      userId,
+      platform,
+      calculatedAt: { gte: query.from, lte: query.to },
+    },
+    orderBy: { calculatedAt: 'asc' },
+    select: {
+      calculatedAt: true,
+      overallScore: true,
+      engagementScore: true,
+      consistencyScore: true,
+      trendScore: true,
+      communityScore: true,
+    },
+  });
+
+  const snapshots: ScoreHistoryEntry[] = records.map((record) => ({
+    date: record.calculatedAt,
+    overallScore: record.overallScore,
+    engagementScore: record.engagementScore,
+    consistencyScore: record.consistencyScore,
+    trendScore: record.trendScore,
+    communityScore: record.communityScore,
+  }));
+
+  return downsampleHistory(
+    snapshots,
+    query.granularity ?? 'daily',
+    query.timeZone || process.env.METRICS_TIME_ZONE || DEFAULT_METRICS_TIME_ZONE
+  );
+}
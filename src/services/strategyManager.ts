@@ -11,6 +11,7 @@ import {
   PostMode,
   PostSchedule,
   Platform,
+  ScheduledStrategy,
 } from '../types/index';
 
 /**
@@ -62,15 +63,112 @@ export const MODE_DESCRIPTIONS = {
   },
 } as const;
 
+/**
+ * 1日の最大コメント数の上限
+ */
+export const MAX_COMMENTS_PER_DAY_LIMIT = 100;
+
+/**
+ * 戦略データのバリデーションエラー
+ */
+export class StrategyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyValidationError';
+  }
+}
+
+/**
+ * 戦略データを検証して EngagementStrategy に変換
+ *
+ * エクスポート/インポートと /api/strategy で共通の形式。
+ * 省略された項目はデフォルト値で補完する（比率の正規化は StrategyManager が行う）。
+ *
+ * @throws StrategyValidationError 形式が不正な場合
+ */
+export function parseStrategy(input: unknown): EngagementStrategy {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new StrategyValidationError('strategy must be an object');
+  }
+
+  const data = input as Record<string, unknown>;
+  const strategy: EngagementStrategy = {
+    ...DEFAULT_STRATEGY,
+    commentStrategy: { ...DEFAULT_STRATEGY.commentStrategy },
+  };
+
+  for (const field of ['impressionRatio', 'expressionRatio'] as const) {
+    const value = data[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new StrategyValidationError(`${field} must be a number between 0 and 1`);
+    }
+    strategy[field] = value;
+  }
+
+  if (strategy.impressionRatio + strategy.expressionRatio === 0) {
+    throw new StrategyValidationError('impressionRatio and expressionRatio cannot both be 0');
+  }
+
+  if (data.weeklyExpressionDays !== undefined) {
+    const days = data.weeklyExpressionDays;
+    if (
+      !Array.isArray(days) ||
+      days.some((day) => typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new StrategyValidationError('weeklyExpressionDays must be an array of days (0-6)');
+    }
+    strategy.weeklyExpressionDays = Array.from(new Set(days as number[])).sort((a, b) => a - b);
+  }
+
+  if (data.commentStrategy !== undefined) {
+    const comment = data.commentStrategy;
+    if (!comment || typeof comment !== 'object' || Array.isArray(comment)) {
+      throw new StrategyValidationError('commentStrategy must be an object');
+    }
+
+    const c = comment as Record<string, unknown>;
+    for (const field of ['enabled', 'targetTrendingPosts', 'avoidNegative'] as const) {
+      if (c[field] === undefined) continue;
+      if (typeof c[field] !== 'boolean') {
+        throw new StrategyValidationError(`commentStrategy.${field} must be a boolean`);
+      }
+      strategy.commentStrategy[field] = c[field] as boolean;
+    }
+
+    if (c.maxCommentsPerDay !== undefined) {
+      const max = c.maxCommentsPerDay;
+      if (
+        typeof max !== 'number' ||
+        !Number.isInteger(max) ||
+        max < 0 ||
+        max > MAX_COMMENTS_PER_DAY_LIMIT
+      ) {
+        throw new StrategyValidationError(
+          `commentStrategy.maxCommentsPerDay must be an integer between 0 and ${MAX_COMMENTS_PER_DAY_LIMIT}`
+        );
+      }
+      strategy.commentStrategy.maxCommentsPerDay = max;
+    }
+  }
+
+  return strategy;
+}
+
 /**
  * 戦略マネージャークラス
  */
 export class StrategyManager {
   private strategy: EngagementStrategy;
+  private scheduledStrategies: ScheduledStrategy[] = [];
 
-  constructor(strategy?: Partial<EngagementStrategy>) {
+  constructor(
+    strategy?: Partial<EngagementStrategy>,
+    scheduledStrategies: ScheduledStrategy[] = []
+  ) {
     this.strategy = { ...DEFAULT_STRATEGY, ...strategy };
     this.normalizeRatios();
+    this.setScheduledStrategies(scheduledStrategies);
   }
 
   /**
@@ -117,6 +215,48 @@ export class StrategyManager {
     };
   }
 
+  /**
+   * 期間指定の戦略を設定
+   */
+  setScheduledStrategies(scheduledStrategies: ScheduledStrategy[]): void {
+    this.scheduledStrategies = [...scheduledStrategies].sort(
+      (a, b) => a.activeFrom.getTime() - b.activeFrom.getTime()
+    );
+  }
+
+  /**
+   * 期間指定の戦略を取得
+   */
+  getScheduledStrategies(): ScheduledStrategy[] {
+    return [...this.scheduledStrategies];
+  }
+
+  /**
+   * 指定した日時に有効な期間指定の戦略を取得
+   *
+   * 期間が重なる場合は開始日時が遅いものを優先
+   */
+  getScheduledStrategyForDate(date: Date = new Date()): ScheduledStrategy | undefined {
+    const time = date.getTime();
+
+    for (let i = this.scheduledStrategies.length - 1; i >= 0; i--) {
+      const scheduled = this.scheduledStrategies[i];
+      if (scheduled.activeFrom.getTime() <= time && time < scheduled.activeUntil.getTime()) {
+        return scheduled;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 指定した日時に有効な戦略を取得（期間外は基本の戦略）
+   */
+  getStrategyForDate(date: Date = new Date()): EngagementStrategy {
+    const scheduled = this.getScheduledStrategyForDate(date);
+    return scheduled ? { ...scheduled.strategy } : this.getStrategy();
+  }
+
   /**
    * 指定した日時に推奨されるモードを取得
    */
@@ -124,7 +264,7 @@ export class StrategyManager {
     const dayOfWeek = date.getDay();
 
     // 自己表現の日として設定されている場合
-    if (this.strategy.weeklyExpressionDays.includes(dayOfWeek)) {
+    if (this.getStrategyForDate(date).weeklyExpressionDays.includes(dayOfWeek)) {
       return 'expression';
     }
 
@@ -133,6 +273,8 @@ export class StrategyManager {
 
   /**
    * 週間スケジュールを生成
+   *
+   * 各日はその日に有効な戦略（期間指定があればそちら）に従う
    */
   generateWeeklySchedule(startDate: Date = new Date()): WeeklyScheduleItem[] {
     const schedule: WeeklyScheduleItem[] = [];
@@ -142,7 +284,9 @@ export class StrategyManager {
       date.setDate(date.getDate() + i);
 
       const dayOfWeek = date.getDay();
-      const isExpressionDay = this.strategy.weeklyExpressionDays.includes(dayOfWeek);
+      const scheduled = this.getScheduledStrategyForDate(date);
+      const strategy = scheduled?.strategy ?? this.strategy;
+      const isExpressionDay = strategy.weeklyExpressionDays.includes(dayOfWeek);
 
       schedule.push({
         date,
@@ -150,6 +294,7 @@ export class StrategyManager {
         dayLabel: DAY_LABELS[dayOfWeek],
         recommendedMode: isExpressionDay ? 'expression' : 'impression',
         isExpressionDay,
+        ...(scheduled && { strategyName: scheduled.name }),
       });
     }
 
@@ -291,15 +436,24 @@ export class StrategyManager {
 
   /**
    * JSONから戦略をインポート
+   *
+   * exportStrategy の出力と同じ形式（parseStrategy で検証）
    */
   importStrategy(json: string): void {
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(json) as EngagementStrategy;
-      this.strategy = { ...DEFAULT_STRATEGY, ...parsed };
-      this.normalizeRatios();
+      parsed = JSON.parse(json);
     } catch {
       throw new Error('無効な戦略データです');
     }
+
+    try {
+      this.strategy = parseStrategy(parsed);
+    } catch (error) {
+      const detail = error instanceof StrategyValidationError ? `: ${error.message}` : '';
+      throw new Error(`無効な戦略データです${detail}`);
+    }
+    this.normalizeRatios();
   }
 }
 
@@ -312,6 +466,7 @@ export interface WeeklyScheduleItem {
   dayLabel: string;
   recommendedMode: PostMode;
   isExpressionDay: boolean;
+  strategyName?: string; // 期間指定の戦略が有効な日のみ
 }
 
 /**
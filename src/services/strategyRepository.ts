@@ -0,0 +1,425 @@
+/**
+ * Strategy Repository
+ *
+ * エンゲージメント戦略（Strategy テーブル）の永続化を担当
+ * - ユーザーごとの有効な戦略の取得・保存
+ * - updatedAt による楽観的ロック（複数端末からの同時編集を検出）
+ * - 名前付きプリセットの管理と期間指定での有効化
+ */
+
+import { Prisma, type Strategy as StrategyRecord } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { parseJson } from '../lib/serialization';
+import { DEFAULT_STRATEGY, parseStrategy } from './strategyManager';
+import type { EngagementStrategy, ScheduledStrategy, StrategyPreset } from '../types/index';
+
+/**
+ * 基本の戦略を新規作成するときの名前
+ */
+export const DEFAULT_STRATEGY_NAME = 'Default Strategy';
+
+/**
+ * 保存済みの戦略
+ */
+export interface StoredStrategy {
+  strategy: EngagementStrategy;
+  updatedAt: Date;
+}
+
+/**
+ * 同時編集の競合エラー
+ *
+ * current にはサーバー上の最新の戦略が入る（未保存の場合は null）
+ */
+export class StrategyConflictError extends Error {
+  public readonly current: StoredStrategy | null;
+
+  constructor(current: StoredStrategy | null) {
+    super('Strategy was updated on another device');
+    this.name = 'StrategyConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * プリセットの作成・編集内容
+ *
+ * activeFrom / activeUntil は両方指定するか、両方 null（期間指定の解除）にする
+ */
+export interface StrategyPresetInput {
+  name?: string;
+  strategy?: EngagementStrategy;
+  activeFrom?: Date | null;
+  activeUntil?: Date | null;
+}
+
+/**
+ * プリセット操作のエラー
+ */
+export class StrategyPresetError extends Error {
+  public readonly code:
+    | 'not_found'
+    | 'duplicate_name'
+    | 'invalid_schedule'
+    | 'overlapping_schedule'
+    | 'active_preset';
+
+  constructor(message: string, code: StrategyPresetError['code']) {
+    super(message);
+    this.name = 'StrategyPresetError';
+    this.code = code;
+  }
+}
+
+/**
+ * DBレコードの戦略カラムを EngagementStrategy に変換
+ *
+ * 保存済みの値が不正な場合はデフォルト値で補完する
+ */
+function toEngagementStrategy(record: StrategyRecord): EngagementStrategy {
+  try {
+    return parseStrategy({
+      impressionRatio: record.impressionRatio,
+      expressionRatio: record.expressionRatio,
+      weeklyExpressionDays: parseJson<unknown>(
+        record.weeklyExpressionDays,
+        DEFAULT_STRATEGY.weeklyExpressionDays
+      ),
+      commentStrategy: {
+        enabled: record.commentEnabled,
+        targetTrendingPosts: record.targetTrendingPosts,
+        maxCommentsPerDay: record.maxCommentsPerDay,
+        avoidNegative: record.avoidNegativeComments,
+      },
+    });
+  } catch {
+    return DEFAULT_STRATEGY;
+  }
+}
+
+/**
+ * DBレコードをドメインモデルに変換
+ */
+export function toStoredStrategy(record: StrategyRecord): StoredStrategy {
+  return { strategy: toEngagementStrategy(record), updatedAt: record.updatedAt };
+}
+
+/**
+ * DBレコードをプリセットに変換
+ */
+export function toStrategyPreset(record: StrategyRecord): StrategyPreset {
+  return {
+    id: record.id,
+    name: record.name,
+    isActive: record.isActive,
+    ...(record.activeFrom && { activeFrom: record.activeFrom }),
+    ...(record.activeUntil && { activeUntil: record.activeUntil }),
+    strategy: toEngagementStrategy(record),
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * 戦略をDBカラムに変換
+ */
+function toStrategyColumns(strategy: EngagementStrategy) {
+  return {
+    impressionRatio: strategy.impressionRatio,
+    expressionRatio: strategy.expressionRatio,
+    weeklyExpressionDays: JSON.stringify(strategy.weeklyExpressionDays),
+    commentEnabled: strategy.commentStrategy.enabled,
+    targetTrendingPosts: strategy.commentStrategy.targetTrendingPosts,
+    maxCommentsPerDay: strategy.commentStrategy.maxCommentsPerDay,
+    avoidNegativeComments: strategy.commentStrategy.avoidNegative,
+  };
+}
+
+/**
+ * 有効な戦略を取得
+ */
+export async function getActiveStrategy(userId: string): Promise<StoredStrategy | null> {
+  const record = await prisma.strategy.findFirst({
+    where: { userId, isActive: true },
+  });
+
+  return record ? toStoredStrategy(record) : null;
+}
+
+/**
+ * 基本の戦略を新規作成するときの名前
+ *
+ * 同じ名前のプリセットがある場合は番号を付けて重複を避ける（"Default Strategy 2" など）
+ */
+async function availableDefaultName(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<string> {
+  const records = await tx.strategy.findMany({
+    where: { userId, name: { startsWith: DEFAULT_STRATEGY_NAME } },
+    select: { name: true },
+  });
+  const taken = new Set(records.map((record) => record.name));
+
+  let name = DEFAULT_STRATEGY_NAME;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${DEFAULT_STRATEGY_NAME} ${n}`;
+  }
+  return name;
+}
+
+/**
+ * 有効な戦略を保存
+ *
+ * baseUpdatedAt にはクライアントが最後に取得した updatedAt を渡す
+ * （サーバーに未保存の状態から編集した場合は null）。
+ * サーバー側がその後に更新されていた場合は上書きせず競合として扱う。
+ *
+ * @throws StrategyConflictError サーバー上の戦略が baseUpdatedAt 以降に更新されていた場合
+ */
+export async function saveActiveStrategy(
+  userId: string,
+  strategy: EngagementStrategy,
+  baseUpdatedAt: Date | null
+): Promise<StoredStrategy> {
+  const columns = toStrategyColumns(strategy);
+
+  if (baseUpdatedAt === null) {
+    try {
+      const created = await prisma.$transaction(async (tx) => {
+        const existing = await tx.strategy.findFirst({ where: { userId, isActive: true } });
+        if (existing) {
+          throw new StrategyConflictError(toStoredStrategy(existing));
+        }
+
+        const name = await availableDefaultName(tx, userId);
+        return tx.strategy.create({
+          data: { ...columns, userId, name, isActive: true, activeUserId: userId },
+        });
+      });
+      return toStoredStrategy(created);
+    } catch (error) {
+      // 別の端末が先に作成していた場合（activeUserId の一意制約）
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const current = await getActiveStrategy(userId);
+        if (current) {
+          throw new StrategyConflictError(current);
+        }
+      }
+      throw error;
+    }
+  }
+
+  const result = await prisma.strategy.updateMany({
+    where: { userId, isActive: true, updatedAt: baseUpdatedAt },
+    data: columns,
+  });
+
+  const current = await getActiveStrategy(userId);
+  if (result.count === 0 || !current) {
+    throw new StrategyConflictError(current);
+  }
+
+  return current;
+}
+
+/**
+ * プリセット一覧を取得（作成順）
+ */
+export async function listStrategyPresets(userId: string): Promise<StrategyPreset[]> {
+  const records = await prisma.strategy.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return records.map(toStrategyPreset);
+}
+
+/**
+ * 指定日時以降に有効な期間指定の戦略を取得
+ */
+export async function getScheduledStrategies(
+  userId: string,
+  from: Date = new Date()
+): Promise<ScheduledStrategy[]> {
+  const records = await prisma.strategy.findMany({
+    where: {
+      userId,
+      activeFrom: { not: null },
+      activeUntil: { gt: from },
+    },
+    orderBy: { activeFrom: 'asc' },
+  });
+
+  return records.map((record) => ({
+    name: record.name,
+    strategy: toEngagementStrategy(record),
+    activeFrom: record.activeFrom as Date,
+    activeUntil: record.activeUntil as Date,
+  }));
+}
+
+/**
+ * 期間指定の検証（他のプリセットと重なる期間は指定できない）
+ *
+ * @throws StrategyPresetError 期間が不正・重複する場合
+ */
+async function assertValidSchedule(
+  userId: string,
+  activeFrom: Date | null,
+  activeUntil: Date | null,
+  excludeId?: string
+): Promise<void> {
+  if (activeFrom === null && activeUntil === null) return;
+
+  if (activeFrom === null || activeUntil === null) {
+    throw new StrategyPresetError(
+      'activeFrom and activeUntil must be set together',
+      'invalid_schedule'
+    );
+  }
+
+  if (activeFrom >= activeUntil) {
+    throw new StrategyPresetError('activeFrom must be earlier than activeUntil', 'invalid_schedule');
+  }
+
+  const overlapping = await prisma.strategy.findFirst({
+    where: {
+      userId,
+      ...(excludeId && { id: { not: excludeId } }),
+      activeFrom: { lt: activeUntil },
+      activeUntil: { gt: activeFrom },
+    },
+    select: { name: true },
+  });
+
+  if (overlapping) {
+    throw new StrategyPresetError(
+      `Schedule overlaps with "${overlapping.name}"`,
+      'overlapping_schedule'
+    );
+  }
+}
+
+/**
+ * 名前の重複エラーを変換
+ */
+function rethrowDuplicateName(error: unknown, name: string | undefined): never {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    throw new StrategyPresetError(`Strategy "${name}" already exists`, 'duplicate_name');
+  }
+  throw error;
+}
+
+/**
+ * プリセットを作成
+ *
+ * 作成したプリセットは基本の戦略にはならない（activateStrategyPreset で切り替える）
+ *
+ * @throws StrategyPresetError 名前・期間が重複する場合
+ */
+export async function createStrategyPreset(
+  userId: string,
+  input: Required<Pick<StrategyPresetInput, 'name' | 'strategy'>> & StrategyPresetInput
+): Promise<StrategyPreset> {
+  const activeFrom = input.activeFrom ?? null;
+  const activeUntil = input.activeUntil ?? null;
+  await assertValidSchedule(userId, activeFrom, activeUntil);
+
+  try {
+    const record = await prisma.strategy.create({
+      data: {
+        ...toStrategyColumns(input.strategy),
+        userId,
+        name: input.name,
+        isActive: false,
+        activeFrom,
+        activeUntil,
+      },
+    });
+    return toStrategyPreset(record);
+  } catch (error) {
+    return rethrowDuplicateName(error, input.name);
+  }
+}
+
+/**
+ * プリセットを編集
+ *
+ * activate を指定すると、編集と基本の戦略への切り替えを1つのトランザクションで行う
+ *
+ * @throws StrategyPresetError 存在しない・名前や期間が重複する場合
+ */
+export async function updateStrategyPreset(
+  userId: string,
+  id: string,
+  input: StrategyPresetInput,
+  options: { activate?: boolean } = {}
+): Promise<StrategyPreset> {
+  const existing = await prisma.strategy.findFirst({ where: { id, userId } });
+  if (!existing) {
+    throw new StrategyPresetError('Strategy not found', 'not_found');
+  }
+
+  const scheduleChanged = input.activeFrom !== undefined || input.activeUntil !== undefined;
+  const activeFrom = input.activeFrom !== undefined ? input.activeFrom : existing.activeFrom;
+  const activeUntil = input.activeUntil !== undefined ? input.activeUntil : existing.activeUntil;
+  if (scheduleChanged) {
+    await assertValidSchedule(userId, activeFrom, activeUntil, id);
+  }
+
+  const data = {
+    ...(input.name !== undefined && { name: input.name }),
+    ...(input.strategy && toStrategyColumns(input.strategy)),
+    ...(scheduleChanged && { activeFrom, activeUntil }),
+    ...(options.activate && { isActive: true, activeUserId: userId }),
+  };
+
+  try {
+    if (!options.activate) {
+      return toStrategyPreset(await prisma.strategy.update({ where: { id }, data }));
+    }
+
+    const [, record] = await prisma.$transaction([
+      prisma.strategy.updateMany({
+        where: { userId, isActive: true, id: { not: id } },
+        data: { isActive: false, activeUserId: null },
+      }),
+      prisma.strategy.update({ where: { id }, data }),
+    ]);
+    return toStrategyPreset(record);
+  } catch (error) {
+    return rethrowDuplicateName(error, input.name);
+  }
+}
+
+/**
+ * プリセットを基本の戦略に切り替え
+ *
+ * @throws StrategyPresetError 存在しない場合
+ */
+export async function activateStrategyPreset(userId: string, id: string): Promise<StrategyPreset> {
+  return updateStrategyPreset(userId, id, {}, { activate: true });
+}
+
+/**
+ * プリセットを削除
+ *
+ * 基本の戦略として使用中のものは削除できない
+ *
+ * @throws StrategyPresetError 存在しない・使用中の場合
+ */
+export async function deleteStrategyPreset(userId: string, id: string): Promise<void> {
+  const existing = await prisma.strategy.findFirst({ where: { id, userId } });
+  if (!existing) {
+    throw new StrategyPresetError('Strategy not found', 'not_found');
+  }
+
+  if (existing.isActive) {
+    throw new StrategyPresetError(
+      'The active strategy cannot be deleted. Activate another strategy first',
+      'active_preset'
+    );
+  }
+
+  await prisma.strategy.delete({ where: { id } });
+}
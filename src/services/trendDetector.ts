@@ -7,13 +7,30 @@
  * 機能:
  * - トレンドトピック検出
  * - ハッシュタグ分析
- * - バズ投稿パターン分析
+ * - バズ投稿パターン分析（保存済み分析が十分あればユーザーのデータから抽出したパターン）
  * - 最適投稿タイミング算出
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import type { TokenUsage, UsageReserver, UsageSettler } from '../lib/claude';
+import {
+  createLlmProvider,
+  isFixtureProviderEnabled,
+  type LlmProvider,
+} from '../lib/llmProvider';
+import { renderPrompt } from '../lib/promptTemplates';
+import {
+  generateStructured,
+  type Schema,
+  type StructuredMessage,
+} from '../lib/structuredOutput';
 import type { Platform } from '../types/index';
 
+/**
+ * トレンド生成に使うモデルと最大出力トークン数
+ */
+const TREND_MODEL = 'claude-sonnet-4-20250514';
+const TREND_MAX_TOKENS = 4000;
+
 /**
  * トレンドトピック
  */
@@ -49,6 +66,53 @@ export type TrendCategory =
  */
 export type TrendSentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
 
+/**
+ * Claude が生成するトレンドトピック
+ */
+interface GeneratedTopic {
+  name: string;
+  category: TrendCategory;
+  volume: number;
+  growthRate: number;
+  sentiment: TrendSentiment;
+  relatedHashtags: string[];
+  peakHour: number;
+  recommendationScore: number;
+}
+
+/**
+ * トレンドトピック生成レスポンスのスキーマ
+ */
+export const TRENDING_TOPICS_SCHEMA: Schema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      category: {
+        type: 'string',
+        enum: [
+          'entertainment',
+          'technology',
+          'lifestyle',
+          'business',
+          'news',
+          'sports',
+          'education',
+          'other',
+        ],
+      },
+      volume: { type: 'number', min: 0 },
+      growthRate: { type: 'number', min: 0, max: 2 },
+      sentiment: { type: 'string', enum: ['positive', 'negative', 'neutral', 'mixed'] },
+      relatedHashtags: { type: 'array', items: { type: 'string', minLength: 1 } },
+      peakHour: { type: 'number', integer: true, min: 0, max: 23 },
+      recommendationScore: { type: 'number', min: 0, max: 100 },
+    },
+  },
+};
+
 /**
  * ハッシュタグ分析結果
  */
@@ -119,6 +183,7 @@ export interface TrendDetectionRequest {
   limit?: number;
   includeHashtags?: boolean;
   includeBuzzPatterns?: boolean;
+  minedPatterns?: BuzzPattern[]; // ユーザーの分析から抽出したパターン（空ならテンプレート）
 }
 
 /**
@@ -128,10 +193,22 @@ export interface TrendDetectionResponse {
   trends: TrendingTopic[];
   recommendedHashtags: HashtagAnalysis[];
   buzzPatterns: BuzzPattern[];
+  buzzPatternSource: BuzzPatternSource;
   optimalTimings: OptimalPostTiming[];
+  source: TrendSource;
   analyzedAt: Date;
 }
 
+/**
+ * トレンドトピックの出所（llm: LLMが生成 / sample: APIキー未設定・生成失敗時のサンプルデータ）
+ */
+export type TrendSource = 'llm' | 'sample';
+
+/**
+ * バズパターンの出所（mined: ユーザーの保存済み分析から抽出 / template: 固定のテンプレート）
+ */
+export type BuzzPatternSource = 'mined' | 'template';
+
 /**
  * コメント戦略推奨
  */
@@ -299,24 +376,74 @@ const BUZZ_PATTERN_TEMPLATES: Record<Platform, BuzzPattern[]> = {
  * Trend Detector Class
  */
 export class TrendDetector {
-  private client: Anthropic | null = null;
-  private apiKey: string | null = null;
+  private provider: LlmProvider | null = null;
   private cachedTrends: Map<string, { data: TrendDetectionResponse; timestamp: number }> = new Map();
   private cacheExpiryMs = 30 * 60 * 1000; // 30分
+  private readonly reserveUsage?: UsageReserver;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || null;
-    if (this.apiKey) {
-      this.client = new Anthropic({ apiKey: this.apiKey });
-    }
+  /**
+   * @param reserveUsage - API呼び出しごとの利用上限の確認と使用量の記録
+   * @param provider - 省略時は設定（LLM_PROVIDER）と apiKey に応じて作成（どちらもなければサンプルデータ）
+   */
+  constructor(apiKey?: string, reserveUsage?: UsageReserver, provider?: LlmProvider) {
+    this.reserveUsage = reserveUsage;
+    this.provider =
+      provider ?? (apiKey || isFixtureProviderEnabled() ? createLlmProvider(apiKey) : null);
   }
 
   /**
    * API Keyを設定
    */
   setApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
-    this.client = new Anthropic({ apiKey });
+    this.provider = createLlmProvider(apiKey);
+  }
+
+  /**
+   * 予約した利用枠を確定（記録の失敗でトレンド検出は失敗させない）
+   */
+  private async settleUsage(settle: UsageSettler, usage: TokenUsage | null): Promise<void> {
+    try {
+      await settle(usage);
+    } catch (error) {
+      console.error('Failed to record Claude usage:', error);
+    }
+  }
+
+  /**
+   * Claude APIにメッセージを送信し、応答テキストを返す
+   */
+  private async sendMessage(messages: StructuredMessage[]): Promise<string> {
+    if (!this.provider) {
+      throw new Error('Claude API key is not configured');
+    }
+
+    const settle = await this.reserveUsage?.({
+      operation: 'trends',
+      model: TREND_MODEL,
+      maxTokens: TREND_MAX_TOKENS,
+    });
+
+    try {
+      const response = await this.provider.complete({
+        operation: 'trends',
+        model: TREND_MODEL,
+        maxTokens: TREND_MAX_TOKENS,
+        messages,
+      });
+
+      if (settle) {
+        await this.settleUsage(settle, {
+          operation: 'trends',
+          model: response.model,
+          ...response.usage,
+        });
+      }
+
+      return response.text;
+    } catch (error) {
+      if (settle) await this.settleUsage(settle, null);
+      throw error;
+    }
   }
 
   /**
@@ -326,25 +453,27 @@ export class TrendDetector {
     const cacheKey = this.getCacheKey(request);
     const cached = this.cachedTrends.get(cacheKey);
 
+    // バズパターンはユーザーごとに変わるため、キャッシュしたトレンドとは別に毎回決める
+    const buzzPatternSource: BuzzPatternSource =
+      request.minedPatterns && request.minedPatterns.length > 0 ? 'mined' : 'template';
+    const buzzPatterns = request.includeBuzzPatterns !== false
+      ? this.getBuzzPatterns(request.platform, request.minedPatterns)
+      : [];
+
     if (cached && Date.now() - cached.timestamp < this.cacheExpiryMs) {
-      return cached.data;
+      return { ...cached.data, buzzPatterns, buzzPatternSource };
     }
 
     const { platform, category, limit = 10 } = request;
 
     // トレンドトピックを生成
-    const trends = await this.generateTrendingTopics(platform, category, limit);
+    const { trends, source } = await this.generateTrendingTopics(platform, category, limit);
 
     // ハッシュタグ分析
     const recommendedHashtags = request.includeHashtags !== false
       ? await this.analyzeHashtags(platform, trends)
       : [];
 
-    // バズパターン
-    const buzzPatterns = request.includeBuzzPatterns !== false
-      ? this.getBuzzPatterns(platform)
-      : [];
-
     // 最適投稿タイミング
     const optimalTimings = this.calculateOptimalTimings(platform);
 
@@ -352,7 +481,9 @@ export class TrendDetector {
       trends,
       recommendedHashtags,
       buzzPatterns,
+      buzzPatternSource,
       optimalTimings,
+      source,
       analyzedAt: new Date(),
     };
 
@@ -368,74 +499,31 @@ export class TrendDetector {
     platform: Platform,
     category?: TrendCategory,
     limit: number = 10
-  ): Promise<TrendingTopic[]> {
-    if (!this.client) {
+  ): Promise<{ trends: TrendingTopic[]; source: TrendSource }> {
+    if (!this.provider) {
       // APIキーがない場合はモックデータを返す
-      return this.getMockTrendingTopics(platform, category, limit);
+      return { trends: this.getMockTrendingTopics(platform, category, limit), source: 'sample' };
     }
 
     const categories = category
       ? [category]
       : PLATFORM_DEFAULT_CATEGORIES[platform];
 
-    const prompt = `
-あなたはSNSトレンド分析の専門家です。
-
-${platform}プラットフォームにおける現在のトレンドトピックを${limit}個生成してください。
-
-【対象カテゴリ】
-${categories.join(', ')}
-
-【出力形式】
-以下のJSON配列形式で回答してください:
-[
-  {
-    "name": "トレンドトピック名",
-    "category": "カテゴリ（entertainment, technology, lifestyle, business, news, sports, education, other）",
-    "volume": 推定投稿数（数値）,
-    "growthRate": 成長率（0-2の数値、1が横ばい）,
-    "sentiment": "センチメント（positive, negative, neutral, mixed）",
-    "relatedHashtags": ["関連ハッシュタグ1", "関連ハッシュタグ2"],
-    "peakHour": ピーク時間（0-23）,
-    "recommendationScore": コメント参加推奨度（0-100）
-  }
-]
-
-重要:
-- 実際にバズりやすいリアルなトピックを生成
-- ${platform}ユーザーが関心を持ちそうな内容
-- コメント戦略に活用できるトピック
-
-JSONのみを返してください。
-`;
+    const prompt = renderPrompt('trending-topics', {
+      platform,
+      limit,
+      categories: categories.join(', '),
+    });
 
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4000,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const responseText =
-        response.content[0].type === 'text' ? response.content[0].text : '';
-
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        return this.getMockTrendingTopics(platform, category, limit);
-      }
-
-      const topicsData = JSON.parse(jsonMatch[0]) as Array<{
-        name: string;
-        category: TrendCategory;
-        volume: number;
-        growthRate: number;
-        sentiment: TrendSentiment;
-        relatedHashtags: string[];
-        peakHour: number;
-        recommendationScore: number;
-      }>;
-
-      return topicsData.map((topic, index) => ({
+      // スキーマに合わない応答は1回だけ修正を依頼し、それでも駄目ならサンプルデータ
+      const topicsData = await generateStructured<GeneratedTopic[]>(
+        (messages) => this.sendMessage(messages),
+        prompt.text,
+        TRENDING_TOPICS_SCHEMA
+      );
+
+      const trends = topicsData.map((topic, index) => ({
         id: `trend-${platform}-${Date.now()}-${index}`,
         name: topic.name,
         platform,
@@ -448,8 +536,10 @@ JSONのみを返してください。
         recommendationScore: topic.recommendationScore,
         detectedAt: new Date(),
       }));
-    } catch {
-      return this.getMockTrendingTopics(platform, category, limit);
+      return { trends, source: 'llm' };
+    } catch (error) {
+      console.error('Trend generation failed, falling back to sample data:', error);
+      return { trends: this.getMockTrendingTopics(platform, category, limit), source: 'sample' };
     }
   }
 
@@ -490,8 +580,13 @@ JSONのみを返してください。
 
   /**
    * バズパターンを取得
+   *
+   * @param minedPatterns - ユーザーの分析から抽出したパターン（あればテンプレートの代わりに使う）
    */
-  getBuzzPatterns(platform: Platform): BuzzPattern[] {
+  getBuzzPatterns(platform: Platform, minedPatterns?: BuzzPattern[]): BuzzPattern[] {
+    if (minedPatterns && minedPatterns.length > 0) {
+      return minedPatterns;
+    }
     return BUZZ_PATTERN_TEMPLATES[platform] || [];
   }
 
@@ -829,6 +924,9 @@ let trendDetectorInstance: TrendDetector | null = null;
 
 /**
  * TrendDetectorのインスタンスを取得
+ *
+ * 共有インスタンスは生成したトレンドのキャッシュも共有し、利用上限の確認・記録はしない。
+ * ユーザーのキーで検出する場合は /api/trends と同様に new TrendDetector(apiKey, reserveUsage) を使う
  */
 export function getTrendDetector(apiKey?: string): TrendDetector {
   if (!trendDetectorInstance) {
@@ -0,0 +1,432 @@
+/**
+ * URL Ingestion Service
+ *
+ * バズ投稿のURLから本文・投稿者・表示されている反応数を取り込む
+ * - Threads / Instagram: 公開ページの OGP メタタグ（Threads はページ内の数値も参照）
+ * - Twitter / X: oEmbed（本文と投稿者のみ。反応数は取得できない）
+ *
+ * 取得は差し替え可能な fetch 経由で行う（テストでは記録したHTMLを返す）。
+ */
+
+import type { BuzzAnalysis, Platform } from '../types/index';
+
+/**
+ * 取得のタイムアウト（ミリ秒）
+ */
+export const DEFAULT_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * X の oEmbed エンドポイント
+ */
+export const TWITTER_OEMBED_URL = 'https://publish.twitter.com/oembed';
+
+/**
+ * 取り込みエラーの種類
+ */
+export type UrlIngestionErrorCode =
+  | 'unsupported_url' // 対応していないURL
+  | 'fetch_failed' // 通信エラー・エラーレスポンス
+  | 'not_found' // 投稿が存在しない・非公開
+  | 'no_content'; // ページから本文を取り出せない（ログイン必須など）
+
+/**
+ * URL取り込みエラー
+ */
+export class UrlIngestionError extends Error {
+  public readonly code: UrlIngestionErrorCode;
+
+  constructor(message: string, code: UrlIngestionErrorCode) {
+    super(message);
+    this.name = 'UrlIngestionError';
+    this.code = code;
+  }
+}
+
+/**
+ * 投稿URLの解析結果
+ */
+export interface PostUrl {
+  platform: Platform;
+  url: string; // 正規化したURL（クエリ・フラグメントを除く）
+  postId: string;
+  username?: string;
+}
+
+/**
+ * ページに表示されている反応数（取得できたものだけ）
+ */
+export interface PostMetrics {
+  views?: number;
+  likes?: number;
+  comments?: number;
+  reposts?: number;
+}
+
+/**
+ * 取り込んだ投稿
+ */
+export interface IngestedPost {
+  platform: Platform;
+  url: string;
+  text: string;
+  author?: string;
+  metrics: PostMetrics;
+}
+
+/**
+ * 取り込み設定
+ */
+export interface UrlIngestorConfig {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const THREADS_HOSTS = ['threads.net', 'threads.com'];
+const INSTAGRAM_HOSTS = ['instagram.com'];
+const TWITTER_HOSTS = ['twitter.com', 'x.com', 'mobile.twitter.com', 'mobile.x.com'];
+
+/**
+ * ホスト名から www. を除く
+ */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * 投稿URLを解析（対応していないURLは null）
+ *
+ * - Threads: /@{username}/post/{code}
+ * - Instagram: /p/{code}, /reel/{code}（/{username}/p/{code} も可）
+ * - Twitter / X: /{username}/status/{id}
+ */
+export function parsePostUrl(value: string): PostUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+  const host = normalizeHost(parsed.hostname);
+  const segments = parsed.pathname.split('/').filter(Boolean);
+
+  if (THREADS_HOSTS.includes(host)) {
+    const [user, kind, code] = segments;
+    if (!user?.startsWith('@') || kind !== 'post' || !code) return null;
+    const username = user.slice(1);
+    return {
+      platform: 'threads',
+      url: `https://www.threads.net/@${username}/post/${code}`,
+      postId: code,
+      username,
+    };
+  }
+
+  if (INSTAGRAM_HOSTS.includes(host)) {
+    const index = segments.findIndex((segment) => segment === 'p' || segment === 'reel');
+    const code = index >= 0 ? segments[index + 1] : undefined;
+    if (!code) return null;
+    return {
+      platform: 'instagram',
+      url: `https://www.instagram.com/${segments[index]}/${code}/`,
+      postId: code,
+      ...(index === 1 && { username: segments[0] }),
+    };
+  }
+
+  if (TWITTER_HOSTS.includes(host)) {
+    const [username, kind, id] = segments;
+    if (!username || kind !== 'status' || !id || !/^\d+$/.test(id)) return null;
+    return {
+      platform: 'twitter',
+      url: `https://x.com/${username}/status/${id}`,
+      postId: id,
+      username,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 表示用の数値をパース（"1,234" "1.2K" "3.4M" "1.2万" "5億"）
+ */
+export function parseCount(value: string): number | undefined {
+  const match = value.trim().match(/^([\d,.]+)\s*([KkMmBb万億]?)$/);
+  if (!match) return undefined;
+
+  const base = Number(match[1].replace(/,/g, ''));
+  if (!Number.isFinite(base)) return undefined;
+
+  const multipliers: Record<string, number> = {
+    k: 1e3,
+    m: 1e6,
+    b: 1e9,
+    万: 1e4,
+    億: 1e8,
+  };
+  const unit = match[2].toLowerCase();
+
+  return Math.round(base * (unit ? multipliers[unit] : 1));
+}
+
+/**
+ * HTMLエンティティを戻す
+ */
+export function decodeHtmlEntities(value: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    mdash: '—',
+  };
+
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code =
+        body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      // コードポイントの範囲外（&#x110000; など）は変換せずに残す
+      return Number.isInteger(code) && code >= 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : entity;
+    }
+    return named[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * HTMLから meta タグ（property / name → content）を取り出す
+ */
+export function extractMetaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, quoted, single] of tag.matchAll(
+      /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+    )) {
+      attributes[name.toLowerCase()] = quoted ?? single;
+    }
+
+    const key = attributes.property ?? attributes.name;
+    if (key && attributes.content !== undefined && !(key in tags)) {
+      tags[key] = decodeHtmlEntities(attributes.content);
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * ページ内のJSONから最初に現れる数値フィールドを取り出す
+ */
+function findJsonCount(html: string, field: string): number | undefined {
+  const match = html.match(new RegExp(`"${field}"\\s*:\\s*(\\d+)`));
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Threads の投稿ページから本文・投稿者・反応数を取り出す
+ *
+ * og:description が本文、og:title が「表示名 (@username) on Threads」。
+ * 反応数はページに埋め込まれた投稿データ（like_count など）から読む。
+ */
+export function extractThreadsPost(html: string, postUrl: PostUrl): IngestedPost {
+  const meta = extractMetaTags(html);
+  const text = (meta['og:description'] ?? '').trim();
+  const author = meta['og:title']?.match(/\(@([\w.]+)\)/)?.[1] ?? postUrl.username;
+
+  return {
+    platform: 'threads',
+    url: postUrl.url,
+    text,
+    ...(author && { author }),
+    metrics: {
+      likes: findJsonCount(html, 'like_count'),
+      comments: findJsonCount(html, 'direct_reply_count'),
+      reposts: findJsonCount(html, 'repost_count'),
+    },
+  };
+}
+
+/**
+ * Instagram の投稿ページから本文・投稿者・反応数を取り出す
+ *
+ * og:description は次の形式:
+ * - 英語: `1,234 likes, 56 comments - username on March 1, 2026: "本文"`
+ * - 日本語: `いいね！1,234件、コメント56件 - username、2026年3月1日: "本文"`
+ */
+export function extractInstagramPost(html: string, postUrl: PostUrl): IngestedPost {
+  const description = extractMetaTags(html)['og:description'] ?? '';
+  const caption = description.match(/:\s*["“]([\s\S]*)["”]\s*\.?\s*$/)?.[1] ?? '';
+  const header = description.split(/\s+-\s+/)[0] ?? '';
+
+  const likes =
+    header.match(/([\d,.]+[KkMm万]?)\s+likes?/)?.[1] ?? header.match(/いいね！?([\d,.]+[万]?)件/)?.[1];
+  const comments =
+    header.match(/([\d,.]+[KkMm万]?)\s+comments?/)?.[1] ?? header.match(/コメント([\d,.]+[万]?)件/)?.[1];
+  const author =
+    description.match(/\s-\s+([\w.]+)(?:\s+on\s|、)/)?.[1] ?? postUrl.username;
+
+  return {
+    platform: 'instagram',
+    url: postUrl.url,
+    text: caption.trim(),
+    ...(author && { author }),
+    metrics: {
+      likes: likes ? parseCount(likes) : undefined,
+      comments: comments ? parseCount(comments) : undefined,
+    },
+  };
+}
+
+/**
+ * X の oEmbed レスポンス
+ */
+interface TwitterOEmbed {
+  html?: string;
+  author_url?: string;
+}
+
+/**
+ * X の oEmbed レスポンスから本文・投稿者を取り出す
+ *
+ * 本文は埋め込みHTMLの <p> 要素。oEmbed には反応数が含まれない。
+ */
+export function extractTwitterPost(oembed: TwitterOEmbed, postUrl: PostUrl): IngestedPost {
+  const paragraph = oembed.html?.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1] ?? '';
+  const text = decodeHtmlEntities(
+    paragraph.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')
+  ).trim();
+  const author = oembed.author_url?.split('/').filter(Boolean).pop() ?? postUrl.username;
+
+  return {
+    platform: 'twitter',
+    url: postUrl.url,
+    text,
+    ...(author && { author }),
+    metrics: {},
+  };
+}
+
+/**
+ * 反応数を分析結果に反映する
+ *
+ * - 閲覧数が表示されていればインプレッションに使い、
+ *   いいね・コメント・リポストの合計を閲覧数で割ってエンゲージメント率（%）にする
+ * - 閲覧数がない場合（Threads / Instagram は常に）は、推定のインプレッションで割った値を
+ *   実績として扱わないよう、インプレッション・エンゲージメント率とも Claude の推定値のまま
+ * - 閲覧数を反映した場合は metricsSource を observed にする
+ */
+export function applyPostMetrics(analysis: BuzzAnalysis, metrics: PostMetrics): BuzzAnalysis {
+  if (metrics.views === undefined) return analysis;
+
+  const impressions = metrics.views;
+  const counts = [metrics.likes, metrics.comments, metrics.reposts].filter(
+    (count): count is number => count !== undefined
+  );
+
+  const engagement =
+    counts.length > 0 && impressions > 0
+      ? Math.min(100, (counts.reduce((sum, count) => sum + count, 0) / impressions) * 100)
+      : analysis.engagement;
+
+  return { ...analysis, impressions, engagement, metricsSource: 'observed' };
+}
+
+/**
+ * 投稿URLの取り込み
+ */
+export class UrlIngestor {
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(config: UrlIngestorConfig = {}) {
+    this.fetchImpl = config.fetch || ((...args) => fetch(...args));
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+  }
+
+  /**
+   * URLの投稿を取得して本文・投稿者・反応数を取り出す
+   *
+   * @throws UrlIngestionError 対応していないURL・取得失敗・本文が取り出せない場合
+   */
+  async ingest(url: string): Promise<IngestedPost> {
+    const postUrl = parsePostUrl(url);
+    if (!postUrl) {
+      throw new UrlIngestionError(
+        'URL must be a Threads, Instagram or X (Twitter) post URL',
+        'unsupported_url'
+      );
+    }
+
+    let post: IngestedPost;
+    if (postUrl.platform === 'twitter') {
+      const params = new URLSearchParams({ url: postUrl.url, omit_script: 'true' });
+      const body = await this.fetchText(`${TWITTER_OEMBED_URL}?${params}`, 'application/json');
+      let oembed: TwitterOEmbed;
+      try {
+        oembed = JSON.parse(body);
+      } catch {
+        throw new UrlIngestionError('Invalid oEmbed response from X', 'fetch_failed');
+      }
+      post = extractTwitterPost(oembed, postUrl);
+    } else {
+      const html = await this.fetchText(postUrl.url, 'text/html');
+      post =
+        postUrl.platform === 'threads'
+          ? extractThreadsPost(html, postUrl)
+          : extractInstagramPost(html, postUrl);
+    }
+
+    if (!post.text) {
+      throw new UrlIngestionError(
+        `Could not find the post text at ${postUrl.url} (it may require login)`,
+        'no_content'
+      );
+    }
+
+    return post;
+  }
+
+  /**
+   * URLを取得して本文を返す
+   */
+  private async fetchText(url: string, accept: string): Promise<string> {
+    let response: Response;
+
+    try {
+      response = await this.fetchImpl(url, {
+        headers: {
+          Accept: accept,
+          'User-Agent': 'Mozilla/5.0 (compatible; sns-engagement-app)',
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new UrlIngestionError(
+        `Failed to fetch ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'fetch_failed'
+      );
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      throw new UrlIngestionError('Post not found or not public', 'not_found');
+    }
+
+    if (!response.ok) {
+      throw new UrlIngestionError(
+        `Failed to fetch ${url}: HTTP ${response.status}`,
+        'fetch_failed'
+      );
+    }
+
+    return response.text();
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * Usage Repository
+ *
+ * Claude API の利用記録（ClaudeUsage テーブル）と月間予算を担当
+ * - API呼び出しごとにユーザー・機能・モデル・トークン数・推定コストを記録
+ * - ユーザーごとの月間予算（トークン数 / コスト）と1分あたりの呼び出し回数を DB の記録で判定
+ *   （複数インスタンスで動かしても同じ上限になる）
+ * - 呼び出しの前に記録を予約として作ってから判定するため、同時に来た呼び出しも上限を超えない
+ */
+
+import { prisma } from '../lib/prisma';
+import type {
+  ClaudeOperation,
+  TokenUsage,
+  UsageRequest,
+  UsageReserver,
+  UsageSettler,
+} from '../lib/claude';
+import type { ApiKeySource } from './apiKeyRepository';
+
+/**
+ * 100万トークンあたりの単価（USD）
+ */
+interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * モデル名の接頭辞ごとの単価（一致しないモデルは Sonnet の単価で見積もる）
+ */
+const MODEL_PRICING: Array<[prefix: string, pricing: ModelPricing]> = [
+  ['claude-opus', { inputPerMillion: 15, outputPerMillion: 75 }],
+  ['claude-sonnet', { inputPerMillion: 3, outputPerMillion: 15 }],
+  ['claude-3-5-haiku', { inputPerMillion: 0.8, outputPerMillion: 4 }],
+  ['claude-haiku', { inputPerMillion: 0.8, outputPerMillion: 4 }],
+  ['fixture', { inputPerMillion: 0, outputPerMillion: 0 }], // LLM_PROVIDER=fixture の再生
+];
+
+const DEFAULT_PRICING: ModelPricing = { inputPerMillion: 3, outputPerMillion: 15 };
+
+/**
+ * 1分あたりの呼び出し回数の上限（API_RATE_LIMIT 未設定時）
+ */
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+const OPERATIONS: ClaudeOperation[] = ['analyze', 'optimize', 'score', 'trends'];
+
+/**
+ * 月間予算（null = 上限なし）
+ */
+export interface UsageBudget {
+  tokens: number | null;
+  costUsd: number | null;
+}
+
+/**
+ * 利用量の集計
+ */
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * 今月の利用状況
+ */
+export interface MonthlyUsage {
+  periodStart: Date;
+  periodEnd: Date; // 翌月1日（この日時を含まない）
+  totals: UsageTotals;
+  byOperation: Record<ClaudeOperation, UsageTotals>;
+  budget: UsageBudget; // ユーザーが設定した予算
+  serverBudget: UsageBudget; // サーバーのキー使用時に適用される予算
+}
+
+/**
+ * 利用上限のエラー
+ *
+ * rate_limited は 429、予算超過は 402 として返す
+ */
+export class UsageLimitError extends Error {
+  public readonly code: 'rate_limited' | 'token_budget_exceeded' | 'cost_budget_exceeded';
+  public readonly retryAfter?: number; // ミリ秒
+  public readonly statusCode: number;
+
+  constructor(message: string, code: UsageLimitError['code'], retryAfter?: number) {
+    super(message);
+    this.name = 'UsageLimitError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+    this.statusCode = code === 'rate_limited' ? 429 : 402;
+  }
+}
+
+/**
+ * 利用上限エラーのレスポンス設定（ステータスコードと、429 の場合は必ず Retry-After）
+ */
+export function usageLimitResponseInit(error: UsageLimitError): {
+  status: number;
+  headers?: Record<string, string>;
+} {
+  if (error.statusCode !== 429) {
+    return { status: error.statusCode };
+  }
+
+  const seconds = Math.max(1, Math.ceil((error.retryAfter ?? RATE_LIMIT_WINDOW_MS) / 1000));
+  return { status: 429, headers: { 'Retry-After': String(seconds) } };
+}
+
+/**
+ * 環境変数から数値の上限を取得（未設定・不正な値は null）
+ */
+function readLimitFromEnv(name: string): number | null {
+  const value = process.env[name];
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * サーバーのキー使用時の月間予算（MONTHLY_TOKEN_BUDGET / MONTHLY_COST_BUDGET_USD）
+ */
+export function getServerBudget(): UsageBudget {
+  return {
+    tokens: readLimitFromEnv('MONTHLY_TOKEN_BUDGET'),
+    costUsd: readLimitFromEnv('MONTHLY_COST_BUDGET_USD'),
+  };
+}
+
+/**
+ * 1分あたりの呼び出し回数の上限（API_RATE_LIMIT）
+ */
+function getRateLimitPerMinute(): number {
+  return readLimitFromEnv('API_RATE_LIMIT') ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+}
+
+/**
+ * トークン数から推定コスト（USD）を計算
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing =
+    MODEL_PRICING.find(([prefix]) => model.startsWith(prefix))?.[1] ?? DEFAULT_PRICING;
+
+  return (
+    (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000
+  );
+}
+
+/**
+ * 集計期間（UTCの暦月）を取得
+ */
+export function getBillingPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * ClaudeClient / TrendDetector に渡す利用枠の予約を作成
+ */
+export function createUsageReserver(
+  userId: string,
+  keySource: ApiKeySource
+): UsageReserver {
+  return (request) => reserveUsage(userId, keySource, request);
+}
+
+/**
+ * 空の集計
+ */
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * 今月の利用状況を取得
+ */
+export async function getMonthlyUsage(userId: string, now: Date = new Date()): Promise<MonthlyUsage> {
+  const { start, end } = getBillingPeriod(now);
+
+  const [groups, user] = await Promise.all([
+    prisma.claudeUsage.groupBy({
+      by: ['operation'],
+      where: { userId, createdAt: { gte: start, lt: end } },
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+    }),
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { monthlyTokenBudget: true, monthlyCostBudgetUsd: true },
+    }),
+  ]);
+
+  const byOperation = Object.fromEntries(
+    OPERATIONS.map((operation) => [operation, emptyTotals()])
+  ) as Record<ClaudeOperation, UsageTotals>;
+  const totals = emptyTotals();
+
+  for (const group of groups) {
+    const inputTokens = group._sum.inputTokens ?? 0;
+    const outputTokens = group._sum.outputTokens ?? 0;
+    const entry: UsageTotals = {
+      requests: group._count._all,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      costUsd: group._sum.costUsd ?? 0,
+    };
+
+    byOperation[group.operation] = entry;
+    totals.requests += entry.requests;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.costUsd += entry.costUsd;
+  }
+
+  return {
+    periodStart: start,
+    periodEnd: end,
+    totals,
+    byOperation,
+    budget: {
+      tokens: user?.monthlyTokenBudget ?? null,
+      costUsd: user?.monthlyCostBudgetUsd ?? null,
+    },
+    serverBudget: getServerBudget(),
+  };
+}
+
+/**
+ * ユーザーの月間予算を設定（null で上限なし）
+ */
+export async function setMonthlyBudget(
+  userId: string,
+  budget: Partial<UsageBudget>
+): Promise<MonthlyUsage> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      ...(budget.tokens !== undefined && { monthlyTokenBudget: budget.tokens }),
+      ...(budget.costUsd !== undefined && { monthlyCostBudgetUsd: budget.costUsd }),
+    },
+  });
+
+  return getMonthlyUsage(userId);
+}
+
+/**
+ * 予算の超過を判定
+ *
+ * @throws UsageLimitError いずれかの上限に達している場合
+ */
+function assertBudget(totals: UsageTotals, budget: UsageBudget, label: string): void {
+  if (budget.tokens !== null && totals.totalTokens >= budget.tokens) {
+    throw new UsageLimitError(
+      `${label} monthly token budget (${budget.tokens} tokens) has been reached`,
+      'token_budget_exceeded'
+    );
+  }
+
+  if (budget.costUsd !== null && totals.costUsd >= budget.costUsd) {
+    throw new UsageLimitError(
+      `${label} monthly cost budget ($${budget.costUsd}) has been reached`,
+      'cost_budget_exceeded'
+    );
+  }
+}
+
+/**
+ * 予約中の記録（判定から除く自分の予約）
+ */
+interface UsageReservation {
+  id: string;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * 上限の判定（reservation を渡した場合はその予約を除いた利用量で判定）
+ */
+async function checkUsageLimits(
+  userId: string,
+  keySource: ApiKeySource,
+  now: Date,
+  reservation?: UsageReservation
+): Promise<void> {
+  const windowStart = new Date(now.getTime() - RATE_LIMIT_WINDOW_MS);
+  const recent = (
+    await prisma.claudeUsage.findMany({
+      where: { userId, createdAt: { gt: windowStart } },
+      select: { id: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    })
+  ).filter((record) => !reservation || record.id !== reservation.id);
+
+  const limit = getRateLimitPerMinute();
+  if (recent.length >= limit) {
+    // 最も古い記録が1分の枠から外れるまで待つ
+    const oldest = recent[recent.length - limit].createdAt.getTime();
+    const retryAfter = Math.max(0, oldest + RATE_LIMIT_WINDOW_MS - now.getTime());
+    throw new UsageLimitError(
+      `Too many AI requests. Please wait ${Math.ceil(retryAfter / 1000)} seconds.`,
+      'rate_limited',
+      retryAfter
+    );
+  }
+
+  const usage = await getMonthlyUsage(userId, now);
+  const totals: UsageTotals = reservation
+    ? {
+        ...usage.totals,
+        totalTokens: usage.totals.totalTokens - reservation.totalTokens,
+        costUsd: usage.totals.costUsd - reservation.costUsd,
+      }
+    : usage.totals;
+
+  assertBudget(totals, usage.budget, 'Your');
+  if (keySource === 'server') {
+    assertBudget(totals, usage.serverBudget, 'The shared');
+  }
+}
+
+/**
+ * Claude API を呼び出してよいか判定（予約はしない）
+ *
+ * - 直近1分の呼び出し回数（予約中を含む）が API_RATE_LIMIT 以上なら rate_limited
+ * - 今月の利用量（予約中の見積もりを含む）がユーザーの予算以上なら予算超過
+ * - サーバーのキーを使う場合はサーバーの予算も適用
+ *
+ * 処理を始める前の確認に使い、実際の呼び出しごとの判定は reserveUsage で行う
+ *
+ * @throws UsageLimitError 上限に達している場合
+ */
+export async function assertWithinUsageLimits(
+  userId: string,
+  keySource: ApiKeySource,
+  now: Date = new Date()
+): Promise<void> {
+  await checkUsageLimits(userId, keySource, now);
+}
+
+/**
+ * 1回の呼び出しの利用枠を予約
+ *
+ * 最大出力トークン数で見積もった記録（pending）を先に作ってから上限を判定する。
+ * 同時に来た呼び出しは後から判定した側が先の予約も数えるため、上限を超えて通ることはない
+ * （取り合いになった場合は多めに断る側に倒れる）。
+ * 返した関数で呼び出し後に実際の使用量へ更新し、失敗した場合は予約を取り消す。
+ *
+ * @throws UsageLimitError 上限に達している場合（予約は取り消す）
+ */
+export async function reserveUsage(
+  userId: string,
+  keySource: ApiKeySource,
+  request: UsageRequest,
+  now: Date = new Date()
+): Promise<UsageSettler> {
+  const costUsd = estimateCostUsd(request.model, 0, request.maxTokens);
+  const record = await prisma.claudeUsage.create({
+    data: {
+      userId,
+      operation: request.operation,
+      model: request.model,
+      inputTokens: 0,
+      outputTokens: request.maxTokens,
+      costUsd,
+      keySource,
+      pending: true,
+      createdAt: now,
+    },
+    select: { id: true },
+  });
+
+  try {
+    await checkUsageLimits(userId, keySource, now, {
+      id: record.id,
+      totalTokens: request.maxTokens,
+      costUsd,
+    });
+  } catch (error) {
+    await prisma.claudeUsage.delete({ where: { id: record.id } });
+    throw error;
+  }
+
+  return async (usage: TokenUsage | null) => {
+    if (!usage) {
+      await prisma.claudeUsage.delete({ where: { id: record.id } });
+      return;
+    }
+
+    await prisma.claudeUsage.update({
+      where: { id: record.id },
+      data: {
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: estimateCostUsd(usage.model, usage.inputTokens, usage.outputTokens),
+        pending: false,
+      },
+    });
+  };
+}
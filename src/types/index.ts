@@ -5,6 +5,45 @@
  */
 export type PostMode = 'impression' | 'expression';
 
+/**
+ * 出力形式
+ * - thread: 複数の投稿をつなげるスレッド形式（X / Threads）
+ * - carousel / reels: カルーセルのスライド構成・リールの台本（Instagram）
+ */
+export type ContentFormat = 'single' | 'thread' | InstagramVisualFormat;
+
+/**
+ * Instagram のビジュアル形式
+ */
+export type InstagramVisualFormat = 'carousel' | 'reels';
+
+/**
+ * カルーセルの1枚
+ */
+export interface CarouselSlide {
+  title: string;
+  body: string;
+  visual: string; // デザイナー向けのビジュアル指示
+}
+
+/**
+ * リールの1場面（秒単位）
+ */
+export interface ReelsBeat {
+  start: number;
+  end: number;
+  onScreenText: string; // 画面に表示するテキスト
+  narration: string; // 話す内容
+  visual: string; // 撮影・編集の指示
+}
+
+/**
+ * Instagram のビジュアル構成（キャプションは OptimizedContent.content）
+ */
+export type InstagramVisualPlan =
+  | { format: 'carousel'; slides: CarouselSlide[] }
+  | { format: 'reels'; durationSeconds: number; beats: ReelsBeat[] };
+
 /**
  * SNSプラットフォーム
  */
@@ -13,15 +52,25 @@ export type Platform = 'threads' | 'instagram' | 'twitter';
 /**
  * バズコンテンツの分析結果
  */
+/**
+ * 反応数の出どころ
+ * - observed: 投稿ページに表示された閲覧数、またはアップロードしたファイルのインプレッション
+ * - estimated: Claude の推定値
+ */
+export type MetricsSource = 'observed' | 'estimated';
+
 export interface BuzzAnalysis {
   id: string;
   platform: Platform;
   originalUrl: string;
+  author?: string;        // 投稿者（URLから取り込んだ場合）
   impressions: number;
   engagement: number;
+  metricsSource?: MetricsSource; // 省略時は estimated
   transcript: string;
   keyPoints: string[];
   structure: ContentStructure;
+  promptVersion?: string; // 生成に使ったプロンプトテンプレート（例: "analysis@1"）
   analyzedAt: Date;
 }
 
@@ -35,6 +84,36 @@ export interface ContentStructure {
   emotionalTriggers: string[];
 }
 
+/**
+ * コンテンツのルール違反の種類
+ */
+export type ComplianceViolationCode =
+  | 'too_long'
+  | 'too_many_hashtags'
+  | 'hashtag_in_content'
+  | 'banned_phrase'
+  | 'hashtags_do_not_fit';
+
+/**
+ * 違反（error は投稿前に直すべきもの、warning は投稿時に自動で調整されるもの）
+ */
+export interface ComplianceViolation {
+  code: ComplianceViolationCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * コンテンツのルール検証結果（lib/compliance）
+ */
+export interface ComplianceReport {
+  compliant: boolean; // error の違反がない
+  characterCount: number; // 本文の文字数（プラットフォームの数え方。スレッドは最も長い投稿）
+  maxLength: number;
+  segmentCharacterCounts?: number[]; // スレッドの場合の投稿ごとの文字数
+  violations: ComplianceViolation[];
+}
+
 /**
  * 最適化されたコンテンツ
  */
@@ -42,14 +121,24 @@ export interface OptimizedContent {
   id: string;
   originalAnalysisId: string;
   targetPlatform: Platform;
-  content: string;
+  content: string; // スレッドの場合は各投稿を空行でつないだ全文
+  segments?: string[]; // スレッド形式の各投稿（順番どおり、番号付けを含む）
+  visualPlan?: InstagramVisualPlan; // Instagram のカルーセル・リールの構成
   hashtags: string[];
   bestPostTime: Date;
   expectedImpressions: number;
   mode: PostMode;
+  promptVersion?: string; // 生成に使ったプロンプトテンプレート（例: "optimization@1"）
+  voiceMatchScore?: number; // ブランドボイスとの一致度（0-100、ブランドボイス登録時のみ）
+  compliance?: ComplianceReport; // 生成時のルール検証結果（保存はしない）
   createdAt: Date;
 }
 
+/**
+ * 投稿スケジュールのステータス
+ */
+export type ScheduleStatus = 'pending' | 'posted' | 'failed' | 'cancelled';
+
 /**
  * 投稿スケジュール
  */
@@ -58,7 +147,11 @@ export interface PostSchedule {
   content: OptimizedContent;
   scheduledAt: Date;
   mode: PostMode;
-  status: 'pending' | 'posted' | 'failed';
+  status: ScheduleStatus;
+  postedAt?: Date;
+  errorMessage?: string;
+  attempts?: number;
+  externalPostId?: string;
 }
 
 /**
@@ -71,6 +164,30 @@ export interface EngagementStrategy {
   commentStrategy: CommentStrategy;
 }
 
+/**
+ * 期間を指定して有効化する戦略
+ */
+export interface ScheduledStrategy {
+  name: string;
+  strategy: EngagementStrategy;
+  activeFrom: Date;
+  activeUntil: Date;  // この日時は含まない
+}
+
+/**
+ * 名前付きの戦略プリセット
+ * isActive のプリセットが基本の戦略、期間指定のあるプリセットはその期間だけ優先される
+ */
+export interface StrategyPreset {
+  id: string;
+  name: string;
+  isActive: boolean;
+  activeFrom?: Date;
+  activeUntil?: Date;  // この日時は含まない
+  strategy: EngagementStrategy;
+  updatedAt: Date;
+}
+
 /**
  * コメント戦略
  */
@@ -106,6 +223,34 @@ export interface ScoreFactor {
   description: string;
 }
 
+/**
+ * エンゲージメント実績の種類
+ */
+export type EngagementEventType =
+  | 'like_given'
+  | 'comment_given'
+  | 'share_given'
+  | 'reply_received'
+  | 'post_published'
+  | 'trending_hashtag_used'
+  | 'trending_topic_engaged'
+  | 'early_trend_engaged'
+  | 'follower_gained'
+  | 'mention_received'
+  | 'saved_by_others'
+  | 'profile_visit';
+
+/**
+ * エンゲージメント実績（各SNSのアナリティクスからインポート）
+ */
+export interface EngagementEvent {
+  platform: Platform;
+  type: EngagementEventType;
+  count: number;
+  occurredAt: Date;
+  externalId?: string;
+}
+
 /**
  * ユーザー設定
  */
@@ -155,3 +300,14 @@ export interface AnalysisResponse<T> {
   error?: string;
   processingTime: number;
 }
+
+/**
+ * ページネーション付き一覧レスポンス
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}